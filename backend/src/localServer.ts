@@ -0,0 +1,162 @@
+/**
+ * Local Ingest Server
+ *
+ * Standalone stand-in for api.observa.ai for development and CI. Implements
+ * POST /api/v1/events/ingest with the production batch validation
+ * (eventIngestion.ts), validates JWTs with a local secret and stores events
+ * in a JSONL file instead of Tinybird. It never loads the Tinybird writer or
+ * the tenant and token services.
+ *
+ *   npx tsx backend/src/localServer.ts
+ *
+ * then point the SDK at it: OBSERVA_API_URL=http://localhost:3001 (or
+ * init({ apiUrl })) with the printed API key as apiKey.
+ *
+ * Environment:
+ *   PORT                      (default 3001)
+ *   OBSERVA_LOCAL_STORE       JSONL file (default .observa/events.jsonl)
+ *   OBSERVA_LOCAL_JWT_SECRET  HS256 secret for API keys
+ *   OBSERVA_LOCAL_TENANT_ID / OBSERVA_LOCAL_PROJECT_ID  for the printed key
+ */
+
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { BatchIngestResult, ingestEvents } from "./services/eventIngestion.js";
+import { JsonlEventStore } from "./services/localEventStore.js";
+import { LocalTokenService } from "./services/localTokenService.js";
+
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES || 10 * 1024 * 1024);
+
+export interface LocalServerOptions {
+  // JSONL file events are appended to
+  storePath?: string;
+  // HS256 secret API keys are validated with
+  jwtSecret?: string;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolveBody(Buffer.concat(chunks).toString("utf-8")));
+    req.on("error", reject);
+  });
+}
+
+function bearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+/**
+ * HTTP status for a batch result: 200 all accepted, 207 partially
+ * accepted, 503 when only retryable failures remain, otherwise 400
+ */
+function batchStatus(result: BatchIngestResult): number {
+  if (result.success) return 200;
+  if (result.accepted > 0) return 207;
+  if (result.results.some((r) => r.retryable)) return 503;
+  return 400;
+}
+
+/**
+ * Create the local ingest server (not yet listening)
+ */
+export function createLocalServer(options: LocalServerOptions = {}): Server {
+  const secret = options.jwtSecret ?? LocalTokenService.getSecret();
+  const store = new JsonlEventStore(
+    resolve(
+      options.storePath ??
+        process.env.OBSERVA_LOCAL_STORE ??
+        ".observa/events.jsonl"
+    )
+  );
+  const validateToken = (token: string) =>
+    LocalTokenService.validateToken(token, secret);
+
+  return createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+
+      if (req.method === "GET" && url.pathname === "/health") {
+        return sendJson(res, 200, { status: "ok" });
+      }
+
+      const token = bearerToken(req);
+      const auth = token ? validateToken(token) : null;
+      if (!token || !auth) {
+        return sendJson(res, 401, {
+          error: { message: "Invalid or expired JWT token" },
+        });
+      }
+
+      if (req.method === "POST" && url.pathname === "/api/v1/events/ingest") {
+        const body = await readBody(req);
+        const result = await ingestEvents(body, token, {
+          validateToken,
+          store,
+        });
+        return sendJson(res, batchStatus(result), {
+          ...result,
+          event_count: result.accepted,
+        });
+      }
+
+      const traceMatch = /^\/traces\/([^/]+)$/.exec(url.pathname);
+      if (req.method === "GET" && traceMatch) {
+        const trace = await store.getTrace(
+          decodeURIComponent(traceMatch[1]!),
+          auth
+        );
+        if (!trace) {
+          return sendJson(res, 404, { error: { message: "Trace not found" } });
+        }
+        return sendJson(res, 200, trace);
+      }
+
+      return sendJson(res, 404, { error: { message: "Not found" } });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return sendJson(res, 500, { error: { message } });
+    }
+  });
+}
+
+// Run directly: start the server and print a development API key
+if (
+  process.argv[1] &&
+  import.meta.url === pathToFileURL(resolve(process.argv[1])).href
+) {
+  const port = Number(process.env.PORT || 3001);
+  const apiKey = LocalTokenService.generateToken({
+    tenantId: process.env.OBSERVA_LOCAL_TENANT_ID || "local-tenant",
+    projectId: process.env.OBSERVA_LOCAL_PROJECT_ID || "local-project",
+    environment: "dev",
+  });
+  createLocalServer().listen(port, () => {
+    console.log(`🚀 Observa local ingest server on http://localhost:${port}`);
+    console.log(`   OBSERVA_API_URL=http://localhost:${port}`);
+    console.log(`   API key: ${apiKey}`);
+  });
+}
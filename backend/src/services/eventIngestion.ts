@@ -0,0 +1,316 @@
+/**
+ * Canonical Event Ingestion
+ *
+ * Parses and validates batches of canonical events and reports per-event
+ * results. Has no Tinybird or tenant dependencies: the production token
+ * validation and Tinybird writer (ingestionService.ts) are only loaded when
+ * no validateToken / store is passed, so the local ingest server runs
+ * without them.
+ */
+
+const MAX_BATCH_EVENTS = Number(process.env.MAX_BATCH_EVENTS || 1000);
+
+const EVENT_TYPES = new Set([
+  "llm_call",
+  "tool_call",
+  "retrieval",
+  "error",
+  "feedback",
+  "output",
+  "trace_start",
+  "trace_end",
+  "embedding",
+  "vector_db_operation",
+  "cache_operation",
+  "agent_create",
+  "guardrail",
+  "reasoning_step",
+  "prompt_template",
+  "span",
+]);
+
+// Optional string columns of a canonical event
+const OPTIONAL_STRING_FIELDS = [
+  "parent_span_id",
+  "conversation_id",
+  "session_id",
+  "user_id",
+  "agent_name",
+  "version",
+  "route",
+] as const;
+
+/**
+ * Canonical event as sent by the SDK (one row of canonical_events)
+ */
+export interface CanonicalEvent {
+  tenant_id: string;
+  project_id: string;
+  environment: "dev" | "prod";
+  trace_id: string;
+  span_id: string;
+  parent_span_id: string | null;
+  timestamp: string;
+  event_type: string;
+  conversation_id?: string | null;
+  session_id?: string | null;
+  user_id?: string | null;
+  agent_name?: string | null;
+  version?: string | null;
+  route?: string | null;
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Per-event outcome of a batch. Rejected events with retryable: false failed
+ * validation and must not be resent as-is.
+ */
+export interface EventIngestResult {
+  index: number;
+  span_id: string | null;
+  status: "accepted" | "rejected";
+  error?: string;
+  retryable?: boolean;
+}
+
+/**
+ * Destination for validated canonical events (Tinybird by default).
+ * write() must reject when the batch was not stored.
+ */
+export interface EventStore {
+  write(events: CanonicalEvent[], tenantId: string): Promise<void>;
+}
+
+export interface IngestOptions {
+  // JWT validation (defaults to TokenService.validateToken)
+  validateToken?: (
+    jwtToken: string
+  ) => { tenantId: string; projectId: string } | null;
+  // Where valid events are written (defaults to Tinybird canonical_events)
+  store?: EventStore;
+}
+
+export interface BatchIngestResult {
+  success: boolean;
+  accepted: number;
+  rejected: number;
+  results: EventIngestResult[];
+  error?: string;
+}
+
+/**
+ * Parse a batch body: a JSON array, or NDJSON (one event per line).
+ * Lines that are not valid JSON are kept as parse errors so results stay
+ * aligned with the events the client sent.
+ */
+export function parseBatch(
+  body: string | unknown[]
+): Array<{ event: unknown } | { parseError: string }> {
+  if (Array.isArray(body)) {
+    return body.map((event) => ({ event }));
+  }
+  const text = body.trim();
+  if (text.startsWith("[")) {
+    const events = JSON.parse(text);
+    if (!Array.isArray(events)) {
+      throw new Error("Request body must be a JSON array of events");
+    }
+    return events.map((event: unknown) => ({ event }));
+  }
+  return text
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => {
+      try {
+        return { event: JSON.parse(line) };
+      } catch {
+        return { parseError: "Invalid JSON" };
+      }
+    });
+}
+
+/**
+ * Validate one event's schema and its tenant/project stamps against the JWT.
+ * Returns the reason it is invalid, or null.
+ */
+export function validateEvent(
+  event: unknown,
+  auth: { tenantId: string; projectId: string }
+): string | null {
+  if (!event || typeof event !== "object" || Array.isArray(event)) {
+    return "Event must be a JSON object";
+  }
+  const e = event as Record<string, unknown>;
+  for (const field of [
+    "tenant_id",
+    "project_id",
+    "trace_id",
+    "span_id",
+    "timestamp",
+    "event_type",
+  ]) {
+    if (typeof e[field] !== "string" || (e[field] as string).length === 0) {
+      return `Missing or invalid ${field}`;
+    }
+  }
+  if (e.tenant_id !== auth.tenantId) {
+    return "Tenant ID mismatch between JWT and event";
+  }
+  if (e.project_id !== auth.projectId) {
+    return "Project ID mismatch between JWT and event";
+  }
+  if (e.environment !== "dev" && e.environment !== "prod") {
+    return 'environment must be "dev" or "prod"';
+  }
+  if (!EVENT_TYPES.has(e.event_type as string)) {
+    return `Unknown event_type: ${e.event_type}`;
+  }
+  if (Number.isNaN(Date.parse(e.timestamp as string))) {
+    return "timestamp must be an ISO 8601 date";
+  }
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    if (e[field] != null && typeof e[field] !== "string") {
+      return `${field} must be a string or null`;
+    }
+  }
+  if (
+    !e.attributes ||
+    typeof e.attributes !== "object" ||
+    Array.isArray(e.attributes)
+  ) {
+    return "attributes must be an object";
+  }
+  return null;
+}
+
+// Import by computed specifier, so bundlers of the local server (which never
+// loads the production services) do not try to resolve them
+async function loadModule(specifier: string): Promise<any> {
+  return import(specifier);
+}
+
+// Production defaults (JWT validation, Tinybird writer), loaded on first use
+async function loadIngestionService(): Promise<{
+  validateToken: NonNullable<IngestOptions["validateToken"]>;
+  tinybirdStore: EventStore;
+}> {
+  const [{ TokenService }, { IngestionService }] = await Promise.all([
+    loadModule("./tokenService.js"),
+    loadModule("./ingestionService.js"),
+  ]);
+  return {
+    validateToken: TokenService.validateToken,
+    tinybirdStore: IngestionService.tinybirdStore,
+  };
+}
+
+/**
+ * Ingest a batch of canonical events (JSON array or NDJSON body)
+ * 1. Validates JWT token
+ * 2. Validates each event's schema and tenant/project stamps
+ * 3. Writes all valid events in one request (Tinybird, or options.store)
+ * 4. Returns per-event accept/reject results (in request order)
+ */
+export async function ingestEvents(
+  body: string | unknown[],
+  jwtToken: string,
+  options: IngestOptions = {}
+): Promise<BatchIngestResult> {
+  const failed = (error: string): BatchIngestResult => ({
+    success: false,
+    accepted: 0,
+    rejected: 0,
+    results: [],
+    error,
+  });
+
+  try {
+    // 1. Validate JWT token
+    const validateToken =
+      options.validateToken ?? (await loadIngestionService()).validateToken;
+    const payload = validateToken(jwtToken);
+    if (!payload) {
+      return failed("Invalid or expired JWT token");
+    }
+
+    let entries: Array<{ event: unknown } | { parseError: string }>;
+    try {
+      entries = parseBatch(body);
+    } catch (error) {
+      return failed(
+        error instanceof Error ? error.message : "Invalid request body"
+      );
+    }
+    if (entries.length > MAX_BATCH_EVENTS) {
+      return failed(
+        `Batch too large: ${entries.length} events (max ${MAX_BATCH_EVENTS})`
+      );
+    }
+
+    // 2. Validate each event
+    const results: EventIngestResult[] = [];
+    const valid: CanonicalEvent[] = [];
+    const validIndexes: number[] = [];
+    entries.forEach((entry, index) => {
+      const event = "event" in entry ? entry.event : null;
+      const spanId = (event as Partial<CanonicalEvent> | null)?.span_id;
+      const error =
+        "parseError" in entry
+          ? entry.parseError
+          : validateEvent(event, payload);
+      if (error) {
+        results.push({
+          index,
+          span_id: typeof spanId === "string" ? spanId : null,
+          status: "rejected",
+          error,
+          retryable: false,
+        });
+        return;
+      }
+      results.push({ index, span_id: spanId as string, status: "accepted" });
+      valid.push(event as CanonicalEvent);
+      validIndexes.push(index);
+    });
+
+    const summarize = (error?: string): BatchIngestResult => {
+      const accepted = results.filter((r) => r.status === "accepted").length;
+      return {
+        success: accepted === results.length,
+        accepted,
+        rejected: results.length - accepted,
+        results,
+        ...(error ? { error } : {}),
+      };
+    };
+    if (valid.length === 0) {
+      return summarize();
+    }
+
+    // 3. Write all valid events at once. If that fails they are rejected
+    // together as retryable.
+    try {
+      const store =
+        options.store ?? (await loadIngestionService()).tinybirdStore;
+      await store.write(valid, payload.tenantId);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to store events";
+      for (const index of validIndexes) {
+        results[index] = {
+          ...results[index]!,
+          status: "rejected",
+          error: message,
+          retryable: true,
+        };
+      }
+      return summarize(message);
+    }
+
+    return summarize();
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return failed(errorMessage);
+  }
+}
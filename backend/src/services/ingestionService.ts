@@ -1,10 +1,27 @@
 import { TraceEvent, TinybirdEvent } from "../types.js";
 import { TokenService } from "./tokenService.js";
 import { TenantService } from "./tenantService.js";
+import {
+  ingestEvents,
+  type BatchIngestResult,
+  type CanonicalEvent,
+  type EventStore,
+  type IngestOptions,
+} from "./eventIngestion.js";
+
+export type {
+  BatchIngestResult,
+  CanonicalEvent,
+  EventIngestResult,
+  EventStore,
+  IngestOptions,
+} from "./eventIngestion.js";
 
 const TINYBIRD_HOST = process.env.TINYBIRD_HOST || "https://api.europe-west2.gcp.tinybird.co";
 const TINYBIRD_DATASOURCE_NAME =
   process.env.TINYBIRD_DATASOURCE_NAME || "traces";
+const TINYBIRD_EVENTS_DATASOURCE_NAME =
+  process.env.TINYBIRD_EVENTS_DATASOURCE_NAME || "canonical_events";
 
 /**
  * Ingestion Service
@@ -44,6 +61,31 @@ export class IngestionService {
     };
   }
 
+  /**
+   * Convert a canonical event to a canonical_events row
+   */
+  private static toCanonicalRow(
+    event: CanonicalEvent
+  ): Record<string, unknown> {
+    return {
+      tenant_id: event.tenant_id,
+      project_id: event.project_id,
+      environment: event.environment,
+      trace_id: event.trace_id,
+      span_id: event.span_id,
+      parent_span_id: event.parent_span_id ?? null,
+      timestamp: event.timestamp,
+      event_type: event.event_type,
+      conversation_id: event.conversation_id ?? "",
+      session_id: event.session_id ?? "",
+      user_id: event.user_id ?? "",
+      agent_name: event.agent_name ?? null,
+      version: event.version ?? null,
+      route: event.route ?? null,
+      attributes_json: JSON.stringify(event.attributes),
+    };
+  }
+
   /**
    * Ingest a trace event
    * 1. Validates JWT token
@@ -120,4 +162,58 @@ export class IngestionService {
       return { success: false, error: errorMessage };
     }
   }
+
+  /**
+   * Default EventStore: Tinybird canonical_events
+   */
+  static readonly tinybirdStore: EventStore = {
+    write: (events, tenantId) =>
+      IngestionService.writeToTinybird(events, tenantId),
+  };
+
+  /**
+   * Forward canonical events to Tinybird in one Events API request
+   */
+  private static async writeToTinybird(
+    events: CanonicalEvent[],
+    tenantId: string
+  ): Promise<void> {
+    const tinybirdToken = await TenantService.getTinybirdToken(tenantId);
+    if (!tinybirdToken) {
+      throw new Error(`No Tinybird token provisioned for tenant ${tenantId}`);
+    }
+
+    const url = `${TINYBIRD_HOST}/v0/events?name=${encodeURIComponent(
+      TINYBIRD_EVENTS_DATASOURCE_NAME
+    )}`;
+    const rows = events.map((event) => this.toCanonicalRow(event));
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${tinybirdToken}`,
+        "Content-Type": "application/x-ndjson",
+      },
+      body: rows.map((row) => JSON.stringify(row)).join("\n") + "\n",
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "Unknown error");
+      throw new Error(`Tinybird API error: ${response.status} ${errorText}`);
+    }
+  }
+
+  /**
+   * Ingest a batch of canonical events (JSON array or NDJSON body) into
+   * Tinybird. See ingestEvents() in eventIngestion.ts.
+   */
+  static async ingestEvents(
+    body: string | unknown[],
+    jwtToken: string,
+    options: IngestOptions = {}
+  ): Promise<BatchIngestResult> {
+    return ingestEvents(body, jwtToken, {
+      validateToken: options.validateToken ?? TokenService.validateToken,
+      store: options.store ?? this.tinybirdStore,
+    });
+  }
 }
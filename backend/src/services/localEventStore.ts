@@ -0,0 +1,180 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { CanonicalEvent, EventStore } from "./eventIngestion.js";
+
+/**
+ * One span of a reconstructed trace. Events sharing a span_id (e.g.
+ * trace_start and trace_end on the root span) are merged into one node.
+ */
+export interface TraceNode {
+  span_id: string;
+  parent_span_id: string | null;
+  name: string;
+  event_types: string[];
+  timestamp: string;
+  latency_ms: number | null;
+  status: string | null;
+  events: CanonicalEvent[];
+  children: TraceNode[];
+}
+
+export interface TraceTree {
+  trace_id: string;
+  tenant_id: string;
+  project_id: string;
+  event_count: number;
+  start_time: string;
+  end_time: string;
+  roots: TraceNode[];
+}
+
+// Display name of an event: span name, model, tool name, ...
+function eventName(event: CanonicalEvent): string {
+  const attrs = (event.attributes?.[event.event_type] ?? {}) as Record<
+    string,
+    any
+  >;
+  const name =
+    attrs.name ??
+    attrs.tool_name ??
+    attrs.model ??
+    attrs.error_type ??
+    attrs.operation_name ??
+    attrs.agent_name;
+  return typeof name === "string" && name.length > 0
+    ? name
+    : event.event_type;
+}
+
+function eventStatus(event: CanonicalEvent): string | null {
+  const attrs = (event.attributes?.[event.event_type] ?? {}) as Record<
+    string,
+    any
+  >;
+  if (event.event_type === "error") return "error";
+  return attrs.status ?? attrs.result_status ?? attrs.outcome ?? null;
+}
+
+/**
+ * Rebuild the span tree of one trace from its events. Spans whose parent
+ * is not part of the trace become roots; siblings are ordered by time.
+ */
+export function buildTraceTree(events: CanonicalEvent[]): TraceTree | null {
+  const first = events[0];
+  if (!first) return null;
+
+  const sorted = [...events].sort((a, b) =>
+    a.timestamp.localeCompare(b.timestamp)
+  );
+  const nodes = new Map<string, TraceNode>();
+  for (const event of sorted) {
+    const existing = nodes.get(event.span_id);
+    if (existing) {
+      existing.events.push(event);
+      existing.event_types.push(event.event_type);
+      // trace_end carries the root span's outcome and latency
+      existing.status = eventStatus(event) ?? existing.status;
+      existing.latency_ms =
+        (event.attributes?.[event.event_type] as any)?.latency_ms ??
+        existing.latency_ms;
+      existing.parent_span_id ??= event.parent_span_id ?? null;
+      continue;
+    }
+    nodes.set(event.span_id, {
+      span_id: event.span_id,
+      parent_span_id: event.parent_span_id ?? null,
+      name: eventName(event),
+      event_types: [event.event_type],
+      timestamp: event.timestamp,
+      latency_ms:
+        (event.attributes?.[event.event_type] as any)?.latency_ms ?? null,
+      status: eventStatus(event),
+      events: [event],
+      children: [],
+    });
+  }
+
+  const roots: TraceNode[] = [];
+  for (const node of nodes.values()) {
+    const parent =
+      node.parent_span_id !== null ? nodes.get(node.parent_span_id) : null;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return {
+    trace_id: first.trace_id,
+    tenant_id: first.tenant_id,
+    project_id: first.project_id,
+    event_count: events.length,
+    start_time: sorted[0]!.timestamp,
+    end_time: sorted[sorted.length - 1]!.timestamp,
+    roots,
+  };
+}
+
+/**
+ * JSONL Event Store
+ * Appends canonical events to a local file (one JSON object per line)
+ * instead of Tinybird, for development and CI
+ */
+export class JsonlEventStore implements EventStore {
+  // Serialize appends so concurrent batches never interleave lines
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  async write(events: CanonicalEvent[]): Promise<void> {
+    const lines = events.map((event) => JSON.stringify(event) + "\n").join("");
+    const write = this.writeQueue.then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, lines, "utf-8");
+    });
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => {});
+    return write;
+  }
+
+  /**
+   * All stored events (lines that fail to parse are skipped)
+   */
+  async readEvents(): Promise<CanonicalEvent[]> {
+    let text: string;
+    try {
+      text = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    const events: CanonicalEvent[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // Partially written line
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Reconstructed trace tree, scoped to the caller's tenant and project
+   */
+  async getTrace(
+    traceId: string,
+    scope: { tenantId: string; projectId: string }
+  ): Promise<TraceTree | null> {
+    await this.writeQueue;
+    const events = (await this.readEvents()).filter(
+      (event) =>
+        event.trace_id === traceId &&
+        event.tenant_id === scope.tenantId &&
+        event.project_id === scope.projectId
+    );
+    return buildTraceTree(events);
+  }
+}
@@ -0,0 +1,89 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+const DEFAULT_LOCAL_SECRET = "observa-local-dev-secret";
+
+export interface LocalTokenPayload {
+  tenantId: string;
+  projectId: string;
+  environment?: "dev" | "prod";
+  iat?: number;
+  exp?: number;
+}
+
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+/**
+ * Local Token Service
+ * Signs and validates HS256 JWTs with a local secret, for the standalone
+ * ingest server (no tenant database or key management)
+ */
+export class LocalTokenService {
+  /**
+   * Secret from OBSERVA_LOCAL_JWT_SECRET, or a fixed development default
+   */
+  static getSecret(): string {
+    return process.env.OBSERVA_LOCAL_JWT_SECRET || DEFAULT_LOCAL_SECRET;
+  }
+
+  /**
+   * Create an API key (JWT) the SDK accepts as apiKey
+   */
+  static generateToken(
+    payload: LocalTokenPayload,
+    secret: string = this.getSecret()
+  ): string {
+    const header = base64UrlEncode(
+      JSON.stringify({ alg: "HS256", typ: "JWT" })
+    );
+    const body = base64UrlEncode(
+      JSON.stringify({ iat: Math.floor(Date.now() / 1000), ...payload })
+    );
+    return `${header}.${body}.${sign(`${header}.${body}`, secret)}`;
+  }
+
+  /**
+   * Validate a JWT signed with the local secret
+   * Returns the payload, or null if the signature, claims or expiry are invalid
+   */
+  static validateToken(
+    token: string,
+    secret: string = this.getSecret()
+  ): LocalTokenPayload | null {
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+    const [header, body, signature] = parts as [string, string, string];
+
+    const expected = Buffer.from(sign(`${header}.${body}`, secret));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    try {
+      const { alg } = JSON.parse(Buffer.from(header, "base64url").toString());
+      if (alg !== "HS256") return null;
+      const payload = JSON.parse(Buffer.from(body, "base64url").toString());
+      if (
+        typeof payload?.tenantId !== "string" ||
+        typeof payload?.projectId !== "string"
+      ) {
+        return null;
+      }
+      if (typeof payload.exp === "number" && payload.exp * 1000 < Date.now()) {
+        return null;
+      }
+      return payload as LocalTokenPayload;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Content Capture Policy
+ *
+ * Controls how much prompt / completion content is kept on events, per event
+ * type. Only content fields are affected (input, output, messages, system
+ * instructions, tool args / results, retrieval context, ...); tokens,
+ * latency, model and cost are always kept.
+ *
+ * Modes:
+ * - full: keep content as is
+ * - truncated: cut every string inside a content field to maxChars
+ * - hashed: replace each field with null and store its SHA-256 in
+ *   <field>_hash, so identical prompts can still be grouped
+ * - none: replace each field with null
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type { EventType } from "./index.js";
+import { sha256Hex } from "./hash.js";
+
+export type CaptureContentMode = "full" | "truncated" | "hashed" | "none";
+
+/**
+ * ObservaInitConfig.captureContent: one mode for every event type, or a mode
+ * per event type with an optional default, e.g.
+ * { default: "hashed", tool_call: "full" }
+ */
+export type CaptureContentPolicy =
+  | CaptureContentMode
+  | (Partial<Record<EventType, CaptureContentMode>> & {
+      default?: CaptureContentMode;
+    });
+
+export interface ContentCapture {
+  // Mode applied to an event type
+  modeFor(eventType: EventType): CaptureContentMode;
+  // Attributes with the content fields of eventType captured per its mode
+  apply(eventType: EventType, attributes: any): any;
+}
+
+const DEFAULT_MAX_CHARS = 1000;
+
+// Content-bearing fields per event type, as paths under attributes
+// (llm_call metadata sits next to attributes.llm_call)
+const CONTENT_FIELDS: Partial<Record<EventType, string[][]>> = {
+  llm_call: [
+    ["llm_call", "input"],
+    ["llm_call", "output"],
+    ["llm_call", "input_messages"],
+    ["llm_call", "output_messages"],
+    ["llm_call", "system_instructions"],
+    ["metadata", "ai.prompt.messages"],
+    ["metadata", "ai.response.messages"],
+    ["metadata", "anthropic_thinking"],
+    ["metadata", "anthropic_tool_use_blocks"],
+    ["metadata", "cohere_citations"],
+    ["metadata", "cohere_tool_plan"],
+  ],
+  tool_call: [
+    ["tool_call", "args"],
+    ["tool_call", "result"],
+  ],
+  retrieval: [["retrieval", "retrieval_context"]],
+  embedding: [["embedding", "input_text"]],
+  output: [["output", "final_output"]],
+  span: [
+    ["span", "output"],
+    ["span", "attributes", "input"],
+    ["span", "attributes", "langgraph.state_diff", "changes"],
+  ],
+  error: [
+    ["error", "context", "input"],
+    ["error", "context", "request"],
+  ],
+  trace_end: [
+    ["trace_end", "trace_level_input"],
+    ["trace_end", "trace_level_output"],
+  ],
+};
+
+const MAX_DEPTH = 20;
+
+// JSON with sorted object keys, so equal content hashes equally
+function stableStringify(value: any, depth = 0): string {
+  if (value === null || typeof value !== "object" || depth > MAX_DEPTH) {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((item) => stableStringify(item, depth + 1));
+    return `[${items.join(",")}]`;
+  }
+  const entries = Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => {
+      return `${JSON.stringify(key)}:${stableStringify(value[key], depth + 1)}`;
+    });
+  return `{${entries.join(",")}}`;
+}
+
+function hashContent(value: any): string {
+  return sha256Hex(typeof value === "string" ? value : stableStringify(value));
+}
+
+function truncateContent(value: any, maxChars: number, depth = 0): any {
+  if (typeof value === "string") {
+    return value.length > maxChars ? `${value.slice(0, maxChars)}...` : value;
+  }
+  if (value === null || typeof value !== "object" || depth > MAX_DEPTH) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => truncateContent(item, maxChars, depth + 1));
+  }
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = truncateContent(item, maxChars, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Copy of target with the field at path[index..] captured per mode.
+ * Objects along the path are copied, never mutated.
+ */
+function captureField(
+  target: any,
+  path: string[],
+  index: number,
+  mode: CaptureContentMode,
+  maxChars: number,
+): any {
+  if (!target || typeof target !== "object" || Array.isArray(target)) {
+    return target;
+  }
+  const key = path[index]!;
+  if (target[key] == null) return target;
+
+  if (index < path.length - 1) {
+    const child = captureField(target[key], path, index + 1, mode, maxChars);
+    return child === target[key] ? target : { ...target, [key]: child };
+  }
+  switch (mode) {
+    case "truncated":
+      return { ...target, [key]: truncateContent(target[key], maxChars) };
+    case "hashed":
+      return {
+        ...target,
+        [key]: null,
+        [`${key}_hash`]: hashContent(target[key]),
+      };
+    case "none":
+      return { ...target, [key]: null };
+    default:
+      return target;
+  }
+}
+
+/**
+ * Build the capture policy from config (default: full content everywhere)
+ */
+export function createContentCapture(
+  policy: CaptureContentPolicy = "full",
+  maxChars: number = DEFAULT_MAX_CHARS,
+): ContentCapture {
+  const modeFor = (eventType: EventType): CaptureContentMode =>
+    typeof policy === "string"
+      ? policy
+      : (policy[eventType] ?? policy.default ?? "full");
+
+  return {
+    modeFor,
+    apply(eventType: EventType, attributes: any): any {
+      const mode = modeFor(eventType);
+      const fields = CONTENT_FIELDS[eventType];
+      const attrs = attributes?.[eventType];
+      if (mode === "full" || !fields || !attrs || typeof attrs !== "object") {
+        return attributes;
+      }
+
+      let captured = attributes;
+      for (const path of fields) {
+        captured = captureField(captured, path, 0, mode, maxChars);
+      }
+      return {
+        ...captured,
+        [eventType]: { ...captured[eventType], content_capture: mode },
+      };
+    },
+  };
+}
@@ -0,0 +1,228 @@
+#!/usr/bin/env node
+/**
+ * Observa CLI
+ *
+ * Terminal trace viewer for events exported with createFileTransport, the
+ * local ingest server's store (backend/src/localServer.ts) or persistent
+ * queue segments:
+ *
+ *   npx observa ./observa-events.jsonl --status error
+ *   npx observa .observa/ --user user-123 --expand
+ *   cat events.jsonl | npx observa -
+ *
+ * Without file arguments it reads OBSERVA_LOCAL_STORE (default
+ * .observa/events.jsonl).
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { CanonicalEvent } from "./index.js";
+import {
+  buildTraces,
+  filterTraces,
+  renderTraces,
+  type TraceFilter,
+} from "./trace-viewer.js";
+
+const USAGE = `Usage: observa [files or directories...] [options]
+
+Render exported Observa events (JSONL) as span trees.
+Reads OBSERVA_LOCAL_STORE (default .observa/events.jsonl) when no files
+are given; "-" reads from stdin.
+
+Options:
+  --trace <id>       Only the trace with this ID (prefix match)
+  --user <id>        Only traces with events from this user
+  --session <id>     Only traces of this session
+  --model <name>     Only traces with an LLM call to this model (substring)
+  --status <status>  Only traces with this status (success, error, ...)
+  --limit <n>        Show at most n traces (most recent)
+  --expand           Show full prompt/response content
+  --no-color         Disable ANSI colors
+  -h, --help         Show this help`;
+
+const FILTER_FLAGS: Record<string, keyof TraceFilter> = {
+  "--trace": "traceId",
+  "--user": "userId",
+  "--session": "sessionId",
+  "--model": "model",
+  "--status": "status",
+};
+
+interface CliArgs {
+  paths: string[];
+  filter: TraceFilter;
+  limit: number | null;
+  expand: boolean;
+  color: boolean;
+  help: boolean;
+}
+
+// Load a Node.js built-in lazily (the SDK is built without Node.js typings)
+async function loadNodeModule(name: string): Promise<any> {
+  return import(name);
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    paths: [],
+    filter: {},
+    limit: null,
+    expand: false,
+    color: true,
+    help: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const [flag, inlineValue] = arg.startsWith("--")
+      ? (arg.split(/=(.*)/s) as [string, string | undefined])
+      : [arg, undefined];
+    const value = () => {
+      const next = inlineValue ?? argv[++i];
+      if (next === undefined) throw new Error(`Missing value for ${flag}`);
+      return next;
+    };
+
+    const filterKey = FILTER_FLAGS[flag];
+    if (filterKey) {
+      args.filter[filterKey] = value();
+    } else if (flag === "--limit") {
+      const limit = Number(value());
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error("--limit must be a positive integer");
+      }
+      args.limit = limit;
+    } else if (flag === "--expand") {
+      args.expand = true;
+    } else if (flag === "--no-color") {
+      args.color = false;
+    } else if (flag === "-h" || flag === "--help") {
+      args.help = true;
+    } else if (flag.startsWith("-") && flag !== "-") {
+      throw new Error(`Unknown option: ${flag}`);
+    } else {
+      args.paths.push(arg);
+    }
+  }
+  return args;
+}
+
+/**
+ * Canonical event from one JSONL record: SDK events, persistent queue
+ * records ({"op":"event","event":...}) and Tinybird rows (attributes_json)
+ */
+function toEvent(record: any): CanonicalEvent | null {
+  if (!record || typeof record !== "object") return null;
+  if (record.op !== undefined) {
+    return record.op === "event" ? toEvent(record.event) : null;
+  }
+  if (typeof record.trace_id !== "string" || !record.event_type) return null;
+  if (!record.attributes && typeof record.attributes_json === "string") {
+    try {
+      return { ...record, attributes: JSON.parse(record.attributes_json) };
+    } catch {
+      return null;
+    }
+  }
+  return record as CanonicalEvent;
+}
+
+function parseJsonl(text: string): CanonicalEvent[] {
+  const events: CanonicalEvent[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const event = toEvent(JSON.parse(line));
+      if (event) events.push(event);
+    } catch {
+      // Partially written or non-JSON line
+    }
+  }
+  return events;
+}
+
+async function readStdin(): Promise<string> {
+  const stdin = (globalThis as any).process.stdin;
+  const chunks: string[] = [];
+  stdin.setEncoding("utf-8");
+  for await (const chunk of stdin) chunks.push(chunk);
+  return chunks.join("");
+}
+
+/**
+ * Read events from files, directories (every *.jsonl inside) or stdin
+ */
+async function readEvents(paths: string[]): Promise<CanonicalEvent[]> {
+  const fs = await loadNodeModule("node:fs/promises");
+  const path = await loadNodeModule("node:path");
+  const events: CanonicalEvent[] = [];
+
+  for (const target of paths) {
+    if (target === "-") {
+      events.push(...parseJsonl(await readStdin()));
+      continue;
+    }
+    const stat = await fs.stat(target);
+    const files: string[] = stat.isDirectory()
+      ? (await fs.readdir(target))
+          .filter((name: string) => name.endsWith(".jsonl"))
+          .sort()
+          .map((name: string) => path.join(target, name))
+      : [target];
+    for (const file of files) {
+      events.push(...parseJsonl(await fs.readFile(file, "utf-8")));
+    }
+  }
+
+  // Replayed events can appear more than once
+  const seen = new Set<string>();
+  return events.filter((event) => {
+    if (!event.idempotency_key) return true;
+    if (seen.has(event.idempotency_key)) return false;
+    seen.add(event.idempotency_key);
+    return true;
+  });
+}
+
+async function main(): Promise<number> {
+  const proc = (globalThis as any).process;
+  let args: CliArgs;
+  try {
+    args = parseArgs(proc.argv.slice(2));
+  } catch (error) {
+    console.error(`observa: ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (args.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const paths =
+    args.paths.length > 0
+      ? args.paths
+      : [proc.env.OBSERVA_LOCAL_STORE || ".observa/events.jsonl"];
+  let events: CanonicalEvent[];
+  try {
+    events = await readEvents(paths);
+  } catch (error) {
+    console.error(`observa: ${(error as Error).message}`);
+    return 1;
+  }
+
+  let traces = filterTraces(buildTraces(events), args.filter);
+  if (args.limit !== null) traces = traces.slice(-args.limit);
+  if (traces.length === 0) {
+    console.error(`observa: no matching traces (${events.length} events read)`);
+    return 1;
+  }
+
+  const color = args.color && !proc.env.NO_COLOR && !!proc.stdout.isTTY;
+  for (const line of renderTraces(traces, { expand: args.expand, color })) {
+    console.log(line);
+  }
+  return 0;
+}
+
+main().then((code) => {
+  (globalThis as any).process.exitCode = code;
+});
@@ -8,23 +8,106 @@
  * is not available. Uses waitUntil for edge runtime support.
  */
 
+import { emitDiagnostic } from './diagnostics.js';
+
+/**
+ * Trace-level state for a manually managed trace (startTrace/endTrace).
+ * Shared by every async continuation of the trace.
+ */
+export interface TraceState {
+  traceId: string;
+  rootSpanId: string;
+  startTime: number;
+  // Explicit trace-level I/O (updateTrace)
+  input: string | null;
+  output: string | null;
+  ended: boolean;
+  // Head-sampling decision, made once when the trace starts
+  sampled: boolean;
+  // Set once a sampled-out trace records an error or feedback; from then on
+  // its events are kept
+  samplingOverride: "error" | "feedback" | null;
+  // trace_start of a sampled-out trace, buffered only on an override
+  deferredStart: unknown;
+}
+
 export interface TraceContext {
   traceId: string;
+  // Current span: default parent for events recorded in this context
   spanId: string;
   parentSpanId: string | null;
+  // Set when the context belongs to a manual trace
+  trace?: TraceState;
+  // Set when the context was entered for an integration's open span
+  frame?: ContextFrame;
+}
+
+/**
+ * A span opened by an integration that only sees start / end callbacks
+ * (LlamaIndex), entered with enterTraceContext(). The entered context can
+ * outlive the span in the caller, so once the frame is closed, contexts
+ * carrying it resolve to the context the frame was entered from.
+ */
+export interface ContextFrame {
+  closed: boolean;
+  outer: TraceContext | undefined;
+}
+
+// Skip contexts whose frame has been closed
+function openContext(
+  context: TraceContext | undefined
+): TraceContext | undefined {
+  while (context?.frame?.closed) {
+    context = context.frame.outer;
+  }
+  return context;
 }
 
 // Safe AsyncLocalStorage wrapper with edge runtime support
 let traceContextStorage: any = null;
-let edgeContextMap: WeakMap<any, TraceContext> | null = null;
+// Edge runtime fallback: a single process-wide context (not concurrency-safe)
+let fallbackContext: TraceContext | undefined;
+// Set while node:async_hooks is still loading asynchronously
+let storageLoading = false;
 
 try {
-  // Try to use AsyncLocalStorage (Node.js)
-  const { AsyncLocalStorage } = require('async_hooks');
-  traceContextStorage = new AsyncLocalStorage<TraceContext>();
+  // Try to use AsyncLocalStorage (Node.js). getBuiltinModule also works in
+  // ESM builds, where require is not defined.
+  const proc = (globalThis as any).process;
+  if (typeof proc?.getBuiltinModule === 'function') {
+    traceContextStorage = new (proc.getBuiltinModule(
+      'node:async_hooks'
+    ).AsyncLocalStorage)();
+  } else if (typeof require === 'function') {
+    traceContextStorage = new (require('async_hooks').AsyncLocalStorage)();
+  } else if (proc?.versions?.node) {
+    // ESM on Node.js without getBuiltinModule: load it asynchronously.
+    // Contexts entered before it loads use the process-wide context.
+    storageLoading = true;
+    const asyncHooksModule = 'node:async_hooks';
+    import(asyncHooksModule)
+      .then((asyncHooks: any) => {
+        traceContextStorage = new asyncHooks.AsyncLocalStorage();
+      })
+      .catch(() => {
+        // Keep the process-wide context
+      })
+      .finally(() => {
+        storageLoading = false;
+      });
+  }
 } catch {
-  // Edge runtime - use WeakMap for manual context passing
-  edgeContextMap = new WeakMap();
+  // Edge runtime - fall back to the process-wide context
+  traceContextStorage = null;
+}
+
+// Report that a trace is entered on the process-wide context
+function reportFallback(location: string): void {
+  emitDiagnostic(
+    location,
+    'AsyncLocalStorage is unavailable, traces share one process-wide context',
+    () => ({ asyncHooksLoading: storageLoading })
+  );
 }
 
 /**
@@ -33,17 +116,34 @@ try {
 export function getTraceContext(): TraceContext | undefined {
   try {
     if (traceContextStorage) {
-      return traceContextStorage.getStore();
+      return openContext(traceContextStorage.getStore());
     }
-    // Edge runtime - manual context passing required
-    // Users must pass context manually or use Vercel waitUntil
-    return undefined;
+    // Edge runtime - process-wide context
+    return openContext(fallbackContext);
   } catch {
     // Fail gracefully - don't crash
     return undefined;
   }
 }
 
+/**
+ * Make a context current for the rest of the calling async context
+ * (used by startTrace/endTrace, which have no callback to wrap).
+ * Pass undefined to leave the current trace.
+ */
+export function enterTraceContext(context: TraceContext | undefined): void {
+  try {
+    if (traceContextStorage) {
+      traceContextStorage.enterWith(context);
+      return;
+    }
+    reportFallback('context.ts:enterTraceContext');
+    fallbackContext = context;
+  } catch {
+    // Fail gracefully - keep the previous context
+  }
+}
+
 /**
  * For Vercel Edge: use waitUntil to send traces
  * Prevents orphan traces in edge runtime
@@ -79,41 +179,46 @@ export function waitUntil(promise: Promise<void>): void {
 
 /**
  * Run a function within a trace context
+ * (undefined runs it outside of any trace)
  */
 export function runInTraceContext<T>(
-  context: TraceContext,
+  context: TraceContext | undefined,
   fn: () => T
 ): T {
+  if (traceContextStorage) {
+    // Errors from fn propagate as-is (fn must run exactly once)
+    return traceContextStorage.run(context, fn);
+  }
+  // Edge runtime - swap the process-wide context for the duration of fn
+  const previous = fallbackContext;
+  fallbackContext = context;
   try {
-    if (traceContextStorage) {
-      return traceContextStorage.run(context, fn);
-    }
-    // Edge runtime - execute without context propagation
-    // Context must be passed manually
-    return fn();
-  } catch {
-    // Fail gracefully - execute without context
     return fn();
+  } finally {
+    fallbackContext = previous;
   }
 }
 
 /**
  * Run an async function within a trace context
+ * (undefined runs it outside of any trace)
  */
 export async function runInTraceContextAsync<T>(
-  context: TraceContext,
+  context: TraceContext | undefined,
   fn: () => Promise<T>
 ): Promise<T> {
+  if (traceContextStorage) {
+    // Errors from fn propagate as-is (fn must run exactly once)
+    return traceContextStorage.run(context, fn);
+  }
+  // Edge runtime - swap the process-wide context until fn settles
+  reportFallback('context.ts:runInTraceContextAsync');
+  const previous = fallbackContext;
+  fallbackContext = context;
   try {
-    if (traceContextStorage) {
-      return traceContextStorage.run(context, fn);
-    }
-    // Edge runtime - execute without context propagation
-    // Context must be passed manually
-    return await fn();
-  } catch {
-    // Fail gracefully - execute without context
     return await fn();
+  } finally {
+    fallbackContext = previous;
   }
 }
 
@@ -133,6 +238,7 @@ export function createSpanContext(
       traceId: currentContext.traceId,
       spanId,
       parentSpanId: currentContext.spanId, // Current span becomes parent
+      ...(currentContext.trace ? { trace: currentContext.trace } : {}),
     };
   }
 
@@ -0,0 +1,161 @@
+/**
+ * Diagnostics
+ *
+ * Structured internal debug events (argument normalization, payload checks,
+ * stream handling, ...). Nothing is emitted unless a handler is registered via
+ * ObservaInitConfig.onDiagnostic or ObservaInitConfig.debug, so the calls are
+ * free on hot paths by default: event data is passed as a thunk and only
+ * evaluated when someone is listening.
+ *
+ * Each client registers its own handler. Events emitted on behalf of a client
+ * (its methods, transport, queue and integrations) carry that client as their
+ * owner and reach only its handler. Events from shared helpers that can't
+ * tell which client they run for have no owner and reach every handler.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+export interface DiagnosticEvent {
+  // Where the event was emitted, e.g. "index.ts:sendEvents"
+  location: string;
+  message: string;
+  data: Record<string, any> | null;
+  timestamp: string;
+}
+
+export type DiagnosticHandler = (event: DiagnosticEvent) => void;
+
+/**
+ * ObservaInitConfig.debug: `true`/`"console"` logs diagnostics to the console,
+ * `{ file }` appends them as JSONL to a local file (Node.js only)
+ */
+export type ObservaDebugOption = boolean | "console" | { file: string };
+
+type DiagnosticData = Record<string, any> | (() => Record<string, any>);
+
+// Registered handlers and their owning client (null: receives every event)
+const handlers = new Set<{
+  handler: DiagnosticHandler;
+  owner: object | null;
+}>();
+
+// Load a Node.js built-in lazily so edge/browser bundles never touch it
+async function loadNodeModule(name: string): Promise<any> {
+  return import(name);
+}
+
+/**
+ * Whether any diagnostic handler is registered.
+ * Use to skip building expensive diagnostic data.
+ */
+export function isDiagnosticsEnabled(): boolean {
+  return handlers.size > 0;
+}
+
+/**
+ * Emit a diagnostic event (no-op by default). With an owner, only handlers
+ * registered for that owner (or for none) receive it.
+ */
+export function emitDiagnostic(
+  location: string,
+  message: string,
+  data?: DiagnosticData,
+  owner?: object | null,
+): void {
+  if (handlers.size === 0) return;
+
+  let resolved: Record<string, any> | null = null;
+  try {
+    resolved = (typeof data === "function" ? data() : data) ?? null;
+  } catch (error) {
+    resolved = { diagnosticDataError: String(error) };
+  }
+
+  const event: DiagnosticEvent = {
+    location,
+    message,
+    data: resolved,
+    timestamp: new Date().toISOString(),
+  };
+  for (const registration of handlers) {
+    if (owner && registration.owner && owner !== registration.owner) continue;
+    try {
+      registration.handler(event);
+    } catch {
+      // Diagnostics must never break the instrumented code path
+    }
+  }
+}
+
+/**
+ * Register a diagnostic handler, optionally for one owner (a client).
+ * Returns a function that unregisters it.
+ */
+export function registerDiagnosticHandler(
+  handler: DiagnosticHandler,
+  owner?: object,
+): () => void {
+  const registration = { handler, owner: owner ?? null };
+  handlers.add(registration);
+  return () => {
+    handlers.delete(registration);
+  };
+}
+
+/**
+ * Log each diagnostic event to the console
+ */
+export function createConsoleDiagnosticSink(): DiagnosticHandler {
+  return (event) => {
+    console.log(
+      `[Observa] [diagnostic] ${event.location}: ${event.message}`,
+      event.data ?? "",
+    );
+  };
+}
+
+/**
+ * Append each diagnostic event as one JSON line to a local file.
+ * Node.js only.
+ */
+export function createFileDiagnosticSink(options: {
+  path: string;
+}): DiagnosticHandler {
+  // Serialize writes so events never interleave
+  let writeChain: Promise<void> = Promise.resolve();
+
+  return (event) => {
+    const line = JSON.stringify(event) + "\n";
+    writeChain = writeChain
+      .then(async () => {
+        const fs = await loadNodeModule("node:fs/promises");
+        await fs.appendFile(options.path, line, "utf-8");
+      })
+      .catch(() => {});
+  };
+}
+
+/**
+ * Build the handler for ObservaInitConfig.onDiagnostic / debug.
+ * Returns null when diagnostics are disabled (the default).
+ */
+export function resolveDiagnosticHandler(config: {
+  onDiagnostic?: DiagnosticHandler;
+  debug?: ObservaDebugOption;
+}): DiagnosticHandler | null {
+  const sinks: DiagnosticHandler[] = [];
+  if (config.onDiagnostic) {
+    sinks.push(config.onDiagnostic);
+  }
+  if (config.debug === true || config.debug === "console") {
+    sinks.push(createConsoleDiagnosticSink());
+  } else if (config.debug && typeof config.debug === "object") {
+    sinks.push(createFileDiagnosticSink({ path: config.debug.file }));
+  }
+
+  if (sinks.length === 0) return null;
+  if (sinks.length === 1) return sinks[0]!;
+  return (event) => {
+    for (const sink of sinks) sink(event);
+  };
+}
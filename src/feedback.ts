@@ -0,0 +1,371 @@
+/**
+ * Feedback Tokens
+ *
+ * Browser like/dislike buttons must not hold the Observa API key. Instead the
+ * server returns a feedback token with each result: an HMAC-SHA256 signature
+ * over the trace ID, span ID and an expiry. The browser posts the token back
+ * to a route served by createFeedbackHandler(), which verifies it and records
+ * the feedback under that span with trackFeedback().
+ *
+ * Each token carries a unique ID (jti). The signature alone cannot stop a
+ * token from being replayed until it expires, so the handler takes
+ * isTokenUsed/markTokenUsed hooks backed by the app's own store to make
+ * tokens single-use.
+ *
+ * Token format: base64url(JSON claims) + "." + base64url(HMAC-SHA256)
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { hmacSha256 } from "./hash.js";
+
+export type FeedbackType = "like" | "dislike" | "rating" | "correction";
+
+export interface FeedbackTokenClaims {
+  traceId: string;
+  spanId: string;
+  // Unique token ID, the key for single-use checks
+  jti: string;
+  // Expiry (seconds since epoch)
+  exp: number;
+  // Identity known when the token was issued (never taken from the browser)
+  userId?: string;
+  sessionId?: string;
+  conversationId?: string;
+}
+
+export interface FeedbackTokenOptions {
+  // Token lifetime in seconds (default: 1 hour)
+  expiresIn?: number;
+  userId?: string;
+  sessionId?: string;
+  conversationId?: string;
+}
+
+// Context the handler adds from the server side (e.g. the logged-in user)
+export interface FeedbackRequestContext {
+  userId?: string;
+  sessionId?: string;
+  conversationId?: string;
+  agentName?: string;
+  version?: string;
+  route?: string;
+}
+
+export interface FeedbackHandlerOptions {
+  // HMAC secret (default: the secret given to init() as feedbackSecret)
+  secret?: string;
+  // Server-side context for each request, e.g. the user from a session cookie
+  getContext?: (
+    request: any,
+  ) => FeedbackRequestContext | Promise<FeedbackRequestContext>;
+  // Feedback types accepted from the browser (default: all)
+  allowedTypes?: FeedbackType[];
+  // Longer comments are truncated (default: 2000 characters)
+  maxCommentLength?: number;
+  // Flush after each feedback event, for serverless routes (default: true)
+  flush?: boolean;
+  // Single-use tokens: return true if the token's jti was already used.
+  // Tokens are replayable until they expire without these hooks
+  isTokenUsed?: (
+    jti: string,
+    claims: FeedbackTokenClaims,
+  ) => boolean | Promise<boolean>;
+  // Record the jti before the feedback is tracked. The entry only needs to
+  // live until claims.exp. Return false if the jti was already recorded
+  // (e.g. Redis SET NX) to reject concurrent replays as well
+  markTokenUsed?: (
+    jti: string,
+    claims: FeedbackTokenClaims,
+  ) => boolean | void | Promise<boolean | void>;
+}
+
+/**
+ * Request handler for Next.js route handlers and other fetch-style servers
+ * (`(request: Request) => Promise<Response>`) as well as Express and Next.js
+ * API routes (`(req, res) => Promise<void>`).
+ */
+export type FeedbackHandler = (request: any, response?: any) => Promise<any>;
+
+// The subset of the Observa client the handler needs
+export interface FeedbackRecorder {
+  trackFeedback(options: {
+    type: FeedbackType;
+    rating?: number;
+    comment?: string;
+    outcome?: "success" | "failure" | "partial";
+    conversationId?: string;
+    sessionId?: string;
+    userId?: string;
+    agentName?: string;
+    version?: string;
+    route?: string;
+    parentSpanId?: string | null;
+    traceId?: string | null;
+  }): string;
+  flush(): Promise<void>;
+}
+
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60;
+const FEEDBACK_TYPES: FeedbackType[] = [
+  "like",
+  "dislike",
+  "rating",
+  "correction",
+];
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+// Compare without an early exit so timing does not leak the signature
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function sign(payload: string, secret: string): string {
+  return base64UrlEncode(hmacSha256(secret, payload));
+}
+
+/**
+ * Sign a feedback token for one span
+ */
+export function createFeedbackToken(
+  target: { traceId: string; spanId: string },
+  secret: string,
+  options: FeedbackTokenOptions = {},
+): string {
+  if (!secret) {
+    throw new Error(
+      "Observa SDK: a secret is required to sign feedback tokens",
+    );
+  }
+  const claims: FeedbackTokenClaims = {
+    traceId: target.traceId,
+    spanId: target.spanId,
+    jti: crypto.randomUUID(),
+    exp:
+      Math.floor(Date.now() / 1000) +
+      (options.expiresIn ?? DEFAULT_TOKEN_TTL_SECONDS),
+    ...(options.userId ? { userId: options.userId } : {}),
+    ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+    ...(options.conversationId
+      ? { conversationId: options.conversationId }
+      : {}),
+  };
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Verify a feedback token. Returns its claims, or null if the signature is
+ * invalid, the claims are malformed or the token expired.
+ */
+export function verifyFeedbackToken(
+  token: string,
+  secret: string,
+): FeedbackTokenClaims | null {
+  if (typeof token !== "string" || !secret) return null;
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+  if (!constantTimeEqual(sign(payload, secret), signature)) return null;
+
+  try {
+    const claims = JSON.parse(base64UrlDecode(payload));
+    if (
+      typeof claims?.traceId !== "string" ||
+      typeof claims?.spanId !== "string" ||
+      typeof claims?.jti !== "string" ||
+      typeof claims?.exp !== "number"
+    ) {
+      return null;
+    }
+    if (claims.exp * 1000 < Date.now()) return null;
+    return claims as FeedbackTokenClaims;
+  } catch {
+    return null;
+  }
+}
+
+class FeedbackRequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "FeedbackRequestError";
+  }
+}
+
+function isFetchRequest(request: any): boolean {
+  return (
+    typeof request?.json === "function" &&
+    typeof request?.headers?.get === "function"
+  );
+}
+
+async function readRequestBody(request: any): Promise<any> {
+  if (isFetchRequest(request)) return request.json();
+  // Express (express.json()) and Next.js API routes parse the body already
+  if (request?.body !== undefined) {
+    return typeof request.body === "string"
+      ? JSON.parse(request.body)
+      : request.body;
+  }
+  // Plain Node.js IncomingMessage
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of request) {
+    text +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+  }
+  return JSON.parse(text + decoder.decode());
+}
+
+function sendResponse(
+  request: any,
+  response: any,
+  status: number,
+  body: unknown,
+): any {
+  // Fetch-style handlers return a Response (Next.js passes its route
+  // context as the second argument, which is not a response object)
+  if (isFetchRequest(request) || !response) {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  if (typeof response.status === "function" && response.json) {
+    response.status(status).json(body);
+    return;
+  }
+  response.statusCode = status;
+  response.setHeader?.("Content-Type", "application/json");
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Create a handler that accepts `{ token, type, rating?, comment? }` POSTed
+ * by the browser, verifies the token and calls trackFeedback on its span.
+ * Responds 200 `{ success, feedbackId }`, 400 for an invalid body, 401 for
+ * an invalid or expired token, 409 for a token that was already used and
+ * 405 for other methods.
+ */
+export function createFeedbackHandler(
+  observa: FeedbackRecorder,
+  options: FeedbackHandlerOptions & { secret: string },
+): FeedbackHandler {
+  const allowedTypes = options.allowedTypes ?? FEEDBACK_TYPES;
+  const maxCommentLength = options.maxCommentLength ?? 2000;
+
+  return async (request: any, response?: any) => {
+    try {
+      if (request?.method && request.method.toUpperCase() !== "POST") {
+        throw new FeedbackRequestError(405, "Method not allowed");
+      }
+
+      let body: any;
+      try {
+        body = await readRequestBody(request);
+      } catch {
+        throw new FeedbackRequestError(400, "Request body must be JSON");
+      }
+      if (!body || typeof body !== "object") {
+        throw new FeedbackRequestError(400, "Request body must be an object");
+      }
+      if (!allowedTypes.includes(body.type)) {
+        throw new FeedbackRequestError(
+          400,
+          `type must be one of: ${allowedTypes.join(", ")}`,
+        );
+      }
+      if (
+        body.rating !== undefined &&
+        (typeof body.rating !== "number" || !Number.isFinite(body.rating))
+      ) {
+        throw new FeedbackRequestError(400, "rating must be a number");
+      }
+      if (body.comment !== undefined && typeof body.comment !== "string") {
+        throw new FeedbackRequestError(400, "comment must be a string");
+      }
+
+      const claims = verifyFeedbackToken(body.token, options.secret);
+      if (!claims) {
+        throw new FeedbackRequestError(
+          401,
+          "Invalid or expired feedback token",
+        );
+      }
+      if (
+        (await options.isTokenUsed?.(claims.jti, claims)) ||
+        (await options.markTokenUsed?.(claims.jti, claims)) === false
+      ) {
+        throw new FeedbackRequestError(409, "Feedback token already used");
+      }
+
+      const context = (await options.getContext?.(request)) ?? {};
+      const userId = context.userId ?? claims.userId;
+      const sessionId = context.sessionId ?? claims.sessionId;
+      const conversationId = context.conversationId ?? claims.conversationId;
+      const outcome =
+        body.type === "like"
+          ? "success"
+          : body.type === "dislike"
+            ? "failure"
+            : undefined;
+
+      const feedbackId = observa.trackFeedback({
+        type: body.type,
+        traceId: claims.traceId,
+        parentSpanId: claims.spanId,
+        ...(body.rating !== undefined ? { rating: body.rating } : {}),
+        ...(body.comment
+          ? { comment: body.comment.slice(0, maxCommentLength) }
+          : {}),
+        ...(outcome ? { outcome } : {}),
+        ...(userId ? { userId } : {}),
+        ...(sessionId ? { sessionId } : {}),
+        ...(conversationId ? { conversationId } : {}),
+        ...(context.agentName ? { agentName: context.agentName } : {}),
+        ...(context.version ? { version: context.version } : {}),
+        ...(context.route ? { route: context.route } : {}),
+      });
+      if (options.flush ?? true) await observa.flush();
+
+      return sendResponse(request, response, 200, {
+        success: true,
+        feedbackId,
+      });
+    } catch (error) {
+      if (error instanceof FeedbackRequestError) {
+        return sendResponse(request, response, error.status, {
+          error: { message: error.message },
+        });
+      }
+      console.error("[Observa] Feedback handler failed:", error);
+      return sendResponse(request, response, 500, {
+        error: { message: "Failed to record feedback" },
+      });
+    }
+  };
+}
@@ -10,8 +10,172 @@
 // Import instrumentation wrappers (tsup bundles everything together)
 import { observeOpenAI as observeOpenAIFn } from "./instrumentation/openai.js";
 import { observeAnthropic as observeAnthropicFn } from "./instrumentation/anthropic.js";
+import { observeGemini as observeGeminiFn } from "./instrumentation/gemini.js";
+import { observeBedrock as observeBedrockFn } from "./instrumentation/bedrock.js";
+import { observeMistral as observeMistralFn } from "./instrumentation/mistral.js";
+import { observeCohere as observeCohereFn } from "./instrumentation/cohere.js";
 import { observeVercelAI as observeVercelAIFn } from "./instrumentation/vercel-ai.js";
 import { observeLangChain as observeLangChainFn } from "./instrumentation/langchain.js";
+import {
+  observeLlamaIndex as observeLlamaIndexFn,
+  type ObservedLlamaIndex,
+} from "./instrumentation/llamaindex.js";
+import {
+  enterTraceContext,
+  getTraceContext,
+  runInTraceContext,
+  runInTraceContextAsync,
+  type TraceContext,
+  type TraceState,
+} from "./context.js";
+import { extractProviderError } from "./instrumentation/error-utils.js";
+import type { ProviderMatcher } from "./instrumentation/providers.js";
+import {
+  ObservaSpanProcessor,
+  ObservaSpanExporter,
+  type OtelBridgeOptions,
+} from "./instrumentation/opentelemetry.js";
+import {
+  createHttpTransport,
+  resolveTransport,
+  type ObservaTransport,
+  type ObservaTransportLike,
+  type TransportSendResult,
+} from "./transport.js";
+
+export {
+  createHttpTransport,
+  createFileTransport,
+  createConsoleTransport,
+  createMemoryTransport,
+  createFunctionTransport,
+} from "./transport.js";
+export type {
+  ObservaTransport,
+  ObservaTransportLike,
+  TransportSendResult,
+} from "./transport.js";
+import {
+  emitDiagnostic,
+  isDiagnosticsEnabled,
+  registerDiagnosticHandler,
+  resolveDiagnosticHandler,
+  type DiagnosticHandler,
+  type ObservaDebugOption,
+} from "./diagnostics.js";
+import {
+  createPersistentQueue,
+  type PersistentQueue,
+  type PersistentQueueOptions,
+} from "./persistent-queue.js";
+
+export type { PersistentQueueOptions } from "./persistent-queue.js";
+import {
+  createPricingRegistry,
+  type CostEstimate,
+  type ModelPricingTable,
+  type PricingRegistry,
+  type TokenUsageForPricing,
+} from "./pricing.js";
+
+export { createPricingRegistry, DEFAULT_MODEL_PRICING } from "./pricing.js";
+export type {
+  CostEstimate,
+  ModelPricing,
+  ModelPricingTable,
+  PricingRegistry,
+  TokenUsageForPricing,
+} from "./pricing.js";
+import { createHeuristicTokenizer, type Tokenizer } from "./tokenizer.js";
+import {
+  createFeedbackHandler as createFeedbackHandlerFn,
+  createFeedbackToken as createFeedbackTokenFn,
+  type FeedbackHandler,
+  type FeedbackHandlerOptions,
+  type FeedbackTokenOptions,
+} from "./feedback.js";
+import {
+  createRedactor,
+  type RedactionConfig,
+  type Redactor,
+} from "./redaction.js";
+import {
+  createContentCapture,
+  type CaptureContentPolicy,
+  type ContentCapture,
+} from "./capture.js";
+
+export {
+  createBpeTokenizer,
+  createHeuristicTokenizer,
+  encodingForModel,
+} from "./tokenizer.js";
+export type {
+  BpeTokenizer,
+  BpeTokenizerOptions,
+  Tokenizer,
+  TokenizerEncoding,
+} from "./tokenizer.js";
+export { createRedactor } from "./redaction.js";
+export type {
+  BuiltinPiiDetector,
+  CustomPiiDetector,
+  RedactionConfig,
+  RedactionMode,
+  Redactor,
+} from "./redaction.js";
+export { verifyFeedbackToken } from "./feedback.js";
+export type {
+  FeedbackHandler,
+  FeedbackHandlerOptions,
+  FeedbackRequestContext,
+  FeedbackTokenClaims,
+  FeedbackTokenOptions,
+  FeedbackType,
+} from "./feedback.js";
+export { createContentCapture } from "./capture.js";
+export type {
+  CaptureContentMode,
+  CaptureContentPolicy,
+  ContentCapture,
+} from "./capture.js";
+export {
+  createOtlpTransport,
+  convertToOtlpTraceRequest,
+  encodeOtlpTraceRequest,
+} from "./otlp.js";
+export type {
+  OtlpExporterOptions,
+  OtlpTraceRequest,
+  OtlpSpan,
+} from "./otlp.js";
+export {
+  ObservaSpanProcessor,
+  ObservaSpanExporter,
+} from "./instrumentation/opentelemetry.js";
+export type {
+  OtelBridgeOptions,
+  OtelReadableSpan,
+} from "./instrumentation/opentelemetry.js";
+export {
+  BUILTIN_PROVIDER_MATCHERS,
+  detectProvider,
+} from "./instrumentation/providers.js";
+export type {
+  DetectedProvider,
+  ProviderConnectionInfo,
+  ProviderMatcher,
+} from "./instrumentation/providers.js";
+export type { ObservedLlamaIndex } from "./instrumentation/llamaindex.js";
+export {
+  createConsoleDiagnosticSink,
+  createFileDiagnosticSink,
+} from "./diagnostics.js";
+export type {
+  DiagnosticEvent,
+  DiagnosticHandler,
+  ObservaDebugOption,
+} from "./diagnostics.js";
 
 // Helper: safely access NODE_ENV without type issues
 function getNodeEnv(): string | undefined {
@@ -23,6 +187,23 @@ function getNodeEnv(): string | undefined {
   }
 }
 
+// ---------- Trace sampling ----------
+/**
+ * Deterministic head-sampling decision for a trace.
+ * Hashes the trace_id (32-bit FNV-1a) into [0, 1) so every event of a trace,
+ * and every SDK instance that sees it, reaches the same decision.
+ */
+function isTraceSampled(traceId: string, sampleRate: number): boolean {
+  if (sampleRate >= 1) return true;
+  if (sampleRate <= 0) return false;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < traceId.length; i++) {
+    hash ^= traceId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000 < sampleRate;
+}
+
 // ---------- JWT Decoding (for tenant context extraction) ----------
 interface JWTPayload {
   tenantId?: string;
@@ -138,8 +319,60 @@ export interface ObservaInitConfig {
 
   // SDK behavior
   mode?: "development" | "production";
+  // Trace-level head sampling (default 1.0), decided when the trace starts.
+  // Sampled-out traces only record errors and feedback
   sampleRate?: number; // 0..1
   maxResponseChars?: number; // prevent giant payloads (default 50k)
+
+  // Event delivery (default: HTTP POST to ${apiUrl}/api/v1/events/ingest)
+  // Accepts an ObservaTransport or a plain function that receives each batch
+  transport?: ObservaTransportLike;
+  // Additional best-effort destinations that receive every batch alongside
+  // the transport, e.g. createOtlpTransport() for Jaeger/Tempo
+  exporters?: ObservaTransportLike[];
+
+  // Internal SDK diagnostics (default: none emitted)
+  // onDiagnostic receives typed events; debug: true logs them to the console,
+  // debug: { file } appends them as JSONL
+  onDiagnostic?: DiagnosticHandler;
+  debug?: ObservaDebugOption;
+
+  // Crash-safe delivery (Node.js only): write buffered events to JSONL segments
+  // under a directory and replay undelivered ones on the next init
+  persistentQueue?: PersistentQueueOptions;
+
+  // Per-model token rates (USD per 1M tokens) used to fill input_cost,
+  // output_cost and cost on llm_call / embedding events. Keys may be exact
+  // model IDs or prefixes and override the built-in price list
+  pricing?: ModelPricingTable;
+
+  // Counts tokens when a provider omits usage (default: ~4 characters per
+  // token; see createBpeTokenizer). Those counts are marked
+  // usage_source: "estimated"
+  tokenizer?: Tokenizer;
+
+  // PII redaction applied to every string attribute of every event before
+  // it is buffered (built-in detectors plus custom patterns)
+  redaction?: RedactionConfig;
+
+  // How much prompt / completion content to keep: "full" (default),
+  // "truncated", "hashed" (SHA-256 only, for grouping) or "none". Either one
+  // mode or a mode per event type, e.g. { default: "none", tool_call: "full" }.
+  // Tokens, latency, model and cost are always kept
+  captureContent?: CaptureContentPolicy;
+  // String length kept per content field in "truncated" mode (default: 1000)
+  captureContentMaxChars?: number;
+
+  // Extra matchers used by observeOpenAI() to name OpenAI-compatible servers,
+  // checked before the built-in ones (Azure, Groq, Together, Ollama, vLLM,
+  // LM Studio, ...), e.g. { name: "my-gateway", baseURL: /gw\.internal/ }
+  providerMatchers?: ProviderMatcher[];
+
+  // HMAC secret for feedback tokens that let browsers submit feedback
+  // through createFeedbackHandler() without the API key (default:
+  // OBSERVA_FEEDBACK_SECRET). Results of observed calls then carry
+  // observa.feedbackToken
+  feedbackSecret?: string;
 }
 
 interface TraceData {
@@ -189,7 +422,7 @@ interface TraceData {
 /**
  * Canonical event format for Observa API
  */
-type EventType =
+export type EventType =
   | "llm_call"
   | "tool_call"
   | "retrieval"
@@ -204,9 +437,79 @@ type EventType =
   | "agent_create"
   | "guardrail"
   | "reasoning_step"
-  | "prompt_template";
+  | "prompt_template"
+  | "span";
+
+/**
+ * Handle passed to observa.trace() / observa.span() callbacks
+ */
+export interface ObservaSpanScope {
+  traceId: string;
+  spanId: string;
+}
+
+/**
+ * Handle returned by observa.startTraceHandle(). It stays bound to its own
+ * trace, even when another trace is started later in the same async context.
+ */
+export interface ObservaTrace extends ObservaSpanScope {
+  // Run fn inside this trace (events tracked in fn join it)
+  run<T>(fn: () => T): T;
+  // End this trace and send its events; resolves to the trace ID, or null if
+  // it already ended
+  end(options?: {
+    outcome?: "success" | "error" | "timeout";
+  }): Promise<string | null>;
+}
 
-interface CanonicalEvent {
+/**
+ * App-level span kind (free-form; "tool" is reserved for tool calls)
+ */
+export type ObservaSpanKind =
+  | "internal"
+  | "chain"
+  | "agent"
+  | "task"
+  | "retriever"
+  | "workflow"
+  | string;
+
+export interface StartSpanOptions {
+  name: string;
+  kind?: ObservaSpanKind;
+  attributes?: Record<string, any>;
+}
+
+/**
+ * Handle returned by observa.startSpan(). The span event is recorded when
+ * end() is called; later calls are ignored.
+ */
+export interface ObservaSpan extends ObservaSpanScope {
+  setAttribute(key: string, value: any): ObservaSpan;
+  addEvent(name: string, attributes?: Record<string, any>): ObservaSpan;
+  end(options?: {
+    status?: "success" | "error";
+    output?: any;
+    // Recorded as an error event under the span (implies status "error")
+    error?: unknown;
+  }): void;
+}
+
+/**
+ * Options for observa.wrap() and the @observe() decorator
+ */
+export interface WrapOptions {
+  // Span name (defaults to the function/method name)
+  name?: string;
+  // "tool" records a tool_call event instead of a span
+  kind?: ObservaSpanKind | "tool";
+  // Record the call arguments (default true)
+  captureArgs?: boolean;
+  // Record the return value / yielded items (default true)
+  captureResult?: boolean;
+}
+
+export interface CanonicalEvent {
   tenant_id: string;
   project_id: string;
   environment: "dev" | "prod";
@@ -221,6 +524,8 @@ interface CanonicalEvent {
   agent_name?: string | null;
   version?: string | null;
   route?: string | null;
+  // Stable across retries and replays (set when the persistent queue is enabled)
+  idempotency_key?: string;
   attributes: {
     llm_call?: {
       model: string;
@@ -229,6 +534,14 @@ interface CanonicalEvent {
       input_tokens?: number | null;
       output_tokens?: number | null;
       total_tokens?: number | null;
+      // Subsets of input_tokens / output_tokens billed at their own rates
+      cached_input_tokens?: number | null;
+      reasoning_tokens?: number | null;
+      // Prompt cache reads / writes, reported next to input_tokens (Anthropic)
+      cache_read_input_tokens?: number | null;
+      cache_write_input_tokens?: number | null;
+      // Whether token counts came from the provider or the tokenizer
+      usage_source?: "provider_reported" | "estimated" | null;
       latency_ms: number;
       time_to_first_token_ms?: number | null;
       streaming_duration_ms?: number | null;
@@ -312,6 +625,8 @@ interface CanonicalEvent {
       embedding_dimensions?: number | null;
       vector_metric?: "cosine" | "euclidean" | "dot_product" | string | null;
       rerank_score?: number | null;
+      rerank_model?: string | null;
+      provider_name?: string | null;
       fusion_method?: string | null;
       deduplication_removed_count?: number | null;
       quality_score?: number | null;
@@ -333,6 +648,8 @@ interface CanonicalEvent {
       output_tokens?: number | null;
       latency_ms: number;
       cost?: number | null;
+      input_cost?: number | null;
+      output_cost?: number | null;
       input_text?: string | null;
       input_hash?: string | null;
       embeddings?: number[][] | null;
@@ -380,9 +697,29 @@ interface CanonicalEvent {
       comment?: string | null;
       outcome?: "success" | "failure" | "partial" | null;
     };
+    span?: {
+      name: string;
+      kind?: ObservaSpanKind | null;
+      start_time?: string | null;
+      end_time?: string | null;
+      latency_ms: number;
+      // "interrupted": paused for human input (e.g. LangGraph interrupt())
+      status: "success" | "error" | "interrupted";
+      attributes?: Record<string, any> | null;
+      events?: Array<{
+        name: string;
+        timestamp: string;
+        attributes?: Record<string, any> | null;
+      }> | null;
+      output?: any;
+    };
     trace_start?: {
       name?: string | null;
       metadata?: Record<string, any> | null;
+      // Sampling decision (lets the backend rescale counts by 1 / sample_rate)
+      sample_rate?: number | null;
+      sampled?: boolean | null;
+      sampling_override?: "error" | "feedback" | null;
     };
     trace_end?: {
       total_latency_ms?: number | null;
@@ -583,59 +920,32 @@ function sanitizeAttributesForStorage(
       trimmed.includes(":") &&
       trimmed.length > 3 // At least "a":b
     ) {
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "index.ts:sanitizeAttributesForStorage:safetyCheck",
-            message: "Safety check triggered - found malformed JSON string",
-            data: {
-              stringValue: trimmed.substring(0, 200),
-              stringLength: trimmed.length,
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "F",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "index.ts:sanitizeAttributesForStorage:safetyCheck",
+        "Safety check triggered - found malformed JSON string",
+        () => ({
+          stringValue: trimmed.substring(0, 200),
+          stringLength: trimmed.length,
+        }),
+      );
 
       // This might be a malformed JSON object string - try to normalize it
       try {
         const normalized = normalizeToolArguments(value);
         // If normalization succeeded and returned an object, use that instead
         if (typeof normalized !== "string") {
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location:
-                  "index.ts:sanitizeAttributesForStorage:safetyCheckSuccess",
-                message: "Safety check fixed malformed string",
-                data: {
-                  original: trimmed.substring(0, 100),
-                  normalizedType: typeof normalized,
-                  normalizedPreview: JSON.stringify(normalized).substring(
-                    0,
-                    100,
-                  ),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "F",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "index.ts:sanitizeAttributesForStorage:safetyCheckSuccess",
+            "Safety check fixed malformed string",
+            () => ({
+              original: trimmed.substring(0, 100),
+              normalizedType: typeof normalized,
+              normalizedPreview: JSON.stringify(normalized).substring(
+                0,
+                100,
+              ),
+            }),
+          );
           return sanitizeAttributesForStorage(
             normalized,
             seen,
@@ -643,28 +953,14 @@ function sanitizeAttributesForStorage(
           );
         }
       } catch (e) {
-        // #region agent log
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location:
-                "index.ts:sanitizeAttributesForStorage:safetyCheckFailed",
-              message: "Safety check failed to fix malformed string",
-              data: {
-                error: String(e),
-                stringValue: trimmed.substring(0, 200),
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "F",
-            }),
-          },
-        ).catch(() => {});
-        // #endregion
+        emitDiagnostic(
+          "index.ts:sanitizeAttributesForStorage:safetyCheckFailed",
+          "Safety check failed to fix malformed string",
+          () => ({
+            error: String(e),
+            stringValue: trimmed.substring(0, 200),
+          }),
+        );
         // If normalization fails, proceed with original string
       }
     }
@@ -887,28 +1183,18 @@ function toPlainJson<T>(value: T, maxStringLength?: number): T {
 }
 
 function normalizeToolArguments(value: unknown): unknown {
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "index.ts:normalizeToolArguments:entry",
-      message: "normalizeToolArguments called",
-      data: {
-        valueType: typeof value,
-        valuePreview:
-          typeof value === "string"
-            ? value.substring(0, 200)
-            : String(value).substring(0, 200),
-        valueLength: typeof value === "string" ? value.length : 0,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "A,B,C",
+  emitDiagnostic(
+    "index.ts:normalizeToolArguments:entry",
+    "normalizeToolArguments called",
+    () => ({
+      valueType: typeof value,
+      valuePreview:
+        typeof value === "string"
+          ? value.substring(0, 200)
+          : String(value).substring(0, 200),
+      valueLength: typeof value === "string" ? value.length : 0,
     }),
-  }).catch(() => {});
-  // #endregion
+  );
 
   if (typeof value !== "string") {
     return value;
@@ -922,48 +1208,28 @@ function normalizeToolArguments(value: unknown): unknown {
   try {
     // Try to parse as JSON first
     const parsed = JSON.parse(value);
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:normalizeToolArguments:parsed",
-        message: "Successfully parsed as JSON",
-        data: {
-          parsedType: typeof parsed,
-          parsedPreview: JSON.stringify(parsed).substring(0, 200),
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "A",
+    emitDiagnostic(
+      "index.ts:normalizeToolArguments:parsed",
+      "Successfully parsed as JSON",
+      () => ({
+        parsedType: typeof parsed,
+        parsedPreview: JSON.stringify(parsed).substring(0, 200),
       }),
-    }).catch(() => {});
-    // #endregion
+    );
     return parsed;
   } catch (parseError) {
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:normalizeToolArguments:parseFailed",
-        message: "JSON parse failed, attempting fixes",
-        data: {
-          error: String(parseError),
-          valuePreview: value.substring(0, 200),
-          startsWithDoubleQuote: value.trim().startsWith('""'),
-          endsWithDoubleQuote: value.trim().endsWith('""'),
-          hasColon: value.includes(":"),
-          startsWithQuote: value.trim().startsWith('"'),
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "B",
+    emitDiagnostic(
+      "index.ts:normalizeToolArguments:parseFailed",
+      "JSON parse failed, attempting fixes",
+      () => ({
+        error: String(parseError),
+        valuePreview: value.substring(0, 200),
+        startsWithDoubleQuote: value.trim().startsWith('""'),
+        endsWithDoubleQuote: value.trim().endsWith('""'),
+        hasColon: value.includes(":"),
+        startsWithQuote: value.trim().startsWith('"'),
       }),
-    }).catch(() => {});
-    // #endregion
+    );
     // If parsing fails, check if it looks like malformed JSON that we can fix
     const trimmed = value.trim();
 
@@ -1010,85 +1276,46 @@ function normalizeToolArguments(value: unknown): unknown {
       !trimmed.startsWith('"{') &&
       trimmed.includes(":")
     ) {
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "index.ts:normalizeToolArguments:attemptSimpleWrap",
-            message: "Attempting simple wrap for malformed JSON pattern",
-            data: {
-              trimmed: trimmed.substring(0, 200),
-              trimmedLength: trimmed.length,
-              firstChar: trimmed[0],
-              hasColon: trimmed.includes(":"),
-              wrapped: `{${trimmed}}`.substring(0, 200),
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "B",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "index.ts:normalizeToolArguments:attemptSimpleWrap",
+        "Attempting simple wrap for malformed JSON pattern",
+        () => ({
+          trimmed: trimmed.substring(0, 200),
+          trimmedLength: trimmed.length,
+          firstChar: trimmed[0],
+          hasColon: trimmed.includes(":"),
+          wrapped: `{${trimmed}}`.substring(0, 200),
+        }),
+      );
 
       // Try wrapping the entire string in braces
       try {
         const wrapped = `{${trimmed}}`;
         const parsed = JSON.parse(wrapped);
-        // #region agent log
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location: "index.ts:normalizeToolArguments:simpleWrapSuccess",
-              message: "Successfully fixed by simple wrapping",
-              data: {
-                original: trimmed.substring(0, 100),
-                wrapped: wrapped.substring(0, 100),
-                parsedType: typeof parsed,
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "B",
-            }),
-          },
-        ).catch(() => {});
-        // #endregion
+        emitDiagnostic(
+          "index.ts:normalizeToolArguments:simpleWrapSuccess",
+          "Successfully fixed by simple wrapping",
+          () => ({
+            original: trimmed.substring(0, 100),
+            wrapped: wrapped.substring(0, 100),
+            parsedType: typeof parsed,
+          }),
+        );
         return parsed;
       } catch (wrapError) {
-        // #region agent log
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location: "index.ts:normalizeToolArguments:simpleWrapFailed",
-              message: "Simple wrapping failed - this will cause JSON error",
-              data: {
-                error: String(wrapError),
-                errorMessage:
-                  wrapError instanceof Error
-                    ? wrapError.message
-                    : String(wrapError),
-                trimmed: trimmed.substring(0, 200),
-                wrapped: `{${trimmed}}`.substring(0, 200),
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "B",
-            }),
-          },
-        ).catch(() => {});
-        // #endregion
+        emitDiagnostic(
+          "index.ts:normalizeToolArguments:simpleWrapFailed",
+          "Simple wrapping failed - this will cause JSON error",
+          () => ({
+            error: String(wrapError),
+            errorMessage:
+              wrapError instanceof Error
+                ? wrapError.message
+                : String(wrapError),
+            trimmed: trimmed.substring(0, 200),
+            wrapped: `{${trimmed}}`.substring(0, 200),
+          }),
+        );
 
         // If simple wrapping fails, try one more aggressive fix:
         // The string might be "key":"value" but with escaped quotes or special characters
@@ -1134,57 +1361,30 @@ function normalizeToolArguments(value: unknown): unknown {
             }
 
             const reconstructed: Record<string, any> = { [key]: val };
-            // #region agent log
-            fetch(
-              "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-              {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  location:
-                    "index.ts:normalizeToolArguments:reconstructSuccess",
-                  message: "Successfully reconstructed from key-value pattern",
-                  data: {
-                    original: trimmed.substring(0, 100),
-                    reconstructed: JSON.stringify(reconstructed).substring(
-                      0,
-                      100,
-                    ),
-                    key,
-                    valuePreview: String(val).substring(0, 50),
-                  },
-                  timestamp: Date.now(),
-                  sessionId: "debug-session",
-                  runId: "run1",
-                  hypothesisId: "B",
-                }),
-              },
-            ).catch(() => {});
-            // #endregion
+            emitDiagnostic(
+              "index.ts:normalizeToolArguments:reconstructSuccess",
+              "Successfully reconstructed from key-value pattern",
+              () => ({
+                original: trimmed.substring(0, 100),
+                reconstructed: JSON.stringify(reconstructed).substring(
+                  0,
+                  100,
+                ),
+                key,
+                valuePreview: String(val).substring(0, 50),
+              }),
+            );
             return reconstructed;
           }
         } catch (reconstructError) {
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "index.ts:normalizeToolArguments:reconstructFailed",
-                message: "Reconstruction failed",
-                data: {
-                  error: String(reconstructError),
-                  trimmed: trimmed.substring(0, 200),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "B",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "index.ts:normalizeToolArguments:reconstructFailed",
+            "Reconstruction failed",
+            () => ({
+              error: String(reconstructError),
+              trimmed: trimmed.substring(0, 200),
+            }),
+          );
         }
 
         // If all fixes fail, the string is likely malformed in a way we can't fix
@@ -1206,28 +1406,15 @@ function normalizeToolArguments(value: unknown): unknown {
       !trimmed.startsWith("[") &&
       trimmed.startsWith('"')
     ) {
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "index.ts:normalizeToolArguments:attemptWrap",
-            message: "Attempting to wrap string in braces",
-            data: {
-              trimmed: trimmed.substring(0, 200),
-              matchesPattern: !!trimmed.match(/^"[^"]+":/),
-              wrapped: `{${trimmed}}`.substring(0, 200),
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "B",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "index.ts:normalizeToolArguments:attemptWrap",
+        "Attempting to wrap string in braces",
+        () => ({
+          trimmed: trimmed.substring(0, 200),
+          matchesPattern: !!trimmed.match(/^"[^"]+":/),
+          wrapped: `{${trimmed}}`.substring(0, 200),
+        }),
+      );
 
       // Check if it matches the pattern "key": (with optional value)
       const keyPattern = /^"[^"]+":/;
@@ -1236,47 +1423,21 @@ function normalizeToolArguments(value: unknown): unknown {
           // Try wrapping in braces
           const wrapped = `{${trimmed}}`;
           const parsed = JSON.parse(wrapped);
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "index.ts:normalizeToolArguments:wrapSuccess",
-                message: "Successfully wrapped and parsed",
-                data: { parsedType: typeof parsed },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "B",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "index.ts:normalizeToolArguments:wrapSuccess",
+            "Successfully wrapped and parsed",
+            () => ({ parsedType: typeof parsed }),
+          );
           return parsed;
         } catch (wrapError) {
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "index.ts:normalizeToolArguments:wrapFailed",
-                message: "Wrapping in braces failed",
-                data: {
-                  error: String(wrapError),
-                  wrapped: `{${trimmed}}`.substring(0, 200),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "B",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "index.ts:normalizeToolArguments:wrapFailed",
+            "Wrapping in braces failed",
+            () => ({
+              error: String(wrapError),
+              wrapped: `{${trimmed}}`.substring(0, 200),
+            }),
+          );
           // Fall through - return original value
         }
       }
@@ -1284,50 +1445,30 @@ function normalizeToolArguments(value: unknown): unknown {
 
     // If all parsing attempts fail, return the value as-is
     // JSON.stringify in sanitizeAttributesForStorage will properly escape it
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:normalizeToolArguments:returnOriginal",
-        message: "Returning original value (all fixes failed)",
-        data: {
-          valuePreview: value.substring(0, 200),
-          valueLength: value.length,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "B",
+    emitDiagnostic(
+      "index.ts:normalizeToolArguments:returnOriginal",
+      "Returning original value (all fixes failed)",
+      () => ({
+        valuePreview: value.substring(0, 200),
+        valueLength: value.length,
       }),
-    }).catch(() => {});
-    // #endregion
+    );
     return value;
   }
 }
 
 function normalizeMessageToolCalls(message: any): any {
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "index.ts:normalizeMessageToolCalls:entry",
-      message: "normalizeMessageToolCalls called",
-      data: {
-        hasMessage: !!message,
-        messageType: typeof message,
-        hasAdditionalKwargs: !!message?.additional_kwargs,
-        hasToolCalls: Array.isArray(message?.tool_calls),
-        hasFunctionCall: !!message?.function_call,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "A,C",
+  emitDiagnostic(
+    "index.ts:normalizeMessageToolCalls:entry",
+    "normalizeMessageToolCalls called",
+    () => ({
+      hasMessage: !!message,
+      messageType: typeof message,
+      hasAdditionalKwargs: !!message?.additional_kwargs,
+      hasToolCalls: Array.isArray(message?.tool_calls),
+      hasFunctionCall: !!message?.function_call,
     }),
-  }).catch(() => {});
-  // #endregion
+  );
 
   if (!message || typeof message !== "object") return message;
 
@@ -1372,30 +1513,17 @@ function normalizeMessageToolCalls(message: any): any {
       ) {
         const fn = { ...normalizedCall.function };
         if ("arguments" in fn) {
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "index.ts:normalizeMessageToolCalls:toolCallArgs",
-                message: "Normalizing tool_call function.arguments",
-                data: {
-                  argsType: typeof fn.arguments,
-                  argsPreview:
-                    typeof fn.arguments === "string"
-                      ? fn.arguments.substring(0, 200)
-                      : String(fn.arguments).substring(0, 200),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "A,C",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "index.ts:normalizeMessageToolCalls:toolCallArgs",
+            "Normalizing tool_call function.arguments",
+            () => ({
+              argsType: typeof fn.arguments,
+              argsPreview:
+                typeof fn.arguments === "string"
+                  ? fn.arguments.substring(0, 200)
+                  : String(fn.arguments).substring(0, 200),
+            }),
+          );
           fn.arguments = normalizeToolArguments(fn.arguments);
         }
         normalizedCall.function = fn;
@@ -1410,52 +1538,29 @@ function normalizeMessageToolCalls(message: any): any {
   ) {
     const functionCall = { ...normalized.function_call };
     if ("arguments" in functionCall) {
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "index.ts:normalizeMessageToolCalls:functionCallArgs",
-            message: "Normalizing function_call.arguments",
-            data: {
-              argsType: typeof functionCall.arguments,
-              argsPreview:
-                typeof functionCall.arguments === "string"
-                  ? functionCall.arguments.substring(0, 200)
-                  : String(functionCall.arguments).substring(0, 200),
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "A,C",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "index.ts:normalizeMessageToolCalls:functionCallArgs",
+        "Normalizing function_call.arguments",
+        () => ({
+          argsType: typeof functionCall.arguments,
+          argsPreview:
+            typeof functionCall.arguments === "string"
+              ? functionCall.arguments.substring(0, 200)
+              : String(functionCall.arguments).substring(0, 200),
+        }),
+      );
       functionCall.arguments = normalizeToolArguments(functionCall.arguments);
     }
     normalized.function_call = functionCall;
   }
 
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "index.ts:normalizeMessageToolCalls:exit",
-      message: "normalizeMessageToolCalls returning",
-      data: {
-        normalizedPreview: JSON.stringify(normalized).substring(0, 500),
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "C",
+  emitDiagnostic(
+    "index.ts:normalizeMessageToolCalls:exit",
+    "normalizeMessageToolCalls returning",
+    () => ({
+      normalizedPreview: JSON.stringify(normalized).substring(0, 500),
     }),
-  }).catch(() => {});
-  // #endregion
+  );
 
   return normalized;
 }
@@ -1463,6 +1568,10 @@ function normalizeMessageToolCalls(message: any): any {
 // ------------------------------------------------------------
 // SDK
 // ------------------------------------------------------------
+
+// First client created with init() and not yet ended (used by @observe())
+let defaultClient: Observa | null = null;
+
 export class Observa {
   private apiKey: string;
   private instanceId: string;
@@ -1472,10 +1581,25 @@ export class Observa {
   private environment: "dev" | "prod";
 
   private apiUrl: string;
+  private transport: ObservaTransport;
+  private exporters: ObservaTransport[];
+  // Events already handed to the exporters (re-buffered events are retried)
+  private exportedEvents = new WeakSet<CanonicalEvent>();
+  // Re-buffered events whose trace was already sent (sent again as-is)
+  private resendEvents = new WeakSet<CanonicalEvent>();
+  private unregisterDiagnostics: (() => void) | null = null;
+  private persistentQueue: PersistentQueue | null = null;
+  private replayPromise: Promise<void> | null = null;
 
   private isProduction: boolean;
   private sampleRate: number;
   private maxResponseChars: number;
+  private pricing: PricingRegistry;
+  private tokenizer: Tokenizer;
+  private redactor: Redactor | null;
+  private contentCapture: ContentCapture;
+  private providerMatchers: ProviderMatcher[];
+  private feedbackSecret: string | null;
 
   // Buffering and retry (now stores canonical events)
   private eventBuffer: CanonicalEvent[] = [];
@@ -1485,15 +1609,12 @@ export class Observa {
   private flushIntervalMs = 5000; // Flush every 5 seconds
   private flushIntervalId: ReturnType<typeof setInterval> | null = null;
 
-  // Span hierarchy tracking (for manual trace management)
-  private currentTraceId: string | null = null;
-  private rootSpanId: string | null = null;
-  private spanStack: string[] = []; // Stack for tracking parent-child relationships
-  private traceStartTime: number | null = null;
-
-  // PHASE 5: Langfuse parity - explicit trace-level I/O (updateTrace)
-  private traceLevelInput: string | null = null;
-  private traceLevelOutput: string | null = null;
+  // Manual traces that have not ended yet, by trace ID. The trace/span a
+  // caller is in lives on its async context (context.ts), so concurrent
+  // requests get independent traces.
+  private activeTraces: Map<string, TraceState> = new Map();
+  // Errors already recorded by trace()/span() callbacks
+  private capturedErrors: WeakSet<object> = new WeakSet();
 
   // Track traces with errors (for automatic trace_end generation when using instrumentation)
   private tracesWithErrors: Set<string> = new Set();
@@ -1515,6 +1636,57 @@ export class Observa {
     this.traceSpanIds.set(traceId, new Set([spanId]));
   }
 
+  /**
+   * This client's manual trace for the current async context (null if none)
+   */
+  private getActiveTrace(
+    context: TraceContext | undefined = getTraceContext(),
+  ): TraceState | null {
+    const trace = context?.trace;
+    if (!trace || trace.ended) return null;
+    return this.activeTraces.get(trace.traceId) === trace ? trace : null;
+  }
+
+  /**
+   * Begin a manual trace and make it current for the calling async context
+   */
+  private enterTrace(traceId: string, rootSpanId: string): TraceContext {
+    const trace: TraceState = {
+      traceId,
+      rootSpanId,
+      startTime: Date.now(),
+      input: null,
+      output: null,
+      ended: false,
+      sampled: isTraceSampled(traceId, this.sampleRate),
+      samplingOverride: null,
+      deferredStart: null,
+    };
+    this.activeTraces.set(traceId, trace);
+    const context: TraceContext = {
+      traceId,
+      spanId: rootSpanId,
+      parentSpanId: null,
+      trace,
+    };
+    enterTraceContext(context);
+    return context;
+  }
+
+  /**
+   * Context for a child span of the current context
+   */
+  private createChildContext(spanId: string): TraceContext {
+    const context = getTraceContext();
+    const trace = this.getActiveTrace(context);
+    return {
+      traceId: trace?.traceId ?? context?.traceId ?? "",
+      spanId,
+      parentSpanId: context?.spanId ?? null,
+      ...(trace ? { trace } : {}),
+    };
+  }
+
   constructor(config: ObservaInitConfig) {
     this.apiKey = config.apiKey;
     this.instanceId = crypto.randomUUID();
@@ -1564,8 +1736,39 @@ export class Observa {
       config.mode === "production" || nodeEnv === "production";
 
     this.sampleRate =
-      typeof config.sampleRate === "number" ? config.sampleRate : 1.0;
+      typeof config.sampleRate === "number" && !Number.isNaN(config.sampleRate)
+        ? Math.min(1, Math.max(0, config.sampleRate))
+        : 1.0;
     this.maxResponseChars = config.maxResponseChars ?? 50_000;
+    this.pricing = createPricingRegistry(config.pricing);
+    this.tokenizer = config.tokenizer ?? createHeuristicTokenizer();
+    this.redactor = config.redaction ? createRedactor(config.redaction) : null;
+    this.contentCapture = createContentCapture(
+      config.captureContent,
+      config.captureContentMaxChars,
+    );
+    this.providerMatchers = config.providerMatchers ?? [];
+    let feedbackSecretEnv: string | undefined;
+    try {
+      feedbackSecretEnv = (globalThis as any).process?.env
+        ?.OBSERVA_FEEDBACK_SECRET;
+    } catch {
+      // Ignore
+    }
+    this.feedbackSecret = config.feedbackSecret || feedbackSecretEnv || null;
+
+    this.transport = config.transport
+      ? resolveTransport(config.transport)
+      : createHttpTransport({
+          apiUrl: this.apiUrl,
+          apiKey: this.apiKey,
+          serialize: (events) =>
+            safeJsonStringify(events, {
+              maxStringLength: this.maxResponseChars,
+            }),
+          diagnosticsOwner: this,
+        });
+    this.exporters = (config.exporters || []).map(resolveTransport);
 
     console.log(
       `💧 Observa SDK Initialized (${
@@ -1573,9 +1776,30 @@ export class Observa {
       })`,
     );
 
+    if (config.persistentQueue) {
+      this.persistentQueue = createPersistentQueue(
+        config.persistentQueue,
+        this,
+      );
+      this.replayPromise = this.replayPersistedEvents();
+    }
+
+    const diagnosticHandler = resolveDiagnosticHandler(config);
+    if (diagnosticHandler) {
+      // Only this client's diagnostics (and shared helpers') reach it
+      this.unregisterDiagnostics = registerDiagnosticHandler(
+        diagnosticHandler,
+        this,
+      );
+    }
+
     // Debug logging
     if (!this.isProduction) {
-      console.log(`🔗 [Observa] API URL: ${this.apiUrl}`);
+      console.log(
+        `🔗 [Observa] ${
+          config.transport ? "Transport: custom" : `API URL: ${this.apiUrl}`
+        }`,
+      );
       console.log(`🔗 [Observa] Tenant: ${this.tenantId}`);
       console.log(`🔗 [Observa] Project: ${this.projectId}`);
       console.log(
@@ -1619,6 +1843,96 @@ export class Observa {
     }
   }
 
+  /**
+   * Re-buffer events that a previous run persisted but never delivered
+   */
+  private async replayPersistedEvents(): Promise<void> {
+    if (!this.persistentQueue) return;
+    try {
+      const replayed = await this.persistentQueue.replay();
+      if (replayed.length === 0) return;
+      console.log(
+        `[Observa] Replaying ${replayed.length} undelivered events from the persistent queue`,
+      );
+      for (const { event, resend } of replayed) {
+        if (resend) this.resendEvents.add(event);
+      }
+      this.eventBuffer.unshift(...replayed.map(({ event }) => event));
+      await this.flush();
+    } catch (error) {
+      console.error("[Observa] Failed to replay persistent queue:", error);
+    }
+  }
+
+  /**
+   * Persist a trace_start/trace_end created at flush time, so a replay
+   * resends it with the rest of its trace
+   */
+  private persistSynthesizedEvent(event: CanonicalEvent): void {
+    if (!this.persistentQueue) return;
+    event.idempotency_key = crypto.randomUUID();
+    this.persistentQueue.append(event);
+  }
+
+  /**
+   * Mark events as delivered (or intentionally discarded) in the persistent queue
+   */
+  private ackPersistedEvents(events: CanonicalEvent[]): void {
+    if (!this.persistentQueue) return;
+    const keys = events
+      .map((e) => e.idempotency_key)
+      .filter((key): key is string => !!key);
+    if (keys.length > 0) {
+      this.persistentQueue.ack(keys);
+    }
+  }
+
+  /**
+   * Record the sampling decision on a trace's trace_start before sending.
+   * Sampled-out traces were already reduced to their errors and feedback in
+   * addEvent (shouldRecordEvent); this reports which override kept them.
+   * Returns false when the trace should be dropped.
+   */
+  private applyTraceSampling(
+    traceId: string,
+    events: CanonicalEvent[],
+  ): boolean {
+    const sampled = isTraceSampled(traceId, this.sampleRate);
+
+    let override: "error" | "feedback" | null = null;
+    if (
+      this.tracesWithErrors.has(traceId) ||
+      events.some(
+        (e) =>
+          e.event_type === "error" ||
+          (e.event_type === "trace_end" &&
+            e.attributes.trace_end?.outcome === "error"),
+      )
+    ) {
+      override = "error";
+    } else if (events.some((e) => e.event_type === "feedback")) {
+      override = "feedback";
+    }
+
+    if (!sampled && !override) {
+      return false;
+    }
+
+    for (const event of events) {
+      if (event.event_type !== "trace_start") continue;
+      event.attributes = {
+        ...event.attributes,
+        trace_start: {
+          ...event.attributes.trace_start,
+          sample_rate: this.sampleRate,
+          sampled,
+          sampling_override: sampled ? null : override,
+        },
+      };
+    }
+    return true;
+  }
+
   /**
    * Helper: Create base event properties
    */
@@ -1628,7 +1942,7 @@ export class Observa {
     environment: "dev" | "prod";
     trace_id: string;
   } {
-    const traceId = this.currentTraceId || crypto.randomUUID();
+    const traceId = this.getActiveTrace()?.traceId || crypto.randomUUID();
     return {
       tenant_id: this.tenantId,
       project_id: this.projectId,
@@ -1637,6 +1951,117 @@ export class Observa {
     };
   }
 
+  /**
+   * Fill missing input_cost / output_cost / cost on llm_call and embedding
+   * attributes from the pricing registry. Provider-reported costs are kept.
+   */
+  private applyPricing(eventType: EventType, attributes: any): any {
+    if (eventType !== "llm_call" && eventType !== "embedding") {
+      return attributes;
+    }
+    const attrs = attributes?.[eventType];
+    if (!attrs || attrs.cost != null) {
+      return attributes;
+    }
+
+    const estimate =
+      attrs.input_cost != null && attrs.output_cost != null
+        ? null
+        : this.pricing.estimate({
+            model: attrs.response_model || attrs.model,
+            provider: attrs.provider_name,
+            inputTokens: attrs.input_tokens,
+            outputTokens: attrs.output_tokens,
+            cachedInputTokens: attrs.cached_input_tokens,
+            reasoningTokens: attrs.reasoning_tokens,
+            cacheReadInputTokens: attrs.cache_read_input_tokens,
+            cacheWriteInputTokens: attrs.cache_write_input_tokens,
+          });
+    const inputCost = attrs.input_cost ?? estimate?.inputCost ?? null;
+    const outputCost = attrs.output_cost ?? estimate?.outputCost ?? null;
+    if (inputCost === null && outputCost === null) return attributes;
+    return {
+      ...attributes,
+      [eventType]: {
+        ...attrs,
+        input_cost: inputCost,
+        output_cost: outputCost,
+        cost: (inputCost ?? 0) + (outputCost ?? 0),
+      },
+    };
+  }
+
+  /**
+   * Estimate the cost of a model call from the pricing registry
+   * (built-in list prices plus ObservaInitConfig.pricing).
+   * Returns null for unknown models.
+   */
+  estimateCost(usage: TokenUsageForPricing): CostEstimate | null {
+    return this.pricing.estimate(usage);
+  }
+
+  /**
+   * Count tokens with the configured tokenizer (used when a provider omits
+   * usage). Falls back to ~4 characters per token if the tokenizer throws.
+   */
+  countTokens(text: string, model?: string | null): number {
+    if (!text) return 0;
+    try {
+      return this.tokenizer.countTokens(text, model ?? null);
+    } catch (error) {
+      console.error("[Observa] Tokenizer failed:", error);
+      return Math.ceil(text.length / 4);
+    }
+  }
+
+  /**
+   * Head-sampling check for one event. Manual traces are decided once in
+   * startTrace; other events by their trace ID (same hash, same result).
+   * Sampled-out traces only record errors and feedback. For a manual trace
+   * the first of those also releases its deferred trace_start, and later
+   * events (including trace_end) are kept.
+   */
+  private shouldRecordEvent(
+    traceId: string,
+    eventData: Partial<CanonicalEvent> & { event_type: EventType },
+  ): boolean {
+    const trace = this.activeTraces.get(traceId);
+    const sampled = trace
+      ? trace.sampled
+      : isTraceSampled(traceId, this.sampleRate);
+    if (sampled || trace?.samplingOverride) return true;
+
+    let override: "error" | "feedback" | null = null;
+    if (
+      eventData.event_type === "error" ||
+      (eventData.event_type === "trace_end" &&
+        eventData.attributes?.trace_end?.outcome === "error")
+    ) {
+      override = "error";
+    } else if (eventData.event_type === "feedback") {
+      override = "feedback";
+    }
+
+    if (!trace) return override !== null;
+    if (override) {
+      trace.samplingOverride = override;
+      const deferredStart = trace.deferredStart;
+      trace.deferredStart = null;
+      if (deferredStart) {
+        this.addEvent(deferredStart as Parameters<Observa["addEvent"]>[0]);
+      }
+      return true;
+    }
+    if (eventData.event_type === "trace_start") {
+      trace.deferredStart = {
+        ...eventData,
+        trace_id: traceId,
+        timestamp: eventData.timestamp || new Date().toISOString(),
+      };
+    }
+    return false;
+  }
+
   /**
    * Helper: Add event to buffer with proper span hierarchy
    */
@@ -1647,20 +2072,35 @@ export class Observa {
     },
   ): void {
     const baseProps = this.createBaseEventProperties();
+    const explicitTraceId: string | undefined = (eventData as any).trace_id;
+    // The current span of this async context is the default parent, unless
+    // the event names a different trace
+    const context = getTraceContext();
+    const activeTrace = this.getActiveTrace(context);
     const parentSpanId =
-      this.spanStack.length > 0
-        ? this.spanStack[this.spanStack.length - 1]
+      context &&
+      (!context.trace || activeTrace) &&
+      (!explicitTraceId || explicitTraceId === context.traceId)
+        ? context.spanId
         : null;
 
+    // Outside a manual trace, events join the trace of the current span
+    const contextTraceId =
+      context && !context.trace ? context.traceId : undefined;
+    const eventTraceId =
+      explicitTraceId ?? (contextTraceId || baseProps.trace_id);
+    // Head sampling happens before any processing or buffering
+    if (!this.shouldRecordEvent(eventTraceId, eventData)) return;
+
     const spanId = eventData.span_id || crypto.randomUUID();
 
     // Track root span IDs for traces (for automatic trace_end generation)
     // When using instrumentation without startTrace, the first event's span becomes the root
     if (
-      !this.currentTraceId &&
-      !this.traceRootSpanIds.has(baseProps.trace_id)
+      !this.activeTraces.has(eventTraceId) &&
+      !this.traceRootSpanIds.has(eventTraceId)
     ) {
-      this.traceRootSpanIds.set(baseProps.trace_id, spanId);
+      this.traceRootSpanIds.set(eventTraceId, spanId);
     }
 
     const resolvedParentSpanId =
@@ -1670,7 +2110,7 @@ export class Observa {
 
     const event: CanonicalEvent = {
       ...baseProps,
-      trace_id: (eventData as any).trace_id ?? baseProps.trace_id,
+      trace_id: eventTraceId,
       span_id: spanId,
       parent_span_id:
         resolvedParentSpanId === spanId ? null : resolvedParentSpanId,
@@ -1683,112 +2123,77 @@ export class Observa {
       version: eventData.version ?? null,
       route: eventData.route ?? null,
       attributes: (() => {
-        // #region agent log
-        const attrsStr = JSON.stringify(eventData.attributes);
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location: "index.ts:addEvent:beforeSanitize",
-              message: "Attributes before sanitizeAttributesForStorage",
-              data: {
-                attributesPreview: attrsStr.substring(0, 500),
-                attributesLength: attrsStr.length,
-                hasInputMessages:
-                  !!eventData.attributes?.llm_call?.input_messages,
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "C,D,E",
-            }),
+        emitDiagnostic(
+          "index.ts:addEvent:beforeSanitize",
+          "Attributes before sanitizeAttributesForStorage",
+          () => {
+            const attrsStr = JSON.stringify(eventData.attributes);
+            return {
+              attributesPreview: attrsStr.substring(0, 500),
+              attributesLength: attrsStr.length,
+              hasInputMessages:
+                !!eventData.attributes?.llm_call?.input_messages,
+            };
           },
-        ).catch(() => {});
-        // #endregion
+          this,
+        );
         const sanitized = sanitizeAttributesForStorage(
           eventData.attributes,
           undefined,
           this.maxResponseChars,
         );
-        // #region agent log
-        try {
-          const sanitizedStr = JSON.stringify(sanitized);
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "index.ts:addEvent:afterSanitize",
-                message: "Attributes after sanitizeAttributesForStorage",
-                data: {
-                  sanitizedPreview: sanitizedStr.substring(0, 500),
-                  sanitizedLength: sanitizedStr.length,
-                  isValidJSON: true,
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "C,D,E",
-              }),
-            },
-          ).catch(() => {});
-        } catch (e) {
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "index.ts:addEvent:afterSanitize",
-                message: "ERROR: sanitized attributes are invalid JSON",
-                data: { error: String(e) },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "E",
-              }),
-            },
-          ).catch(() => {});
-        }
-        // #endregion
-        return sanitized;
+        emitDiagnostic(
+          "index.ts:addEvent:afterSanitize",
+          "Attributes after sanitizeAttributesForStorage",
+          () => {
+            try {
+              const sanitizedStr = JSON.stringify(sanitized);
+              return {
+                sanitizedPreview: sanitizedStr.substring(0, 500),
+                sanitizedLength: sanitizedStr.length,
+                isValidJSON: true,
+              };
+            } catch (e) {
+              return { isValidJSON: false, error: String(e) };
+            }
+          },
+          this,
+        );
+        const priced = this.applyPricing(eventData.event_type, sanitized);
+        // Redact before capture so hashes are never taken over raw PII
+        const redacted = this.redactor
+          ? this.redactor.redact(priced)
+          : priced;
+        return this.contentCapture.apply(eventData.event_type, redacted);
       })(),
     };
 
     if (event.event_type === "llm_call") {
       const llmAttrs: any = (event as any)?.attributes?.llm_call || {};
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "index.ts:addEvent",
-            message: "llm_call event buffered",
-            data: {
-              model: llmAttrs.model || null,
-              provider: llmAttrs.provider_name || null,
-              inputLength:
-                typeof llmAttrs.input === "string" ? llmAttrs.input.length : 0,
-              outputLength:
-                typeof llmAttrs.output === "string"
-                  ? llmAttrs.output.length
-                  : 0,
-              status: llmAttrs.status || null,
-              traceId: event.trace_id,
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "E",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "index.ts:addEvent",
+        "llm_call event buffered",
+        () => ({
+          model: llmAttrs.model || null,
+          provider: llmAttrs.provider_name || null,
+          inputLength:
+            typeof llmAttrs.input === "string" ? llmAttrs.input.length : 0,
+          outputLength:
+            typeof llmAttrs.output === "string" ? llmAttrs.output.length : 0,
+          status: llmAttrs.status || null,
+          traceId: event.trace_id,
+        }),
+        this,
+      );
+    }
+
+    // Write-ahead: persist before buffering. The append is synchronous once
+    // node:fs has loaded (at init, or shortly after on older Node.js);
+    // earlier events are written as soon as it does, so a crash in that
+    // window can still lose them
+    if (this.persistentQueue) {
+      event.idempotency_key = crypto.randomUUID();
+      this.persistentQueue.append(event);
     }
 
     this.eventBuffer.push(event);
@@ -1802,9 +2207,20 @@ export class Observa {
   }
 
   /**
-   * Start a new trace (manual trace management)
+   * Start a new trace (manual trace management). The trace becomes current
+   * for the calling async context. Returns the trace ID.
    */
   startTrace(
+    options: Parameters<Observa["startTraceHandle"]>[0] = {},
+  ): string {
+    return this.startTraceHandle(options).traceId;
+  }
+
+  /**
+   * Like startTrace(), but returns a handle that stays bound to the new trace
+   * (for traces started side by side in one async context)
+   */
+  startTraceHandle(
     options: {
       name?: string;
       metadata?: Record<string, any>;
@@ -1817,41 +2233,35 @@ export class Observa {
       attributes?: Record<string, any>;
       attributes_json?: string;
     } = {},
-  ): string {
-    // End previous trace if active
-    if (this.currentTraceId) {
-      console.warn("[Observa] Ending previous trace before starting new one");
-      this.endTrace().catch(console.error);
+  ): ObservaTrace {
+    // A trace already current in this async context (e.g. one started by a
+    // sibling call) keeps running until its own handle ends it
+    const previousTrace = this.getActiveTrace();
+    if (previousTrace) {
+      emitDiagnostic(
+        "index.ts:startTrace",
+        "Trace started while another trace is current in this context",
+        () => ({ previousTraceId: previousTrace.traceId }),
+        this,
+      );
     }
 
-    this.currentTraceId = crypto.randomUUID();
-    this.rootSpanId = crypto.randomUUID();
-    this.spanStack = [this.rootSpanId];
-    this.traceStartTime = Date.now();
-    this.traceLevelInput = null;
-    this.traceLevelOutput = null;
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:startTrace",
-        message: "startTrace called",
-        data: {
-          instanceId: this.instanceId,
-          currentTraceId: this.currentTraceId,
-          rootSpanId: this.rootSpanId,
-          hasChainType: !!options.chainType,
-          hasNumPrompts: options.numPrompts !== undefined,
-          hasAttributesJson: !!options.attributes_json,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "J",
+    const context = this.enterTrace(crypto.randomUUID(), crypto.randomUUID());
+    const trace = context.trace!;
+    emitDiagnostic(
+      "index.ts:startTrace",
+      "startTrace called",
+      () => ({
+        instanceId: this.instanceId,
+        currentTraceId: trace.traceId,
+        rootSpanId: trace.rootSpanId,
+        activeTraceCount: this.activeTraces.size,
+        hasChainType: !!options.chainType,
+        hasNumPrompts: options.numPrompts !== undefined,
+        hasAttributesJson: !!options.attributes_json,
       }),
-    }).catch(() => {});
-    // #endregion
+      this,
+    );
 
     // CRITICAL: Build trace_start attributes with chain data if provided
     // If attributes_json is provided, parse it and merge with other data
@@ -1903,7 +2313,7 @@ export class Observa {
 
     this.addEvent({
       event_type: "trace_start",
-      span_id: this.rootSpanId,
+      span_id: trace.rootSpanId,
       parent_span_id: null,
       conversation_id: options.conversationId || null,
       session_id: options.sessionId || null,
@@ -1913,7 +2323,13 @@ export class Observa {
       },
     });
 
-    return this.currentTraceId;
+    return {
+      traceId: trace.traceId,
+      spanId: trace.rootSpanId,
+      run: (fn) => runInTraceContext(context, fn),
+      end: (endOptions = {}) =>
+        this.endTrace({ ...endOptions, traceId: trace.traceId }),
+    };
   }
 
   /**
@@ -1928,11 +2344,8 @@ export class Observa {
     attributes_json?: string;
   }): void {
     // If no trace is active, create one
-    if (!this.currentTraceId && payload.traceId) {
-      this.currentTraceId = payload.traceId;
-      this.rootSpanId = payload.spanId;
-      this.spanStack = [this.rootSpanId];
-      this.traceStartTime = Date.now();
+    if (!this.getActiveTrace() && payload.traceId) {
+      this.enterTrace(payload.traceId, payload.spanId);
     }
 
     // Parse attributes_json if provided
@@ -1981,7 +2394,8 @@ export class Observa {
       event_type: "trace_start",
       span_id: payload.spanId,
       parent_span_id: payload.parentSpanId,
-      trace_id: payload.traceId || this.currentTraceId || crypto.randomUUID(),
+      trace_id:
+        payload.traceId || this.getCurrentTraceId() || crypto.randomUUID(),
       attributes: {
         trace_start: traceStartAttributes,
       },
@@ -2021,7 +2435,7 @@ export class Observa {
       event_type: event.event_type as any,
       span_id: event.span_id,
       parent_span_id: event.parent_span_id,
-      trace_id: event.trace_id || this.currentTraceId || crypto.randomUUID(),
+      trace_id: event.trace_id || this.getCurrentTraceId() || crypto.randomUUID(),
       timestamp: event.timestamp || new Date().toISOString(),
       attributes,
     });
@@ -2031,32 +2445,23 @@ export class Observa {
    * Check if a trace is currently active
    */
   hasActiveTrace(): boolean {
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:hasActiveTrace",
-        message: "hasActiveTrace called",
-        data: {
-          instanceId: this.instanceId,
-          currentTraceId: this.currentTraceId,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "J",
+    emitDiagnostic(
+      "index.ts:hasActiveTrace",
+      "hasActiveTrace called",
+      () => ({
+        instanceId: this.instanceId,
+        currentTraceId: this.getCurrentTraceId(),
       }),
-    }).catch(() => {});
-    // #endregion
-    return !!this.currentTraceId;
+      this,
+    );
+    return this.getActiveTrace() !== null;
   }
 
   /**
    * Debug helper: expose current trace id
    */
   getCurrentTraceId(): string | null {
-    return this.currentTraceId;
+    return this.getActiveTrace()?.traceId ?? null;
   }
 
   /**
@@ -2064,8 +2469,10 @@ export class Observa {
    * Values are included in trace_end on endTrace and used by the API for summary.query/response.
    */
   updateTrace(input?: string | null, output?: string | null): void {
-    if (input !== undefined) this.traceLevelInput = input;
-    if (output !== undefined) this.traceLevelOutput = output;
+    const trace = this.getActiveTrace();
+    if (!trace) return;
+    if (input !== undefined) trace.input = input;
+    if (output !== undefined) trace.output = output;
   }
 
   /**
@@ -2079,12 +2486,21 @@ export class Observa {
     inputTokens?: number | null;
     outputTokens?: number | null;
     totalTokens?: number | null;
+    // Subsets of inputTokens / outputTokens (prompt cache hits, reasoning)
+    cachedInputTokens?: number | null;
+    reasoningTokens?: number | null;
+    // Prompt cache reads / writes, not included in inputTokens (Anthropic)
+    cacheReadInputTokens?: number | null;
+    cacheWriteInputTokens?: number | null;
+    // Defaults to "provider_reported" when token counts are given
+    usageSource?: "provider_reported" | "estimated" | null;
     latencyMs: number;
     timeToFirstTokenMs?: number | null;
     streamingDurationMs?: number | null;
     finishReason?: string | null;
     responseId?: string | null;
     systemFingerprint?: string | null;
+    // Omit to estimate from the pricing registry
     cost?: number | null;
     temperature?: number | null;
     maxTokens?: number | null;
@@ -2131,6 +2547,7 @@ export class Observa {
     choiceCount?: number | null;
     // Optional linkage
     traceId?: string | null;
+    parentSpanId?: string | null;
     // Additional metadata (tools, toolChoice, settings, etc.)
     metadata?: Record<string, any> | null;
     toolDefinitions?: Array<Record<string, any>> | null;
@@ -2215,6 +2632,9 @@ export class Observa {
 
     this.addEvent({
       ...(options.traceId ? { trace_id: options.traceId } : {}),
+      ...(options.parentSpanId !== undefined
+        ? { parent_span_id: options.parentSpanId }
+        : {}),
       event_type: "llm_call",
       span_id: spanId,
       attributes: {
@@ -2225,6 +2645,15 @@ export class Observa {
           input_tokens: options.inputTokens || null,
           output_tokens: options.outputTokens || null,
           total_tokens: options.totalTokens || null,
+          cached_input_tokens: options.cachedInputTokens || null,
+          reasoning_tokens: options.reasoningTokens || null,
+          cache_read_input_tokens: options.cacheReadInputTokens || null,
+          cache_write_input_tokens: options.cacheWriteInputTokens || null,
+          usage_source:
+            options.usageSource ??
+            (options.inputTokens || options.outputTokens
+              ? "provider_reported"
+              : null),
           latency_ms: options.latencyMs,
           time_to_first_token_ms: options.timeToFirstTokenMs || null,
           streaming_duration_ms: options.streamingDurationMs || null,
@@ -2273,7 +2702,7 @@ export class Observa {
     });
 
     // Register LLM span for trace so feedback can validate parentSpanId
-    const traceIdForSpan = options.traceId ?? this.currentTraceId ?? null;
+    const traceIdForSpan = options.traceId ?? this.getCurrentTraceId();
     this.registerSpanForTrace(traceIdForSpan, spanId);
 
     return spanId;
@@ -2314,33 +2743,26 @@ export class Observa {
   }): string {
     const spanId = crypto.randomUUID();
 
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:trackToolCall",
-        message: "trackToolCall called",
-        data: {
-          toolName: options.toolName,
-          instanceId: this.instanceId,
-          currentTraceId: this.currentTraceId,
-          spanStackDepth: this.spanStack.length,
-          eventBufferSize: this.eventBuffer.length,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "G",
+    emitDiagnostic(
+      "index.ts:trackToolCall",
+      "trackToolCall called",
+      () => ({
+        toolName: options.toolName,
+        instanceId: this.instanceId,
+        currentTraceId: this.getCurrentTraceId(),
+        activeTraceCount: this.activeTraces.size,
+        eventBufferSize: this.eventBuffer.length,
       }),
-    }).catch(() => {});
-    // #endregion
+      this,
+    );
 
     this.addEvent({
       ...(options.traceId ? { trace_id: options.traceId } : {}),
+      ...(options.parentSpanId !== undefined
+        ? { parent_span_id: options.parentSpanId }
+        : {}),
       event_type: "tool_call",
       span_id: spanId,
-      parent_span_id: options.parentSpanId ?? null,
       attributes: {
         tool_call: {
           tool_name: options.toolName,
@@ -2363,27 +2785,18 @@ export class Observa {
       },
     });
 
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:trackToolCall",
-        message: "trackToolCall addEvent completed",
-        data: {
-          toolName: options.toolName,
-          instanceId: this.instanceId,
-          currentTraceId: this.currentTraceId,
-          spanStackDepth: this.spanStack.length,
-          eventBufferSize: this.eventBuffer.length,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "G",
+    emitDiagnostic(
+      "index.ts:trackToolCall",
+      "trackToolCall addEvent completed",
+      () => ({
+        toolName: options.toolName,
+        instanceId: this.instanceId,
+        currentTraceId: this.getCurrentTraceId(),
+        activeTraceCount: this.activeTraces.size,
+        eventBufferSize: this.eventBuffer.length,
       }),
-    }).catch(() => {});
-    // #endregion
+      this,
+    );
 
     return spanId;
   }
@@ -2403,13 +2816,22 @@ export class Observa {
     embeddingDimensions?: number | null;
     vectorMetric?: "cosine" | "euclidean" | "dot_product" | string | null;
     rerankScore?: number | null;
+    rerankModel?: string | null;
+    providerName?: string | null; // e.g., "cohere"
     fusionMethod?: string | null;
     deduplicationRemovedCount?: number | null;
     qualityScore?: number | null;
+    // Optional linkage
+    parentSpanId?: string | null;
+    traceId?: string | null;
   }): string {
     const spanId = crypto.randomUUID();
 
     this.addEvent({
+      ...(options.traceId ? { trace_id: options.traceId } : {}),
+      ...(options.parentSpanId !== undefined
+        ? { parent_span_id: options.parentSpanId }
+        : {}),
       event_type: "retrieval",
       span_id: spanId,
       attributes: {
@@ -2426,6 +2848,8 @@ export class Observa {
           embedding_dimensions: options.embeddingDimensions || null,
           vector_metric: options.vectorMetric || null,
           rerank_score: options.rerankScore || null,
+          rerank_model: options.rerankModel || null,
+          provider_name: options.providerName || null,
           fusion_method: options.fusionMethod || null,
           deduplication_removed_count:
             options.deduplicationRemovedCount || null,
@@ -2534,28 +2958,19 @@ export class Observa {
       rating = Math.max(1, Math.min(5, rating));
     }
 
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:trackFeedback",
-        message: "trackFeedback called",
-        data: {
-          instanceId: this.instanceId,
-          currentTraceId: this.currentTraceId,
-          spanStackDepth: this.spanStack.length,
-          eventBufferSize: this.eventBuffer.length,
-          type: options.type,
-          hasParentSpanId: !!options.parentSpanId,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "L",
+    emitDiagnostic(
+      "index.ts:trackFeedback",
+      "trackFeedback called",
+      () => ({
+        instanceId: this.instanceId,
+        currentTraceId: this.getCurrentTraceId(),
+        activeTraceCount: this.activeTraces.size,
+        eventBufferSize: this.eventBuffer.length,
+        type: options.type,
+        hasParentSpanId: !!options.parentSpanId,
       }),
-    }).catch(() => {});
-    // #endregion
+      this,
+    );
 
     this.addEvent({
       ...(options.traceId ? { trace_id: options.traceId } : {}),
@@ -2578,31 +2993,72 @@ export class Observa {
       },
     });
 
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:trackFeedback",
-        message: "trackFeedback addEvent completed",
-        data: {
-          instanceId: this.instanceId,
-          currentTraceId: this.currentTraceId,
-          spanStackDepth: this.spanStack.length,
-          eventBufferSize: this.eventBuffer.length,
-          type: options.type,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "L",
+    emitDiagnostic(
+      "index.ts:trackFeedback",
+      "trackFeedback addEvent completed",
+      () => ({
+        instanceId: this.instanceId,
+        currentTraceId: this.getCurrentTraceId(),
+        activeTraceCount: this.activeTraces.size,
+        eventBufferSize: this.eventBuffer.length,
+        type: options.type,
       }),
-    }).catch(() => {});
-    // #endregion
+      this,
+    );
 
     return spanId;
   }
 
+  /**
+   * Sign a feedback token for a span, to hand to the browser with the
+   * result. Returns null when no feedbackSecret is configured.
+   *
+   * @param traceId - Trace of the call the feedback is about
+   * @param spanId - Span the feedback attaches to (e.g. the llm_call span)
+   * @param options - Lifetime (default 1 hour) and the user, session and
+   *   conversation the feedback is recorded for
+   */
+  createFeedbackToken(
+    traceId: string,
+    spanId: string,
+    options?: FeedbackTokenOptions,
+  ): string | null {
+    if (!this.feedbackSecret) return null;
+    return createFeedbackTokenFn(
+      { traceId, spanId },
+      this.feedbackSecret,
+      options,
+    );
+  }
+
+  /**
+   * Request handler for feedback submitted by the browser with a feedback
+   * token. Works as a Next.js route handler or any fetch-style handler
+   * (Request => Response) and as Express / Next.js API route middleware
+   * ((req, res) => void).
+   *
+   * @example
+   * ```typescript
+   * // app/api/feedback/route.ts
+   * export const POST = observa.createFeedbackHandler({
+   *   getContext: async () => ({ userId: (await auth())?.userId }),
+   * });
+   *
+   * // Express
+   * app.post("/api/feedback", express.json(), observa.createFeedbackHandler());
+   * ```
+   */
+  createFeedbackHandler(options: FeedbackHandlerOptions = {}): FeedbackHandler {
+    const secret = options.secret ?? this.feedbackSecret;
+    if (!secret) {
+      throw new Error(
+        "Observa SDK: createFeedbackHandler() requires a secret. " +
+          "Set feedbackSecret in init() or OBSERVA_FEEDBACK_SECRET.",
+      );
+    }
+    return createFeedbackHandlerFn(this, { ...options, secret });
+  }
+
   /**
    * Track final output
    */
@@ -2643,6 +3099,9 @@ export class Observa {
     embeddingsHash?: string | null;
     operationName?: "embeddings" | string | null;
     providerName?: string | null;
+    // Optional linkage
+    parentSpanId?: string | null;
+    traceId?: string | null;
   }): string {
     const spanId = crypto.randomUUID();
 
@@ -2666,6 +3125,10 @@ export class Observa {
     }
 
     this.addEvent({
+      ...(options.traceId ? { trace_id: options.traceId } : {}),
+      ...(options.parentSpanId !== undefined
+        ? { parent_span_id: options.parentSpanId }
+        : {}),
       event_type: "embedding",
       span_id: spanId,
       attributes: {
@@ -2882,6 +3345,63 @@ export class Observa {
     return spanId;
   }
 
+  /**
+   * Track a finished span with explicit timing and linkage. For
+   * instrumentation that only sees start/end callbacks (e.g. LangGraph node
+   * runs); application code should use startSpan() / span() instead.
+   */
+  trackSpan(options: {
+    name: string;
+    kind?: ObservaSpanKind;
+    startTime: number;
+    endTime?: number;
+    status?: "success" | "error" | "interrupted";
+    attributes?: Record<string, any> | null;
+    events?: Array<{
+      name: string;
+      timestamp?: string;
+      attributes?: Record<string, any> | null;
+    }> | null;
+    output?: any;
+    // Optional linkage (spanId lets children reference the span up front)
+    spanId?: string;
+    parentSpanId?: string | null;
+    traceId?: string | null;
+  }): string {
+    const spanId = options.spanId || crypto.randomUUID();
+    const endTime = options.endTime ?? Date.now();
+    const attributes = options.attributes || {};
+    const events = (options.events || []).map((event) => ({
+      name: event.name,
+      timestamp: event.timestamp || new Date(endTime).toISOString(),
+      attributes: event.attributes ?? null,
+    }));
+
+    this.addEvent({
+      ...(options.traceId ? { trace_id: options.traceId } : {}),
+      ...(options.parentSpanId !== undefined
+        ? { parent_span_id: options.parentSpanId }
+        : {}),
+      event_type: "span",
+      span_id: spanId,
+      timestamp: new Date(endTime).toISOString(),
+      attributes: {
+        span: {
+          name: options.name,
+          kind: options.kind ?? "internal",
+          start_time: new Date(options.startTime).toISOString(),
+          end_time: new Date(endTime).toISOString(),
+          latency_ms: endTime - options.startTime,
+          status: options.status ?? "success",
+          attributes: Object.keys(attributes).length > 0 ? attributes : null,
+          events: events.length > 0 ? events : null,
+          ...(options.output !== undefined ? { output: options.output } : {}),
+        },
+      },
+    });
+    return spanId;
+  }
+
   /**
    * Track a generic LLM request (custom/self-hosted endpoints) with HTTP metadata
    */
@@ -2928,41 +3448,482 @@ export class Observa {
    * This allows tool calls to be nested under LLM calls, etc.
    */
   withSpan<T>(spanId: string, fn: () => T): T {
-    this.spanStack.push(spanId);
-    try {
-      return fn();
-    } finally {
-      this.spanStack.pop();
-    }
+    return runInTraceContext(this.createChildContext(spanId), fn);
   }
 
   /**
    * Execute an async function within a span context (for nested operations)
    */
   async withSpanAsync<T>(spanId: string, fn: () => Promise<T>): Promise<T> {
-    this.spanStack.push(spanId);
+    return runInTraceContextAsync(this.createChildContext(spanId), fn);
+  }
+
+  /**
+   * Run a callback inside a new trace. The trace is always ended, with
+   * outcome "error" (and an error event) if the callback throws. The
+   * callback's return value and errors pass through unchanged.
+   *
+   * This always starts a separate trace, even inside another one; use
+   * span() to nest work under the current trace.
+   *
+   * @example
+   * ```typescript
+   * const answer = await observa.trace({ name: "chat" }, async (trace) => {
+   *   return await agent.run(question);
+   * });
+   * ```
+   */
+  async trace<T>(
+    options: string | Parameters<Observa["startTrace"]>[0],
+    fn: (trace: ObservaSpanScope) => T | Promise<T>,
+  ): Promise<T> {
+    const traceOptions =
+      typeof options === "string" ? { name: options } : options || {};
+
+    // Run in a fresh context so the trace never ends or joins another one
+    return runInTraceContextAsync(undefined, async () => {
+      const { traceId, spanId } = this.startTraceHandle(traceOptions);
+      let outcome: "success" | "error" = "success";
+      try {
+        return await fn({ traceId, spanId });
+      } catch (error) {
+        outcome = "error";
+        this.captureCallbackError(error, traceOptions.name ?? null);
+        throw error;
+      } finally {
+        await this.endTrace({ outcome, traceId }).catch((err) => {
+          console.error("[Observa] Failed to end trace:", err);
+        });
+      }
+    });
+  }
+
+  /**
+   * Run a callback inside a child span of the current span. Events tracked
+   * in the callback nest under it. Starts a trace if none is active.
+   *
+   * @example
+   * ```typescript
+   * const docs = await observa.span("retrieve", async (span) => {
+   *   span.setAttribute("query", query);
+   *   return await vectorStore.search(query);
+   * });
+   * ```
+   */
+  async span<T>(
+    options: string | StartSpanOptions,
+    fn: (span: ObservaSpan) => T | Promise<T>,
+  ): Promise<T> {
+    const spanOptions =
+      typeof options === "string" ? { name: options } : options;
+    if (!this.getActiveTrace()) {
+      return this.trace({ name: spanOptions.name }, () =>
+        this.span(spanOptions, fn),
+      );
+    }
+
+    const { span, context } = this.createSpan(spanOptions);
+    return runInTraceContextAsync(context, async () => {
+      try {
+        const result = await fn(span);
+        span.end();
+        return result;
+      } catch (error) {
+        span.end({ error });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Start a timed span and make it the current span for the calling async
+   * context, so events tracked until end() nest under it. Starts a trace
+   * (ended together with the span) if none is active.
+   *
+   * @example
+   * ```typescript
+   * const span = observa.startSpan({ name: "rank candidates", kind: "task" });
+   * span.setAttribute("candidates", candidates.length);
+   * const ranked = await rank(candidates);
+   * span.end({ output: ranked.slice(0, 3) });
+   * ```
+   */
+  startSpan(options: StartSpanOptions): ObservaSpan {
+    const previousContext = getTraceContext();
+    const ownedTraceId = this.getActiveTrace()
+      ? null
+      : this.startTrace({ name: options.name });
+
+    const { span, context } = this.createSpan(options, (status) => {
+      // Leave the span (and the trace it started) in the calling context
+      if (getTraceContext() === context) {
+        enterTraceContext(previousContext);
+      }
+      if (ownedTraceId) {
+        this.endTrace({ outcome: status, traceId: ownedTraceId }).catch(
+          (err) => {
+            console.error("[Observa] Failed to end trace:", err);
+          },
+        );
+      }
+    });
+    enterTraceContext(context);
+    return span;
+  }
+
+  /**
+   * Build a span handle and its context (child of the current span)
+   */
+  private createSpan(
+    options: StartSpanOptions,
+    onEnd?: (status: "success" | "error") => void,
+  ): { span: ObservaSpan; context: TraceContext } {
+    const spanId = crypto.randomUUID();
+    const context = this.createChildContext(spanId);
+    const startTime = Date.now();
+    const attributes: Record<string, any> = { ...(options.attributes || {}) };
+    const events: Array<{
+      name: string;
+      timestamp: string;
+      attributes: Record<string, any> | null;
+    }> = [];
+    let ended = false;
+
+    const span: ObservaSpan = {
+      traceId: context.traceId,
+      spanId,
+      setAttribute: (key, value) => {
+        if (!ended) attributes[key] = value;
+        return span;
+      },
+      addEvent: (name, eventAttributes) => {
+        if (!ended) {
+          events.push({
+            name,
+            timestamp: new Date().toISOString(),
+            attributes: eventAttributes ?? null,
+          });
+        }
+        return span;
+      },
+      end: (endOptions = {}) => {
+        if (ended) return;
+        ended = true;
+        const endTime = Date.now();
+        const status =
+          endOptions.status ??
+          (endOptions.error !== undefined ? "error" : "success");
+
+        if (endOptions.error !== undefined) {
+          runInTraceContext(context, () =>
+            this.captureCallbackError(endOptions.error, options.name),
+          );
+        }
+
+        this.addEvent({
+          event_type: "span",
+          trace_id: context.traceId,
+          span_id: spanId,
+          parent_span_id: context.parentSpanId,
+          timestamp: new Date(endTime).toISOString(),
+          attributes: {
+            span: {
+              name: options.name,
+              kind: options.kind ?? "internal",
+              start_time: new Date(startTime).toISOString(),
+              end_time: new Date(endTime).toISOString(),
+              latency_ms: endTime - startTime,
+              status,
+              attributes:
+                Object.keys(attributes).length > 0 ? attributes : null,
+              events: events.length > 0 ? events : null,
+              ...(endOptions.output !== undefined
+                ? { output: endOptions.output }
+                : {}),
+            },
+          },
+        });
+        onEnd?.(status);
+      },
+    };
+    return { span, context };
+  }
+
+  /**
+   * Wrap a function so every call is recorded as a span (or a tool_call
+   * when kind is "tool"). Works with sync, async and async generator
+   * functions; `this`, arguments, return values and errors pass through
+   * unchanged. Starts a trace per call if none is active.
+   *
+   * @example
+   * ```typescript
+   * const lookupAccount = observa.wrap(crm.lookupAccount.bind(crm), {
+   *   name: "crm.lookupAccount",
+   *   kind: "tool",
+   * });
+   * ```
+   */
+  wrap<F extends (...args: any[]) => any>(
+    fn: F,
+    options: WrapOptions = {},
+  ): F {
+    const client = this;
+    const wrapOptions = {
+      ...options,
+      name: options.name || fn.name || "anonymous",
+    };
+    const wrapped = function (this: any, ...args: any[]) {
+      return client.runWrapped(fn, this, args, wrapOptions, null);
+    };
+    Object.defineProperty(wrapped, "name", { value: fn.name });
+    return wrapped as F;
+  }
+
+  /**
+   * Run one call of a wrapped function inside its span
+   */
+  private runWrapped(
+    fn: (...args: any[]) => any,
+    thisArg: any,
+    args: any[],
+    options: WrapOptions & { name: string },
+    ownedTraceId: string | null,
+  ): any {
+    if (!this.getActiveTrace()) {
+      // startTrace enters the trace only inside this fresh context
+      return runInTraceContext(undefined, () =>
+        this.runWrapped(
+          fn,
+          thisArg,
+          args,
+          options,
+          this.startTrace({ name: options.name }),
+        ),
+      );
+    }
+
+    const isTool = options.kind === "tool";
+    const captureResult = options.captureResult ?? true;
+    // Snapshot arguments now - callers may mutate them later
+    const input =
+      options.captureArgs === false
+        ? null
+        : sanitizeAttributesForStorage(
+            args.length === 1 ? args[0] : args,
+            undefined,
+            this.maxResponseChars,
+          );
+
+    const spanOptions: StartSpanOptions = {
+      name: options.name,
+      ...(options.kind && !isTool ? { kind: options.kind } : {}),
+      ...(input !== null && !isTool ? { attributes: { input } } : {}),
+    };
+    const { span, context } = this.createSpan(spanOptions);
+    const startTime = Date.now();
+    let finished = false;
+
+    const finish = (failed: boolean, value: unknown): void => {
+      if (finished) return;
+      finished = true;
+      const output =
+        captureResult && !failed
+          ? sanitizeAttributesForStorage(
+              value,
+              undefined,
+              this.maxResponseChars,
+            )
+          : undefined;
+
+      if (isTool) {
+        if (failed) {
+          runInTraceContext(context, () =>
+            this.captureCallbackError(value, options.name),
+          );
+        }
+        this.addEvent({
+          event_type: "tool_call",
+          trace_id: context.traceId,
+          span_id: span.spanId,
+          parent_span_id: context.parentSpanId,
+          attributes: {
+            tool_call: {
+              tool_name: options.name,
+              args:
+                input && typeof input === "object" && !Array.isArray(input)
+                  ? input
+                  : input !== null
+                    ? { args: input }
+                    : null,
+              result: output ?? null,
+              result_status: failed ? "error" : "success",
+              latency_ms: Date.now() - startTime,
+              error_message: failed
+                ? extractProviderError(value ?? {}, "unknown").message
+                : null,
+              operation_name: "execute_tool",
+              tool_type: "function",
+            },
+          },
+        });
+      } else if (failed) {
+        span.end({ error: value });
+      } else {
+        span.end(output !== undefined ? { output } : {});
+      }
+
+      if (ownedTraceId) {
+        this.endTrace({
+          outcome: failed ? "error" : "success",
+          traceId: ownedTraceId,
+        }).catch((err) => {
+          console.error("[Observa] Failed to end trace:", err);
+        });
+      }
+    };
+
+    let result: any;
+    try {
+      result = runInTraceContext(context, () => fn.apply(thisArg, args));
+    } catch (error) {
+      finish(true, error);
+      throw error;
+    }
+
+    if (
+      Object.prototype.toString.call(result) === "[object AsyncGenerator]"
+    ) {
+      return this.traceAsyncGenerator(result, context, finish, captureResult);
+    }
+    if (result && typeof result.then === "function") {
+      return result.then(
+        (value: any) => {
+          finish(false, value);
+          return value;
+        },
+        (error: any) => {
+          finish(true, error);
+          throw error;
+        },
+      );
+    }
+    finish(false, result);
+    return result;
+  }
+
+  /**
+   * Re-yield an async generator, resuming it inside the span's context.
+   * The span ends when the generator finishes, throws or is closed early.
+   */
+  private async *traceAsyncGenerator(
+    iterator: AsyncGenerator<any, any, any>,
+    context: TraceContext,
+    finish: (failed: boolean, value: unknown) => void,
+    captureResult: boolean,
+  ): AsyncGenerator<any, any, any> {
+    const maxCapturedItems = 100;
+    const items: any[] = [];
+    let completed = false;
     try {
-      return await fn();
+      let step = await runInTraceContextAsync(context, () => iterator.next());
+      while (!step.done) {
+        if (captureResult && items.length < maxCapturedItems) {
+          items.push(step.value);
+        }
+        let sent: any;
+        try {
+          sent = yield step.value;
+        } catch (error) {
+          step = await runInTraceContextAsync(context, () =>
+            iterator.throw(error),
+          );
+          continue;
+        }
+        step = await runInTraceContextAsync(context, () =>
+          iterator.next(sent),
+        );
+      }
+      completed = true;
+      finish(false, step.value === undefined ? items : step.value);
+      return step.value;
+    } catch (error) {
+      completed = true;
+      finish(true, error);
+      throw error;
     } finally {
-      this.spanStack.pop();
+      if (!completed) {
+        // Consumer stopped early (break/return)
+        await runInTraceContextAsync(context, async () => {
+          await iterator.return(undefined);
+        });
+        finish(false, items);
+      }
+    }
+  }
+
+  /**
+   * Record an error thrown from a trace()/span() callback
+   */
+  private captureCallbackError(error: unknown, spanName: string | null): void {
+    // Nested span()/trace() calls see the same error - record it once
+    if (error && typeof error === "object") {
+      if (this.capturedErrors.has(error)) return;
+      this.capturedErrors.add(error);
+    }
+    try {
+      const extracted = extractProviderError(error ?? {}, "unknown");
+      this.trackError({
+        errorType: (error as any)?.name || "Error",
+        errorMessage: extracted.message,
+        ...(error instanceof Error ? { error } : {}),
+        context: { span_name: spanName },
+        errorCategory: extracted.category,
+        errorCode: extracted.code,
+      });
+    } catch {
+      // Error capture must never replace the callback's own error
     }
   }
 
   /**
-   * End trace and send events (manual trace management)
+   * End trace and send events (manual trace management). Resolves to the
+   * trace ID, or null (with a diagnostic) when there is no active trace.
    */
   async endTrace(
     options: {
       outcome?: "success" | "error" | "timeout";
+      // End a specific trace instead of the current context's trace
+      traceId?: string;
     } = {},
-  ): Promise<string> {
-    if (!this.currentTraceId || !this.rootSpanId) {
-      throw new Error("[Observa] No active trace. Call startTrace() first.");
+  ): Promise<string | null> {
+    const context = getTraceContext();
+    const trace = options.traceId
+      ? this.activeTraces.get(options.traceId)
+      : this.getActiveTrace(context);
+    if (!trace || trace.ended) {
+      emitDiagnostic(
+        "index.ts:endTrace",
+        "No active trace to end",
+        () => ({
+          traceId: options.traceId ?? null,
+          contextTraceId: context?.traceId ?? null,
+        }),
+        this,
+      );
+      return null;
+    }
+
+    // Reset trace state before the first await, so events recorded from here
+    // on in this context no longer join the ending trace
+    trace.ended = true;
+    if (context?.trace === trace) {
+      enterTraceContext(undefined);
     }
+    const traceId = trace.traceId;
 
     // Calculate summary statistics from buffered events for this trace
     const traceEvents = this.eventBuffer.filter(
-      (e) => e.trace_id === this.currentTraceId,
+      (e) => e.trace_id === traceId,
     );
     const llmEvents = traceEvents.filter((e) => e.event_type === "llm_call");
     const totalTokens = llmEvents.reduce(
@@ -2975,13 +3936,13 @@ export class Observa {
     );
 
     // Calculate total latency
-    const totalLatency =
-      this.traceStartTime !== null ? Date.now() - this.traceStartTime : null;
+    const totalLatency = Date.now() - trace.startTime;
 
     // Add trace_end event (PHASE 5: include trace_level_input/output when set via updateTrace)
     this.addEvent({
       event_type: "trace_end",
-      span_id: this.rootSpanId,
+      trace_id: traceId,
+      span_id: trace.rootSpanId,
       parent_span_id: null,
       attributes: {
         trace_end: {
@@ -2989,56 +3950,51 @@ export class Observa {
           total_tokens: totalTokens || null,
           total_cost: totalCost || null,
           outcome: options.outcome || "success",
-          trace_level_input: this.traceLevelInput,
-          trace_level_output: this.traceLevelOutput,
+          trace_level_input: trace.input,
+          trace_level_output: trace.output,
         },
       },
     });
 
     // Get all events for this trace
     const traceEventsToSend = this.eventBuffer.filter(
-      (e) => e.trace_id === this.currentTraceId,
+      (e) => e.trace_id === traceId,
     );
-    // #region agent log
-    const traceEventTypeCounts: Record<string, number> = {};
-    for (const evt of traceEventsToSend) {
-      traceEventTypeCounts[evt.event_type] =
-        (traceEventTypeCounts[evt.event_type] || 0) + 1;
-    }
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:endTrace",
-        message: "traceEventsToSend summary",
-        data: {
-          traceId: this.currentTraceId,
+    emitDiagnostic(
+      "index.ts:endTrace",
+      "traceEventsToSend summary",
+      () => {
+        const traceEventTypeCounts: Record<string, number> = {};
+        for (const evt of traceEventsToSend) {
+          traceEventTypeCounts[evt.event_type] =
+            (traceEventTypeCounts[evt.event_type] || 0) + 1;
+        }
+        return {
+          traceId,
           eventCount: traceEventsToSend.length,
           eventTypes: traceEventTypeCounts,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "I",
-      }),
-    }).catch(() => {});
-    // #endregion
-
-    // Send events (this will flush them)
-    if (traceEventsToSend.length > 0) {
-      await this._sendEventsWithRetry(traceEventsToSend);
-      // Remove sent events from buffer
-      this.eventBuffer = this.eventBuffer.filter(
-        (e) => e.trace_id !== this.currentTraceId,
-      );
-    }
+        };
+      },
+      this,
+    );
 
-    // Reset trace state
-    const traceId = this.currentTraceId;
-    this.currentTraceId = null;
-    this.rootSpanId = null;
-    this.spanStack = [];
-    this.traceStartTime = null;
+    // Send events (this will flush them), unless the trace is sampled out.
+    // The trace stays registered until then so flush() keeps its events.
+    try {
+      if (traceEventsToSend.length > 0) {
+        if (this.applyTraceSampling(traceId, traceEventsToSend)) {
+          await this._sendEventsWithRetry(traceEventsToSend);
+        } else {
+          this.ackPersistedEvents(traceEventsToSend);
+        }
+        // Remove sent (or sampled-out) events from buffer
+        this.eventBuffer = this.eventBuffer.filter(
+          (e) => e.trace_id !== traceId,
+        );
+      }
+    } finally {
+      this.activeTraces.delete(traceId);
+    }
 
     return traceId;
   }
@@ -3054,11 +4010,10 @@ export class Observa {
       return;
     }
 
-    const activeTraceId = this.currentTraceId;
     const activeTraceEvents: CanonicalEvent[] = [];
     const otherEvents: CanonicalEvent[] = [];
     for (const event of eventsToFlush) {
-      if (activeTraceId && event.trace_id === activeTraceId) {
+      if (this.activeTraces.has(event.trace_id)) {
         activeTraceEvents.push(event);
       } else {
         otherEvents.push(event);
@@ -3086,8 +4041,18 @@ export class Observa {
     // For each trace, ensure trace_start and trace_end events exist
     // This is critical for instrumentation usage without explicit trace management
     for (const [traceId, events] of eventsByTrace.entries()) {
+      // Re-buffered after their trace was sent: its trace_start/trace_end
+      // (or their synthesized stand-ins) went out with it
+      if (events.some((e) => this.resendEvents.has(e))) {
+        await this._sendEventsWithRetry(events);
+        continue;
+      }
+
       const hasTraceStart = events.some((e) => e.event_type === "trace_start");
       const hasTraceEnd = events.some((e) => e.event_type === "trace_end");
+      // Feedback submitted after its trace was flushed (e.g. through
+      // createFeedbackHandler()) joins the existing trace as-is
+      const feedbackOnly = events.every((e) => e.event_type === "feedback");
       const hasError = this.tracesWithErrors.has(traceId);
       const rootSpanId =
         this.traceRootSpanIds.get(traceId) ||
@@ -3099,7 +4064,7 @@ export class Observa {
       if (!firstEvent) continue;
 
       // If no trace_start exists, create one (happens when using instrumentation without startTrace)
-      if (!hasTraceStart) {
+      if (!hasTraceStart && !feedbackOnly) {
         const traceStartEvent: CanonicalEvent = {
           tenant_id: firstEvent.tenant_id,
           project_id: firstEvent.project_id,
@@ -3116,11 +4081,12 @@ export class Observa {
             },
           },
         };
+        this.persistSynthesizedEvent(traceStartEvent);
         events.unshift(traceStartEvent); // Add at beginning
       }
 
       // If no trace_end exists, create one with appropriate outcome
-      if (!hasTraceEnd) {
+      if (!hasTraceEnd && !feedbackOnly) {
         // Calculate summary statistics
         const llmEvents = events.filter((e) => e.event_type === "llm_call");
         const totalTokens = llmEvents.reduce(
@@ -3159,13 +4125,20 @@ export class Observa {
             },
           },
         };
+        this.persistSynthesizedEvent(traceEndEvent);
         events.push(traceEndEvent); // Add at end
       }
 
+      const keep = this.applyTraceSampling(traceId, events);
+
       // Clean up tracking maps after flushing
       this.tracesWithErrors.delete(traceId);
       this.traceRootSpanIds.delete(traceId);
 
+      if (!keep) {
+        this.ackPersistedEvents(events);
+        continue;
+      }
       await this._sendEventsWithRetry(events);
     }
   }
@@ -3177,23 +4150,54 @@ export class Observa {
     events: CanonicalEvent[],
     maxRetries: number = 3,
   ): Promise<void> {
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        await this.sendEvents(events);
-        return; // Success
-      } catch (error) {
+    // Exporters are best-effort and run alongside the primary transport.
+    // Each event is exported once, even when it is re-buffered and retried.
+    const exported = this.sendToExporters(
+      events.filter((event) => !this.exportedEvents.has(event)),
+    );
+
+    // Events still to deliver: the whole batch, or only the events the
+    // transport asked to get again (per-event results)
+    let pending = events;
+    try {
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        let failure: unknown;
+        try {
+          const result = await this.sendEvents(pending);
+          const retry = (result?.retry ?? [])
+            .map((index) => pending[index])
+            .filter((event): event is CanonicalEvent => !!event);
+          // Delivered and permanently rejected events are both done
+          const retrySet = new Set(retry);
+          this.ackPersistedEvents(pending.filter((e) => !retrySet.has(e)));
+          if (retry.length === 0) {
+            return; // Success
+          }
+          pending = retry;
+          failure = `${retry.length} event(s) rejected as retryable`;
+        } catch (error) {
+          failure = error;
+        }
+
         if (attempt === maxRetries) {
           // Final attempt failed - re-buffer for later
           console.error(
             `[Observa] Failed to send events after ${
               maxRetries + 1
             } attempts, re-buffering:`,
-            error,
+            failure,
+          );
+          for (const event of pending) this.resendEvents.add(event);
+          this.persistentQueue?.markResend(
+            pending
+              .map((e) => e.idempotency_key)
+              .filter((key): key is string => !!key),
           );
-          this.eventBuffer.push(...events);
+          this.eventBuffer.push(...pending);
           // Prevent buffer from growing too large
           if (this.eventBuffer.length > this.maxBufferSize * 2) {
-            // Drop oldest events
+            // Drop oldest events (with the persistent queue enabled they stay
+            // on disk and are replayed on the next init)
             const toDrop = this.eventBuffer.length - this.maxBufferSize;
             this.eventBuffer.splice(0, toDrop);
           }
@@ -3204,6 +4208,24 @@ export class Observa {
         const delayMs = 100 * Math.pow(2, attempt);
         await new Promise((resolve) => setTimeout(resolve, delayMs));
       }
+    } finally {
+      await exported;
+    }
+  }
+
+  /**
+   * Deliver a batch to the additional exporters (failures are logged only)
+   */
+  private async sendToExporters(events: CanonicalEvent[]): Promise<void> {
+    if (this.exporters.length === 0 || events.length === 0) return;
+    for (const event of events) this.exportedEvents.add(event);
+    const results = await Promise.allSettled(
+      this.exporters.map((exporter) => exporter.send(events)),
+    );
+    for (const result of results) {
+      if (result.status === "rejected") {
+        console.error("[Observa] Exporter failed:", result.reason);
+      }
     }
   }
 
@@ -3216,13 +4238,42 @@ export class Observa {
       this.flushIntervalId = null;
     }
 
-    // Flush remaining events
+    // Flush remaining events (including any replayed from the persistent queue)
+    if (this.replayPromise) {
+      await this.replayPromise;
+    }
     await this.flush();
+
+    if (this.persistentQueue) {
+      await this.persistentQueue.close();
+    }
+
+    if (this.transport.close) {
+      await this.transport.close();
+    }
+    for (const exporter of this.exporters) {
+      if (exporter.close) {
+        await exporter.close();
+      }
+    }
+
+    if (this.unregisterDiagnostics) {
+      this.unregisterDiagnostics();
+      this.unregisterDiagnostics = null;
+    }
+
+    if (defaultClient === this) {
+      defaultClient = null;
+    }
   }
 
   /**
    * Observe OpenAI client - wraps client with automatic tracing
    *
+   * Also works for OpenAI-compatible servers: provider_name, server_address
+   * and server_port are detected from the client's baseURL / default
+   * headers (Azure OpenAI, Groq, Together, Ollama, vLLM, LM Studio, ...).
+   *
    * @param client - OpenAI client instance
    * @param options - Observation options (name, tags, userId, sessionId, redact)
    * @returns Wrapped OpenAI client
@@ -3245,12 +4296,23 @@ export class Observa {
       userId?: string;
       sessionId?: string;
       redact?: (data: any) => any;
+      // Extra matchers for this client, checked before config.providerMatchers
+      providerMatchers?: ProviderMatcher[];
+      // Skip detection and report this provider_name
+      providerName?: string;
     },
   ): any {
     try {
       // Use static import - tsup bundles everything together
       // This works in both ESM and CommonJS when bundled
-      return observeOpenAIFn(client, { ...options, observa: this });
+      return observeOpenAIFn(client, {
+        ...options,
+        providerMatchers: [
+          ...(options?.providerMatchers ?? []),
+          ...this.providerMatchers,
+        ],
+        observa: this,
+      });
     } catch (error) {
       // Fail gracefully - return unwrapped client
       console.error("[Observa] Failed to load OpenAI wrapper:", error);
@@ -3297,21 +4359,167 @@ export class Observa {
   }
 
   /**
-   * Observe LangChain - returns a callback handler for LangChain
+   * Observe Google Gemini client (@google/genai) - wraps client with automatic tracing
    *
+   * Traces models.generateContent, models.generateContentStream,
+   * models.embedContent and chat sessions created with chats.create.
+   *
+   * @param client - GoogleGenAI client instance
    * @param options - Observation options (name, tags, userId, sessionId, redact)
-   * @returns LangChain callback handler for tracing
+   * @returns Wrapped GoogleGenAI client
    *
    * @example
    * ```typescript
-   * import { init } from 'observa-sdk';
-   * const observa = init({ apiKey: '...' });
-   * const handler = observa.observeLangChain({ name: 'my-app' });
+   * import { GoogleGenAI } from '@google/genai';
+   * const ai = new GoogleGenAI({ apiKey: '...' });
+   * const wrapped = observa.observeGemini(ai, {
+   *   name: 'my-app',
+   *   redact: (data) => ({ ...data, contents: '[REDACTED]' })
+   * });
    * ```
    */
-  observeLangChain(options?: {
-    name?: string;
-    tags?: string[];
+  observeGemini(
+    client: any,
+    options?: {
+      name?: string;
+      tags?: string[];
+      userId?: string;
+      sessionId?: string;
+      redact?: (data: any) => any;
+    },
+  ): any {
+    try {
+      return observeGeminiFn(client, { ...options, observa: this });
+    } catch (error) {
+      // Fail gracefully - return unwrapped client
+      console.error("[Observa] Failed to load Gemini wrapper:", error);
+      return client;
+    }
+  }
+
+  /**
+   * Observe AWS Bedrock Runtime client - wraps client.send() with automatic tracing
+   *
+   * Traces ConverseCommand, ConverseStreamCommand, InvokeModelCommand and
+   * InvokeModelWithResponseStreamCommand.
+   *
+   * @param client - BedrockRuntimeClient (or BedrockRuntime) instance
+   * @param options - Observation options (name, tags, userId, sessionId, redact)
+   * @returns Wrapped Bedrock Runtime client
+   *
+   * @example
+   * ```typescript
+   * import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
+   * const bedrock = new BedrockRuntimeClient({ region: 'us-east-1' });
+   * const wrapped = observa.observeBedrock(bedrock, { name: 'my-app' });
+   * ```
+   */
+  observeBedrock(
+    client: any,
+    options?: {
+      name?: string;
+      tags?: string[];
+      userId?: string;
+      sessionId?: string;
+      redact?: (data: any) => any;
+    },
+  ): any {
+    try {
+      return observeBedrockFn(client, { ...options, observa: this });
+    } catch (error) {
+      // Fail gracefully - return unwrapped client
+      console.error("[Observa] Failed to load Bedrock wrapper:", error);
+      return client;
+    }
+  }
+
+  /**
+   * Observe Mistral client - wraps client with automatic tracing
+   *
+   * Traces chat.complete, chat.stream and embeddings.create.
+   *
+   * @param client - Mistral client instance
+   * @param options - Observation options (name, tags, userId, sessionId, redact)
+   * @returns Wrapped Mistral client
+   *
+   * @example
+   * ```typescript
+   * import { Mistral } from '@mistralai/mistralai';
+   * const mistral = new Mistral({ apiKey: '...' });
+   * const wrapped = observa.observeMistral(mistral, { name: 'my-app' });
+   * ```
+   */
+  observeMistral(
+    client: any,
+    options?: {
+      name?: string;
+      tags?: string[];
+      userId?: string;
+      sessionId?: string;
+      redact?: (data: any) => any;
+    },
+  ): any {
+    try {
+      return observeMistralFn(client, { ...options, observa: this });
+    } catch (error) {
+      // Fail gracefully - return unwrapped client
+      console.error("[Observa] Failed to load Mistral wrapper:", error);
+      return client;
+    }
+  }
+
+  /**
+   * Observe Cohere client - wraps client with automatic tracing
+   *
+   * Traces chat, chatStream, embed and rerank (v1 and v2 clients). Rerank
+   * calls are recorded as retrieval events.
+   *
+   * @param client - CohereClientV2 or CohereClient instance
+   * @param options - Observation options (name, tags, userId, sessionId, redact)
+   * @returns Wrapped Cohere client
+   *
+   * @example
+   * ```typescript
+   * import { CohereClientV2 } from 'cohere-ai';
+   * const cohere = new CohereClientV2({ token: '...' });
+   * const wrapped = observa.observeCohere(cohere, { name: 'my-app' });
+   * ```
+   */
+  observeCohere(
+    client: any,
+    options?: {
+      name?: string;
+      tags?: string[];
+      userId?: string;
+      sessionId?: string;
+      redact?: (data: any) => any;
+    },
+  ): any {
+    try {
+      return observeCohereFn(client, { ...options, observa: this });
+    } catch (error) {
+      // Fail gracefully - return unwrapped client
+      console.error("[Observa] Failed to load Cohere wrapper:", error);
+      return client;
+    }
+  }
+
+  /**
+   * Observe LangChain - returns a callback handler for LangChain
+   *
+   * @param options - Observation options (name, tags, userId, sessionId, redact)
+   * @returns LangChain callback handler for tracing
+   *
+   * @example
+   * ```typescript
+   * import { init } from 'observa-sdk';
+   * const observa = init({ apiKey: '...' });
+   * const handler = observa.observeLangChain({ name: 'my-app' });
+   * ```
+   */
+  observeLangChain(options?: {
+    name?: string;
+    tags?: string[];
     userId?: string;
     sessionId?: string;
     redact?: (data: any) => any;
@@ -3340,6 +4548,45 @@ export class Observa {
     }
   }
 
+  /**
+   * Observe LlamaIndex.TS - listens to Settings.callbackManager events
+   *
+   * Query, synthesize and agent runs become spans; LLM chat, retrieval
+   * (node IDs and scores), embedding and tool calls nest under them.
+   *
+   * @param settings - LlamaIndex Settings object (imported from 'llamaindex')
+   * @param options - Observation options (name, tags, userId, sessionId, redact)
+   * @returns Handle with detach() to stop observing
+   *
+   * @example
+   * ```typescript
+   * import { Settings, VectorStoreIndex } from 'llamaindex';
+   * const observa = init({ apiKey: '...' });
+   *
+   * observa.observeLlamaIndex(Settings, { name: 'doc-qa' });
+   *
+   * const index = await VectorStoreIndex.fromDocuments(documents);
+   * const answer = await index.asQueryEngine().query({ query: '...' });
+   * ```
+   */
+  observeLlamaIndex(
+    settings: any,
+    options?: {
+      name?: string;
+      tags?: string[];
+      userId?: string;
+      sessionId?: string;
+      redact?: (data: any) => any;
+    },
+  ): ObservedLlamaIndex {
+    try {
+      return observeLlamaIndexFn(settings, { ...options, observa: this });
+    } catch (error) {
+      console.error("[Observa] Failed to load LlamaIndex handler:", error);
+      return { detach: () => {} };
+    }
+  }
+
   /**
    * Observe Vercel AI SDK - wraps generateText and streamText functions
    *
@@ -3389,109 +4636,128 @@ export class Observa {
     }
   }
 
+  /**
+   * OpenTelemetry SpanProcessor - forwards gen_ai.* spans from an existing
+   * TracerProvider to Observa as canonical events
+   *
+   * @param options - Span filter and buffering limits
+   * @returns SpanProcessor to register on the TracerProvider
+   *
+   * @example
+   * ```typescript
+   * import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+   * const observa = init({ apiKey: '...' });
+   *
+   * const provider = new NodeTracerProvider({
+   *   spanProcessors: [observa.createOtelSpanProcessor()],
+   * });
+   * provider.register();
+   * ```
+   */
+  createOtelSpanProcessor(options?: OtelBridgeOptions): ObservaSpanProcessor {
+    return new ObservaSpanProcessor(this, options);
+  }
+
+  /**
+   * OpenTelemetry SpanExporter - same translation as createOtelSpanProcessor,
+   * for use behind a BatchSpanProcessor
+   *
+   * @example
+   * ```typescript
+   * const provider = new NodeTracerProvider({
+   *   spanProcessors: [new BatchSpanProcessor(observa.createOtelSpanExporter())],
+   * });
+   * ```
+   */
+  createOtelSpanExporter(options?: OtelBridgeOptions): ObservaSpanExporter {
+    return new ObservaSpanExporter(this, options);
+  }
+
   /**
    * Send canonical events to Observa backend
    * (internal method, use _sendEventsWithRetry for retry logic)
    */
-  private async sendEvents(events: CanonicalEvent[]): Promise<void> {
+  private async sendEvents(
+    events: CanonicalEvent[],
+  ): Promise<void | TransportSendResult> {
     if (events.length === 0) {
       return;
     }
-    // #region agent log
-    try {
-      const eventTypes: Record<string, number> = {};
-      let llmCount = 0;
-      let toolCount = 0;
-      let feedbackCount = 0;
-      let llmWithCost = 0;
-      let llmMissingModel = 0;
-      let llmMissingInput = 0;
-      let llmMissingOutput = 0;
-      for (const evt of events) {
-        eventTypes[evt.event_type] = (eventTypes[evt.event_type] || 0) + 1;
-        if (evt.event_type === "llm_call") {
-          llmCount += 1;
-          const llmAttrs = (evt as any)?.attributes?.llm_call || {};
-          const cost = llmAttrs?.cost;
-          if (typeof cost === "number" && Number.isFinite(cost)) {
-            llmWithCost += 1;
-          }
-          if (!llmAttrs?.model || llmAttrs.model === "unknown") {
-            llmMissingModel += 1;
-          }
-          if (
-            llmAttrs?.input === null ||
-            (typeof llmAttrs?.input === "string" && llmAttrs.input.length === 0)
-          ) {
-            llmMissingInput += 1;
-          }
-          if (
-            llmAttrs?.output === null ||
-            (typeof llmAttrs?.output === "string" &&
-              llmAttrs.output.length === 0)
-          ) {
-            llmMissingOutput += 1;
+    emitDiagnostic(
+      "index.ts:sendEvents",
+      "pre-send event summary",
+      () => {
+        const eventTypes: Record<string, number> = {};
+        let llmCount = 0;
+        let toolCount = 0;
+        let feedbackCount = 0;
+        let llmWithCost = 0;
+        let llmMissingModel = 0;
+        let llmMissingInput = 0;
+        let llmMissingOutput = 0;
+        for (const evt of events) {
+          eventTypes[evt.event_type] = (eventTypes[evt.event_type] || 0) + 1;
+          if (evt.event_type === "llm_call") {
+            llmCount += 1;
+            const llmAttrs = (evt as any)?.attributes?.llm_call || {};
+            const cost = llmAttrs?.cost;
+            if (typeof cost === "number" && Number.isFinite(cost)) {
+              llmWithCost += 1;
+            }
+            if (!llmAttrs?.model || llmAttrs.model === "unknown") {
+              llmMissingModel += 1;
+            }
+            if (
+              llmAttrs?.input === null ||
+              (typeof llmAttrs?.input === "string" &&
+                llmAttrs.input.length === 0)
+            ) {
+              llmMissingInput += 1;
+            }
+            if (
+              llmAttrs?.output === null ||
+              (typeof llmAttrs?.output === "string" &&
+                llmAttrs.output.length === 0)
+            ) {
+              llmMissingOutput += 1;
+            }
+          } else if (evt.event_type === "tool_call") {
+            toolCount += 1;
+          } else if (evt.event_type === "feedback") {
+            feedbackCount += 1;
           }
-        } else if (evt.event_type === "tool_call") {
-          toolCount += 1;
-        } else if (evt.event_type === "feedback") {
-          feedbackCount += 1;
         }
-      }
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "index.ts:sendEvents",
-            message: "pre-send event summary",
-            data: {
-              eventCount: events.length,
-              eventTypes,
-              llmCount,
-              toolCount,
-              feedbackCount,
-              llmWithCost,
-              llmMissingModel,
-              llmMissingInput,
-              llmMissingOutput,
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "A",
-          }),
-        },
-      ).catch(() => {});
-    } catch {
-      // ignore debug logging errors
-    }
-    // #endregion
-    // #region agent log
-    const sendEventTypeCounts: Record<string, number> = {};
-    for (const evt of events) {
-      sendEventTypeCounts[evt.event_type] =
-        (sendEventTypeCounts[evt.event_type] || 0) + 1;
-    }
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "index.ts:sendEvents",
-        message: "sending events summary",
-        data: {
+        return {
+          eventCount: events.length,
+          eventTypes,
+          llmCount,
+          toolCount,
+          feedbackCount,
+          llmWithCost,
+          llmMissingModel,
+          llmMissingInput,
+          llmMissingOutput,
+        };
+      },
+      this,
+    );
+    emitDiagnostic(
+      "index.ts:sendEvents",
+      "sending events summary",
+      () => {
+        const sendEventTypeCounts: Record<string, number> = {};
+        for (const evt of events) {
+          sendEventTypeCounts[evt.event_type] =
+            (sendEventTypeCounts[evt.event_type] || 0) + 1;
+        }
+        return {
           traceId: events[0]?.trace_id,
           eventCount: events.length,
           eventTypes: sendEventTypeCounts,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "I",
-      }),
-    }).catch(() => {});
-    // #endregion
+        };
+      },
+      this,
+    );
 
     // For backward compatibility, show pretty logs in dev mode
     // Extract first trace_id for logging
@@ -3537,30 +4803,10 @@ export class Observa {
       }
     }
 
-    // Send to Observa backend (canonical events endpoint)
+    // Send via the configured transport (HTTP ingest endpoint by default)
     try {
-      // Remove trailing slash from apiUrl if present, then add the path
-      const baseUrl = this.apiUrl.replace(/\/+$/, "");
-      const url = `${baseUrl}/api/v1/events/ingest`;
-
-      // Enhanced logging for debugging
-      console.log(
-        `[Observa] Sending ${
-          events.length
-        } canonical events - URL: ${url}, TraceID: ${traceId}, Tenant: ${
-          events[0]?.tenant_id
-        }, Project: ${events[0]?.project_id}, APIKey: ${
-          this.apiKey ? `Yes(${this.apiKey.length} chars)` : "No"
-        }`,
-      );
-
-      // Add timeout to prevent hanging requests (10 seconds)
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-      try {
-        // #region agent log
-        // Check for problematic arguments in events before serialization
+      // Check for problematic arguments in events before serialization
+      if (isDiagnosticsEnabled()) {
         for (const evt of events) {
           if (evt.event_type === "llm_call") {
             const inputMessages = (evt.attributes as any)?.llm_call
@@ -3571,57 +4817,35 @@ export class Observa {
               for (const msg of inputMessages) {
                 if (msg?.additional_kwargs?.function_call?.arguments) {
                   const args = msg.additional_kwargs.function_call.arguments;
-                  fetch(
-                    "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                    {
-                      method: "POST",
-                      headers: { "Content-Type": "application/json" },
-                      body: JSON.stringify({
-                        location: "index.ts:sendEvents:preSerialize",
-                        message:
-                          "Found function_call.arguments in input_messages",
-                        data: {
-                          argsType: typeof args,
-                          argsPreview:
-                            typeof args === "string"
-                              ? args.substring(0, 200)
-                              : JSON.stringify(args).substring(0, 200),
-                        },
-                        timestamp: Date.now(),
-                        sessionId: "debug-session",
-                        runId: "run1",
-                        hypothesisId: "D,E",
-                      }),
-                    },
-                  ).catch(() => {});
+                  emitDiagnostic(
+                    "index.ts:sendEvents:preSerialize",
+                    "Found function_call.arguments in input_messages",
+                    () => ({
+                      argsType: typeof args,
+                      argsPreview:
+                        typeof args === "string"
+                          ? args.substring(0, 200)
+                          : JSON.stringify(args).substring(0, 200),
+                    }),
+                    this,
+                  );
                 }
                 if (Array.isArray(msg?.additional_kwargs?.tool_calls)) {
                   for (const tc of msg.additional_kwargs.tool_calls) {
                     if (tc?.function?.arguments) {
                       const args = tc.function.arguments;
-                      fetch(
-                        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                        {
-                          method: "POST",
-                          headers: { "Content-Type": "application/json" },
-                          body: JSON.stringify({
-                            location: "index.ts:sendEvents:preSerialize",
-                            message:
-                              "Found tool_call function.arguments in input_messages",
-                            data: {
-                              argsType: typeof args,
-                              argsPreview:
-                                typeof args === "string"
-                                  ? args.substring(0, 200)
-                                  : JSON.stringify(args).substring(0, 200),
-                            },
-                            timestamp: Date.now(),
-                            sessionId: "debug-session",
-                            runId: "run1",
-                            hypothesisId: "D,E",
-                          }),
-                        },
-                      ).catch(() => {});
+                      emitDiagnostic(
+                        "index.ts:sendEvents:preSerialize",
+                        "Found tool_call function.arguments in input_messages",
+                        () => ({
+                          argsType: typeof args,
+                          argsPreview:
+                            typeof args === "string"
+                              ? args.substring(0, 200)
+                              : JSON.stringify(args).substring(0, 200),
+                        }),
+                        this,
+                      );
                     }
                   }
                 }
@@ -3631,57 +4855,35 @@ export class Observa {
               for (const msg of outputMessages) {
                 if (msg?.additional_kwargs?.function_call?.arguments) {
                   const args = msg.additional_kwargs.function_call.arguments;
-                  fetch(
-                    "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                    {
-                      method: "POST",
-                      headers: { "Content-Type": "application/json" },
-                      body: JSON.stringify({
-                        location: "index.ts:sendEvents:preSerialize",
-                        message:
-                          "Found function_call.arguments in output_messages",
-                        data: {
-                          argsType: typeof args,
-                          argsPreview:
-                            typeof args === "string"
-                              ? args.substring(0, 200)
-                              : JSON.stringify(args).substring(0, 200),
-                        },
-                        timestamp: Date.now(),
-                        sessionId: "debug-session",
-                        runId: "run1",
-                        hypothesisId: "D,E",
-                      }),
-                    },
-                  ).catch(() => {});
+                  emitDiagnostic(
+                    "index.ts:sendEvents:preSerialize",
+                    "Found function_call.arguments in output_messages",
+                    () => ({
+                      argsType: typeof args,
+                      argsPreview:
+                        typeof args === "string"
+                          ? args.substring(0, 200)
+                          : JSON.stringify(args).substring(0, 200),
+                    }),
+                    this,
+                  );
                 }
                 if (Array.isArray(msg?.additional_kwargs?.tool_calls)) {
                   for (const tc of msg.additional_kwargs.tool_calls) {
                     if (tc?.function?.arguments) {
                       const args = tc.function.arguments;
-                      fetch(
-                        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                        {
-                          method: "POST",
-                          headers: { "Content-Type": "application/json" },
-                          body: JSON.stringify({
-                            location: "index.ts:sendEvents:preSerialize",
-                            message:
-                              "Found tool_call function.arguments in output_messages",
-                            data: {
-                              argsType: typeof args,
-                              argsPreview:
-                                typeof args === "string"
-                                  ? args.substring(0, 200)
-                                  : JSON.stringify(args).substring(0, 200),
-                            },
-                            timestamp: Date.now(),
-                            sessionId: "debug-session",
-                            runId: "run1",
-                            hypothesisId: "D,E",
-                          }),
-                        },
-                      ).catch(() => {});
+                      emitDiagnostic(
+                        "index.ts:sendEvents:preSerialize",
+                        "Found tool_call function.arguments in output_messages",
+                        () => ({
+                          argsType: typeof args,
+                          argsPreview:
+                            typeof args === "string"
+                              ? args.substring(0, 200)
+                              : JSON.stringify(args).substring(0, 200),
+                        }),
+                        this,
+                      );
                     }
                   }
                 }
@@ -3689,175 +4891,126 @@ export class Observa {
             }
           }
         }
-        // #endregion
-
-        // Final pass: recursively fix any remaining malformed argument strings
-        // This catches any cases that might have bypassed earlier normalization
-        const fixMalformedArguments = (obj: any): any => {
-          if (obj === null || obj === undefined) return obj;
-          if (typeof obj === "string") {
-            // Check if this string looks like malformed JSON arguments
-            const trimmed = obj.trim();
-            if (
-              trimmed.startsWith('"') &&
-              !trimmed.startsWith('"{') &&
-              trimmed.includes(":") &&
-              trimmed.length > 3
-            ) {
-              // #region agent log
-              fetch(
-                "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({
-                    location: "index.ts:fixMalformedArguments:stringFound",
-                    message: "Found potential malformed string in final pass",
-                    data: {
-                      stringValue: trimmed.substring(0, 200),
-                      stringLength: trimmed.length,
-                    },
-                    timestamp: Date.now(),
-                    sessionId: "debug-session",
-                    runId: "run1",
-                    hypothesisId: "F",
-                  }),
-                },
-              ).catch(() => {});
-              // #endregion
+      }
 
-              try {
-                const normalized = normalizeToolArguments(obj);
-                if (typeof normalized !== "string") {
-                  // #region agent log
-                  fetch(
-                    "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                    {
-                      method: "POST",
-                      headers: { "Content-Type": "application/json" },
-                      body: JSON.stringify({
-                        location: "index.ts:fixMalformedArguments:fixed",
-                        message:
-                          "Successfully fixed malformed string in final pass",
-                        data: {
-                          original: trimmed.substring(0, 100),
-                          normalized: JSON.stringify(normalized).substring(
-                            0,
-                            100,
-                          ),
-                        },
-                        timestamp: Date.now(),
-                        sessionId: "debug-session",
-                        runId: "run1",
-                        hypothesisId: "F",
-                      }),
-                    },
-                  ).catch(() => {});
-                  // #endregion
-                  return normalized;
-                } else {
-                  // #region agent log
-                  fetch(
-                    "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                    {
-                      method: "POST",
-                      headers: { "Content-Type": "application/json" },
-                      body: JSON.stringify({
-                        location: "index.ts:fixMalformedArguments:stillString",
-                        message:
-                          "WARNING: Normalization returned string - this may cause error",
-                        data: {
-                          stringValue: trimmed.substring(0, 200),
-                          normalizedValue: normalized.substring(0, 200),
-                        },
-                        timestamp: Date.now(),
-                        sessionId: "debug-session",
-                        runId: "run1",
-                        hypothesisId: "F",
-                      }),
-                    },
-                  ).catch(() => {});
-                  // #endregion
-                }
-              } catch (e) {
-                // #region agent log
-                fetch(
-                  "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                  {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({
-                      location:
-                        "index.ts:fixMalformedArguments:normalizeFailed",
-                      message: "ERROR: Normalization failed in final pass",
-                      data: {
-                        error: String(e),
-                        stringValue: trimmed.substring(0, 200),
-                      },
-                      timestamp: Date.now(),
-                      sessionId: "debug-session",
-                      runId: "run1",
-                      hypothesisId: "F",
-                    }),
-                  },
-                ).catch(() => {});
-                // #endregion
+      // Final pass: recursively fix any remaining malformed argument strings
+      // This catches any cases that might have bypassed earlier normalization
+      const fixMalformedArguments = (obj: any): any => {
+        if (obj === null || obj === undefined) return obj;
+        if (typeof obj === "string") {
+          // Check if this string looks like malformed JSON arguments
+          const trimmed = obj.trim();
+          if (
+            trimmed.startsWith('"') &&
+            !trimmed.startsWith('"{') &&
+            trimmed.includes(":") &&
+            trimmed.length > 3
+          ) {
+            emitDiagnostic(
+              "index.ts:fixMalformedArguments:stringFound",
+              "Found potential malformed string in final pass",
+              () => ({
+                stringValue: trimmed.substring(0, 200),
+                stringLength: trimmed.length,
+              }),
+              this,
+            );
+
+            try {
+              const normalized = normalizeToolArguments(obj);
+              if (typeof normalized !== "string") {
+                emitDiagnostic(
+                  "index.ts:fixMalformedArguments:fixed",
+                  "Successfully fixed malformed string in final pass",
+                  () => ({
+                    original: trimmed.substring(0, 100),
+                    normalized: JSON.stringify(normalized).substring(
+                      0,
+                      100,
+                    ),
+                  }),
+                  this,
+                );
+                return normalized;
+              } else {
+                emitDiagnostic(
+                  "index.ts:fixMalformedArguments:stillString",
+                  "WARNING: Normalization returned string - this may cause error",
+                  () => ({
+                    stringValue: trimmed.substring(0, 200),
+                    normalizedValue: normalized.substring(0, 200),
+                  }),
+                  this,
+                );
               }
+            } catch (e) {
+              emitDiagnostic(
+                "index.ts:fixMalformedArguments:normalizeFailed",
+                "ERROR: Normalization failed in final pass",
+                () => ({
+                  error: String(e),
+                  stringValue: trimmed.substring(0, 200),
+                }),
+                this,
+              );
             }
-            return obj;
           }
-          if (Array.isArray(obj)) {
-            return obj.map(fixMalformedArguments);
-          }
-          if (typeof obj === "object") {
-            const fixed: Record<string, any> = {};
-            for (const [key, val] of Object.entries(obj)) {
-              // Special handling for arguments fields
-              if (key === "arguments" && typeof val === "string") {
-                fixed[key] = fixMalformedArguments(val);
-              } else if (
-                key === "function_call" &&
-                val &&
-                typeof val === "object"
+          return obj;
+        }
+        if (Array.isArray(obj)) {
+          return obj.map(fixMalformedArguments);
+        }
+        if (typeof obj === "object") {
+          const fixed: Record<string, any> = {};
+          for (const [key, val] of Object.entries(obj)) {
+            // Special handling for arguments fields
+            if (key === "arguments" && typeof val === "string") {
+              fixed[key] = fixMalformedArguments(val);
+            } else if (
+              key === "function_call" &&
+              val &&
+              typeof val === "object"
+            ) {
+              const fixedVal = { ...val } as Record<string, any>;
+              if (
+                "arguments" in fixedVal &&
+                typeof fixedVal.arguments === "string"
               ) {
-                const fixedVal = { ...val } as Record<string, any>;
-                if (
-                  "arguments" in fixedVal &&
-                  typeof fixedVal.arguments === "string"
-                ) {
-                  fixedVal.arguments = fixMalformedArguments(
-                    fixedVal.arguments,
-                  );
-                }
-                fixed[key] = fixMalformedArguments(fixedVal);
-              } else if (key === "function" && val && typeof val === "object") {
-                const fixedVal = { ...val } as Record<string, any>;
-                if (
-                  "arguments" in fixedVal &&
-                  typeof fixedVal.arguments === "string"
-                ) {
-                  fixedVal.arguments = fixMalformedArguments(
-                    fixedVal.arguments,
-                  );
-                }
-                fixed[key] = fixMalformedArguments(fixedVal);
-              } else {
-                fixed[key] = fixMalformedArguments(val);
+                fixedVal.arguments = fixMalformedArguments(
+                  fixedVal.arguments,
+                );
               }
+              fixed[key] = fixMalformedArguments(fixedVal);
+            } else if (key === "function" && val && typeof val === "object") {
+              const fixedVal = { ...val } as Record<string, any>;
+              if (
+                "arguments" in fixedVal &&
+                typeof fixedVal.arguments === "string"
+              ) {
+                fixedVal.arguments = fixMalformedArguments(
+                  fixedVal.arguments,
+                );
+              }
+              fixed[key] = fixMalformedArguments(fixedVal);
+            } else {
+              fixed[key] = fixMalformedArguments(val);
             }
-            return fixed;
           }
-          return obj;
-        };
+          return fixed;
+        }
+        return obj;
+      };
 
-        const fixedEvents = events.map(fixMalformedArguments);
+      const fixedEvents = events.map(fixMalformedArguments);
 
+      // Validate the serialized payload only when diagnostics are enabled
+      // (the transport does its own serialization)
+      if (isDiagnosticsEnabled()) {
         const payload = safeJsonStringify(fixedEvents, {
           maxStringLength: this.maxResponseChars,
         });
 
-        // #region agent log
-        // Validate the payload is valid JSON and check for problematic patterns
+        // Check the payload is valid JSON and has no problematic patterns
         try {
           const parsed = JSON.parse(payload); // Validate it's parseable
 
@@ -3875,27 +5028,16 @@ export class Observa {
                 trimmed.includes(":") &&
                 trimmed.length > 3
               ) {
-                fetch(
-                  "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                  {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({
-                      location: "index.ts:sendEvents:deepCheckFound",
-                      message:
-                        "CRITICAL: Found malformed string in parsed payload",
-                      data: {
-                        path,
-                        stringValue: trimmed.substring(0, 200),
-                        stringLength: trimmed.length,
-                      },
-                      timestamp: Date.now(),
-                      sessionId: "debug-session",
-                      runId: "run1",
-                      hypothesisId: "E",
-                    }),
-                  },
-                ).catch(() => {});
+                emitDiagnostic(
+                  "index.ts:sendEvents:deepCheckFound",
+                  "CRITICAL: Found malformed string in parsed payload",
+                  () => ({
+                    path,
+                    stringValue: trimmed.substring(0, 200),
+                    stringLength: trimmed.length,
+                  }),
+                  this,
+                );
               }
               return;
             }
@@ -3909,27 +5051,16 @@ export class Observa {
               for (const [key, val] of Object.entries(obj)) {
                 const newPath = path ? `${path}.${key}` : key;
                 if (key === "arguments" && typeof val === "string") {
-                  fetch(
-                    "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-                    {
-                      method: "POST",
-                      headers: { "Content-Type": "application/json" },
-                      body: JSON.stringify({
-                        location: "index.ts:sendEvents:deepCheckArguments",
-                        message:
-                          "CRITICAL: Found string arguments field in parsed payload",
-                        data: {
-                          path: newPath,
-                          stringValue: (val as string).substring(0, 200),
-                          stringLength: (val as string).length,
-                        },
-                        timestamp: Date.now(),
-                        sessionId: "debug-session",
-                        runId: "run1",
-                        hypothesisId: "E",
-                      }),
-                    },
-                  ).catch(() => {});
+                  emitDiagnostic(
+                    "index.ts:sendEvents:deepCheckArguments",
+                    "CRITICAL: Found string arguments field in parsed payload",
+                    () => ({
+                      path: newPath,
+                      stringValue: (val as string).substring(0, 200),
+                      stringLength: (val as string).length,
+                    }),
+                    this,
+                  );
                 }
                 checkForStringArguments(val, newPath);
               }
@@ -3946,168 +5077,37 @@ export class Observa {
               payload.length,
               (match?.index || 0) + 300,
             );
-            fetch(
-              "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-              {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  location: "index.ts:sendEvents:postSerialize",
-                  message:
-                    "ERROR: Found problematic arguments pattern in serialized payload",
-                  data: {
-                    context: payload.substring(contextStart, contextEnd),
-                    payloadLength: payload.length,
-                  },
-                  timestamp: Date.now(),
-                  sessionId: "debug-session",
-                  runId: "run1",
-                  hypothesisId: "E",
-                }),
-              },
-            ).catch(() => {});
+            emitDiagnostic(
+              "index.ts:sendEvents:postSerialize",
+              "ERROR: Found problematic arguments pattern in serialized payload",
+              () => ({
+                context: payload.substring(contextStart, contextEnd),
+                payloadLength: payload.length,
+              }),
+              this,
+            );
           } else {
-            fetch(
-              "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-              {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  location: "index.ts:sendEvents:postSerialize",
-                  message:
-                    "Payload serialized successfully, no problematic pattern found",
-                  data: { payloadLength: payload.length },
-                  timestamp: Date.now(),
-                  sessionId: "debug-session",
-                  runId: "run1",
-                  hypothesisId: "E",
-                }),
-              },
-            ).catch(() => {});
+            emitDiagnostic(
+              "index.ts:sendEvents:postSerialize",
+              "Payload serialized successfully, no problematic pattern found",
+              () => ({ payloadLength: payload.length }),
+              this,
+            );
           }
         } catch (e) {
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "index.ts:sendEvents:postSerialize",
-                message: "ERROR: Payload is not valid JSON",
-                data: {
-                  error: String(e),
-                  payloadPreview: payload.substring(0, 500),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "E",
-              }),
-            },
-          ).catch(() => {});
-        }
-        // #endregion
-
-        const response = await fetch(url, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${this.apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: payload,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        // #region agent log
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location: "index.ts:sendEvents",
-              message: "ingest response status",
-              data: {
-                status: response.status,
-                statusText: response.statusText,
-                url,
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "G",
+          emitDiagnostic(
+            "index.ts:sendEvents:postSerialize",
+            "ERROR: Payload is not valid JSON",
+            () => ({
+              error: String(e),
+              payloadPreview: payload.substring(0, 500),
             }),
-          },
-        ).catch(() => {});
-        // #endregion
-
-        // Always log response status for debugging
-        console.log(
-          `[Observa] Response status: ${response.status} ${response.statusText}`,
-        );
-
-        if (!response.ok) {
-          const errorText = await response.text().catch(() => "Unknown error");
-          let errorJson: any;
-          try {
-            errorJson = JSON.parse(errorText);
-          } catch {
-            errorJson = { error: errorText };
-          }
-
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "index.ts:sendEvents",
-                message: "ingest error response",
-                data: {
-                  status: response.status,
-                  statusText: response.statusText,
-                  errorPreview:
-                    typeof errorText === "string"
-                      ? errorText.substring(0, 300)
-                      : null,
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "G",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
-
-          console.error(
-            `[Observa] Backend API error: ${response.status} ${response.statusText}`,
-            errorJson.error || errorText,
-          );
-          throw new Error(
-            `Observa API error: ${response.status} ${
-              errorJson.error?.message || errorText
-            }`,
-          );
-        } else {
-          const result = await response.json().catch(() => ({}));
-          // Log success even in production for debugging
-          console.log(
-            `✅ [Observa] Events sent successfully - Trace ID: ${traceId}, Event count: ${
-              result.event_count || events.length
-            }`,
+            this,
           );
         }
-      } catch (fetchError) {
-        clearTimeout(timeoutId);
-        if (fetchError instanceof Error && fetchError.name === "AbortError") {
-          console.error("[Observa] Request timeout after 10 seconds");
-        }
-        throw fetchError;
       }
+
+      return await this.transport.send(fixedEvents);
     } catch (error) {
       // Enhanced error logging
       console.error("[Observa] Failed to send events:", error);
@@ -4128,5 +5128,49 @@ export class Observa {
   }
 }
 
-// factory
-export const init = (config: ObservaInitConfig) => new Observa(config);
+// factory (the first client also becomes the default for @observe())
+export const init = (config: ObservaInitConfig) => {
+  const client = new Observa(config);
+  defaultClient ??= client;
+  return client;
+};
+
+/**
+ * TC39 method decorator: records each call as a span (or tool_call with
+ * kind "tool") through observa.wrap(). Uses `options.observa`, or else the
+ * first client created with init() that has not been ended (looked up at call
+ * time, so later init() calls don't redirect it); without one, calls run
+ * untraced.
+ *
+ * @example
+ * ```typescript
+ * class Retriever {
+ *   @observe({ kind: "retriever" })
+ *   async search(query: string) { ... }
+ * }
+ * ```
+ */
+export function observe(options: WrapOptions & { observa?: Observa } = {}) {
+  const { observa, ...wrapOptions } = options;
+  return function <This, Args extends any[], Return>(
+    target: (this: This, ...args: Args) => Return,
+    context: ClassMethodDecoratorContext<
+      This,
+      (this: This, ...args: Args) => Return
+    >,
+  ): (this: This, ...args: Args) => Return {
+    const name = wrapOptions.name ?? String(context.name);
+    let wrappedFor: Observa | null = null;
+    let wrapped: ((this: This, ...args: Args) => Return) | null = null;
+
+    return function (this: This, ...args: Args): Return {
+      const client = observa ?? defaultClient;
+      if (!client) return target.apply(this, args);
+      if (wrappedFor !== client || !wrapped) {
+        wrapped = client.wrap(target, { ...wrapOptions, name });
+        wrappedFor = client;
+      }
+      return wrapped.apply(this, args);
+    };
+  };
+}
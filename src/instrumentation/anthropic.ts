@@ -10,7 +10,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { wrapStream } from "./utils";
 import { mapAnthropicToOTEL, OTEL_SEMCONV } from "./semconv";
-import { buildNormalizedLLMCall, buildOtelMetadata } from "./normalize";
+import {
+  buildNormalizedLLMCall,
+  buildOtelMetadata,
+  withEstimatedUsage,
+} from "./normalize";
 import { getTraceContext, waitUntil } from "../context";
 import { extractProviderError } from "./error-utils";
 
@@ -279,6 +283,15 @@ function recordTrace(
           .filter(Boolean)
           .join("\n") || null;
 
+      // Count tokens locally when the provider omitted usage
+      const { usage, usageSource } = withEstimatedUsage(normalized.usage, {
+        inputText,
+        outputText,
+        model: sanitizedReq.model || sanitizedRes?.model,
+        countTokens: (text: string, model: string | null) =>
+          opts.observa.countTokens(text, model),
+      });
+
       // Extract extended thinking blocks (Anthropic extended thinking / chain-of-thought)
       const thinkingBlocks = contentBlocks
         .filter((c: any) => c.type === "thinking")
@@ -350,11 +363,12 @@ function recordTrace(
           output: null, // No output on error
           inputMessages: normalized.inputMessages,
           outputMessages: normalized.outputMessages,
-          inputTokens: sanitizedRes?.usage?.input_tokens || null,
-          outputTokens: sanitizedRes?.usage?.output_tokens || null,
-          totalTokens:
-            (sanitizedRes?.usage?.input_tokens || 0) +
-              (sanitizedRes?.usage?.output_tokens || 0) || null,
+          inputTokens: usage.inputTokens || null,
+          outputTokens: usage.outputTokens || null,
+          totalTokens: usage.totalTokens || null,
+          cacheReadInputTokens: usage.cacheReadInputTokens ?? null,
+          cacheWriteInputTokens: usage.cacheWriteInputTokens ?? null,
+          usageSource,
           latencyMs: duration,
           timeToFirstTokenMs: timeToFirstToken || null,
           streamingDurationMs: streamingDuration || null,
@@ -414,11 +428,12 @@ function recordTrace(
         output: outputText,
         inputMessages: normalized.inputMessages,
         outputMessages: normalized.outputMessages,
-        inputTokens: sanitizedRes?.usage?.input_tokens || null,
-        outputTokens: sanitizedRes?.usage?.output_tokens || null,
-        totalTokens:
-          (sanitizedRes?.usage?.input_tokens || 0) +
-            (sanitizedRes?.usage?.output_tokens || 0) || null,
+        inputTokens: usage.inputTokens || null,
+        outputTokens: usage.outputTokens || null,
+        totalTokens: usage.totalTokens || null,
+        cacheReadInputTokens: usage.cacheReadInputTokens ?? null,
+        cacheWriteInputTokens: usage.cacheWriteInputTokens ?? null,
+        usageSource,
         latencyMs: duration,
         timeToFirstTokenMs: timeToFirstToken || null,
         streamingDurationMs: streamingDuration || null,
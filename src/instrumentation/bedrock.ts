@@ -0,0 +1,976 @@
+/**
+ * AWS Bedrock Runtime Wrapper (@aws-sdk/client-bedrock-runtime)
+ *
+ * Implements observeBedrock() following same pattern as OpenAI wrapper.
+ * Uses Proxy with WeakMap memoization to preserve object identity.
+ * Handles streaming with proper teeing (preserves TTFT).
+ * Includes PII redaction hooks.
+ *
+ * Intercepts client.send() for ConverseCommand, ConverseStreamCommand,
+ * InvokeModelCommand and InvokeModelWithResponseStreamCommand. InvokeModel
+ * bodies are parsed per model family (Anthropic, Llama, Titan, Nova, Cohere,
+ * Mistral); embedding models (Titan / Cohere Embed) are recorded as embedding
+ * events. Other commands pass through untouched.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { wrapStream } from "./utils";
+import {
+  buildNormalizedLLMCall,
+  buildOtelMetadata,
+  withEstimatedUsage,
+} from "./normalize";
+import { extractProviderError } from "./error-utils";
+import { emitDiagnostic } from "../diagnostics";
+
+// Type for BedrockRuntimeClient (avoid direct import to handle optional dependency)
+type BedrockRuntimeClient = any;
+
+const PROVIDER_NAME = "aws.bedrock";
+
+// WeakMap Cache for Memoization (CRITICAL for object identity)
+const proxyCache = new WeakMap<object, any>();
+
+type BedrockOperation =
+  | "Converse"
+  | "ConverseStream"
+  | "InvokeModel"
+  | "InvokeModelWithResponseStream";
+
+type ModelFamily =
+  | "anthropic"
+  | "meta"
+  | "amazon-titan"
+  | "amazon-nova"
+  | "cohere"
+  | "mistral"
+  | "unknown";
+
+// Stop reasons (lowercased, across families) reported as errors
+const TRUNCATED_STOP_REASONS = new Set(["max_tokens", "length", "error_limit"]);
+const FILTERED_STOP_REASONS = new Set([
+  "content_filtered",
+  "guardrail_intervened",
+  "error_toxic",
+]);
+
+const utf8Decoder = new TextDecoder();
+
+export interface ObserveOptions {
+  name?: string;
+  tags?: string[];
+  userId?: string;
+  sessionId?: string;
+  // Callback to scrub PII before sending to Observa
+  redact?: (data: any) => any;
+  // Observa instance for sending events
+  observa?: any; // Observa class instance
+}
+
+/** Model call parsed from a Converse or InvokeModel request */
+interface BedrockRequest {
+  modelId: string;
+  operation: BedrockOperation;
+  family: ModelFamily;
+  messages: any[] | null;
+  inputText: string | null;
+  systemText: string | null;
+  toolDefinitions: any[] | null;
+  temperature: number | null;
+  maxTokens: number | null;
+  topP: number | null;
+  topK: number | null;
+  stopSequences: string[] | null;
+}
+
+/** Model output parsed from a Converse or InvokeModel response */
+interface BedrockResult {
+  outputText: string | null;
+  outputMessages: any[] | null;
+  stopReason: string | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  cacheReadInputTokens: number | null;
+  cacheWriteInputTokens: number | null;
+  responseId: string | null;
+  metadata: Record<string, any>;
+}
+
+const OPERATIONS: Record<string, BedrockOperation> = {
+  ConverseCommand: "Converse",
+  ConverseStreamCommand: "ConverseStream",
+  InvokeModelCommand: "InvokeModel",
+  InvokeModelWithResponseStreamCommand: "InvokeModelWithResponseStream",
+};
+
+/**
+ * Operation of a command, by class name (ConverseCommand, ...). Class names
+ * do not survive minification, so unknown names fall back to the input shape:
+ * modelId + messages is Converse, modelId + body is InvokeModel (the streaming
+ * variants are told apart from the response). Other commands pass through.
+ */
+function getOperation(command: any): BedrockOperation | null {
+  const name = command?.constructor?.name;
+  const byName = typeof name === "string" ? OPERATIONS[name] : undefined;
+  if (byName) return byName;
+  const input = command?.input;
+  if (typeof input?.modelId !== "string") return null;
+  if (Array.isArray(input.messages)) return "Converse";
+  if (input.body != null) return "InvokeModel";
+  return null;
+}
+
+function isAsyncIterable(value: any): boolean {
+  return typeof value?.[Symbol.asyncIterator] === "function";
+}
+
+/**
+ * Model family from a model ID, inference profile ID or ARN
+ * ("us.anthropic.claude-3-5-sonnet-20240620-v1:0", "meta.llama3-70b-...")
+ */
+function getModelFamily(modelId: string): ModelFamily {
+  const id = (modelId.split("/").pop() || modelId)
+    .toLowerCase()
+    .replace(/^(?:[a-z]{2}|apac|global)\./, "");
+  if (id.startsWith("anthropic.")) return "anthropic";
+  if (id.startsWith("meta.")) return "meta";
+  if (id.startsWith("amazon.nova")) return "amazon-nova";
+  if (id.startsWith("amazon.titan")) return "amazon-titan";
+  if (id.startsWith("cohere.")) return "cohere";
+  if (id.startsWith("mistral.")) return "mistral";
+  return "unknown";
+}
+
+function isEmbeddingModel(modelId: string): boolean {
+  return /(?:^|[./-])embed/i.test(modelId);
+}
+
+function decodeJson(body: any): any {
+  if (body === undefined || body === null) return null;
+  try {
+    if (typeof body === "string") return JSON.parse(body);
+    if (body instanceof Uint8Array || ArrayBuffer.isView(body)) {
+      return JSON.parse(utf8Decoder.decode(body as Uint8Array));
+    }
+    return typeof body === "object" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// --- Converse ---
+
+/** Text of Converse / Nova content blocks ([{ text }, { toolUse }, ...]) */
+function blocksText(content: any): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block: any) =>
+      typeof block?.text === "string"
+        ? block.text
+        : block?.type === "text"
+          ? (block.text ?? "")
+          : "",
+    )
+    .filter(Boolean)
+    .join("\n");
+}
+
+function mapConverseBlock(block: any): { type: string; content: any } | null {
+  if (typeof block?.text === "string") {
+    return { type: "text", content: block.text };
+  }
+  if (block?.toolUse) return { type: "tool_call", content: block.toolUse };
+  if (block?.toolResult) {
+    return { type: "tool_call_response", content: block.toolResult };
+  }
+  if (block?.reasoningContent) {
+    return {
+      type: "reasoning",
+      content: block.reasoningContent.reasoningText?.text ?? null,
+    };
+  }
+  if (block?.image || block?.document || block?.video) {
+    const kind = block.image ? "image" : block.document ? "document" : "video";
+    return { type: "blob", content: { kind, format: block[kind]?.format } };
+  }
+  return null;
+}
+
+function toMessage(message: any, finishReason?: string | null): any {
+  const blocks = Array.isArray(message?.content) ? message.content : [];
+  const parts = blocks.map(mapConverseBlock).filter(Boolean);
+  return {
+    role: message?.role || "user",
+    content: blocksText(message?.content) || null,
+    ...(parts.some((p: any) => p.type !== "text") ? { parts } : {}),
+    ...(finishReason !== undefined ? { finish_reason: finishReason } : {}),
+  };
+}
+
+function joinMessagesText(messages: any[] | null): string | null {
+  return (
+    (messages ?? [])
+      .map((m: any) => m?.content)
+      .filter(Boolean)
+      .join("\n") || null
+  );
+}
+
+function parseConverseRequest(
+  input: any,
+  operation: BedrockOperation,
+): BedrockRequest {
+  const modelId = input?.modelId || "unknown";
+  const messages = Array.isArray(input?.messages)
+    ? input.messages.map((m: any) => toMessage(m))
+    : null;
+  const inference = input?.inferenceConfig ?? {};
+  const tools = (input?.toolConfig?.tools ?? [])
+    .map((t: any) => t?.toolSpec)
+    .filter(Boolean)
+    .map((spec: any) => ({
+      type: "function",
+      name: spec.name,
+      description: spec.description ?? null,
+      parameters: spec.inputSchema?.json ?? {},
+    }));
+  return {
+    modelId,
+    operation,
+    family: getModelFamily(modelId),
+    messages,
+    inputText: joinMessagesText(messages),
+    systemText: blocksText(input?.system) || null,
+    toolDefinitions: tools.length > 0 ? tools : null,
+    temperature: inference.temperature ?? null,
+    maxTokens: inference.maxTokens ?? null,
+    topP: inference.topP ?? null,
+    topK: input?.additionalModelRequestFields?.top_k ?? null,
+    stopSequences: inference.stopSequences ?? null,
+  };
+}
+
+/**
+ * Converse usage: inputTokens excludes prompt cache reads/writes, which are
+ * reported separately
+ */
+function parseConverseResult(output: any): BedrockResult {
+  const stopReason = output?.stopReason ?? null;
+  const message = output?.output?.message ?? null;
+  const usage = output?.usage ?? {};
+  return {
+    outputText: blocksText(message?.content) || null,
+    outputMessages: message ? [toMessage(message, stopReason)] : null,
+    stopReason,
+    inputTokens: usage.inputTokens ?? null,
+    outputTokens: usage.outputTokens ?? null,
+    cacheReadInputTokens: usage.cacheReadInputTokens ?? null,
+    cacheWriteInputTokens: usage.cacheWriteInputTokens ?? null,
+    responseId: output?.$metadata?.requestId ?? null,
+    metadata: {
+      ...(output?.metrics?.latencyMs != null
+        ? { bedrock_latency_ms: output.metrics.latencyMs }
+        : {}),
+      ...(output?.trace?.guardrail
+        ? { bedrock_guardrail_trace: output.trace.guardrail }
+        : {}),
+    },
+  };
+}
+
+// --- InvokeModel (model-specific JSON bodies) ---
+
+function parseInvokeRequest(
+  input: any,
+  operation: BedrockOperation,
+): BedrockRequest {
+  const modelId = input?.modelId || "unknown";
+  const family = getModelFamily(modelId);
+  const body = decodeJson(input?.body) ?? {};
+  const request: BedrockRequest = {
+    modelId,
+    operation,
+    family,
+    messages: null,
+    inputText: null,
+    systemText: null,
+    toolDefinitions: null,
+    temperature: body.temperature ?? null,
+    maxTokens: null,
+    topP: body.top_p ?? null,
+    topK: body.top_k ?? null,
+    stopSequences: null,
+  };
+
+  switch (family) {
+    case "anthropic": {
+      // Messages API, or legacy text completions ({ prompt })
+      request.messages = Array.isArray(body.messages)
+        ? body.messages.map((m: any) => ({
+            role: m?.role || "user",
+            content: blocksText(m?.content) || null,
+          }))
+        : null;
+      request.inputText =
+        joinMessagesText(request.messages) ?? body.prompt ?? null;
+      request.systemText = blocksText(body.system) || null;
+      request.maxTokens = body.max_tokens ?? body.max_tokens_to_sample ?? null;
+      request.stopSequences = body.stop_sequences ?? null;
+      request.toolDefinitions = body.tools ?? null;
+      break;
+    }
+    case "meta": {
+      request.inputText = body.prompt ?? null;
+      request.maxTokens = body.max_gen_len ?? null;
+      break;
+    }
+    case "amazon-titan": {
+      const config = body.textGenerationConfig ?? {};
+      request.inputText = body.inputText ?? null;
+      request.temperature = config.temperature ?? null;
+      request.topP = config.topP ?? null;
+      request.maxTokens = config.maxTokenCount ?? null;
+      request.stopSequences = config.stopSequences ?? null;
+      break;
+    }
+    case "amazon-nova": {
+      const config = body.inferenceConfig ?? {};
+      request.messages = Array.isArray(body.messages)
+        ? body.messages.map((m: any) => toMessage(m))
+        : null;
+      request.inputText = joinMessagesText(request.messages);
+      request.systemText = blocksText(body.system) || null;
+      request.temperature = config.temperature ?? null;
+      request.topP = config.topP ?? config.top_p ?? null;
+      request.topK = config.topK ?? config.top_k ?? null;
+      request.maxTokens = config.max_new_tokens ?? null;
+      request.stopSequences = config.stopSequences ?? null;
+      break;
+    }
+    case "cohere": {
+      // Command R ({ message, chat_history, preamble }) or Command ({ prompt })
+      const history = Array.isArray(body.chat_history)
+        ? body.chat_history.map((m: any) => ({
+            role: m?.role === "CHATBOT" ? "assistant" : "user",
+            content: m?.message ?? null,
+          }))
+        : [];
+      const prompt = body.message ?? body.prompt ?? null;
+      request.messages = [
+        ...history,
+        ...(prompt ? [{ role: "user", content: prompt }] : []),
+      ];
+      request.inputText = joinMessagesText(request.messages);
+      request.systemText = body.preamble ?? null;
+      request.topP = body.p ?? null;
+      request.topK = body.k ?? null;
+      request.maxTokens = body.max_tokens ?? null;
+      request.stopSequences = body.stop_sequences ?? null;
+      break;
+    }
+    case "mistral": {
+      // Text completion ({ prompt }) or chat ({ messages })
+      request.messages = Array.isArray(body.messages) ? body.messages : null;
+      request.inputText =
+        joinMessagesText(request.messages) ?? body.prompt ?? null;
+      request.maxTokens = body.max_tokens ?? null;
+      request.stopSequences = body.stop ?? null;
+      request.toolDefinitions = body.tools ?? null;
+      break;
+    }
+    default: {
+      request.inputText =
+        body.prompt ?? body.inputText ?? body.input ?? body.message ?? null;
+      request.maxTokens = body.max_tokens ?? null;
+    }
+  }
+
+  if (!request.messages && request.inputText) {
+    request.messages = [{ role: "user", content: request.inputText }];
+  }
+  return request;
+}
+
+function parseInvokeResult(family: ModelFamily, body: any): BedrockResult {
+  const result: BedrockResult = {
+    outputText: null,
+    outputMessages: null,
+    stopReason: null,
+    inputTokens: null,
+    outputTokens: null,
+    cacheReadInputTokens: null,
+    cacheWriteInputTokens: null,
+    responseId: null,
+    metadata: {},
+  };
+  if (!body) return result;
+
+  switch (family) {
+    case "anthropic": {
+      result.outputText =
+        blocksText(body.content) || body.completion || null;
+      result.stopReason = body.stop_reason ?? null;
+      result.responseId = body.id ?? null;
+      result.inputTokens = body.usage?.input_tokens ?? null;
+      result.outputTokens = body.usage?.output_tokens ?? null;
+      result.cacheReadInputTokens = body.usage?.cache_read_input_tokens ?? null;
+      result.cacheWriteInputTokens =
+        body.usage?.cache_creation_input_tokens ?? null;
+      break;
+    }
+    case "meta": {
+      result.outputText = body.generation ?? null;
+      result.stopReason = body.stop_reason ?? null;
+      result.inputTokens = body.prompt_token_count ?? null;
+      result.outputTokens = body.generation_token_count ?? null;
+      break;
+    }
+    case "amazon-titan": {
+      const first = body.results?.[0];
+      result.outputText = first?.outputText ?? null;
+      result.stopReason = first?.completionReason ?? null;
+      result.inputTokens = body.inputTextTokenCount ?? null;
+      result.outputTokens = first?.tokenCount ?? null;
+      break;
+    }
+    case "amazon-nova": {
+      const parsed = parseConverseResult(body);
+      return { ...parsed, responseId: null };
+    }
+    case "cohere": {
+      result.outputText = body.text ?? body.generations?.[0]?.text ?? null;
+      result.stopReason =
+        body.finish_reason ?? body.generations?.[0]?.finish_reason ?? null;
+      result.responseId = body.generation_id ?? body.id ?? null;
+      break;
+    }
+    case "mistral": {
+      const output = body.outputs?.[0];
+      const choice = body.choices?.[0];
+      result.outputText = output?.text ?? choice?.message?.content ?? null;
+      result.stopReason = output?.stop_reason ?? choice?.finish_reason ?? null;
+      result.inputTokens = body.usage?.prompt_tokens ?? null;
+      result.outputTokens = body.usage?.completion_tokens ?? null;
+      result.responseId = body.id ?? null;
+      break;
+    }
+    default: {
+      result.outputText =
+        body.generation ??
+        body.completion ??
+        body.outputText ??
+        body.text ??
+        body.outputs?.[0]?.text ??
+        body.choices?.[0]?.message?.content ??
+        null;
+      result.stopReason =
+        body.stop_reason ?? body.finish_reason ?? body.stopReason ?? null;
+    }
+  }
+  return result;
+}
+
+/** Result reconstructed from InvokeModelWithResponseStream chunks */
+function parseInvokeStreamResult(response: any): BedrockResult {
+  return {
+    outputText: response?.text || null,
+    outputMessages: null,
+    stopReason: response?.stopReason ?? null,
+    inputTokens: response?.usage?.inputTokens ?? null,
+    outputTokens: response?.usage?.outputTokens ?? null,
+    cacheReadInputTokens: response?.usage?.cacheReadInputTokens ?? null,
+    cacheWriteInputTokens: response?.usage?.cacheWriteInputTokens ?? null,
+    responseId: response?.id ?? null,
+    metadata: {},
+  };
+}
+
+/**
+ * Observe Bedrock Runtime client - wraps client.send() with automatic tracing
+ *
+ * @param client - BedrockRuntimeClient (or aggregated BedrockRuntime) instance
+ * @param options - Observation options (name, tags, userId, sessionId, redact)
+ * @returns Wrapped client (same instance reference preserved via WeakMap)
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   BedrockRuntimeClient,
+ *   ConverseCommand,
+ * } from '@aws-sdk/client-bedrock-runtime';
+ *
+ * const client = observa.observeBedrock(new BedrockRuntimeClient({}));
+ *
+ * // Automatically tracked!
+ * await client.send(new ConverseCommand({
+ *   modelId: 'anthropic.claude-3-5-sonnet-20240620-v1:0',
+ *   messages: [{ role: 'user', content: [{ text: 'Hello' }] }],
+ * }));
+ * ```
+ */
+export function observeBedrock(
+  client: BedrockRuntimeClient,
+  options?: ObserveOptions,
+): BedrockRuntimeClient {
+  // Return cached proxy if exists to maintain identity (client === client)
+  if (proxyCache.has(client)) {
+    return proxyCache.get(client);
+  }
+
+  // CRITICAL: Warn if observa instance is not provided
+  if (!options?.observa) {
+    console.error(
+      "[Observa] ⚠️ CRITICAL ERROR: observa instance not provided!\n" +
+        "\n" +
+        "Tracking will NOT work. Call observa.observeBedrock() on an instance\n" +
+        "created with init() from 'observa-sdk':\n" +
+        "\n" +
+        "  import { init } from 'observa-sdk';\n" +
+        "  const observa = init({ apiKey: '...' });\n" +
+        "  const wrapped = observa.observeBedrock(client);\n",
+    );
+  }
+
+  try {
+    const wrapped = new Proxy(client, {
+      get(target, prop, receiver) {
+        const value = Reflect.get(target, prop, receiver);
+        if (prop !== "send" || typeof value !== "function") {
+          return value;
+        }
+        return function (this: any, ...args: any[]) {
+          const operation = getOperation(args[0]);
+          // Callback-style send() returns void - leave it untraced
+          const usesCallback = args.some(
+            (arg, index) => index > 0 && typeof arg === "function",
+          );
+          if (!operation) {
+            emitDiagnostic(
+              "bedrock.ts:send",
+              "Command not traced (not a Converse or InvokeModel command)",
+              () => ({
+                command: args[0]?.constructor?.name ?? null,
+                inputKeys: Object.keys(args[0]?.input ?? {}),
+              }),
+              options?.observa,
+            );
+          }
+          if (!operation || usesCallback) {
+            return value.apply(target, args);
+          }
+          return traceBedrockCall(
+            value.bind(target),
+            args,
+            operation,
+            options,
+          );
+        };
+      },
+    });
+
+    // Cache the proxy to preserve object identity
+    proxyCache.set(client, wrapped);
+    return wrapped;
+  } catch (error) {
+    // Fail gracefully - never crash user's app
+    console.error("[Observa] Failed to wrap Bedrock client:", error);
+    return client; // Return unwrapped client - user code still works
+  }
+}
+
+/**
+ * Trace a Converse / InvokeModel call (streaming or not)
+ */
+async function traceBedrockCall(
+  originalFn: Function,
+  args: any[],
+  operation: BedrockOperation,
+  options?: ObserveOptions,
+) {
+  const startTime = Date.now();
+  const input = args[0]?.input ?? {};
+  if (operation === "InvokeModel" && isEmbeddingModel(input.modelId ?? "")) {
+    return traceEmbeddingCall(originalFn, args, options);
+  }
+  const isConverse = operation === "Converse" || operation === "ConverseStream";
+  // Parse before the call so the request is captured even on errors
+  const request = isConverse
+    ? parseConverseRequest(input, operation)
+    : parseInvokeRequest(input, operation);
+
+  try {
+    // 1. Execute Original Call
+    const result = await originalFn(...args);
+
+    // 2. Handle Streaming vs Blocking (from the response, since commands
+    // matched by input shape do not say whether they stream)
+    if (isConverse && isAsyncIterable(result?.stream)) {
+      request.operation = "ConverseStream";
+      // Wrap stream to capture data without blocking TTFT
+      return {
+        ...result,
+        stream: wrapStream(
+          result.stream,
+          (fullResponse: any) =>
+            recordTrace(
+              request,
+              {
+                ...parseConverseResult(fullResponse),
+                responseId: result.$metadata?.requestId ?? null,
+              },
+              startTime,
+              options,
+              fullResponse.timeToFirstToken,
+              fullResponse.streamingDuration,
+            ),
+          (err: any) => recordError(request, err, startTime, options),
+          "bedrock-converse",
+        ),
+      };
+    }
+    if (!isConverse && isAsyncIterable(result?.body)) {
+      request.operation = "InvokeModelWithResponseStream";
+      return {
+        ...result,
+        body: wrapStream(
+          result.body,
+          (fullResponse: any) =>
+            recordTrace(
+              request,
+              {
+                ...parseInvokeStreamResult(fullResponse),
+                responseId:
+                  fullResponse.id ?? result.$metadata?.requestId ?? null,
+              },
+              startTime,
+              options,
+              fullResponse.timeToFirstToken,
+              fullResponse.streamingDuration,
+            ),
+          (err: any) => recordError(request, err, startTime, options),
+          "bedrock-invoke",
+        ),
+      };
+    }
+
+    const parsed = isConverse
+      ? parseConverseResult(result)
+      : parseInvokeResult(request.family, decodeJson(result?.body));
+    recordTrace(
+      request,
+      {
+        ...parsed,
+        responseId: parsed.responseId ?? result?.$metadata?.requestId ?? null,
+      },
+      startTime,
+      options,
+    );
+    return result;
+  } catch (error) {
+    recordError(request, error, startTime, options);
+    throw error; // Always re-throw user errors
+  }
+}
+
+/**
+ * Record trace to Observa backend
+ */
+function recordTrace(
+  req: BedrockRequest,
+  res: BedrockResult,
+  start: number,
+  opts?: ObserveOptions,
+  timeToFirstToken?: number | null,
+  streamingDuration?: number | null,
+) {
+  const duration = Date.now() - start;
+
+  // Defensive: Ensure Observa never crashes the app
+  try {
+    // CRITICAL: Validate that observa instance is provided
+    if (!opts?.observa) {
+      console.error(
+        "[Observa] ⚠️ CRITICAL: observa instance not provided to observeBedrock(). " +
+          "Tracking is disabled. Make sure you're using observa.observeBedrock() " +
+          "instead of importing observeBedrock directly from 'observa-sdk/instrumentation'.",
+      );
+      return; // Silently fail (don't crash user's app)
+    }
+
+    // Sanitize data with redact hook if provided
+    const sanitizedReq: BedrockRequest = opts.redact ? opts.redact(req) : req;
+    const sanitizedRes: BedrockResult = opts.redact ? opts.redact(res) : res;
+
+    const stopReason = sanitizedRes.stopReason
+      ? String(sanitizedRes.stopReason).toLowerCase()
+      : null;
+    const outputMessages =
+      sanitizedRes.outputMessages ??
+      (sanitizedRes.outputText
+        ? [
+            {
+              role: "assistant",
+              content: sanitizedRes.outputText,
+              finish_reason: stopReason,
+            },
+          ]
+        : null);
+    const normalized = buildNormalizedLLMCall({
+      request: { model: sanitizedReq.modelId, messages: sanitizedReq.messages },
+      response: {
+        model: sanitizedReq.modelId,
+        messages: outputMessages,
+        finishReason: stopReason,
+      },
+      provider: PROVIDER_NAME,
+      usage: {
+        inputTokens: sanitizedRes.inputTokens,
+        outputTokens: sanitizedRes.outputTokens,
+        cacheReadInputTokens: sanitizedRes.cacheReadInputTokens,
+        cacheWriteInputTokens: sanitizedRes.cacheWriteInputTokens,
+      },
+      toolDefsOverride: sanitizedReq.toolDefinitions,
+    });
+    const otelMetadata = buildOtelMetadata(normalized);
+
+    // Count tokens locally when the model reported no usage (Cohere, Mistral)
+    const { usage, usageSource } = withEstimatedUsage(normalized.usage, {
+      inputText: sanitizedReq.inputText,
+      outputText: sanitizedRes.outputText,
+      model: sanitizedReq.modelId,
+      countTokens: (text: string, model: string | null) =>
+        opts.observa.countTokens(text, model),
+    });
+
+    const llmCall = {
+      model: sanitizedReq.modelId,
+      input: sanitizedReq.inputText,
+      inputMessages: normalized.inputMessages,
+      outputMessages: normalized.outputMessages,
+      systemInstructions: sanitizedReq.systemText
+        ? [{ type: "text", content: sanitizedReq.systemText }]
+        : null,
+      inputTokens: usage.inputTokens ?? null,
+      outputTokens: usage.outputTokens ?? null,
+      totalTokens: usage.totalTokens ?? null,
+      cacheReadInputTokens: usage.cacheReadInputTokens ?? null,
+      cacheWriteInputTokens: usage.cacheWriteInputTokens ?? null,
+      usageSource,
+      latencyMs: duration,
+      timeToFirstTokenMs: timeToFirstToken || null,
+      streamingDurationMs: streamingDuration || null,
+      finishReason: stopReason,
+      responseId: sanitizedRes.responseId,
+      operationName: "chat",
+      providerName: PROVIDER_NAME,
+      responseModel: sanitizedReq.modelId,
+      temperature: sanitizedReq.temperature,
+      maxTokens: sanitizedReq.maxTokens,
+      topP: sanitizedReq.topP,
+      topK: sanitizedReq.topK,
+      stopSequences: sanitizedReq.stopSequences,
+      toolDefinitions: normalized.toolDefinitions,
+      metadata: {
+        ...otelMetadata,
+        ...sanitizedRes.metadata,
+        bedrock_operation: sanitizedReq.operation,
+        bedrock_model_family: sanitizedReq.family,
+      },
+    };
+
+    // CRITICAL FIX: Detect empty responses (tool use alone is a valid answer)
+    const isEmptyResponse =
+      (!sanitizedRes.outputText ||
+        sanitizedRes.outputText.trim().length === 0) &&
+      stopReason !== "tool_use";
+    const isFiltered = !!stopReason && FILTERED_STOP_REASONS.has(stopReason);
+    const isTruncated = !!stopReason && TRUNCATED_STOP_REASONS.has(stopReason);
+
+    // If response is empty or has failure stop reason, record as error
+    if (isEmptyResponse || isFiltered || isTruncated) {
+      // Record LLM call with null output to show the attempt
+      opts.observa.trackLLMCall({ ...llmCall, output: null });
+
+      opts.observa.trackError({
+        errorType: isFiltered
+          ? "content_filtered"
+          : isTruncated
+            ? "response_truncated"
+            : "empty_response",
+        errorMessage: isFiltered
+          ? "AI response was filtered due to content policy"
+          : isTruncated
+            ? "AI response was truncated due to token limit"
+            : "AI returned empty response",
+        stackTrace: null,
+        context: {
+          request: sanitizedReq,
+          model: sanitizedReq.modelId,
+          input: sanitizedReq.inputText,
+          stop_reason: stopReason,
+          provider: PROVIDER_NAME,
+          duration_ms: duration,
+        },
+        errorCategory: isFiltered
+          ? "validation_error"
+          : isTruncated
+            ? "model_error"
+            : "unknown_error",
+        errorCode: isEmptyResponse && !isFiltered && !isTruncated
+          ? "empty_response"
+          : stopReason,
+      });
+
+      // Don't record as successful trace
+      return;
+    }
+
+    opts.observa.trackLLMCall({ ...llmCall, output: sanitizedRes.outputText });
+  } catch (e) {
+    // Never crash user's app
+    console.error("[Observa] Failed to record trace", e);
+  }
+}
+
+/**
+ * Record error to Observa backend
+ * Creates both an LLM call span (so users can see what failed) and an error event
+ */
+function recordError(
+  req: BedrockRequest,
+  error: any,
+  start: number,
+  opts?: ObserveOptions,
+) {
+  const duration = Date.now() - start;
+
+  try {
+    console.error("[Observa] ⚠️ Error Captured:", error?.message || error);
+
+    // CRITICAL: Validate that observa instance is provided
+    if (!opts?.observa) {
+      console.error(
+        "[Observa] ⚠️ CRITICAL: observa instance not provided to observeBedrock(). " +
+          "Error tracking is disabled. Make sure you're using observa.observeBedrock() " +
+          "instead of importing observeBedrock directly from 'observa-sdk/instrumentation'.",
+      );
+      return; // Silently fail (don't crash user's app)
+    }
+
+    // Sanitize request with redact hook
+    const sanitizedReq: BedrockRequest = opts.redact ? opts.redact(req) : req;
+    const normalized = buildNormalizedLLMCall({
+      request: { model: sanitizedReq.modelId, messages: sanitizedReq.messages },
+      provider: PROVIDER_NAME,
+      toolDefsOverride: sanitizedReq.toolDefinitions,
+    });
+
+    // Extract error information using error utilities
+    const extractedError = extractProviderError(error, PROVIDER_NAME);
+
+    // Create LLM call span with error information so users can see what failed
+    opts.observa.trackLLMCall({
+      model: sanitizedReq.modelId,
+      input: sanitizedReq.inputText,
+      output: null, // No output on error
+      inputMessages: normalized.inputMessages,
+      outputMessages: null,
+      inputTokens: null,
+      outputTokens: null,
+      totalTokens: null,
+      latencyMs: duration,
+      timeToFirstTokenMs: null,
+      streamingDurationMs: null,
+      finishReason: null,
+      responseId: error?.$metadata?.requestId ?? null,
+      operationName: "chat",
+      providerName: PROVIDER_NAME,
+      responseModel: sanitizedReq.modelId,
+      temperature: sanitizedReq.temperature,
+      maxTokens: sanitizedReq.maxTokens,
+      toolDefinitions: normalized.toolDefinitions,
+      metadata: {
+        ...buildOtelMetadata(normalized),
+        bedrock_operation: sanitizedReq.operation,
+        bedrock_model_family: sanitizedReq.family,
+      },
+    });
+
+    // Also create error event with full context and extracted error codes/categories
+    opts.observa.trackError({
+      errorType: error?.name || extractedError.code || "bedrock_api_error",
+      errorMessage: extractedError.message,
+      stackTrace: error?.stack || null,
+      context: {
+        request: sanitizedReq,
+        model: sanitizedReq.modelId,
+        input: sanitizedReq.inputText,
+        provider: PROVIDER_NAME,
+        duration_ms: duration,
+        status_code: extractedError.statusCode || null,
+        request_id: error?.$metadata?.requestId ?? null,
+      },
+      errorCategory: extractedError.category,
+      errorCode: extractedError.code,
+    });
+  } catch (e) {
+    // Ignore tracking errors
+    console.error("[Observa] Failed to record error", e);
+  }
+}
+
+/** Trace InvokeModel on an embedding model (Titan Embeddings, Cohere Embed) */
+async function traceEmbeddingCall(
+  originalFn: Function,
+  args: any[],
+  options?: ObserveOptions,
+) {
+  const startTime = Date.now();
+  const input = args[0]?.input ?? {};
+  const model = input.modelId || "unknown";
+  try {
+    const result = await originalFn(...args);
+    const duration = Date.now() - startTime;
+    if (options?.observa?.trackEmbedding) {
+      const body = decodeJson(input.body) ?? {};
+      const sanitizedBody = options.redact ? options.redact(body) : body;
+      const output = decodeJson(result?.body) ?? {};
+      // Titan: { embedding }, Cohere: { embeddings } or { embeddings: { float } }
+      const embeddings: number[][] = Array.isArray(output.embedding)
+        ? [output.embedding]
+        : Array.isArray(output.embeddings)
+          ? output.embeddings
+          : Array.isArray(output.embeddings?.float)
+            ? output.embeddings.float
+            : [];
+      const texts = Array.isArray(sanitizedBody.texts)
+        ? sanitizedBody.texts
+        : sanitizedBody.inputText
+          ? [sanitizedBody.inputText]
+          : [];
+      options.observa.trackEmbedding({
+        model,
+        dimensionCount: embeddings[0]?.length ?? null,
+        latencyMs: duration,
+        providerName: PROVIDER_NAME,
+        inputText: texts.length > 0 ? texts.join("\n") : null,
+        inputTokens: output.inputTextTokenCount ?? null,
+        embeddings: embeddings.length > 0 ? embeddings : null,
+      });
+    }
+    return result;
+  } catch (error) {
+    if (options?.observa?.trackError) {
+      const extractedError = extractProviderError(error, PROVIDER_NAME);
+      options.observa.trackError({
+        errorType: (error as Error)?.name ?? "Error",
+        errorMessage: extractedError.message,
+        stackTrace: (error as Error)?.stack ?? null,
+        errorCategory: "embedding_error",
+        errorCode: extractedError.code,
+      });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,629 @@
+/**
+ * Cohere SDK Wrapper (cohere-ai)
+ *
+ * Implements observeCohere() following same pattern as OpenAI wrapper.
+ * Uses Proxy with WeakMap memoization to preserve object identity.
+ * Handles streaming with proper teeing (preserves TTFT).
+ * Includes PII redaction hooks.
+ *
+ * Traced on CohereClientV2 and CohereClient (v1 and client.v2): chat,
+ * chatStream, embed and rerank. Rerank calls are recorded as retrieval
+ * events (document IDs, relevance scores as similarity_scores, top score as
+ * rerank_score); tool calls requested by the model as tool_call events
+ * under the llm_call span.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { wrapStream } from "./utils";
+import {
+  buildNormalizedLLMCall,
+  buildOtelMetadata,
+  withEstimatedUsage,
+} from "./normalize";
+import { extractProviderError } from "./error-utils";
+
+// Type for Cohere client (avoid direct import to handle optional dependency)
+type CohereClient = any;
+
+const PROVIDER_NAME = "cohere";
+
+// WeakMap Cache for Memoization (CRITICAL for object identity)
+const proxyCache = new WeakMap<object, any>();
+
+// Normalized (lower-cased) finish reasons that are not a normal completion
+const TRUNCATED_FINISH_REASONS = new Set(["max_tokens", "error_limit"]);
+const FILTERED_FINISH_REASONS = new Set(["error_toxic"]);
+const FAILED_FINISH_REASONS = new Set(["error", "timeout"]);
+
+export interface ObserveOptions {
+  name?: string;
+  tags?: string[];
+  userId?: string;
+  sessionId?: string;
+  // Callback to scrub PII before sending to Observa
+  redact?: (data: any) => any;
+  // Observa instance for sending events
+  observa?: any; // Observa class instance
+}
+
+/** Text of a message content (string or [{ type: "text", text }]) */
+function contentText(content: any): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((c: any) => c?.type === "text" && typeof c.text === "string")
+    .map((c: any) => c.text)
+    .join("");
+}
+
+function messagesText(
+  messages: any[] | null,
+  system: boolean,
+): string | null {
+  return (
+    (messages ?? [])
+      .filter((m: any) => (m?.role === "system") === system)
+      .map((m: any) => contentText(m?.content))
+      .filter(Boolean)
+      .join("\n") || null
+  );
+}
+
+/** Tool calls of a v2 (message.toolCalls) or v1 (toolCalls) response */
+function extractToolCalls(res: any): Array<{
+  id: string | null;
+  name: string;
+  args: any;
+}> {
+  const v2Calls: any[] = res?.message?.toolCalls ?? [];
+  if (v2Calls.length > 0) {
+    return v2Calls.map((call: any) => ({
+      id: call?.id ?? null,
+      name: call?.function?.name || "unknown",
+      args: parseArguments(call?.function?.arguments),
+    }));
+  }
+  return (res?.toolCalls ?? []).map((call: any) => ({
+    id: null,
+    name: call?.name || "unknown",
+    args: call?.parameters ?? {},
+  }));
+}
+
+function parseArguments(args: any): any {
+  if (typeof args !== "string") return args ?? {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
+
+/** Text of a rerank document (string, { text }, or structured fields) */
+function documentText(document: any): string | null {
+  if (document == null) return null;
+  if (typeof document === "string") return document;
+  if (typeof document.text === "string") return document.text;
+  return JSON.stringify(document);
+}
+
+/**
+ * Observe Cohere client - wraps client with automatic tracing
+ *
+ * @param client - CohereClientV2 or CohereClient instance
+ * @param options - Observation options (name, tags, userId, sessionId, redact)
+ * @returns Wrapped Cohere client (same instance reference preserved via WeakMap)
+ *
+ * @example
+ * ```typescript
+ * import { CohereClientV2 } from 'cohere-ai';
+ *
+ * const cohere = observa.observeCohere(new CohereClientV2({ token: '...' }));
+ *
+ * // Automatically tracked!
+ * await cohere.chat({
+ *   model: 'command-r-plus',
+ *   messages: [{ role: 'user', content: 'Hi' }],
+ * });
+ *
+ * // Recorded as a retrieval event
+ * await cohere.rerank({ model: 'rerank-v3.5', query, documents });
+ * ```
+ */
+function observeCohereInternal(
+  client: CohereClient,
+  options?: ObserveOptions,
+  path: string[] = [],
+): CohereClient {
+  // At root only: return cached proxy if exists to maintain identity (client === client)
+  if (path.length === 0 && proxyCache.has(client)) {
+    return proxyCache.get(client);
+  }
+
+  // CRITICAL: Warn if observa instance is not provided (root only)
+  if (path.length === 0 && !options?.observa) {
+    console.error(
+      "[Observa] ⚠️ CRITICAL ERROR: observa instance not provided!\n" +
+        "\n" +
+        "Tracking will NOT work. Call observa.observeCohere() on an instance\n" +
+        "created with init() from 'observa-sdk':\n" +
+        "\n" +
+        "  import { init } from 'observa-sdk';\n" +
+        "  const observa = init({ apiKey: '...' });\n" +
+        "  const wrapped = observa.observeCohere(cohere);\n",
+    );
+  }
+
+  try {
+    const wrapped = new Proxy(client, {
+      get(target, prop, receiver) {
+        const value = Reflect.get(target, prop, receiver);
+        const nextPath = [
+          ...path,
+          typeof prop === "string" ? prop : String(prop),
+        ];
+
+        // Recursive wrapping for nested objects (like client.v2)
+        if (typeof value === "object" && value !== null) {
+          if (prop === "prototype" || prop === "constructor") {
+            return value;
+          }
+          return observeCohereInternal(value as any, options, nextPath);
+        }
+
+        if (typeof value !== "function") {
+          return value;
+        }
+
+        // client.chat() and client.v2.chat() are traced alike
+        const pathKey = nextPath.filter((p) => p !== "v2").join(".");
+        if (pathKey === "chat" || pathKey === "chatStream") {
+          return async function (...args: any[]) {
+            return traceChatCall(
+              value.bind(target),
+              args,
+              pathKey === "chatStream",
+              options,
+            );
+          };
+        }
+        if (pathKey === "embed") {
+          return async function (...args: any[]) {
+            return traceEmbedCall(value.bind(target), args, options);
+          };
+        }
+        if (pathKey === "rerank") {
+          return async function (...args: any[]) {
+            return traceRerankCall(value.bind(target), args, options);
+          };
+        }
+
+        return value;
+      },
+    });
+
+    if (path.length === 0) {
+      proxyCache.set(client, wrapped);
+    }
+    return wrapped;
+  } catch (error) {
+    console.error("[Observa] Failed to wrap Cohere client:", error);
+    return client;
+  }
+}
+
+export function observeCohere(
+  client: CohereClient,
+  options?: ObserveOptions,
+): CohereClient {
+  return observeCohereInternal(client, options, []);
+}
+
+/**
+ * Trace chat() / chatStream()
+ */
+async function traceChatCall(
+  originalFn: Function,
+  args: any[],
+  isStreaming: boolean,
+  options?: ObserveOptions,
+) {
+  const startTime = Date.now();
+  const request = args[0] || {};
+
+  try {
+    // 1. Execute Original Call
+    const result = await originalFn(...args);
+
+    // 2. Handle Streaming vs Blocking
+    if (isStreaming) {
+      // Wrap stream to capture data without blocking TTFT
+      return wrapStream(
+        result,
+        (fullResponse: any) => {
+          recordTrace(
+            request,
+            fullResponse,
+            startTime,
+            options,
+            fullResponse.timeToFirstToken,
+            fullResponse.streamingDuration,
+          );
+        },
+        (err: any) => recordError(request, err, startTime, options),
+        "cohere",
+      );
+    }
+    recordTrace(request, result, startTime, options);
+    return result;
+  } catch (error) {
+    recordError(request, error, startTime, options);
+    throw error; // Always re-throw user errors
+  }
+}
+
+/**
+ * Record trace to Observa backend
+ */
+function recordTrace(
+  req: any,
+  res: any,
+  start: number,
+  opts?: ObserveOptions,
+  timeToFirstToken?: number | null,
+  streamingDuration?: number | null,
+) {
+  const duration = Date.now() - start;
+
+  // Defensive: Ensure Observa never crashes the app
+  try {
+    // CRITICAL: Validate that observa instance is provided
+    if (!opts?.observa) {
+      console.error(
+        "[Observa] ⚠️ CRITICAL: observa instance not provided to observeCohere(). " +
+          "Tracking is disabled. Make sure you're using observa.observeCohere() " +
+          "instead of importing observeCohere directly from 'observa-sdk/instrumentation'.",
+      );
+      return; // Silently fail (don't crash user's app)
+    }
+
+    // Sanitize data with redact hook if provided
+    const sanitizedReq = opts.redact ? opts.redact(req) : req;
+    const sanitizedRes = opts.redact ? opts.redact(res) : res;
+
+    const normalized = buildNormalizedLLMCall({
+      request: sanitizedReq,
+      response: sanitizedRes,
+      provider: PROVIDER_NAME,
+    });
+    const toolDefinitions = normalized.toolDefinitions;
+    const finishReason = normalized.finishReason;
+    const model = sanitizedReq.model || "unknown";
+    const inputText = messagesText(normalized.inputMessages, false);
+    const systemInstruction = messagesText(normalized.inputMessages, true);
+    const outputText =
+      (sanitizedRes?.message
+        ? contentText(sanitizedRes.message.content)
+        : sanitizedRes?.text) || null;
+    const toolCalls = extractToolCalls(sanitizedRes);
+
+    // Count tokens locally when the provider omitted usage
+    const { usage, usageSource } = withEstimatedUsage(normalized.usage, {
+      inputText,
+      outputText,
+      model,
+      countTokens: (text: string, model: string | null) =>
+        opts.observa.countTokens(text, model),
+    });
+
+    const citations =
+      sanitizedRes?.message?.citations ?? sanitizedRes?.citations ?? null;
+    const toolPlan = sanitizedRes?.message?.toolPlan ?? null;
+    const metadata = {
+      ...buildOtelMetadata(normalized),
+      ...(citations ? { cohere_citations: citations } : {}),
+      ...(toolPlan ? { cohere_tool_plan: toolPlan } : {}),
+    };
+
+    const llmCall = {
+      model,
+      input: inputText,
+      inputMessages: normalized.inputMessages,
+      outputMessages: normalized.outputMessages,
+      systemInstructions: systemInstruction
+        ? [{ type: "text", content: systemInstruction }]
+        : null,
+      inputTokens: usage.inputTokens ?? null,
+      outputTokens: usage.outputTokens ?? null,
+      totalTokens: usage.totalTokens ?? null,
+      usageSource,
+      latencyMs: duration,
+      timeToFirstTokenMs: timeToFirstToken || null,
+      streamingDurationMs: streamingDuration || null,
+      finishReason,
+      responseId: sanitizedRes?.id || sanitizedRes?.generationId || null,
+      operationName: "chat",
+      providerName: PROVIDER_NAME,
+      responseModel: model,
+      temperature: sanitizedReq.temperature ?? null,
+      maxTokens: sanitizedReq.maxTokens ?? null,
+      topP: sanitizedReq.p ?? null,
+      topK: sanitizedReq.k ?? null,
+      stopSequences: sanitizedReq.stopSequences ?? null,
+      seed: sanitizedReq.seed ?? null,
+      presencePenalty: sanitizedReq.presencePenalty ?? null,
+      frequencyPenalty: sanitizedReq.frequencyPenalty ?? null,
+      toolDefinitions,
+      metadata,
+    };
+
+    // Detect empty responses (a tool call alone is a valid answer)
+    const isEmptyResponse =
+      (!outputText || outputText.trim().length === 0) &&
+      toolCalls.length === 0;
+    const reason = finishReason ?? "";
+    const isTruncated = TRUNCATED_FINISH_REASONS.has(reason);
+    const isFiltered = FILTERED_FINISH_REASONS.has(reason);
+    const isFailed = FAILED_FINISH_REASONS.has(reason);
+
+    // If response is empty or has failure finish reason, record as error
+    if (isEmptyResponse || isTruncated || isFiltered || isFailed) {
+      // Record LLM call with null output to show the attempt
+      opts.observa.trackLLMCall({ ...llmCall, output: null });
+
+      opts.observa.trackError({
+        errorType: isFiltered
+          ? "content_filtered"
+          : isTruncated
+            ? "response_truncated"
+            : isFailed
+              ? "generation_error"
+              : "empty_response",
+        errorMessage: isFiltered
+          ? "AI response was filtered due to content policy"
+          : isTruncated
+            ? "AI response was truncated due to token limit"
+            : isFailed
+              ? "Model stopped generating due to an error"
+              : "AI returned empty response",
+        stackTrace: null,
+        context: {
+          request: sanitizedReq,
+          response: sanitizedRes,
+          model,
+          input: inputText,
+          finish_reason: finishReason,
+          provider: PROVIDER_NAME,
+          duration_ms: duration,
+        },
+        errorCategory: isFiltered
+          ? "validation_error"
+          : reason === "timeout"
+            ? "timeout_error"
+            : "model_error",
+        errorCode:
+          isEmptyResponse && !finishReason ? "empty_response" : finishReason,
+      });
+
+      // Don't record as successful trace
+      return;
+    }
+
+    const llmSpanId = opts.observa.trackLLMCall({
+      ...llmCall,
+      output: outputText,
+    });
+
+    // Tool calls requested by the model. The application executes them,
+    // so there is no result or latency to record here.
+    for (const call of toolCalls) {
+      opts.observa.trackToolCall({
+        toolName: call.name,
+        args: call.args,
+        resultStatus: "success",
+        latencyMs: 0,
+        parentSpanId: llmSpanId,
+        operationName: "execute_tool",
+        toolType: "function",
+        toolCallId: call.id,
+      });
+    }
+  } catch (e) {
+    // Never crash user's app
+    console.error("[Observa] Failed to record trace", e);
+  }
+}
+
+/**
+ * Record error to Observa backend
+ * Creates both an LLM call span (so users can see what failed) and an error event
+ */
+function recordError(
+  req: any,
+  error: any,
+  start: number,
+  opts?: ObserveOptions,
+) {
+  const duration = Date.now() - start;
+
+  try {
+    console.error("[Observa] ⚠️ Error Captured:", error?.message || error);
+
+    // CRITICAL: Validate that observa instance is provided
+    if (!opts?.observa) {
+      console.error(
+        "[Observa] ⚠️ CRITICAL: observa instance not provided to observeCohere(). " +
+          "Error tracking is disabled. Make sure you're using observa.observeCohere() " +
+          "instead of importing observeCohere directly from 'observa-sdk/instrumentation'.",
+      );
+      return; // Silently fail (don't crash user's app)
+    }
+
+    // Sanitize request with redact hook
+    const sanitizedReq = opts.redact ? opts.redact(req) : req;
+    const normalized = buildNormalizedLLMCall({
+      request: sanitizedReq,
+      provider: PROVIDER_NAME,
+    });
+    const model = sanitizedReq.model || "unknown";
+    const inputText = messagesText(normalized.inputMessages, false);
+
+    // Extract error information using error utilities
+    const extractedError = extractProviderError(error, PROVIDER_NAME);
+
+    // Create LLM call span with error information so users can see what failed
+    opts.observa.trackLLMCall({
+      model,
+      input: inputText,
+      output: null, // No output on error
+      inputMessages: normalized.inputMessages,
+      outputMessages: null,
+      inputTokens: null,
+      outputTokens: null,
+      totalTokens: null,
+      latencyMs: duration,
+      timeToFirstTokenMs: null,
+      streamingDurationMs: null,
+      finishReason: null,
+      responseId: null,
+      operationName: "chat",
+      providerName: PROVIDER_NAME,
+      responseModel: model,
+      temperature: sanitizedReq.temperature ?? null,
+      maxTokens: sanitizedReq.maxTokens ?? null,
+      toolDefinitions: normalized.toolDefinitions,
+      metadata: buildOtelMetadata(normalized),
+    });
+
+    // Also create error event with full context and extracted error codes/categories
+    opts.observa.trackError({
+      errorType: error?.name || extractedError.code || "cohere_api_error",
+      errorMessage: extractedError.message,
+      stackTrace: error?.stack || null,
+      context: {
+        request: sanitizedReq,
+        model,
+        input: inputText,
+        provider: PROVIDER_NAME,
+        duration_ms: duration,
+        status_code: extractedError.statusCode || null,
+      },
+      errorCategory: extractedError.category,
+      errorCode: extractedError.code,
+    });
+  } catch (e) {
+    // Ignore tracking errors
+    console.error("[Observa] Failed to record error", e);
+  }
+}
+
+/** Trace embed() */
+async function traceEmbedCall(
+  originalFn: Function,
+  args: any[],
+  options?: ObserveOptions,
+) {
+  const startTime = Date.now();
+  const req = args[0] || {};
+  const model = req.model || "unknown";
+  try {
+    const result = await originalFn(...args);
+    const duration = Date.now() - startTime;
+    if (options?.observa?.trackEmbedding) {
+      const sanitizedReq = options.redact ? options.redact(req) : req;
+      // number[][] ("embeddings_floats") or { float, int8, ... } by type
+      const raw = result?.embeddings;
+      const embeddings: number[][] = Array.isArray(raw)
+        ? raw
+        : (raw?.float ??
+          Object.values(raw ?? {}).find((v: any) => Array.isArray(v)) ??
+          []);
+      const inputText = Array.isArray(sanitizedReq.texts)
+        ? sanitizedReq.texts.join("\n")
+        : Array.isArray(sanitizedReq.inputs)
+          ? sanitizedReq.inputs
+              .map((input: any) => contentText(input?.content))
+              .filter(Boolean)
+              .join("\n") || null
+          : null;
+      options.observa.trackEmbedding({
+        model,
+        dimensionCount: embeddings[0]?.length ?? null,
+        encodingFormats: sanitizedReq.embeddingTypes ?? null,
+        latencyMs: duration,
+        providerName: PROVIDER_NAME,
+        inputText,
+        inputTokens: result?.meta?.billedUnits?.inputTokens ?? null,
+        embeddings: embeddings.length > 0 ? embeddings : null,
+      });
+    }
+    return result;
+  } catch (error) {
+    if (options?.observa?.trackError) {
+      const extractedError = extractProviderError(error, PROVIDER_NAME);
+      options.observa.trackError({
+        errorType: (error as Error)?.name ?? "Error",
+        errorMessage: extractedError.message,
+        stackTrace: (error as Error)?.stack ?? null,
+        errorCategory: "embedding_error",
+        errorCode: extractedError.code,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Trace rerank() as a retrieval event: ranked document IDs (document.id or
+ * the index in the request), relevance scores and the top score
+ */
+async function traceRerankCall(
+  originalFn: Function,
+  args: any[],
+  options?: ObserveOptions,
+) {
+  const startTime = Date.now();
+  const req = args[0] || {};
+  const model = req.model || "unknown";
+  try {
+    const result = await originalFn(...args);
+    const duration = Date.now() - startTime;
+    if (options?.observa?.trackRetrieval) {
+      const sanitizedReq = options.redact ? options.redact(req) : req;
+      const documents: any[] = sanitizedReq.documents ?? [];
+      const results: any[] = result?.results ?? [];
+      const scores = results
+        .map((r: any) => r?.relevanceScore)
+        .filter((score: any) => typeof score === "number");
+      const contexts = results
+        .map((r: any) => documentText(r?.document ?? documents[r?.index]))
+        .filter(Boolean);
+      options.observa.trackRetrieval({
+        contextIds: results.map((r: any) => {
+          const id = documents[r?.index]?.id ?? r?.document?.id;
+          return id != null ? String(id) : String(r?.index);
+        }),
+        k: sanitizedReq.topN ?? results.length,
+        similarityScores: scores,
+        rerankScore: scores.length > 0 ? Math.max(...scores) : null,
+        retrievalContext: contexts.length > 0 ? contexts.join("\n\n") : null,
+        rerankModel: model,
+        providerName: PROVIDER_NAME,
+        latencyMs: duration,
+      });
+    }
+    return result;
+  } catch (error) {
+    if (options?.observa?.trackError) {
+      const extractedError = extractProviderError(error, PROVIDER_NAME);
+      options.observa.trackError({
+        errorType: (error as Error)?.name ?? "Error",
+        errorMessage: extractedError.message,
+        stackTrace: (error as Error)?.stack ?? null,
+        errorCategory: "retrieval_error",
+        errorCode: extractedError.code,
+      });
+    }
+    throw error;
+  }
+}
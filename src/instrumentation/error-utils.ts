@@ -53,6 +53,39 @@ export function extractErrorCode(error: any, provider: string): string | null {
     if (error.status === 500) return "internal_server_error";
   }
 
+  // Google Gemini errors (canonical gRPC status names)
+  if (provider === "gcp.gemini") {
+    if (error.status === 400) return "invalid_argument";
+    if (error.status === 403) return "permission_denied";
+    if (error.status === 404) return "not_found";
+    if (error.status === 429) return "resource_exhausted";
+    if (error.status === 500) return "internal";
+    if (error.status === 503) return "unavailable";
+    if (error.status === 504) return "deadline_exceeded";
+  }
+
+  // AWS SDK errors (ThrottlingException -> "throttling")
+  if (provider === "aws.bedrock" && error.$metadata) {
+    if (typeof error.name === "string" && error.name !== "Error") {
+      return error.name
+        .replace(/Exception$/, "")
+        .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+        .toLowerCase();
+    }
+  }
+
+  // Mistral / Cohere SDK errors carry the HTTP status as statusCode
+  if (provider === "mistral_ai" || provider === "cohere") {
+    const status = error.statusCode ?? error.status;
+    if (status === 400 || status === 422) return "invalid_request";
+    if (status === 401) return "invalid_api_key";
+    if (status === 402) return "insufficient_quota";
+    if (status === 404) return "model_not_found";
+    if (status === 429) return "rate_limit_exceeded";
+    if (status === 499 || status === 504) return "timeout_error";
+    if (status >= 500) return "server_error";
+  }
+
   // Generic HTTP status codes
   if (error.status) {
     if (error.status === 401) return "unauthorized";
@@ -77,7 +110,11 @@ export function extractErrorCode(error: any, provider: string): string | null {
 export function categorizeError(error: any, provider: string): ErrorCategory {
   if (!error) return "unknown_error";
 
-  const statusCode = error.status || error.statusCode || error.status_code;
+  const statusCode =
+    error.status ||
+    error.statusCode ||
+    error.status_code ||
+    error.$metadata?.httpStatusCode;
   const errorCode = extractErrorCode(error, provider);
   const message = String(error.message || error.error?.message || error || "").toLowerCase();
 
@@ -187,7 +224,11 @@ export function extractProviderError(
 ): ExtractedError {
   const code = extractErrorCode(error, provider) || "unknown_error";
   const category = categorizeError(error, provider);
-  const statusCode = error.status || error.statusCode || error.status_code;
+  const statusCode =
+    error.status ||
+    error.statusCode ||
+    error.status_code ||
+    error.$metadata?.httpStatusCode;
 
   // Extract error message
   let message = "An unknown error occurred";
@@ -0,0 +1,779 @@
+/**
+ * Google Gemini SDK Wrapper (@google/genai)
+ *
+ * Implements observeGemini() following same pattern as OpenAI wrapper.
+ * Uses Proxy with WeakMap memoization to preserve object identity.
+ * Handles streaming with proper teeing (preserves TTFT).
+ * Includes PII redaction hooks.
+ *
+ * Traced: models.generateContent, models.generateContentStream,
+ * models.embedContent and chat sessions (chats.create -> sendMessage /
+ * sendMessageStream). Function calls requested by the model are recorded as
+ * tool_call events under the llm_call span.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { wrapStream } from "./utils";
+import {
+  buildNormalizedLLMCall,
+  buildOtelMetadata,
+  withEstimatedUsage,
+} from "./normalize";
+import { extractProviderError } from "./error-utils";
+
+// Type for GoogleGenAI client (avoid direct import to handle optional dependency)
+type GoogleGenAI = any;
+
+const PROVIDER_NAME = "gcp.gemini";
+
+// WeakMap Cache for Memoization (CRITICAL for object identity)
+const proxyCache = new WeakMap<object, any>();
+
+// Finish reasons for candidates stopped by a content filter
+const FILTERED_FINISH_REASONS = new Set([
+  "SAFETY",
+  "RECITATION",
+  "BLOCKLIST",
+  "PROHIBITED_CONTENT",
+  "SPII",
+  "IMAGE_SAFETY",
+]);
+
+export interface ObserveOptions {
+  name?: string;
+  tags?: string[];
+  userId?: string;
+  sessionId?: string;
+  // Callback to scrub PII before sending to Observa
+  redact?: (data: any) => any;
+  // Observa instance for sending events
+  observa?: any; // Observa class instance
+}
+
+/** What was sent to Gemini, flattened from generateContent / chat params */
+interface GeminiRequest {
+  model: string;
+  contents: any[];
+  config: any;
+  operationName: "generate_content" | "chat";
+}
+
+// --- Content helpers ---
+
+function isContent(value: any): boolean {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    (Array.isArray(value.parts) || typeof value.role === "string")
+  );
+}
+
+function toPart(value: any): any {
+  return typeof value === "string" ? { text: value } : value;
+}
+
+/**
+ * Normalize a ContentListUnion (string, Part, Part[], Content, Content[])
+ * to Content[]
+ */
+function toContents(contents: any): any[] {
+  if (contents === undefined || contents === null) return [];
+  if (Array.isArray(contents)) {
+    if (contents.length > 0 && contents.every(isContent)) return contents;
+    return [{ role: "user", parts: contents.map(toPart) }];
+  }
+  if (isContent(contents)) return [contents];
+  return [{ role: "user", parts: [toPart(contents)] }];
+}
+
+/** Text of non-thought text parts */
+function partsText(parts: any[] | undefined): string {
+  return (parts ?? [])
+    .filter((p: any) => typeof p?.text === "string" && !p.thought)
+    .map((p: any) => p.text)
+    .join("");
+}
+
+function mapPart(part: any): { type: string; content: any } | null {
+  if (typeof part?.text === "string") {
+    return { type: part.thought ? "reasoning" : "text", content: part.text };
+  }
+  if (part?.functionCall) {
+    return { type: "tool_call", content: part.functionCall };
+  }
+  if (part?.functionResponse) {
+    return { type: "tool_call_response", content: part.functionResponse };
+  }
+  if (part?.inlineData || part?.fileData) {
+    const data = part.inlineData ?? part.fileData;
+    return {
+      type: "blob",
+      content: {
+        mime_type: data?.mimeType ?? null,
+        uri: data?.fileUri ?? null,
+      },
+    };
+  }
+  return null;
+}
+
+function toMessage(content: any, finishReason?: string | null): any {
+  const parts = (content?.parts ?? []).map(mapPart).filter(Boolean);
+  return {
+    role: content?.role === "model" ? "assistant" : content?.role || "user",
+    content: partsText(content?.parts) || null,
+    ...(parts.some((p: any) => p.type !== "text") ? { parts } : {}),
+    ...(finishReason !== undefined ? { finish_reason: finishReason } : {}),
+  };
+}
+
+function contentsText(contents: any[]): string | null {
+  return (
+    contents
+      .map((c: any) => partsText(c?.parts))
+      .filter(Boolean)
+      .join("\n") || null
+  );
+}
+
+function systemInstructionText(instruction: any): string | null {
+  if (!instruction) return null;
+  if (typeof instruction === "string") return instruction;
+  return contentsText(toContents(instruction));
+}
+
+/** Function declarations + built-in tools (googleSearch, codeExecution, ...) */
+function extractToolDefinitions(tools: any): any[] | null {
+  if (!Array.isArray(tools)) return null;
+  const definitions: any[] = [];
+  for (const tool of tools) {
+    for (const declaration of tool?.functionDeclarations ?? []) {
+      definitions.push({
+        type: "function",
+        name: declaration?.name,
+        description: declaration?.description ?? null,
+        parameters:
+          declaration?.parameters ?? declaration?.parametersJsonSchema ?? {},
+      });
+    }
+    for (const key of Object.keys(tool ?? {})) {
+      if (key !== "functionDeclarations") {
+        definitions.push({ type: key, name: key });
+      }
+    }
+  }
+  return definitions.length > 0 ? definitions : null;
+}
+
+function normalizeFinishReason(reason: any): string | null {
+  return typeof reason === "string" ? reason.toLowerCase() : null;
+}
+
+/**
+ * Map usageMetadata to normalized usage. Thinking tokens are billed as output
+ * but reported separately from candidatesTokenCount, so they are added to
+ * output tokens (and reported as reasoning tokens).
+ */
+function extractUsage(usageMetadata: any): {
+  inputTokens: number | null;
+  outputTokens: number | null;
+  totalTokens: number | null;
+  cachedInputTokens: number | null;
+  reasoningTokens: number | null;
+} {
+  if (!usageMetadata) {
+    return {
+      inputTokens: null,
+      outputTokens: null,
+      totalTokens: null,
+      cachedInputTokens: null,
+      reasoningTokens: null,
+    };
+  }
+  const prompt = usageMetadata.promptTokenCount ?? null;
+  const toolUsePrompt = usageMetadata.toolUsePromptTokenCount ?? 0;
+  const candidates = usageMetadata.candidatesTokenCount ?? null;
+  const thoughts = usageMetadata.thoughtsTokenCount ?? null;
+  const inputTokens = prompt !== null ? prompt + toolUsePrompt : null;
+  const outputTokens =
+    candidates !== null || thoughts !== null
+      ? (candidates ?? 0) + (thoughts ?? 0)
+      : null;
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usageMetadata.totalTokenCount ?? null,
+    cachedInputTokens: usageMetadata.cachedContentTokenCount ?? null,
+    reasoningTokens: thoughts,
+  };
+}
+
+function toRequest(
+  params: any,
+  operationName: GeminiRequest["operationName"],
+): GeminiRequest {
+  return {
+    model: params?.model || "unknown",
+    contents: toContents(params?.contents),
+    config: params?.config ?? {},
+    operationName,
+  };
+}
+
+/**
+ * Observe Gemini client - wraps client with automatic tracing
+ *
+ * @param client - GoogleGenAI client instance
+ * @param options - Observation options (name, tags, userId, sessionId, redact)
+ * @returns Wrapped GoogleGenAI client (same instance reference preserved via WeakMap)
+ *
+ * @example
+ * ```typescript
+ * import { GoogleGenAI } from '@google/genai';
+ *
+ * const ai = observa.observeGemini(new GoogleGenAI({ apiKey: '...' }));
+ *
+ * // Automatically tracked!
+ * await ai.models.generateContent({ model: 'gemini-2.5-flash', contents: 'Hi' });
+ *
+ * const chat = ai.chats.create({ model: 'gemini-2.5-flash' });
+ * await chat.sendMessage({ message: 'Hello' });
+ * ```
+ */
+function observeGeminiInternal(
+  client: GoogleGenAI,
+  options?: ObserveOptions,
+  path: string[] = [],
+): GoogleGenAI {
+  // At root only: return cached proxy if exists to maintain identity (client === client)
+  if (path.length === 0 && proxyCache.has(client)) {
+    return proxyCache.get(client);
+  }
+
+  // CRITICAL: Warn if observa instance is not provided (root only)
+  if (path.length === 0 && !options?.observa) {
+    console.error(
+      "[Observa] ⚠️ CRITICAL ERROR: observa instance not provided!\n" +
+        "\n" +
+        "Tracking will NOT work. Call observa.observeGemini() on an instance\n" +
+        "created with init() from 'observa-sdk':\n" +
+        "\n" +
+        "  import { init } from 'observa-sdk';\n" +
+        "  const observa = init({ apiKey: '...' });\n" +
+        "  const wrapped = observa.observeGemini(ai);\n",
+    );
+  }
+
+  try {
+    const wrapped = new Proxy(client, {
+      get(target, prop, receiver) {
+        const value = Reflect.get(target, prop, receiver);
+        const nextPath = [
+          ...path,
+          typeof prop === "string" ? prop : String(prop),
+        ];
+
+        // Recursive wrapping for nested objects (like client.models)
+        if (typeof value === "object" && value !== null) {
+          if (prop === "prototype" || prop === "constructor") {
+            return value;
+          }
+          return observeGeminiInternal(value as any, options, nextPath);
+        }
+
+        if (typeof value !== "function") {
+          return value;
+        }
+
+        const pathKey = nextPath.join(".");
+        if (pathKey === "models.generateContent") {
+          return async function (...args: any[]) {
+            return traceGenerateContent(
+              value.bind(target),
+              args,
+              toRequest(args[0], "generate_content"),
+              false,
+              options,
+            );
+          };
+        }
+        if (pathKey === "models.generateContentStream") {
+          return async function (...args: any[]) {
+            return traceGenerateContent(
+              value.bind(target),
+              args,
+              toRequest(args[0], "generate_content"),
+              true,
+              options,
+            );
+          };
+        }
+        if (pathKey === "models.embedContent") {
+          return async function (...args: any[]) {
+            return traceEmbedContent(value.bind(target), args, options);
+          };
+        }
+        if (pathKey === "chats.create") {
+          return function (...args: any[]) {
+            return observeChat(value.apply(target, args), options);
+          };
+        }
+
+        return value;
+      },
+    });
+
+    if (path.length === 0) {
+      proxyCache.set(client, wrapped);
+    }
+    return wrapped;
+  } catch (error) {
+    console.error("[Observa] Failed to wrap Gemini client:", error);
+    return client;
+  }
+}
+
+export function observeGemini(
+  client: GoogleGenAI,
+  options?: ObserveOptions,
+): GoogleGenAI {
+  return observeGeminiInternal(client, options, []);
+}
+
+/**
+ * Wrap a Chat session. Chats call the unwrapped models module internally, so
+ * sendMessage / sendMessageStream are traced here (with the curated history
+ * as input).
+ */
+function observeChat(chat: any, options?: ObserveOptions): any {
+  if (!chat || typeof chat !== "object") return chat;
+  if (proxyCache.has(chat)) return proxyCache.get(chat);
+
+  try {
+    const wrapped = new Proxy(chat, {
+      get(target, prop, receiver) {
+        const value = Reflect.get(target, prop, receiver);
+        if (
+          typeof value !== "function" ||
+          (prop !== "sendMessage" && prop !== "sendMessageStream")
+        ) {
+          return value;
+        }
+        return async function (...args: any[]) {
+          const params = args[0] ?? {};
+          // Snapshot history before the call - the chat appends to it
+          let history: any[] = [];
+          try {
+            history = target.getHistory?.(true) ?? [];
+          } catch {
+            history = [];
+          }
+          const request: GeminiRequest = {
+            model: target.model || "unknown",
+            contents: [...history, ...toContents(params.message)],
+            config: { ...(target.config ?? {}), ...(params.config ?? {}) },
+            operationName: "chat",
+          };
+          return traceGenerateContent(
+            value.bind(target),
+            args,
+            request,
+            prop === "sendMessageStream",
+            options,
+          );
+        };
+      },
+    });
+    proxyCache.set(chat, wrapped);
+    return wrapped;
+  } catch (error) {
+    console.error("[Observa] Failed to wrap Gemini chat:", error);
+    return chat;
+  }
+}
+
+/**
+ * Trace generateContent / generateContentStream / chat messages
+ */
+async function traceGenerateContent(
+  originalFn: Function,
+  args: any[],
+  request: GeminiRequest,
+  isStreaming: boolean,
+  options?: ObserveOptions,
+) {
+  const startTime = Date.now();
+
+  try {
+    // 1. Execute Original Call
+    const result = await originalFn(...args);
+
+    // 2. Handle Streaming vs Blocking
+    if (isStreaming) {
+      // Wrap stream to capture data without blocking TTFT
+      return wrapStream(
+        result,
+        (fullResponse: any) => {
+          recordTrace(
+            request,
+            fullResponse,
+            startTime,
+            options,
+            fullResponse.timeToFirstToken,
+            fullResponse.streamingDuration,
+          );
+        },
+        (err: any) => recordError(request, err, startTime, options),
+        "gemini",
+      );
+    }
+    recordTrace(request, result, startTime, options);
+    return result;
+  } catch (error) {
+    recordError(request, error, startTime, options);
+    throw error; // Always re-throw user errors
+  }
+}
+
+/**
+ * Record trace to Observa backend
+ */
+function recordTrace(
+  req: GeminiRequest,
+  res: any,
+  start: number,
+  opts?: ObserveOptions,
+  timeToFirstToken?: number | null,
+  streamingDuration?: number | null,
+) {
+  const duration = Date.now() - start;
+
+  // Defensive: Ensure Observa never crashes the app
+  try {
+    // CRITICAL: Validate that observa instance is provided
+    if (!opts?.observa) {
+      console.error(
+        "[Observa] ⚠️ CRITICAL: observa instance not provided to observeGemini(). " +
+          "Tracking is disabled. Make sure you're using observa.observeGemini() " +
+          "instead of importing observeGemini directly from 'observa-sdk/instrumentation'.",
+      );
+      return; // Silently fail (don't crash user's app)
+    }
+
+    // Sanitize data with redact hook if provided
+    const sanitizedReq: GeminiRequest = opts.redact ? opts.redact(req) : req;
+    const sanitizedRes = opts.redact ? opts.redact(res) : res;
+
+    const candidates: any[] = sanitizedRes?.candidates ?? [];
+    const candidate = candidates[0];
+    const rawFinishReason = candidate?.finishReason ?? null;
+    const finishReason = normalizeFinishReason(rawFinishReason);
+    const blockReason = sanitizedRes?.promptFeedback?.blockReason ?? null;
+    const responseModel = sanitizedRes?.modelVersion || sanitizedReq.model;
+    const config = sanitizedReq.config ?? {};
+
+    const inputMessages = sanitizedReq.contents.map((c: any) => toMessage(c));
+    const outputMessages = candidates.map((c: any) =>
+      toMessage(
+        { role: "model", ...c?.content },
+        normalizeFinishReason(c?.finishReason),
+      ),
+    );
+    const normalized = buildNormalizedLLMCall({
+      request: { model: sanitizedReq.model, messages: inputMessages },
+      response: {
+        model: responseModel,
+        messages: outputMessages,
+        finishReason,
+      },
+      provider: PROVIDER_NAME,
+      usage: extractUsage(sanitizedRes?.usageMetadata),
+      toolDefsOverride: extractToolDefinitions(config.tools),
+    });
+    const toolDefinitions = normalized.toolDefinitions;
+    const otelMetadata = buildOtelMetadata(normalized);
+
+    const inputText = contentsText(sanitizedReq.contents);
+    const outputText = partsText(candidate?.content?.parts) || null;
+    const functionCalls = (candidate?.content?.parts ?? [])
+      .map((p: any) => p?.functionCall)
+      .filter(Boolean);
+    const systemInstruction = systemInstructionText(config.systemInstruction);
+
+    // Count tokens locally when the provider omitted usage
+    const { usage, usageSource } = withEstimatedUsage(normalized.usage, {
+      inputText,
+      outputText,
+      model: sanitizedReq.model,
+      countTokens: (text: string, model: string | null) =>
+        opts.observa.countTokens(text, model),
+    });
+
+    // Safety ratings / prompt blocking for content-filter analysis
+    const enrichedMetadata = {
+      ...otelMetadata,
+      ...(candidate?.safetyRatings
+        ? { gemini_safety_ratings: candidate.safetyRatings }
+        : {}),
+      ...(sanitizedRes?.promptFeedback
+        ? { gemini_prompt_feedback: sanitizedRes.promptFeedback }
+        : {}),
+    };
+
+    const llmCall = {
+      model: sanitizedReq.model,
+      input: inputText,
+      inputMessages: normalized.inputMessages,
+      outputMessages: normalized.outputMessages,
+      systemInstructions: systemInstruction
+        ? [{ type: "text", content: systemInstruction }]
+        : null,
+      inputTokens: usage.inputTokens ?? null,
+      outputTokens: usage.outputTokens ?? null,
+      totalTokens: usage.totalTokens ?? null,
+      cachedInputTokens: usage.cachedInputTokens ?? null,
+      reasoningTokens: usage.reasoningTokens ?? null,
+      usageSource,
+      latencyMs: duration,
+      timeToFirstTokenMs: timeToFirstToken || null,
+      streamingDurationMs: streamingDuration || null,
+      finishReason: blockReason ? "blocked" : finishReason,
+      responseId: sanitizedRes?.responseId || null,
+      operationName: req.operationName,
+      providerName: PROVIDER_NAME,
+      responseModel,
+      temperature: config.temperature ?? null,
+      maxTokens: config.maxOutputTokens ?? null,
+      topP: config.topP ?? null,
+      topK: config.topK ?? null,
+      stopSequences: config.stopSequences ?? null,
+      seed: config.seed ?? null,
+      presencePenalty: config.presencePenalty ?? null,
+      frequencyPenalty: config.frequencyPenalty ?? null,
+      choiceCount: config.candidateCount ?? null,
+      toolDefinitions,
+      metadata: enrichedMetadata,
+    };
+
+    // Detect empty responses (a function call alone is a valid answer)
+    const isEmptyResponse =
+      (!outputText || outputText.trim().length === 0) &&
+      functionCalls.length === 0;
+    const isFiltered =
+      !!blockReason || FILTERED_FINISH_REASONS.has(rawFinishReason);
+    const isFailureFinishReason =
+      isFiltered ||
+      rawFinishReason === "MAX_TOKENS" ||
+      rawFinishReason === "MALFORMED_FUNCTION_CALL";
+
+    // If response is empty or has failure finish reason, record as error
+    if (isEmptyResponse || isFailureFinishReason) {
+      // Record LLM call with null output to show the attempt
+      opts.observa.trackLLMCall({ ...llmCall, output: null });
+
+      const errorType = isFiltered
+        ? "content_filtered"
+        : rawFinishReason === "MAX_TOKENS"
+          ? "response_truncated"
+          : rawFinishReason === "MALFORMED_FUNCTION_CALL"
+            ? "malformed_function_call"
+            : "empty_response";
+      const errorMessage = blockReason
+        ? `Prompt was blocked (${blockReason})`
+        : isFiltered
+          ? "AI response was filtered due to content policy"
+          : rawFinishReason === "MAX_TOKENS"
+            ? "AI response was truncated due to token limit"
+            : rawFinishReason === "MALFORMED_FUNCTION_CALL"
+              ? "AI generated a malformed function call"
+              : "AI returned empty response";
+
+      opts.observa.trackError({
+        errorType,
+        errorMessage,
+        stackTrace: null,
+        context: {
+          request: sanitizedReq,
+          response: sanitizedRes,
+          model: sanitizedReq.model,
+          input: inputText,
+          finish_reason: finishReason,
+          block_reason: blockReason,
+          safety_ratings:
+            candidate?.safetyRatings ??
+            sanitizedRes?.promptFeedback?.safetyRatings ??
+            null,
+          provider: PROVIDER_NAME,
+          duration_ms: duration,
+        },
+        errorCategory: isFiltered ? "validation_error" : "model_error",
+        errorCode: blockReason
+          ? String(blockReason).toLowerCase()
+          : isEmptyResponse && !finishReason
+            ? "empty_response"
+            : finishReason,
+      });
+
+      // Don't record as successful trace
+      return;
+    }
+
+    const llmSpanId = opts.observa.trackLLMCall({
+      ...llmCall,
+      output: outputText,
+    });
+
+    // Function calls requested by the model. The application executes them,
+    // so there is no result or latency to record here.
+    for (const call of functionCalls) {
+      opts.observa.trackToolCall({
+        toolName: call.name || "unknown",
+        args: call.args ?? {},
+        resultStatus: "success",
+        latencyMs: 0,
+        parentSpanId: llmSpanId,
+        operationName: "execute_tool",
+        toolType: "function",
+        toolCallId: call.id ?? null,
+      });
+    }
+  } catch (e) {
+    // Never crash user's app
+    console.error("[Observa] Failed to record trace", e);
+  }
+}
+
+/**
+ * Record error to Observa backend
+ * Creates both an LLM call span (so users can see what failed) and an error event
+ */
+function recordError(
+  req: GeminiRequest,
+  error: any,
+  start: number,
+  opts?: ObserveOptions,
+) {
+  const duration = Date.now() - start;
+
+  try {
+    console.error("[Observa] ⚠️ Error Captured:", error?.message || error);
+
+    // CRITICAL: Validate that observa instance is provided
+    if (!opts?.observa) {
+      console.error(
+        "[Observa] ⚠️ CRITICAL: observa instance not provided to observeGemini(). " +
+          "Error tracking is disabled. Make sure you're using observa.observeGemini() " +
+          "instead of importing observeGemini directly from 'observa-sdk/instrumentation'.",
+      );
+      return; // Silently fail (don't crash user's app)
+    }
+
+    // Sanitize request with redact hook
+    const sanitizedReq: GeminiRequest = opts.redact ? opts.redact(req) : req;
+    const config = sanitizedReq.config ?? {};
+    const inputMessages = sanitizedReq.contents.map((c: any) => toMessage(c));
+    const normalized = buildNormalizedLLMCall({
+      request: { model: sanitizedReq.model, messages: inputMessages },
+      provider: PROVIDER_NAME,
+      toolDefsOverride: extractToolDefinitions(config.tools),
+    });
+    const inputText = contentsText(sanitizedReq.contents);
+
+    // Extract error information using error utilities
+    const extractedError = extractProviderError(error, PROVIDER_NAME);
+
+    // Create LLM call span with error information so users can see what failed
+    opts.observa.trackLLMCall({
+      model: sanitizedReq.model,
+      input: inputText,
+      output: null, // No output on error
+      inputMessages: normalized.inputMessages,
+      outputMessages: null,
+      inputTokens: null,
+      outputTokens: null,
+      totalTokens: null,
+      latencyMs: duration,
+      timeToFirstTokenMs: null,
+      streamingDurationMs: null,
+      finishReason: null,
+      responseId: null,
+      operationName: req.operationName,
+      providerName: PROVIDER_NAME,
+      responseModel: sanitizedReq.model,
+      temperature: config.temperature ?? null,
+      maxTokens: config.maxOutputTokens ?? null,
+      toolDefinitions: normalized.toolDefinitions,
+      metadata: buildOtelMetadata(normalized),
+    });
+
+    // Also create error event with full context and extracted error codes/categories
+    opts.observa.trackError({
+      errorType: error?.name || extractedError.code || "gemini_api_error",
+      errorMessage: extractedError.message,
+      stackTrace: error?.stack || null,
+      context: {
+        request: sanitizedReq,
+        model: sanitizedReq.model,
+        input: inputText,
+        provider: PROVIDER_NAME,
+        duration_ms: duration,
+        status_code: extractedError.statusCode || null,
+      },
+      errorCategory: extractedError.category,
+      errorCode: extractedError.code,
+    });
+  } catch (e) {
+    // Ignore tracking errors
+    console.error("[Observa] Failed to record error", e);
+  }
+}
+
+/** Trace models.embedContent() */
+async function traceEmbedContent(
+  originalFn: Function,
+  args: any[],
+  options?: ObserveOptions,
+) {
+  const startTime = Date.now();
+  const req = args[0] || {};
+  const model = req.model || "unknown";
+  try {
+    const result = await originalFn(...args);
+    const duration = Date.now() - startTime;
+    if (options?.observa?.trackEmbedding) {
+      const sanitizedReq = options.redact ? options.redact(req) : req;
+      const embeddings = (result?.embeddings ?? [])
+        .map((e: any) => e?.values)
+        .filter(Array.isArray);
+      // Token statistics are only returned by Vertex AI
+      const tokenCounts = (result?.embeddings ?? [])
+        .map((e: any) => e?.statistics?.tokenCount)
+        .filter((n: any) => typeof n === "number");
+      options.observa.trackEmbedding({
+        model,
+        dimensionCount: embeddings[0]?.length ?? null,
+        latencyMs: duration,
+        providerName: PROVIDER_NAME,
+        inputText: contentsText(toContents(sanitizedReq.contents)),
+        inputTokens:
+          tokenCounts.length > 0
+            ? tokenCounts.reduce((a: number, b: number) => a + b, 0)
+            : null,
+        embeddings: embeddings.length > 0 ? embeddings : null,
+      });
+    }
+    return result;
+  } catch (error) {
+    if (options?.observa?.trackError) {
+      const extractedError = extractProviderError(error, PROVIDER_NAME);
+      options.observa.trackError({
+        errorType: (error as Error)?.name ?? "Error",
+        errorMessage: extractedError.message,
+        stackTrace: (error as Error)?.stack ?? null,
+        errorCategory: "embedding_error",
+        errorCode: extractedError.code,
+      });
+    }
+    throw error;
+  }
+}
@@ -4,6 +4,8 @@
  * Implements ObservaCallbackHandler extending LangChain's BaseCallbackHandler.
  * Automatically tracks chains, LLM calls, tools, retrievers, and agents with proper hierarchy.
  * Supports metadata extraction from config, distributed tracing, and streaming.
+ * LangGraph node runs are recorded as named spans with step index, state-diff
+ * summaries and interrupt (human-in-the-loop) status.
  *
  * Follows LangFuse pattern for LangChain instrumentation.
  */
@@ -15,10 +17,13 @@ import {
   buildOtelMetadata,
   normalizeToolDefinitions,
 } from "./normalize";
+import { emitDiagnostic } from "../diagnostics";
 
-// Estimate tokens from text (rough estimate)
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+// Count tokens with the Observa tokenizer (used when the model reports no usage)
+function estimateTokens(observa: any, text: string, model: any): number {
+  return observa?.countTokens
+    ? observa.countTokens(text, model ? String(model) : null)
+    : Math.ceil(text.length / 4);
 }
 
 // Extract model name from LangChain LLM object (avoid using llm.id which is class path)
@@ -94,26 +99,16 @@ function safeSerialize(value: any, maxLength = 5000): string | null {
 // Normalize tool arguments string - handles malformed JSON strings
 // This is a shared utility that matches the logic in index.ts normalizeToolArguments
 function normalizeToolArgumentsString(value: string): any {
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "langchain.ts:normalizeToolArgumentsString:entry",
-      message: "normalizeToolArgumentsString called (langchain)",
-      data: {
-        valuePreview: value.substring(0, 200),
-        valueLength: value.length,
-        startsWithDoubleQuote: value.trim().startsWith('""'),
-        endsWithDoubleQuote: value.trim().endsWith('""'),
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "A,B,D",
+  emitDiagnostic(
+    "langchain.ts:normalizeToolArgumentsString:entry",
+    "normalizeToolArgumentsString called (langchain)",
+    () => ({
+      valuePreview: value.substring(0, 200),
+      valueLength: value.length,
+      startsWithDoubleQuote: value.trim().startsWith('""'),
+      endsWithDoubleQuote: value.trim().endsWith('""'),
     }),
-  }).catch(() => {});
-  // #endregion
+  );
 
   // If empty string, return as-is
   if (value.trim().length === 0) {
@@ -131,51 +126,23 @@ function normalizeToolArgumentsString(value: string): any {
     try {
       // Try to parse as JSON first
       const parsed = JSON.parse(value);
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "langchain.ts:normalizeToolArgumentsString:parsed",
-            message: "Successfully parsed as JSON (langchain)",
-            data: { parsedType: typeof parsed },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "A",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "langchain.ts:normalizeToolArgumentsString:parsed",
+        "Successfully parsed as JSON (langchain)",
+        () => ({ parsedType: typeof parsed }),
+      );
       return parsed;
     } catch (parseError) {
       // If it looks like JSON but fails to parse, log warning and return as-is
       // Following Langfuse's approach: don't try to fix, just pass through
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location:
-              "langchain.ts:normalizeToolArgumentsString:parseFailedButLooksLikeJSON",
-            message:
-              "WARNING: Looks like JSON but failed to parse - returning as-is (following Langfuse approach)",
-            data: {
-              error: String(parseError),
-              valuePreview: value.substring(0, 200),
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "A",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "langchain.ts:normalizeToolArgumentsString:parseFailedButLooksLikeJSON",
+        "WARNING: Looks like JSON but failed to parse - returning as-is (following Langfuse approach)",
+        () => ({
+          error: String(parseError),
+          valuePreview: value.substring(0, 200),
+        }),
+      );
       console.warn(
         "[Observa] Failed to parse arguments JSON string (looks like JSON but invalid):",
         trimmed.substring(0, 100),
@@ -194,23 +161,13 @@ function normalizeToolArgumentsString(value: string): any {
   ) {
     // This is the malformed pattern that causes "arguments":""query":"value"" in final JSON
     // We need to fix it by wrapping in braces
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "langchain.ts:normalizeToolArgumentsString:malformedPattern",
-        message: "Detected malformed pattern - attempting fix",
-        data: {
-          valuePreview: trimmed.substring(0, 200),
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "B",
+    emitDiagnostic(
+      "langchain.ts:normalizeToolArgumentsString:malformedPattern",
+      "Detected malformed pattern - attempting fix",
+      () => ({
+        valuePreview: trimmed.substring(0, 200),
       }),
-    }).catch(() => {});
-    // #endregion
+    );
 
     // Handle case where string is double-quoted (e.g., ""key":"value"")
     // This can happen when LangChain provides arguments that are incorrectly encoded
@@ -255,88 +212,46 @@ function normalizeToolArgumentsString(value: string): any {
       !trimmed.startsWith('"{') &&
       trimmed.includes(":")
     ) {
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location:
-              "langchain.ts:normalizeToolArgumentsString:attemptSimpleWrap",
-            message: "Attempting simple wrap for malformed JSON pattern",
-            data: {
-              trimmed: trimmed.substring(0, 200),
-              trimmedLength: trimmed.length,
-              firstChar: trimmed[0],
-              hasColon: trimmed.includes(":"),
-              wrapped: `{${trimmed}}`.substring(0, 200),
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "B",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "langchain.ts:normalizeToolArgumentsString:attemptSimpleWrap",
+        "Attempting simple wrap for malformed JSON pattern",
+        () => ({
+          trimmed: trimmed.substring(0, 200),
+          trimmedLength: trimmed.length,
+          firstChar: trimmed[0],
+          hasColon: trimmed.includes(":"),
+          wrapped: `{${trimmed}}`.substring(0, 200),
+        }),
+      );
 
       // Try wrapping the entire string in braces
       try {
         const wrapped = `{${trimmed}}`;
         const parsed = JSON.parse(wrapped);
-        // #region agent log
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location:
-                "langchain.ts:normalizeToolArgumentsString:simpleWrapSuccess",
-              message: "Successfully fixed by simple wrapping",
-              data: {
-                original: trimmed.substring(0, 100),
-                wrapped: wrapped.substring(0, 100),
-                parsedType: typeof parsed,
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "B",
-            }),
-          },
-        ).catch(() => {});
-        // #endregion
+        emitDiagnostic(
+          "langchain.ts:normalizeToolArgumentsString:simpleWrapSuccess",
+          "Successfully fixed by simple wrapping",
+          () => ({
+            original: trimmed.substring(0, 100),
+            wrapped: wrapped.substring(0, 100),
+            parsedType: typeof parsed,
+          }),
+        );
         return parsed;
       } catch (wrapError) {
-        // #region agent log
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location:
-                "langchain.ts:normalizeToolArgumentsString:simpleWrapFailed",
-              message: "Simple wrapping failed - this will cause JSON error",
-              data: {
-                error: String(wrapError),
-                errorMessage:
-                  wrapError instanceof Error
-                    ? wrapError.message
-                    : String(wrapError),
-                trimmed: trimmed.substring(0, 200),
-                wrapped: `{${trimmed}}`.substring(0, 200),
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "B",
-            }),
-          },
-        ).catch(() => {});
-        // #endregion
+        emitDiagnostic(
+          "langchain.ts:normalizeToolArgumentsString:simpleWrapFailed",
+          "Simple wrapping failed - this will cause JSON error",
+          () => ({
+            error: String(wrapError),
+            errorMessage:
+              wrapError instanceof Error
+                ? wrapError.message
+                : String(wrapError),
+            trimmed: trimmed.substring(0, 200),
+            wrapped: `{${trimmed}}`.substring(0, 200),
+          }),
+        );
 
         // If simple wrapping fails, try one more aggressive fix:
         // The string might be "key":"value" but with escaped quotes or special characters
@@ -381,58 +296,30 @@ function normalizeToolArgumentsString(value: string): any {
             }
 
             const reconstructed: Record<string, any> = { [key]: val };
-            // #region agent log
-            fetch(
-              "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-              {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  location:
-                    "langchain.ts:normalizeToolArgumentsString:reconstructSuccess",
-                  message: "Successfully reconstructed from key-value pattern",
-                  data: {
-                    original: trimmed.substring(0, 100),
-                    reconstructed: JSON.stringify(reconstructed).substring(
-                      0,
-                      100,
-                    ),
-                    key,
-                    valuePreview: String(val).substring(0, 50),
-                  },
-                  timestamp: Date.now(),
-                  sessionId: "debug-session",
-                  runId: "run1",
-                  hypothesisId: "B",
-                }),
-              },
-            ).catch(() => {});
-            // #endregion
+            emitDiagnostic(
+              "langchain.ts:normalizeToolArgumentsString:reconstructSuccess",
+              "Successfully reconstructed from key-value pattern",
+              () => ({
+                original: trimmed.substring(0, 100),
+                reconstructed: JSON.stringify(reconstructed).substring(
+                  0,
+                  100,
+                ),
+                key,
+                valuePreview: String(val).substring(0, 50),
+              }),
+            );
             return reconstructed;
           }
         } catch (reconstructError) {
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location:
-                  "langchain.ts:normalizeToolArgumentsString:reconstructFailed",
-                message: "Reconstruction failed",
-                data: {
-                  error: String(reconstructError),
-                  trimmed: trimmed.substring(0, 200),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "B",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "langchain.ts:normalizeToolArgumentsString:reconstructFailed",
+            "Reconstruction failed",
+            () => ({
+              error: String(reconstructError),
+              trimmed: trimmed.substring(0, 200),
+            }),
+          );
         }
 
         // If all fixes fail, the string is likely malformed in a way we can't fix
@@ -454,28 +341,15 @@ function normalizeToolArgumentsString(value: string): any {
       !trimmed.startsWith("[") &&
       trimmed.startsWith('"')
     ) {
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "langchain.ts:normalizeToolArgumentsString:attemptWrap",
-            message: "Attempting to wrap string in braces",
-            data: {
-              trimmed: trimmed.substring(0, 200),
-              matchesPattern: !!trimmed.match(/^"[^"]+":/),
-              wrapped: `{${trimmed}}`.substring(0, 200),
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "B",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "langchain.ts:normalizeToolArgumentsString:attemptWrap",
+        "Attempting to wrap string in braces",
+        () => ({
+          trimmed: trimmed.substring(0, 200),
+          matchesPattern: !!trimmed.match(/^"[^"]+":/),
+          wrapped: `{${trimmed}}`.substring(0, 200),
+        }),
+      );
 
       // Check if it matches the pattern "key": (with optional value)
       const keyPattern = /^"[^"]+":/;
@@ -484,49 +358,21 @@ function normalizeToolArgumentsString(value: string): any {
           // Try wrapping in braces
           const wrapped = `{${trimmed}}`;
           const parsed = JSON.parse(wrapped);
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location:
-                  "langchain.ts:normalizeToolArgumentsString:wrapSuccess",
-                message: "Successfully wrapped and parsed",
-                data: { parsedType: typeof parsed },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "B",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "langchain.ts:normalizeToolArgumentsString:wrapSuccess",
+            "Successfully wrapped and parsed",
+            () => ({ parsedType: typeof parsed }),
+          );
           return parsed;
         } catch (wrapError) {
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location:
-                  "langchain.ts:normalizeToolArgumentsString:wrapFailed",
-                message: "Wrapping in braces failed",
-                data: {
-                  error: String(wrapError),
-                  wrapped: `{${trimmed}}`.substring(0, 200),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "B",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "langchain.ts:normalizeToolArgumentsString:wrapFailed",
+            "Wrapping in braces failed",
+            () => ({
+              error: String(wrapError),
+              wrapped: `{${trimmed}}`.substring(0, 200),
+            }),
+          );
           // Fall through - return original value
         }
       }
@@ -534,21 +380,11 @@ function normalizeToolArgumentsString(value: string): any {
 
     // If all parsing attempts fail, return the value as-is
     // JSON.stringify will properly escape it
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "langchain.ts:normalizeToolArgumentsString:returnOriginal",
-        message: "Returning original value (langchain, all fixes failed)",
-        data: { valuePreview: value.substring(0, 200) },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "B",
-      }),
-    }).catch(() => {});
-    // #endregion
+    emitDiagnostic(
+      "langchain.ts:normalizeToolArgumentsString:returnOriginal",
+      "Returning original value (langchain, all fixes failed)",
+      () => ({ valuePreview: value.substring(0, 200) }),
+    );
 
     // If we get here, all fixes failed
     // CRITICAL: If the value looks like malformed JSON (starts with quote and has colon),
@@ -568,29 +404,15 @@ function normalizeToolArgumentsString(value: string): any {
         }
         try {
           const reconstructed = { [key]: val };
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location:
-                  "langchain.ts:normalizeToolArgumentsString:lastResortFix",
-                message: "Last resort fix succeeded",
-                data: {
-                  key,
-                  valuePreview:
-                    typeof val === "string" ? val.substring(0, 100) : val,
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "LAST_RESORT",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "langchain.ts:normalizeToolArgumentsString:lastResortFix",
+            "Last resort fix succeeded",
+            () => ({
+              key,
+              valuePreview:
+                typeof val === "string" ? val.substring(0, 100) : val,
+            }),
+          );
           return reconstructed;
         } catch {
           // If even this fails, return empty object to prevent JSON errors
@@ -619,80 +441,38 @@ function normalizeAdditionalKwargs(kwargs: any): Record<string, any> | null {
         const normalizedFc: Record<string, any> = { ...fc };
 
         if (typeof fc.arguments === "string") {
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location:
-                  "langchain.ts:normalizeAdditionalKwargs:function_call.arguments",
-                message: "Found string arguments in function_call",
-                data: {
-                  argsValue: fc.arguments.substring(0, 200),
-                  argsLength: fc.arguments.length,
-                  startsWithQuote: fc.arguments.trim().startsWith('"'),
-                  hasColon: fc.arguments.includes(":"),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "B",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "langchain.ts:normalizeAdditionalKwargs:function_call.arguments",
+            "Found string arguments in function_call",
+            () => ({
+              argsValue: fc.arguments.substring(0, 200),
+              argsLength: fc.arguments.length,
+              startsWithQuote: fc.arguments.trim().startsWith('"'),
+              hasColon: fc.arguments.includes(":"),
+            }),
+          );
           const normalized = normalizeToolArgumentsString(fc.arguments);
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location:
-                  "langchain.ts:normalizeAdditionalKwargs:function_call.arguments:after",
-                message: "After normalization",
-                data: {
-                  normalizedType: typeof normalized,
-                  normalizedPreview:
-                    typeof normalized === "string"
-                      ? normalized.substring(0, 200)
-                      : JSON.stringify(normalized).substring(0, 200),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "B",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "langchain.ts:normalizeAdditionalKwargs:function_call.arguments:after",
+            "After normalization",
+            () => ({
+              normalizedType: typeof normalized,
+              normalizedPreview:
+                typeof normalized === "string"
+                  ? normalized.substring(0, 200)
+                  : JSON.stringify(normalized).substring(0, 200),
+            }),
+          );
           normalizedFc.arguments = normalized;
         } else if (fc.arguments !== undefined) {
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location:
-                  "langchain.ts:normalizeAdditionalKwargs:function_call.arguments:nonString",
-                message: "Arguments is not a string",
-                data: {
-                  argsType: typeof fc.arguments,
-                  argsPreview: JSON.stringify(fc.arguments).substring(0, 200),
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "B",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "langchain.ts:normalizeAdditionalKwargs:function_call.arguments:nonString",
+            "Arguments is not a string",
+            () => ({
+              argsType: typeof fc.arguments,
+              argsPreview: JSON.stringify(fc.arguments).substring(0, 200),
+            }),
+          );
         }
         result[key] = normalizedFc;
       } else if (key === "tool_calls" && Array.isArray(value)) {
@@ -757,6 +537,105 @@ function convertMessages(messages: any[]): Array<{
   });
 }
 
+// LangGraph run metadata (set by Pregel on every run inside a graph task)
+interface LangGraphRunMetadata {
+  node: string;
+  step: number | null;
+  triggers: string[] | null;
+  checkpointNs: string | null;
+}
+
+// Graph-internal tasks that should not show up as node spans
+const LANGGRAPH_HIDDEN_NODES = new Set(["__start__", "__end__"]);
+const LANGGRAPH_HIDDEN_TAG = "langsmith:hidden";
+
+function readLangGraphMetadata(
+  metadata?: Record<string, unknown>,
+): LangGraphRunMetadata | null {
+  const node = metadata?.langgraph_node;
+  if (typeof node !== "string" || node.length === 0) return null;
+  const step = metadata?.langgraph_step;
+  const triggers = metadata?.langgraph_triggers;
+  const checkpointNs =
+    metadata?.langgraph_checkpoint_ns ?? metadata?.checkpoint_ns;
+  return {
+    node,
+    step: typeof step === "number" ? step : null,
+    triggers: Array.isArray(triggers) ? triggers.map(String) : null,
+    checkpointNs: typeof checkpointNs === "string" ? checkpointNs : null,
+  };
+}
+
+// interrupt() / NodeInterrupt pause the graph by throwing - not a failure
+function isGraphInterrupt(error: any): boolean {
+  return (
+    error?.name === "GraphInterrupt" ||
+    error?.name === "NodeInterrupt" ||
+    Array.isArray(error?.interrupts)
+  );
+}
+
+// Span events for the interrupt payloads (value shown to the human)
+function interruptEvents(
+  interrupts: any,
+): Array<{ name: string; attributes: Record<string, any> }> {
+  const list = Array.isArray(interrupts) ? interrupts : [interrupts];
+  return list.map((interrupt) => ({
+    name: "langgraph.interrupt",
+    attributes: {
+      value: safeSerialize(interrupt?.value ?? interrupt, 1000),
+      ...(interrupt?.id ? { interrupt_id: interrupt.id } : {}),
+      ...(interrupt?.resumable !== undefined
+        ? { resumable: interrupt.resumable }
+        : {}),
+      ...(Array.isArray(interrupt?.ns) ? { ns: interrupt.ns } : {}),
+    },
+  }));
+}
+
+// Summarize a node's state update against the state it received: which
+// channels it wrote and a short before -> after preview for each
+function summarizeStateDiff(
+  state: any,
+  update: any,
+): {
+  added_keys: string[];
+  changed_keys: string[];
+  unchanged_keys: string[];
+  changes: Record<string, string>;
+} | null {
+  if (!update || typeof update !== "object" || Array.isArray(update)) {
+    return null;
+  }
+  const previous = state && typeof state === "object" ? state : {};
+  const diff = {
+    added_keys: [] as string[],
+    changed_keys: [] as string[],
+    unchanged_keys: [] as string[],
+    changes: {} as Record<string, string>,
+  };
+  for (const [key, value] of Object.entries(update)) {
+    if (key.startsWith("__")) continue;
+    const before = previous[key];
+    if (!(key in previous) || before === undefined) {
+      diff.added_keys.push(key);
+      diff.changes[key] = `set ${safeSerialize(value, 200)}`;
+    } else if (Array.isArray(before) && Array.isArray(value)) {
+      // List channels usually have an append reducer
+      diff.changed_keys.push(key);
+      diff.changes[key] =
+        `${value.length} item(s) written (${before.length} before)`;
+    } else if (safeSerialize(before) !== safeSerialize(value)) {
+      diff.changed_keys.push(key);
+      diff.changes[key] =
+        `${safeSerialize(before, 100)} -> ${safeSerialize(value, 100)}`;
+    } else {
+      diff.unchanged_keys.push(key);
+    }
+  }
+  return diff;
+}
+
 export interface ObserveOptions {
   name?: string;
   tags?: string[];
@@ -769,7 +648,9 @@ export interface ObserveOptions {
 
 interface RunInfo {
   spanId: string;
-  parentSpanId: string | null;
+  // Span of the parent run; undefined for root runs, which nest under the
+  // current span
+  parentSpanId: string | undefined;
   traceId: string;
   startTime: number;
   type: "chain" | "llm" | "tool" | "retriever" | "agent";
@@ -795,6 +676,17 @@ interface RunInfo {
   // Chain-specific
   chainInputs?: any;
   chainName?: string;
+  // LangGraph-specific: set on node runs and every run inside a node
+  graph?: LangGraphRunMetadata;
+  // Node run (emits a graph_node span); other graph runs share its spanId
+  graphNode?: boolean;
+  // Run of the graph hosting the node (root graph for subgraph nodes)
+  graphRunId?: string;
+  // Graph runs: node names in execution order, interrupt state
+  graphPath?: Array<{ node: string; step: number | null }>;
+  interrupted?: boolean;
+  // LLM runs inside a node: parented to the node span
+  inGraph?: boolean;
 }
 
 /**
@@ -892,17 +784,23 @@ export class ObservaCallbackHandler {
 
       const parentRun = parentRunId ? this.runs.get(parentRunId) : null;
       const traceId = parentRun?.traceId || this.getTraceId(runId);
+      const chainName = runName || chain?.name || chain?.id || "chain";
 
       const runInfo: RunInfo = {
         spanId: crypto.randomUUID(),
-        parentSpanId: parentRun?.spanId || null,
+        parentSpanId: parentRun?.spanId,
         traceId,
         startTime: Date.now(),
         type: "chain",
         chainInputs: inputs,
-        chainName: runName || chain?.name || chain?.id || "chain",
+        chainName,
       };
 
+      const graph = readLangGraphMetadata(metadata);
+      if (graph) {
+        this.startGraphRun(runInfo, graph, chainName, tags, parentRunId);
+      }
+
       this.runs.set(runId, runInfo);
 
       // Extract metadata from config if available in extra
@@ -934,7 +832,13 @@ export class ObservaCallbackHandler {
       const duration = Date.now() - runInfo.startTime;
 
       // Chain tracking: we track hierarchy but don't create separate events
-      // The LLM/tool events within the chain are the actual tracked events
+      // The LLM/tool events within the chain are the actual tracked events.
+      // LangGraph nodes and the graphs hosting them are the exception.
+      if (runInfo.graphNode) {
+        this.endGraphNode(runInfo, { outputs });
+      } else if (runInfo.graphPath) {
+        this.endGraph(runInfo, { outputs });
+      }
       this.runs.delete(runId);
     } catch (error) {
       console.error("[Observa] Error in handleChainEnd:", error);
@@ -955,6 +859,11 @@ export class ObservaCallbackHandler {
     try {
       const runInfo = this.runs.get(runId);
       if (runInfo) {
+        if (runInfo.graphNode) {
+          this.endGraphNode(runInfo, { error });
+        } else if (runInfo.graphPath) {
+          this.endGraph(runInfo, { error });
+        }
         // Mark trace as having error
         this.runs.delete(runId);
       }
@@ -963,6 +872,162 @@ export class ObservaCallbackHandler {
     }
   }
 
+  // Classify a run started inside a LangGraph task. The task run itself
+  // becomes a node span; runs nested in it (the node's runnables, channel
+  // writers, subgraph wrappers) share the node's span so LLM/tool/retriever
+  // events nest directly under the node. Subgraph nodes nest under the
+  // parent graph's node, so multi-agent graphs render as a tree.
+  private startGraphRun(
+    runInfo: RunInfo,
+    graph: LangGraphRunMetadata,
+    chainName: string,
+    tags: string[] | undefined,
+    parentRunId: string | undefined,
+  ): void {
+    const parentRun = parentRunId ? this.runs.get(parentRunId) : null;
+    runInfo.graph = graph;
+    const sameTask =
+      parentRun?.graph?.node === graph.node &&
+      parentRun.graph.step === graph.step &&
+      parentRun.graph.checkpointNs === graph.checkpointNs;
+    const isNode =
+      chainName === graph.node &&
+      !sameTask &&
+      !LANGGRAPH_HIDDEN_NODES.has(graph.node) &&
+      !tags?.includes(LANGGRAPH_HIDDEN_TAG);
+
+    if (!isNode) {
+      if (parentRun?.graph) {
+        runInfo.spanId = parentRun.spanId;
+        runInfo.parentSpanId = parentRun.parentSpanId;
+        if (parentRun.graphRunId) runInfo.graphRunId = parentRun.graphRunId;
+      }
+      return;
+    }
+
+    runInfo.graphNode = true;
+    // Top-level node: the parent run is the graph itself
+    const graphRunId = parentRun?.graph ? parentRun.graphRunId : parentRunId;
+    if (graphRunId) runInfo.graphRunId = graphRunId;
+    if (parentRun && !parentRun.graph) {
+      parentRun.graphPath = parentRun.graphPath || [];
+      parentRun.graphPath.push({ node: graph.node, step: graph.step });
+    }
+  }
+
+  // Emit the span for a finished (or interrupted / failed) LangGraph node
+  private endGraphNode(
+    runInfo: RunInfo,
+    result: { outputs?: Record<string, any>; error?: any },
+  ): void {
+    const graph = runInfo.graph;
+    if (!graph || !this.observa) return;
+
+    const interrupted =
+      result.error !== undefined && isGraphInterrupt(result.error);
+    const events: Array<{ name: string; attributes: Record<string, any> }> =
+      [];
+    let status: "success" | "error" | "interrupted" = "success";
+    if (interrupted) {
+      status = "interrupted";
+      events.push(...interruptEvents(result.error.interrupts ?? result.error));
+      const graphRun = runInfo.graphRunId
+        ? this.runs.get(runInfo.graphRunId)
+        : null;
+      if (graphRun) graphRun.interrupted = true;
+    } else if (result.error !== undefined) {
+      status = "error";
+      events.push({
+        name: "exception",
+        attributes: {
+          type: result.error?.name || "Error",
+          message: result.error?.message || String(result.error),
+        },
+      });
+    }
+
+    // Nodes may return a Command (goto + update) instead of a plain update
+    const outputs = result.outputs;
+    const command = outputs?.lg_name === "Command" ? outputs : null;
+    const update = command ? command.update : outputs;
+    const stateDiff =
+      status === "success"
+        ? summarizeStateDiff(runInfo.chainInputs, update)
+        : null;
+
+    this.observa.trackSpan({
+      name: graph.node,
+      kind: "graph_node",
+      startTime: runInfo.startTime,
+      status,
+      attributes: {
+        "langgraph.node": graph.node,
+        "langgraph.step": graph.step,
+        "langgraph.triggers": graph.triggers,
+        "langgraph.checkpoint_ns": graph.checkpointNs,
+        ...(stateDiff ? { "langgraph.state_diff": stateDiff } : {}),
+        ...(command?.goto !== undefined
+          ? { "langgraph.goto": safeSerialize(command.goto, 500) }
+          : {}),
+      },
+      events,
+      spanId: runInfo.spanId,
+      parentSpanId: runInfo.parentSpanId,
+      traceId: runInfo.traceId,
+    });
+  }
+
+  // Emit the span for a run that hosted LangGraph nodes (the compiled graph)
+  private endGraph(
+    runInfo: RunInfo,
+    result: { outputs?: Record<string, any>; error?: any },
+  ): void {
+    if (!this.observa) return;
+
+    // Interrupted invocations return normally with __interrupt__ set
+    const pending = result.outputs?.__interrupt__;
+    const interrupted =
+      runInfo.interrupted ||
+      (Array.isArray(pending) && pending.length > 0) ||
+      (result.error !== undefined && isGraphInterrupt(result.error));
+    const failed = result.error !== undefined && !interrupted;
+    const events: Array<{ name: string; attributes: Record<string, any> }> =
+      [];
+    if (Array.isArray(pending) && pending.length > 0) {
+      events.push(...interruptEvents(pending));
+    }
+    if (failed) {
+      events.push({
+        name: "exception",
+        attributes: {
+          type: result.error?.name || "Error",
+          message: result.error?.message || String(result.error),
+        },
+      });
+    }
+
+    const path = runInfo.graphPath || [];
+    const steps = path
+      .map((entry) => entry.step)
+      .filter((step): step is number => step !== null);
+
+    this.observa.trackSpan({
+      name: runInfo.chainName || "graph",
+      kind: "workflow",
+      startTime: runInfo.startTime,
+      status: failed ? "error" : interrupted ? "interrupted" : "success",
+      attributes: {
+        "langgraph.path": path.map((entry) => entry.node),
+        "langgraph.steps": steps.length > 0 ? Math.max(...steps) : null,
+        "langgraph.interrupted": interrupted,
+      },
+      events,
+      spanId: runInfo.spanId,
+      parentSpanId: runInfo.parentSpanId,
+      traceId: runInfo.traceId,
+    });
+  }
+
   // Handle LLM start
   async handleLLMStart(
     llm: any,
@@ -1008,7 +1073,7 @@ export class ObservaCallbackHandler {
 
       const runInfo: RunInfo = {
         spanId: crypto.randomUUID(),
-        parentSpanId: parentRun?.spanId || null,
+        parentSpanId: parentRun?.spanId,
         traceId,
         startTime: Date.now(),
         type: "llm",
@@ -1017,6 +1082,7 @@ export class ObservaCallbackHandler {
         streamingTokens: [],
         extraParams: extraParams || {},
       };
+      if (parentRun?.graph) runInfo.inGraph = true;
 
       this.runs.set(runId, runInfo);
     } catch (error) {
@@ -1214,16 +1280,31 @@ export class ObservaCallbackHandler {
       const usageMetadata = lastGeneration?.message?.usage_metadata;
       const tokenUsage =
         output?.llmOutput?.tokenUsage || output?.tokenUsage || {};
+      const reportedInputTokens =
+        usageMetadata?.input_tokens || tokenUsage.promptTokens || null;
+      const reportedOutputTokens =
+        usageMetadata?.output_tokens || tokenUsage.completionTokens || null;
       const inputTokens =
-        usageMetadata?.input_tokens ||
-        tokenUsage.promptTokens ||
+        reportedInputTokens ||
         (runInfo.prompts
-          ? runInfo.prompts.reduce((sum, p) => sum + estimateTokens(p), 0)
+          ? runInfo.prompts.reduce(
+              (sum, p) => sum + estimateTokens(this.observa, p, runInfo.model),
+              0,
+            )
           : null);
       const outputTokens =
-        usageMetadata?.output_tokens ||
-        tokenUsage.completionTokens ||
-        (outputText ? estimateTokens(outputText) : null);
+        reportedOutputTokens ||
+        (outputText
+          ? estimateTokens(this.observa, outputText, runInfo.model)
+          : null);
+      // "estimated" as soon as either count came from the tokenizer
+      const usageSource =
+        inputTokens === null && outputTokens === null
+          ? null
+          : inputTokens === reportedInputTokens &&
+              outputTokens === reportedOutputTokens
+            ? "provider_reported"
+            : "estimated";
       const totalTokens =
         usageMetadata?.total_tokens ||
         tokenUsage.totalTokens ||
@@ -1370,6 +1451,7 @@ export class ObservaCallbackHandler {
             inputTokens,
             outputTokens,
             totalTokens,
+            usageSource,
             latencyMs: duration,
             timeToFirstTokenMs: timeToFirstToken,
             streamingDurationMs: streamingDuration,
@@ -1385,6 +1467,9 @@ export class ObservaCallbackHandler {
             topK,
             toolDefinitions: normalized.toolDefinitions ?? toolDefinitions,
             traceId: runInfo.traceId,
+            ...(runInfo.inGraph
+              ? { parentSpanId: runInfo.parentSpanId }
+              : {}),
             metadata: (() => {
               // Sanitize metadata to avoid circular references
               const safeMetadata: Record<string, any> = {
@@ -1480,6 +1565,9 @@ export class ObservaCallbackHandler {
             totalTokens: null,
             latencyMs: duration,
             traceId: runInfo.traceId || null,
+            ...(runInfo.inGraph
+              ? { parentSpanId: runInfo.parentSpanId }
+              : {}),
             toolDefinitions: normalized.toolDefinitions ?? toolDefinitions,
             metadata: {
               langchain_error: true,
@@ -1538,7 +1626,7 @@ export class ObservaCallbackHandler {
 
       const runInfo: RunInfo = {
         spanId: crypto.randomUUID(),
-        parentSpanId: parentRun?.spanId || null,
+        parentSpanId: parentRun?.spanId,
         traceId,
         startTime: Date.now(),
         type: "tool",
@@ -1669,7 +1757,7 @@ export class ObservaCallbackHandler {
 
       const runInfo: RunInfo = {
         spanId: crypto.randomUUID(),
-        parentSpanId: parentRun?.spanId || null,
+        parentSpanId: parentRun?.spanId,
         traceId,
         startTime: Date.now(),
         type: "retriever",
@@ -1768,7 +1856,7 @@ export class ObservaCallbackHandler {
 
       const runInfo: RunInfo = {
         spanId: crypto.randomUUID(),
-        parentSpanId: parentRun?.spanId || null,
+        parentSpanId: parentRun?.spanId,
         traceId,
         startTime: Date.now(),
         type: "agent",
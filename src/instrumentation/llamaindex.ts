@@ -0,0 +1,681 @@
+/**
+ * LlamaIndex.TS Instrumentation
+ *
+ * Implements observeLlamaIndex() by listening to LlamaIndex's callback
+ * manager (Settings.callbackManager). Events map to canonical events:
+ * - query-start/end, synthesize-start/end, agent-start/end -> span
+ * - llm-start/stream/end -> llm_call
+ * - retrieve-start/end -> retrieval (node IDs and scores)
+ * - llm-tool-call/result -> tool_call
+ * LlamaIndex emits no embedding events, so Settings.embedModel is swapped for
+ * a Proxy that records embedding events.
+ *
+ * Callback events carry no parent IDs: events nest under the innermost open
+ * query / synthesize / agent span of the current async context. Open spans
+ * are entered into the caller's trace context (AsyncLocalStorage), so
+ * concurrent queries on one Settings object keep separate span stacks.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import {
+  buildNormalizedLLMCall,
+  buildOtelMetadata,
+  withEstimatedUsage,
+} from "./normalize.js";
+import { extractProviderError } from "./error-utils.js";
+import {
+  enterTraceContext,
+  getTraceContext,
+  type ContextFrame,
+  type TraceContext,
+} from "../context.js";
+
+// LlamaIndex Settings (not imported: llamaindex is an optional dependency)
+type LlamaIndexSettings = any;
+
+const DEFAULT_PROVIDER = "llamaindex";
+
+// LLM class name -> provider_name
+const PROVIDER_BY_CLASS: Record<string, string> = {
+  OpenAI: "openai",
+  AzureOpenAI: "azure.ai.openai",
+  Anthropic: "anthropic",
+  Gemini: "gcp.gemini",
+  MistralAI: "mistral_ai",
+  Groq: "groq",
+  Ollama: "ollama",
+  TogetherLLM: "together_ai",
+  FireworksLLM: "fireworks",
+  DeepSeekLLM: "deepseek",
+  Bedrock: "aws.bedrock",
+};
+
+// Callback manager events we listen to
+const EVENT_NAMES = [
+  "query-start",
+  "query-end",
+  "synthesize-start",
+  "synthesize-end",
+  "agent-start",
+  "agent-end",
+  "llm-start",
+  "llm-stream",
+  "llm-end",
+  "llm-tool-call",
+  "llm-tool-result",
+  "retrieve-start",
+  "retrieve-end",
+] as const;
+
+export interface ObserveOptions {
+  name?: string;
+  tags?: string[];
+  userId?: string;
+  sessionId?: string;
+  // Callback to scrub PII before sending to Observa
+  redact?: (data: any) => any;
+  // Observa instance for sending events
+  observa?: any; // Observa class instance
+}
+
+/**
+ * Handle returned by observeLlamaIndex()
+ */
+export interface ObservedLlamaIndex {
+  // Stop listening and restore the original Settings.embedModel
+  detach(): void;
+}
+
+// An open query / synthesize / agent span, entered into the trace context
+interface Frame extends ContextFrame {
+  // Tracer that opened the frame
+  owner: object;
+  id: string | null;
+  kind: "query" | "synthesize" | "agent";
+  spanId: string;
+  parentSpanId: string | null;
+  traceId: string;
+  startTime: number;
+  input: string | null;
+  // retrieve-start times by query text (retrieve events carry no id)
+  retrievals: Array<{ query: string; startTime: number }>;
+  // Set one microtask after the frame opens (see openFrame)
+  settled: boolean;
+}
+
+interface LLMRun {
+  frame: Frame | null;
+  startTime: number;
+  messages: any[];
+  firstTokenTime: number | null;
+}
+
+/** Text of a LlamaIndex MessageContent (string or content details) */
+function contentText(content: any): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((c: any) => c?.type === "text" && typeof c.text === "string")
+    .map((c: any) => c.text)
+    .join("");
+}
+
+/** Text of a query bundle / query string */
+function queryText(query: any): string | null {
+  if (query == null) return null;
+  if (typeof query === "string") return query;
+  const text = contentText(query.query ?? query.queryStr ?? query);
+  return text || null;
+}
+
+/** Text of a query / synthesize / agent response */
+function responseText(response: any): string | null {
+  if (response == null) return null;
+  if (typeof response === "string") return response;
+  if (typeof response.response === "string") return response.response;
+  const text = contentText(response.message?.content);
+  return text || null;
+}
+
+/** Node text, for retrieval_context */
+function nodeText(node: any): string {
+  try {
+    if (typeof node?.getContent === "function") {
+      return String(node.getContent());
+    }
+  } catch {
+    // Fall back to raw text
+  }
+  return typeof node?.text === "string" ? node.text : "";
+}
+
+// Callback manager events are CustomEvents ({ detail }); older releases
+// wrapped the payload in detail.payload
+function eventDetail(event: any): any {
+  return event?.detail?.payload ?? event?.detail ?? event ?? {};
+}
+
+class LlamaIndexTracer {
+  private llmRuns: Map<string, LLMRun> = new Map();
+  private toolStarts: Map<string, number> = new Map();
+  // retrieve-start times for retrievals outside any open span
+  private orphanRetrievals: Frame["retrievals"] = [];
+
+  constructor(
+    private settings: LlamaIndexSettings,
+    private opts: ObserveOptions,
+  ) {}
+
+  handle(name: (typeof EVENT_NAMES)[number], event: any): void {
+    // Defensive: Ensure Observa never crashes the app
+    try {
+      const detail = eventDetail(event);
+      switch (name) {
+        case "query-start":
+          return this.openFrame("query", detail.id, queryText(detail.query));
+        case "synthesize-start":
+          return this.openFrame(
+            "synthesize",
+            detail.id,
+            queryText(detail.query),
+          );
+        case "agent-start":
+          return this.openFrame("agent", detail.id, null);
+        case "query-end":
+          return this.closeFrame("query", detail.id, detail.response);
+        case "synthesize-end":
+          return this.closeFrame("synthesize", detail.id, detail.response);
+        case "agent-end":
+          return this.closeFrame("agent", detail.id, detail.response);
+        case "llm-start":
+          return this.startLLM(detail);
+        case "llm-stream":
+          return this.streamLLM(detail);
+        case "llm-end":
+          return this.endLLM(detail);
+        case "llm-tool-call":
+          return this.startTool(detail);
+        case "llm-tool-result":
+          return this.endTool(detail);
+        case "retrieve-start":
+          return this.startRetrieve(detail);
+        case "retrieve-end":
+          return this.endRetrieve(detail);
+      }
+    } catch (error) {
+      console.error(`[Observa] Error handling LlamaIndex ${name}:`, error);
+    }
+  }
+
+  /** Innermost open span (parent for events without their own id) */
+  private currentFrame(): Frame | null {
+    return this.frameIn(getTraceContext());
+  }
+
+  /** Innermost open span of this tracer in `context` */
+  private frameIn(context: TraceContext | undefined): Frame | null {
+    for (let frame = this.ownFrame(context); frame; ) {
+      if (!frame.closed) return frame;
+      frame = this.ownFrame(frame.outer);
+    }
+    return null;
+  }
+
+  /** Frame of `context` (or of the contexts it was entered from) */
+  private ownFrame(context: TraceContext | undefined): Frame | null {
+    while (context?.frame) {
+      const frame = context.frame as Frame;
+      if (frame.owner === this) return frame;
+      context = frame.outer;
+    }
+    return null;
+  }
+
+  /** traceId / parentSpanId for an event nested under `frame` */
+  private linkage(frame: Frame | null): {
+    traceId?: string;
+    parentSpanId?: string;
+  } {
+    return frame ? { traceId: frame.traceId, parentSpanId: frame.spanId } : {};
+  }
+
+  private openFrame(
+    kind: Frame["kind"],
+    id: any,
+    input: string | null,
+  ): void {
+    // Start events are dispatched synchronously, so queries started in one
+    // tick (Promise.all) see each other's frames in the caller's context.
+    // A frame that has not settled yet is a sibling, not a parent.
+    let outer = getTraceContext();
+    for (let frame = this.ownFrame(outer); frame && !frame.settled; ) {
+      outer = frame.outer;
+      frame = this.ownFrame(outer);
+    }
+    const parent = this.frameIn(outer);
+    const spanId = crypto.randomUUID();
+    const frame: Frame = {
+      owner: this,
+      closed: false,
+      outer,
+      id: typeof id === "string" ? id : null,
+      kind,
+      spanId,
+      // Top-level queries nest under the caller's current span, if any
+      parentSpanId: parent?.spanId ?? outer?.spanId ?? null,
+      traceId:
+        parent?.traceId ??
+        this.opts.observa?.getCurrentTraceId?.() ??
+        (typeof id === "string" ? id : spanId),
+      startTime: Date.now(),
+      input: input && this.opts.redact ? this.opts.redact(input) : input,
+      retrievals: [],
+      settled: false,
+    };
+    void Promise.resolve().then(() => {
+      frame.settled = true;
+    });
+    // The rest of the query runs in this context, so its events (including
+    // ones from other wrapped clients) nest under the frame
+    enterTraceContext({
+      traceId: frame.traceId,
+      spanId,
+      parentSpanId: frame.parentSpanId,
+      ...(outer?.trace ? { trace: outer.trace } : {}),
+      frame,
+    });
+  }
+
+  private closeFrame(kind: Frame["kind"], id: any, response: any): void {
+    // Match by id, else the innermost open span of this kind
+    let frame = this.currentFrame();
+    while (
+      frame &&
+      (frame.kind !== kind ||
+        (typeof id === "string" && frame.id !== null && frame.id !== id))
+    ) {
+      frame = this.frameIn(frame.outer);
+    }
+    if (!frame) return;
+    // Contexts still carrying the frame now resolve to frame.outer
+    frame.closed = true;
+    if (!this.opts.observa) return;
+
+    const output = responseText(response);
+    this.opts.observa.trackSpan({
+      name: `llamaindex.${kind}`,
+      kind: kind === "agent" ? "agent" : kind === "query" ? "chain" : "task",
+      startTime: frame.startTime,
+      attributes: {
+        ...(frame.input !== null ? { input: frame.input } : {}),
+        ...(this.opts.name ? { name: this.opts.name } : {}),
+        ...(this.opts.tags ? { tags: this.opts.tags } : {}),
+      },
+      ...(output !== null
+        ? { output: this.opts.redact ? this.opts.redact(output) : output }
+        : {}),
+      spanId: frame.spanId,
+      parentSpanId: frame.parentSpanId,
+      traceId: frame.traceId,
+    });
+  }
+
+  private startLLM(detail: any): void {
+    if (typeof detail.id !== "string") return;
+    this.llmRuns.set(detail.id, {
+      frame: this.currentFrame(),
+      startTime: Date.now(),
+      messages: Array.isArray(detail.messages) ? detail.messages : [],
+      firstTokenTime: null,
+    });
+  }
+
+  private streamLLM(detail: any): void {
+    const run = this.llmRuns.get(detail.id);
+    if (run && run.firstTokenTime === null) run.firstTokenTime = Date.now();
+  }
+
+  /** Model, provider and sampling settings of Settings.llm */
+  private llmInfo(): {
+    model: string | null;
+    provider: string;
+    metadata: any;
+  } {
+    try {
+      const llm = this.settings?.llm;
+      const metadata = llm?.metadata ?? {};
+      return {
+        model: typeof metadata.model === "string" ? metadata.model : null,
+        provider:
+          PROVIDER_BY_CLASS[llm?.constructor?.name ?? ""] ?? DEFAULT_PROVIDER,
+        metadata,
+      };
+    } catch {
+      // Settings.llm throws when no LLM is configured
+      return { model: null, provider: DEFAULT_PROVIDER, metadata: {} };
+    }
+  }
+
+  private endLLM(detail: any): void {
+    const run = this.llmRuns.get(detail.id);
+    if (!run) return;
+    this.llmRuns.delete(detail.id);
+    const observa = this.opts.observa;
+    if (!observa) return;
+
+    const end = Date.now();
+    const { model, provider, metadata } = this.llmInfo();
+    const request = {
+      model,
+      messages: run.messages.map((m: any) => ({
+        role: m?.role ?? "user",
+        content: contentText(m?.content),
+      })),
+    };
+    const response = detail.response ?? {};
+    const message = response.message ?? {};
+    const sanitizedReq = this.opts.redact ? this.opts.redact(request) : request;
+    const sanitizedRaw =
+      this.opts.redact && response.raw
+        ? this.opts.redact(response.raw)
+        : (response.raw ?? null);
+
+    // raw is the provider response (usage, finish reason, response id)
+    const normalized = buildNormalizedLLMCall({
+      request: sanitizedReq,
+      response: sanitizedRaw,
+      provider,
+    });
+    const otelMetadata = buildOtelMetadata(normalized);
+
+    const rawOutput = contentText(message.content) || null;
+    const outputText =
+      rawOutput && this.opts.redact ? this.opts.redact(rawOutput) : rawOutput;
+    const inputText =
+      sanitizedReq.messages
+        .filter((m: any) => m.role !== "system")
+        .map((m: any) => m.content)
+        .filter(Boolean)
+        .join("\n") || null;
+    const systemText = sanitizedReq.messages
+      .filter((m: any) => m.role === "system")
+      .map((m: any) => m.content)
+      .join("\n");
+    const toolCalls: any[] = message.options?.toolCall ?? [];
+
+    const { usage, usageSource } = withEstimatedUsage(normalized.usage, {
+      inputText,
+      outputText,
+      model,
+      countTokens: (text: string, model: string | null) =>
+        observa.countTokens(text, model),
+    });
+
+    const llmCall = {
+      model: model || normalized.responseModel || "unknown",
+      input: inputText,
+      inputMessages: normalized.inputMessages,
+      outputMessages: normalized.outputMessages ?? [
+        {
+          role: message.role ?? "assistant",
+          content: outputText,
+          finish_reason: normalized.finishReason,
+        },
+      ],
+      systemInstructions: systemText
+        ? [{ type: "text", content: systemText }]
+        : null,
+      inputTokens: usage.inputTokens ?? null,
+      outputTokens: usage.outputTokens ?? null,
+      totalTokens: usage.totalTokens ?? null,
+      usageSource,
+      latencyMs: end - run.startTime,
+      timeToFirstTokenMs:
+        run.firstTokenTime !== null ? run.firstTokenTime - run.startTime : null,
+      streamingDurationMs:
+        run.firstTokenTime !== null ? end - run.firstTokenTime : null,
+      finishReason: normalized.finishReason,
+      responseId: sanitizedRaw?.id ?? null,
+      operationName: "chat",
+      providerName: provider,
+      responseModel: normalized.responseModel,
+      temperature: metadata.temperature ?? null,
+      maxTokens: metadata.maxTokens ?? null,
+      topP: metadata.topP ?? null,
+      metadata: otelMetadata,
+      ...this.linkage(run.frame),
+    };
+
+    // A tool call alone is a valid answer
+    if ((!outputText || outputText.trim().length === 0) && !toolCalls.length) {
+      observa.trackLLMCall({ ...llmCall, output: null });
+      observa.trackError({
+        errorType: "empty_response",
+        errorMessage: "AI returned empty response",
+        stackTrace: null,
+        context: {
+          model,
+          input: inputText,
+          provider,
+          duration_ms: end - run.startTime,
+        },
+        errorCategory: "model_error",
+        errorCode: "empty_response",
+      });
+      return;
+    }
+
+    observa.trackLLMCall({ ...llmCall, output: outputText });
+  }
+
+  private startTool(detail: any): void {
+    const id = detail.toolCall?.id;
+    if (typeof id === "string") this.toolStarts.set(id, Date.now());
+  }
+
+  private endTool(detail: any): void {
+    const observa = this.opts.observa;
+    const toolCall = detail.toolCall ?? {};
+    const toolResult = detail.toolResult ?? {};
+    const id = toolCall.id ?? toolResult.id ?? null;
+    const start = id !== null ? this.toolStarts.get(id) : undefined;
+    if (id !== null) this.toolStarts.delete(id);
+    if (!observa) return;
+
+    const input = toolResult.input ?? toolCall.input ?? null;
+    const args = typeof input === "string" ? { input } : input;
+    const result = toolResult.output ?? null;
+    observa.trackToolCall({
+      toolName: toolCall.name ?? toolResult.tool?.metadata?.name ?? "tool",
+      args: args && this.opts.redact ? this.opts.redact(args) : args,
+      result:
+        result !== null && this.opts.redact ? this.opts.redact(result) : result,
+      resultStatus: toolResult.isError ? "error" : "success",
+      latencyMs: start !== undefined ? Date.now() - start : 0,
+      ...(toolResult.isError
+        ? {
+            errorMessage: String(result ?? "Tool call failed"),
+            errorCategory: "tool_error",
+          }
+        : {}),
+      operationName: "execute_tool",
+      toolType: "function",
+      toolDescription: toolResult.tool?.metadata?.description ?? null,
+      toolCallId: id,
+      ...this.linkage(this.currentFrame()),
+    });
+  }
+
+  private startRetrieve(detail: any): void {
+    const frame = this.currentFrame();
+    const query = queryText(detail.query) ?? "";
+    const retrievals = frame ? frame.retrievals : this.orphanRetrievals;
+    retrievals.push({ query, startTime: Date.now() });
+  }
+
+  private endRetrieve(detail: any): void {
+    const frame = this.currentFrame();
+    const query = queryText(detail.query) ?? "";
+    const retrievals = frame ? frame.retrievals : this.orphanRetrievals;
+    const index = retrievals.findIndex((r) => r.query === query);
+    const [started] =
+      index === -1 ? [undefined] : retrievals.splice(index, 1);
+    const observa = this.opts.observa;
+    if (!observa) return;
+
+    const nodes: any[] = Array.isArray(detail.nodes) ? detail.nodes : [];
+    const scores = nodes
+      .map((n: any) => n?.score)
+      .filter((score: any): score is number => typeof score === "number");
+    const context = nodes
+      .map((n: any) => nodeText(n?.node))
+      .filter(Boolean)
+      .join("\n\n");
+    let embeddingModel: string | null = null;
+    try {
+      embeddingModel = this.settings?.embedModel?.model ?? null;
+    } catch {
+      // Settings.embedModel throws when none is configured
+    }
+
+    observa.trackRetrieval({
+      contextIds: nodes
+        .map((n: any) => n?.node?.id_ ?? n?.node?.id)
+        .filter((id: any): id is string => typeof id === "string"),
+      k: nodes.length,
+      ...(scores.length > 0 ? { similarityScores: scores } : {}),
+      latencyMs: started ? Date.now() - started.startTime : 0,
+      retrievalContext:
+        context && this.opts.redact ? this.opts.redact(context) : context,
+      embeddingModel,
+      ...this.linkage(frame),
+    });
+  }
+
+  /** Record an embedding call made through Settings.embedModel */
+  recordEmbedding(
+    embedModel: any,
+    texts: string[],
+    result: any,
+    start: number,
+  ): void {
+    const observa = this.opts.observa;
+    if (!observa?.trackEmbedding) return;
+    const embeddings: number[][] = Array.isArray(result?.[0])
+      ? result
+      : Array.isArray(result)
+        ? [result]
+        : [];
+    const inputText = texts.join("\n");
+    observa.trackEmbedding({
+      model: embedModel?.model ?? "unknown",
+      dimensionCount: embeddings[0]?.length ?? null,
+      latencyMs: Date.now() - start,
+      providerName:
+        PROVIDER_BY_CLASS[
+          embedModel?.constructor?.name?.replace(/Embedding$/, "") ?? ""
+        ] ?? DEFAULT_PROVIDER,
+      inputText: this.opts.redact ? this.opts.redact(inputText) : inputText,
+      embeddings: embeddings.length > 0 ? embeddings : null,
+      ...this.linkage(this.currentFrame()),
+    });
+  }
+
+  recordEmbeddingError(error: any): void {
+    const observa = this.opts.observa;
+    if (!observa?.trackError) return;
+    const extractedError = extractProviderError(error, DEFAULT_PROVIDER);
+    observa.trackError({
+      errorType: error?.name ?? "Error",
+      errorMessage: extractedError.message,
+      stackTrace: error?.stack ?? null,
+      errorCategory: "embedding_error",
+      errorCode: extractedError.code,
+    });
+  }
+}
+
+/**
+ * Proxy an embedding model so getTextEmbeddings (documents) and
+ * getQueryEmbedding (queries) calls are recorded. Other methods route
+ * through these two, so each call is recorded once.
+ */
+function wrapEmbedModel(embedModel: any, tracer: LlamaIndexTracer): any {
+  return new Proxy(embedModel, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (
+        typeof value !== "function" ||
+        (prop !== "getTextEmbeddings" && prop !== "getQueryEmbedding")
+      ) {
+        return value;
+      }
+      return async (...args: any[]) => {
+        const start = Date.now();
+        const input = args[0];
+        const texts: string[] = Array.isArray(input)
+          ? input.map((text: any) => String(text))
+          : [queryText(input) ?? ""];
+        try {
+          const result = await value.apply(target, args);
+          tracer.recordEmbedding(target, texts, result, start);
+          return result;
+        } catch (error) {
+          tracer.recordEmbeddingError(error);
+          throw error;
+        }
+      };
+    },
+  });
+}
+
+/**
+ * Observe LlamaIndex.TS through its global Settings object
+ */
+export function observeLlamaIndex(
+  settings: LlamaIndexSettings,
+  options: ObserveOptions = {},
+): ObservedLlamaIndex {
+  if (!options.observa) {
+    console.error(
+      "[Observa] ⚠️ CRITICAL: observa instance not provided to observeLlamaIndex(). " +
+        "Tracking is disabled. Call observa.observeLlamaIndex() on an instance " +
+        "created with init() from 'observa-sdk'.",
+    );
+  }
+
+  const callbackManager = settings?.callbackManager;
+  if (!callbackManager?.on) {
+    console.warn(
+      "[Observa] observeLlamaIndex(): Settings.callbackManager not found - " +
+        "pass the Settings object exported by 'llamaindex'.",
+    );
+    return { detach: () => {} };
+  }
+
+  const tracer = new LlamaIndexTracer(settings, options);
+  const listeners = EVENT_NAMES.map((name) => {
+    const listener = (event: any) => tracer.handle(name, event);
+    callbackManager.on(name, listener);
+    return { name, listener };
+  });
+
+  let originalEmbedModel: any = null;
+  try {
+    originalEmbedModel = settings.embedModel ?? null;
+  } catch {
+    // Settings.embedModel throws when none is configured
+  }
+  if (originalEmbedModel) {
+    settings.embedModel = wrapEmbedModel(originalEmbedModel, tracer);
+  }
+
+  return {
+    detach: () => {
+      for (const { name, listener } of listeners) {
+        callbackManager.off?.(name, listener);
+      }
+      if (originalEmbedModel) settings.embedModel = originalEmbedModel;
+    },
+  };
+}
@@ -0,0 +1,518 @@
+/**
+ * Mistral SDK Wrapper (@mistralai/mistralai)
+ *
+ * Implements observeMistral() following same pattern as OpenAI wrapper.
+ * Uses Proxy with WeakMap memoization to preserve object identity.
+ * Handles streaming with proper teeing (preserves TTFT).
+ * Includes PII redaction hooks.
+ *
+ * Traced: chat.complete, chat.stream and embeddings.create. Tool calls
+ * requested by the model are recorded as tool_call events under the
+ * llm_call span.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { wrapStream } from "./utils";
+import {
+  buildNormalizedLLMCall,
+  buildOtelMetadata,
+  withEstimatedUsage,
+} from "./normalize";
+import { extractProviderError } from "./error-utils";
+
+// Type for Mistral client (avoid direct import to handle optional dependency)
+type Mistral = any;
+
+const PROVIDER_NAME = "mistral_ai";
+
+// WeakMap Cache for Memoization (CRITICAL for object identity)
+const proxyCache = new WeakMap<object, any>();
+
+// "model_length": the context window was exhausted
+const TRUNCATED_FINISH_REASONS = new Set(["length", "model_length"]);
+
+export interface ObserveOptions {
+  name?: string;
+  tags?: string[];
+  userId?: string;
+  sessionId?: string;
+  // Callback to scrub PII before sending to Observa
+  redact?: (data: any) => any;
+  // Observa instance for sending events
+  observa?: any; // Observa class instance
+}
+
+/** Text of a message content (string or content chunks) */
+function contentText(content: any): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((c: any) => c?.type === "text" && typeof c.text === "string")
+    .map((c: any) => c.text)
+    .join("");
+}
+
+function messagesText(messages: any[] | undefined): string | null {
+  return (
+    (messages ?? [])
+      .filter((m: any) => m?.role !== "system")
+      .map((m: any) => contentText(m?.content))
+      .filter(Boolean)
+      .join("\n") || null
+  );
+}
+
+function systemText(messages: any[] | undefined): string | null {
+  return (
+    (messages ?? [])
+      .filter((m: any) => m?.role === "system")
+      .map((m: any) => contentText(m?.content))
+      .filter(Boolean)
+      .join("\n") || null
+  );
+}
+
+function parseArguments(args: any): any {
+  if (typeof args !== "string") return args ?? {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return args;
+  }
+}
+
+/**
+ * Observe Mistral client - wraps client with automatic tracing
+ *
+ * @param client - Mistral client instance
+ * @param options - Observation options (name, tags, userId, sessionId, redact)
+ * @returns Wrapped Mistral client (same instance reference preserved via WeakMap)
+ *
+ * @example
+ * ```typescript
+ * import { Mistral } from '@mistralai/mistralai';
+ *
+ * const mistral = observa.observeMistral(new Mistral({ apiKey: '...' }));
+ *
+ * // Automatically tracked!
+ * await mistral.chat.complete({
+ *   model: 'mistral-small-latest',
+ *   messages: [{ role: 'user', content: 'Hi' }],
+ * });
+ * ```
+ */
+function observeMistralInternal(
+  client: Mistral,
+  options?: ObserveOptions,
+  path: string[] = [],
+): Mistral {
+  // At root only: return cached proxy if exists to maintain identity (client === client)
+  if (path.length === 0 && proxyCache.has(client)) {
+    return proxyCache.get(client);
+  }
+
+  // CRITICAL: Warn if observa instance is not provided (root only)
+  if (path.length === 0 && !options?.observa) {
+    console.error(
+      "[Observa] ⚠️ CRITICAL ERROR: observa instance not provided!\n" +
+        "\n" +
+        "Tracking will NOT work. Call observa.observeMistral() on an instance\n" +
+        "created with init() from 'observa-sdk':\n" +
+        "\n" +
+        "  import { init } from 'observa-sdk';\n" +
+        "  const observa = init({ apiKey: '...' });\n" +
+        "  const wrapped = observa.observeMistral(mistral);\n",
+    );
+  }
+
+  try {
+    const wrapped = new Proxy(client, {
+      get(target, prop, receiver) {
+        const value = Reflect.get(target, prop, receiver);
+        const nextPath = [
+          ...path,
+          typeof prop === "string" ? prop : String(prop),
+        ];
+
+        // Recursive wrapping for nested objects (like client.chat)
+        if (typeof value === "object" && value !== null) {
+          if (prop === "prototype" || prop === "constructor") {
+            return value;
+          }
+          return observeMistralInternal(value as any, options, nextPath);
+        }
+
+        if (typeof value !== "function") {
+          return value;
+        }
+
+        const pathKey = nextPath.join(".");
+        if (pathKey === "chat.complete" || pathKey === "chat.stream") {
+          return async function (...args: any[]) {
+            return traceChatCall(
+              value.bind(target),
+              args,
+              pathKey === "chat.stream",
+              options,
+            );
+          };
+        }
+        if (pathKey === "embeddings.create") {
+          return async function (...args: any[]) {
+            return traceEmbeddingsCall(value.bind(target), args, options);
+          };
+        }
+
+        return value;
+      },
+    });
+
+    if (path.length === 0) {
+      proxyCache.set(client, wrapped);
+    }
+    return wrapped;
+  } catch (error) {
+    console.error("[Observa] Failed to wrap Mistral client:", error);
+    return client;
+  }
+}
+
+export function observeMistral(
+  client: Mistral,
+  options?: ObserveOptions,
+): Mistral {
+  return observeMistralInternal(client, options, []);
+}
+
+/**
+ * Trace chat.complete() / chat.stream()
+ */
+async function traceChatCall(
+  originalFn: Function,
+  args: any[],
+  isStreaming: boolean,
+  options?: ObserveOptions,
+) {
+  const startTime = Date.now();
+  const request = args[0] || {};
+
+  try {
+    // 1. Execute Original Call
+    const result = await originalFn(...args);
+
+    // 2. Handle Streaming vs Blocking
+    if (isStreaming) {
+      // Wrap stream to capture data without blocking TTFT
+      return wrapStream(
+        result,
+        (fullResponse: any) => {
+          recordTrace(
+            request,
+            fullResponse,
+            startTime,
+            options,
+            fullResponse.timeToFirstToken,
+            fullResponse.streamingDuration,
+          );
+        },
+        (err: any) => recordError(request, err, startTime, options),
+        "mistral",
+      );
+    }
+    recordTrace(request, result, startTime, options);
+    return result;
+  } catch (error) {
+    recordError(request, error, startTime, options);
+    throw error; // Always re-throw user errors
+  }
+}
+
+/**
+ * Record trace to Observa backend
+ */
+function recordTrace(
+  req: any,
+  res: any,
+  start: number,
+  opts?: ObserveOptions,
+  timeToFirstToken?: number | null,
+  streamingDuration?: number | null,
+) {
+  const duration = Date.now() - start;
+
+  // Defensive: Ensure Observa never crashes the app
+  try {
+    // CRITICAL: Validate that observa instance is provided
+    if (!opts?.observa) {
+      console.error(
+        "[Observa] ⚠️ CRITICAL: observa instance not provided to observeMistral(). " +
+          "Tracking is disabled. Make sure you're using observa.observeMistral() " +
+          "instead of importing observeMistral directly from 'observa-sdk/instrumentation'.",
+      );
+      return; // Silently fail (don't crash user's app)
+    }
+
+    // Sanitize data with redact hook if provided
+    const sanitizedReq = opts.redact ? opts.redact(req) : req;
+    const sanitizedRes = opts.redact ? opts.redact(res) : res;
+
+    const normalized = buildNormalizedLLMCall({
+      request: sanitizedReq,
+      response: sanitizedRes,
+      provider: PROVIDER_NAME,
+    });
+    const toolDefinitions = normalized.toolDefinitions;
+    const otelMetadata = buildOtelMetadata(normalized);
+
+    const message = sanitizedRes?.choices?.[0]?.message;
+    const finishReason = normalized.finishReason;
+    const model = sanitizedReq.model || sanitizedRes?.model || "unknown";
+    const inputText = messagesText(sanitizedReq.messages);
+    const outputText = contentText(message?.content) || null;
+    const toolCalls: any[] = message?.toolCalls ?? [];
+    const systemInstruction = systemText(sanitizedReq.messages);
+
+    // Count tokens locally when the provider omitted usage
+    const { usage, usageSource } = withEstimatedUsage(normalized.usage, {
+      inputText,
+      outputText,
+      model,
+      countTokens: (text: string, model: string | null) =>
+        opts.observa.countTokens(text, model),
+    });
+
+    const llmCall = {
+      model,
+      input: inputText,
+      inputMessages: normalized.inputMessages,
+      outputMessages: normalized.outputMessages,
+      systemInstructions: systemInstruction
+        ? [{ type: "text", content: systemInstruction }]
+        : null,
+      inputTokens: usage.inputTokens ?? null,
+      outputTokens: usage.outputTokens ?? null,
+      totalTokens: usage.totalTokens ?? null,
+      usageSource,
+      latencyMs: duration,
+      timeToFirstTokenMs: timeToFirstToken || null,
+      streamingDurationMs: streamingDuration || null,
+      finishReason,
+      responseId: sanitizedRes?.id || null,
+      operationName: "chat",
+      providerName: PROVIDER_NAME,
+      responseModel: sanitizedRes?.model || sanitizedReq.model || null,
+      temperature: sanitizedReq.temperature ?? null,
+      maxTokens: sanitizedReq.maxTokens ?? null,
+      topP: sanitizedReq.topP ?? null,
+      stopSequences:
+        typeof sanitizedReq.stop === "string"
+          ? [sanitizedReq.stop]
+          : (sanitizedReq.stop ?? null),
+      seed: sanitizedReq.randomSeed ?? null,
+      presencePenalty: sanitizedReq.presencePenalty ?? null,
+      frequencyPenalty: sanitizedReq.frequencyPenalty ?? null,
+      choiceCount: sanitizedReq.n ?? null,
+      toolDefinitions,
+      metadata: otelMetadata,
+    };
+
+    // Detect empty responses (a tool call alone is a valid answer)
+    const isEmptyResponse =
+      (!outputText || outputText.trim().length === 0) &&
+      toolCalls.length === 0;
+    const isTruncated = TRUNCATED_FINISH_REASONS.has(finishReason ?? "");
+    const isFailureFinishReason = isTruncated || finishReason === "error";
+
+    // If response is empty or has failure finish reason, record as error
+    if (isEmptyResponse || isFailureFinishReason) {
+      // Record LLM call with null output to show the attempt
+      opts.observa.trackLLMCall({ ...llmCall, output: null });
+
+      opts.observa.trackError({
+        errorType: isTruncated
+          ? "response_truncated"
+          : finishReason === "error"
+            ? "generation_error"
+            : "empty_response",
+        errorMessage: isTruncated
+          ? "AI response was truncated due to token limit"
+          : finishReason === "error"
+            ? "Model stopped generating due to an error"
+            : "AI returned empty response",
+        stackTrace: null,
+        context: {
+          request: sanitizedReq,
+          response: sanitizedRes,
+          model,
+          input: inputText,
+          finish_reason: finishReason,
+          provider: PROVIDER_NAME,
+          duration_ms: duration,
+        },
+        errorCategory: "model_error",
+        errorCode:
+          isEmptyResponse && !finishReason ? "empty_response" : finishReason,
+      });
+
+      // Don't record as successful trace
+      return;
+    }
+
+    const llmSpanId = opts.observa.trackLLMCall({
+      ...llmCall,
+      output: outputText,
+    });
+
+    // Tool calls requested by the model. The application executes them,
+    // so there is no result or latency to record here.
+    for (const call of toolCalls) {
+      opts.observa.trackToolCall({
+        toolName: call?.function?.name || "unknown",
+        args: parseArguments(call?.function?.arguments),
+        resultStatus: "success",
+        latencyMs: 0,
+        parentSpanId: llmSpanId,
+        operationName: "execute_tool",
+        toolType: "function",
+        toolCallId: call?.id ?? null,
+      });
+    }
+  } catch (e) {
+    // Never crash user's app
+    console.error("[Observa] Failed to record trace", e);
+  }
+}
+
+/**
+ * Record error to Observa backend
+ * Creates both an LLM call span (so users can see what failed) and an error event
+ */
+function recordError(
+  req: any,
+  error: any,
+  start: number,
+  opts?: ObserveOptions,
+) {
+  const duration = Date.now() - start;
+
+  try {
+    console.error("[Observa] ⚠️ Error Captured:", error?.message || error);
+
+    // CRITICAL: Validate that observa instance is provided
+    if (!opts?.observa) {
+      console.error(
+        "[Observa] ⚠️ CRITICAL: observa instance not provided to observeMistral(). " +
+          "Error tracking is disabled. Make sure you're using observa.observeMistral() " +
+          "instead of importing observeMistral directly from 'observa-sdk/instrumentation'.",
+      );
+      return; // Silently fail (don't crash user's app)
+    }
+
+    // Sanitize request with redact hook
+    const sanitizedReq = opts.redact ? opts.redact(req) : req;
+    const normalized = buildNormalizedLLMCall({
+      request: sanitizedReq,
+      provider: PROVIDER_NAME,
+    });
+    const model = sanitizedReq.model || "unknown";
+    const inputText = messagesText(sanitizedReq.messages);
+
+    // Extract error information using error utilities
+    const extractedError = extractProviderError(error, PROVIDER_NAME);
+
+    // Create LLM call span with error information so users can see what failed
+    opts.observa.trackLLMCall({
+      model,
+      input: inputText,
+      output: null, // No output on error
+      inputMessages: normalized.inputMessages,
+      outputMessages: null,
+      inputTokens: null,
+      outputTokens: null,
+      totalTokens: null,
+      latencyMs: duration,
+      timeToFirstTokenMs: null,
+      streamingDurationMs: null,
+      finishReason: null,
+      responseId: null,
+      operationName: "chat",
+      providerName: PROVIDER_NAME,
+      responseModel: model,
+      temperature: sanitizedReq.temperature ?? null,
+      maxTokens: sanitizedReq.maxTokens ?? null,
+      toolDefinitions: normalized.toolDefinitions,
+      metadata: buildOtelMetadata(normalized),
+    });
+
+    // Also create error event with full context and extracted error codes/categories
+    opts.observa.trackError({
+      errorType: error?.name || extractedError.code || "mistral_api_error",
+      errorMessage: extractedError.message,
+      stackTrace: error?.stack || null,
+      context: {
+        request: sanitizedReq,
+        model,
+        input: inputText,
+        provider: PROVIDER_NAME,
+        duration_ms: duration,
+        status_code: extractedError.statusCode || null,
+      },
+      errorCategory: extractedError.category,
+      errorCode: extractedError.code,
+    });
+  } catch (e) {
+    // Ignore tracking errors
+    console.error("[Observa] Failed to record error", e);
+  }
+}
+
+/** Trace embeddings.create() */
+async function traceEmbeddingsCall(
+  originalFn: Function,
+  args: any[],
+  options?: ObserveOptions,
+) {
+  const startTime = Date.now();
+  const req = args[0] || {};
+  const model = req.model || "unknown";
+  try {
+    const result = await originalFn(...args);
+    const duration = Date.now() - startTime;
+    if (options?.observa?.trackEmbedding) {
+      const sanitizedReq = options.redact ? options.redact(req) : req;
+      const inputs = sanitizedReq.inputs ?? sanitizedReq.input;
+      const embeddings = (result?.data ?? [])
+        .map((d: any) => d?.embedding)
+        .filter(Array.isArray);
+      options.observa.trackEmbedding({
+        model,
+        dimensionCount: embeddings[0]?.length ?? null,
+        encodingFormats: sanitizedReq.outputDtype
+          ? [sanitizedReq.outputDtype]
+          : null,
+        latencyMs: duration,
+        providerName: PROVIDER_NAME,
+        inputText: Array.isArray(inputs)
+          ? inputs.join("\n")
+          : typeof inputs === "string"
+            ? inputs
+            : null,
+        inputTokens: result?.usage?.promptTokens ?? null,
+        embeddings: embeddings.length > 0 ? embeddings : null,
+      });
+    }
+    return result;
+  } catch (error) {
+    if (options?.observa?.trackError) {
+      const extractedError = extractProviderError(error, PROVIDER_NAME);
+      options.observa.trackError({
+        errorType: (error as Error)?.name ?? "Error",
+        errorMessage: extractedError.message,
+        stackTrace: (error as Error)?.stack ?? null,
+        errorCategory: "embedding_error",
+        errorCode: extractedError.code,
+      });
+    }
+    throw error;
+  }
+}
@@ -12,6 +12,13 @@ export type NormalizedUsage = {
   inputTokens: number | null;
   outputTokens: number | null;
   totalTokens: number | null;
+  // Subsets of inputTokens / outputTokens (prompt cache hits, reasoning)
+  cachedInputTokens?: number | null;
+  reasoningTokens?: number | null;
+  // Prompt cache reads / writes reported next to inputTokens (Anthropic,
+  // Bedrock); not included in inputTokens
+  cacheReadInputTokens?: number | null;
+  cacheWriteInputTokens?: number | null;
   cost?: number | null;
   inputCost?: number | null;
   outputCost?: number | null;
@@ -70,6 +77,7 @@ export function normalizeToolDefinitions(
           tool.schema ||
           tool.inputSchema ||
           tool.function?.parameters ||
+          tool.parameterDefinitions || // Cohere v1
           {},
       };
     }
@@ -118,9 +126,32 @@ export function extractInputMessages(request: any): any[] | null {
     const normalized = normalizePromptAsMessages(request.prompt);
     return normalized.length > 0 ? normalized : null;
   }
+  // Cohere v1 chat: preamble + chatHistory + message
+  if (typeof request.message === "string") {
+    const history = (request.chatHistory ?? request.chat_history ?? []).map(
+      (turn: any) => ({
+        role: cohereRole(turn?.role),
+        content: turn?.message ?? null,
+        ...(turn?.toolCalls ? { tool_calls: turn.toolCalls } : {}),
+        ...(turn?.toolResults ? { tool_results: turn.toolResults } : {}),
+      }),
+    );
+    return [
+      ...(request.preamble
+        ? [{ role: "system", content: request.preamble }]
+        : []),
+      ...history,
+      { role: "user", content: request.message },
+    ];
+  }
   return null;
 }
 
+function cohereRole(role: any): string {
+  const value = String(role ?? "user").toLowerCase();
+  return value === "chatbot" ? "assistant" : value;
+}
+
 export function extractOutputMessages(response: any): any[] | null {
   if (!response) return null;
   if (response?.object === "response" && Array.isArray(response.output)) {
@@ -143,7 +174,10 @@ export function extractOutputMessages(response: any): any[] | null {
         return {
           ...message,
           finish_reason:
-            choice?.finish_reason ?? message?.finish_reason ?? null,
+            choice?.finish_reason ??
+            choice?.finishReason ??
+            message?.finish_reason ??
+            null,
         };
       })
       .filter(Boolean);
@@ -161,17 +195,74 @@ export function extractOutputMessages(response: any): any[] | null {
       },
     ];
   }
+  // Cohere v2 chat: { message: { role, content, toolCalls }, finishReason }
+  if (response.message && typeof response.message === "object") {
+    const content = response.message.content;
+    return [
+      {
+        role: response.message.role || "assistant",
+        content: Array.isArray(content)
+          ? content
+              .filter((c: any) => c?.type === "text")
+              .map((c: any) => c.text)
+              .join("")
+          : (content ?? null),
+        ...(response.message.toolCalls
+          ? { tool_calls: response.message.toolCalls }
+          : {}),
+        finish_reason: response.finishReason ?? null,
+      },
+    ];
+  }
+  // Cohere v1 chat: { text, toolCalls, finishReason }
+  if (typeof response.text === "string" && response.generationId) {
+    return [
+      {
+        role: "assistant",
+        content: response.text,
+        ...(response.toolCalls ? { tool_calls: response.toolCalls } : {}),
+        finish_reason: response.finishReason ?? null,
+      },
+    ];
+  }
   return null;
 }
 
 function normalizeUsageFromResponse(response: any): NormalizedUsage {
   const usage = response?.usage || {};
+  // Cohere reports billed (or processed) tokens under usage (v2) or meta (v1)
+  const cohereUsage =
+    usage.billedUnits ??
+    usage.tokens ??
+    response?.meta?.billedUnits ??
+    response?.meta?.tokens ??
+    null;
   const inputTokens =
-    usage.prompt_tokens ?? usage.input_tokens ?? usage.promptTokens ?? null;
+    usage.prompt_tokens ??
+    usage.input_tokens ??
+    usage.promptTokens ??
+    cohereUsage?.inputTokens ??
+    null;
+  const cachedInputTokens =
+    usage.prompt_tokens_details?.cached_tokens ??
+    usage.input_tokens_details?.cached_tokens ??
+    usage.cachedInputTokens ??
+    null;
+  // Anthropic reports cache reads/writes next to input_tokens, not within it
+  const cacheReadInputTokens =
+    usage.cache_read_input_tokens ?? usage.cacheReadInputTokens ?? null;
+  const cacheWriteInputTokens =
+    usage.cache_creation_input_tokens ?? usage.cacheWriteInputTokens ?? null;
+  const reasoningTokens =
+    usage.completion_tokens_details?.reasoning_tokens ??
+    usage.output_tokens_details?.reasoning_tokens ??
+    usage.reasoningTokens ??
+    null;
   const outputTokens =
     usage.completion_tokens ??
     usage.output_tokens ??
     usage.completionTokens ??
+    cohereUsage?.outputTokens ??
     null;
   const computedTotal = (inputTokens ?? 0) + (outputTokens ?? 0);
   const totalTokens =
@@ -183,13 +274,22 @@ function normalizeUsageFromResponse(response: any): NormalizedUsage {
     inputTokens: inputTokens ?? null,
     outputTokens: outputTokens ?? null,
     totalTokens: totalTokens ?? null,
+    cachedInputTokens,
+    reasoningTokens,
+    cacheReadInputTokens,
+    cacheWriteInputTokens,
   };
 }
 
 function extractFinishReason(
   response: any,
   outputMessages: any[] | null,
+  provider?: string | null,
 ): string | null {
+  // Cohere uses upper-case reasons ("COMPLETE", "MAX_TOKENS")
+  if (provider === "cohere" && typeof response?.finishReason === "string") {
+    return response.finishReason.toLowerCase();
+  }
   if (response?.object === "response") {
     if (response.status === "failed" && response.error) return "error";
     if (response.status === "incomplete" && response.incomplete_details?.reason)
@@ -199,6 +299,10 @@ function extractFinishReason(
   if (response?.choices?.[0]?.finish_reason) {
     return response.choices[0].finish_reason;
   }
+  // Mistral SDK responses are camelCase
+  if (response?.choices?.[0]?.finishReason) {
+    return response.choices[0].finishReason;
+  }
   if (response?.stop_reason) return response.stop_reason;
   if (response?.finishReason) return response.finishReason;
   if (outputMessages && outputMessages.length > 0) {
@@ -228,6 +332,22 @@ export function buildNormalizedLLMCall(options: {
       options.usage?.outputTokens ?? usageFromResponse.outputTokens ?? null,
     totalTokens:
       options.usage?.totalTokens ?? usageFromResponse.totalTokens ?? null,
+    cachedInputTokens:
+      options.usage?.cachedInputTokens ??
+      usageFromResponse.cachedInputTokens ??
+      null,
+    reasoningTokens:
+      options.usage?.reasoningTokens ??
+      usageFromResponse.reasoningTokens ??
+      null,
+    cacheReadInputTokens:
+      options.usage?.cacheReadInputTokens ??
+      usageFromResponse.cacheReadInputTokens ??
+      null,
+    cacheWriteInputTokens:
+      options.usage?.cacheWriteInputTokens ??
+      usageFromResponse.cacheWriteInputTokens ??
+      null,
     cost: options.cost ?? options.usage?.cost ?? null,
     inputCost: options.inputCost ?? options.usage?.inputCost ?? null,
     outputCost: options.outputCost ?? options.usage?.outputCost ?? null,
@@ -249,7 +369,11 @@ export function buildNormalizedLLMCall(options: {
     provider: options.provider ?? null,
     model: model ? String(model) : null,
     responseModel: responseModel ? String(responseModel) : null,
-    finishReason: extractFinishReason(options.response, outputMessages),
+    finishReason: extractFinishReason(
+      options.response,
+      outputMessages,
+      options.provider,
+    ),
     toolDefinitions,
     inputMessages,
     outputMessages,
@@ -257,6 +381,46 @@ export function buildNormalizedLLMCall(options: {
   };
 }
 
+/**
+ * Fill token counts the provider did not report (e.g. streams without
+ * stream_options.include_usage) by counting the request/response text.
+ */
+export function withEstimatedUsage(
+  usage: NormalizedUsage,
+  options: {
+    inputText: string | null | undefined;
+    outputText: string | null | undefined;
+    model: string | null | undefined;
+    countTokens: (text: string, model: string | null) => number;
+  },
+): {
+  usage: NormalizedUsage;
+  usageSource: "provider_reported" | "estimated" | null;
+} {
+  if (usage.inputTokens !== null || usage.outputTokens !== null) {
+    return { usage, usageSource: "provider_reported" };
+  }
+  const model = options.model ?? null;
+  const inputTokens = options.inputText
+    ? options.countTokens(options.inputText, model)
+    : null;
+  const outputTokens = options.outputText
+    ? options.countTokens(options.outputText, model)
+    : null;
+  if (inputTokens === null && outputTokens === null) {
+    return { usage, usageSource: null };
+  }
+  return {
+    usage: {
+      ...usage,
+      inputTokens,
+      outputTokens,
+      totalTokens: (inputTokens ?? 0) + (outputTokens ?? 0),
+    },
+    usageSource: "estimated",
+  };
+}
+
 export function buildOtelMetadata(
   normalized: NormalizedLLMCall,
 ): Record<string, any> {
@@ -10,9 +10,18 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { wrapStream } from "./utils";
 import { mapOpenAIToOTEL, OTEL_SEMCONV } from "./semconv";
-import { buildNormalizedLLMCall, buildOtelMetadata } from "./normalize";
+import {
+  buildNormalizedLLMCall,
+  buildOtelMetadata,
+  withEstimatedUsage,
+} from "./normalize";
 import { getTraceContext, waitUntil } from "../context";
 import { extractProviderError } from "./error-utils";
+import {
+  detectProvider,
+  type DetectedProvider,
+  type ProviderMatcher,
+} from "./providers";
 
 // Type for OpenAI client (avoid direct import to handle optional dependency)
 type OpenAI = any;
@@ -76,6 +85,50 @@ export interface ObserveOptions {
   redact?: (data: any) => any;
   // Observa instance for sending events
   observa?: any; // Observa class instance
+  // Extra matchers for OpenAI-compatible servers (checked before built-ins)
+  providerMatchers?: ProviderMatcher[];
+  // Skip detection and report this provider_name
+  providerName?: string;
+  // Set at the root from the client's baseURL / headers
+  provider?: DetectedProvider;
+}
+
+const DEFAULT_PROVIDER: DetectedProvider = {
+  name: "openai",
+  serverAddress: null,
+  serverPort: null,
+};
+
+function providerOf(opts?: ObserveOptions): DetectedProvider {
+  return opts?.provider ?? DEFAULT_PROVIDER;
+}
+
+/**
+ * Provider-specific response fields: Azure OpenAI content filter results
+ * and Groq request id / timings (x_groq, usage.*_time in seconds)
+ */
+function extractProviderMetadata(res: any): Record<string, any> {
+  const metadata: Record<string, any> = {};
+  if (Array.isArray(res?.prompt_filter_results)) {
+    metadata.azure_prompt_filter_results = res.prompt_filter_results;
+  }
+  const contentFilter = res?.choices?.[0]?.content_filter_results;
+  if (contentFilter && Object.keys(contentFilter).length > 0) {
+    metadata.azure_content_filter_results = contentFilter;
+  }
+  if (res?.x_groq?.id) {
+    metadata.groq_request_id = res.x_groq.id;
+  }
+  const usage = res?.usage ?? res?.x_groq?.usage;
+  if (typeof usage?.total_time === "number") {
+    metadata.groq_timing = {
+      queue_time: usage.queue_time ?? null,
+      prompt_time: usage.prompt_time ?? null,
+      completion_time: usage.completion_time ?? null,
+      total_time: usage.total_time,
+    };
+  }
+  return metadata;
 }
 
 /**
@@ -117,6 +170,17 @@ function observeOpenAIInternal(
     return proxyCache.get(client);
   }
 
+  // Detect the provider once at the root (baseURL lives on the client only)
+  if (path.length === 0 && !options?.provider) {
+    const detected = detectProvider(client, options?.providerMatchers);
+    options = {
+      ...options,
+      provider: options?.providerName
+        ? { ...detected, name: options.providerName }
+        : detected,
+    };
+  }
+
   // CRITICAL: Warn if observa instance is not provided (root only)
   if (path.length === 0 && !options?.observa) {
     console.error(
@@ -314,6 +378,7 @@ function recordTrace(
   preCallTools?: any,
 ) {
   const duration = Date.now() - start;
+  const provider = providerOf(opts);
 
   // Defensive: Ensure Observa never crashes the app
   try {
@@ -341,11 +406,14 @@ function recordTrace(
       const normalized = buildNormalizedLLMCall({
         request: sanitizedReq,
         response: sanitizedRes,
-        provider: "openai",
+        provider: provider.name,
         toolDefsOverride: sanitizedReq?.tools ?? preCallTools,
       });
       const toolDefinitions = normalized.toolDefinitions;
-      const otelMetadata = buildOtelMetadata(normalized);
+      const otelMetadata = {
+        ...buildOtelMetadata(normalized),
+        ...extractProviderMetadata(sanitizedRes),
+      };
       const isResponses = isResponsesAPIResponse(sanitizedRes);
 
       // Extract input/output/finish reason (shape-aware for Chat vs Responses API)
@@ -360,6 +428,15 @@ function recordTrace(
         ? extractResponsesOutputText(sanitizedRes)
         : sanitizedRes?.choices?.[0]?.message?.content || null;
 
+      // Count tokens locally when the provider omitted usage
+      const { usage, usageSource } = withEstimatedUsage(normalized.usage, {
+        inputText,
+        outputText,
+        model: sanitizedReq.model || sanitizedRes?.model,
+        countTokens: (text: string, model: string | null) =>
+          opts.observa.countTokens(text, model),
+      });
+
       const finishReason = isResponses
         ? sanitizedRes.status === "failed"
           ? sanitizedRes.error?.code || "error"
@@ -384,7 +461,6 @@ function recordTrace(
 
       // If response is empty or has failure finish reason, record as error
       if (isEmptyResponse || isFailureFinishReason) {
-        const usage = normalized.usage;
         // Record LLM call with null output to show the attempt
         opts.observa.trackLLMCall({
           model: sanitizedReq.model || sanitizedRes?.model || "unknown",
@@ -395,13 +471,18 @@ function recordTrace(
           inputTokens: usage.inputTokens ?? null,
           outputTokens: usage.outputTokens ?? null,
           totalTokens: usage.totalTokens ?? null,
+          cachedInputTokens: usage.cachedInputTokens ?? null,
+          reasoningTokens: usage.reasoningTokens ?? null,
+          usageSource,
           latencyMs: duration,
           timeToFirstTokenMs: timeToFirstToken || null,
           streamingDurationMs: streamingDuration || null,
           finishReason: finishReason,
           responseId: sanitizedRes?.id || null,
           operationName: "chat",
-          providerName: "openai",
+          providerName: provider.name,
+          serverAddress: provider.serverAddress,
+          serverPort: provider.serverPort,
           responseModel: sanitizedRes?.model || sanitizedReq.model || null,
           temperature: sanitizedReq.temperature || null,
           maxTokens: sanitizedReq.max_tokens || null,
@@ -436,7 +517,7 @@ function recordTrace(
             model: sanitizedReq.model || sanitizedRes?.model || "unknown",
             input: inputText,
             finish_reason: finishReason,
-            provider: "openai",
+            provider: provider.name,
             duration_ms: duration,
           },
           errorCategory:
@@ -453,7 +534,6 @@ function recordTrace(
       }
 
       // Normal successful response - use normalized usage
-      const usage = normalized.usage;
       opts.observa.trackLLMCall({
         model: sanitizedReq.model || sanitizedRes?.model || "unknown",
         input: inputText,
@@ -463,13 +543,18 @@ function recordTrace(
         inputTokens: usage.inputTokens ?? null,
         outputTokens: usage.outputTokens ?? null,
         totalTokens: usage.totalTokens ?? null,
+        cachedInputTokens: usage.cachedInputTokens ?? null,
+        reasoningTokens: usage.reasoningTokens ?? null,
+        usageSource,
         latencyMs: duration,
         timeToFirstTokenMs: timeToFirstToken || null,
         streamingDurationMs: streamingDuration || null,
         finishReason: finishReason,
         responseId: sanitizedRes?.id || null,
         operationName: "chat",
-        providerName: "openai",
+        providerName: provider.name,
+        serverAddress: provider.serverAddress,
+        serverPort: provider.serverPort,
         responseModel: sanitizedRes?.model || sanitizedReq.model || null,
         temperature: sanitizedReq.temperature || null,
         maxTokens: sanitizedReq.max_tokens || null,
@@ -490,6 +575,7 @@ async function traceEmbeddingsCall(
   options?: ObserveOptions,
 ) {
   const startTime = Date.now();
+  const provider = providerOf(options);
   const req = args[0] || {};
   const model = req.model || "unknown";
   const input = req.input;
@@ -517,7 +603,7 @@ async function traceEmbeddingsCall(
         model,
         dimensionCount: Array.isArray(embedding) ? embedding.length : null,
         latencyMs: duration,
-        providerName: "openai",
+        providerName: provider.name,
         inputText: inputText ?? null,
         inputTokens: inputTokens ?? null,
         embeddings: embeddings.length > 0 ? embeddings : null,
@@ -545,6 +631,7 @@ async function traceImagesCall(
   options?: ObserveOptions,
 ) {
   const startTime = Date.now();
+  const provider = providerOf(options);
   const req = args[0] || {};
   const model = req.model || "unknown";
   const prompt =
@@ -573,7 +660,7 @@ async function traceImagesCall(
         output: outputText,
         latencyMs: duration,
         operationName: "image_generation",
-        providerName: "openai",
+        providerName: provider.name,
       });
     }
     return result;
@@ -599,6 +686,7 @@ async function traceAudioCall(
   kind: "transcription" | "translation" = "transcription",
 ) {
   const startTime = Date.now();
+  const provider = providerOf(options);
   const req = args[0] || {};
   const model = req.model ?? "whisper-1";
   const file = req.file;
@@ -614,7 +702,7 @@ async function traceAudioCall(
         output: typeof outputText === "string" ? outputText : null,
         latencyMs: duration,
         operationName: kind === "translation" ? "translation" : "transcription",
-        providerName: "openai",
+        providerName: provider.name,
       });
     }
     return result;
@@ -642,6 +730,7 @@ async function traceModerationsCall(
   options?: ObserveOptions,
 ) {
   const startTime = Date.now();
+  const provider = providerOf(options);
   const req = args[0] || {};
   const input = req.input;
   const inputText =
@@ -663,7 +752,7 @@ async function traceModerationsCall(
         output: outputText,
         latencyMs: duration,
         operationName: "moderation",
-        providerName: "openai",
+        providerName: provider.name,
         flagged: data?.flagged ?? null,
         categories: data?.categories ?? null,
       });
@@ -674,7 +763,7 @@ async function traceModerationsCall(
         output: outputText,
         latencyMs: duration,
         operationName: "moderation",
-        providerName: "openai",
+        providerName: provider.name,
       });
     }
     return result;
@@ -707,6 +796,7 @@ function recordError(
   preCallTools?: any,
 ) {
   const duration = Date.now() - start;
+  const provider = providerOf(opts);
 
   try {
     console.error("[Observa] ⚠️ Error Captured:", error?.message || error);
@@ -728,7 +818,7 @@ function recordError(
     if (opts.observa) {
       const normalized = buildNormalizedLLMCall({
         request: sanitizedReq,
-        provider: "openai",
+        provider: provider.name,
         toolDefsOverride: sanitizedReq?.tools ?? preCallTools,
       });
       const toolDefinitions = normalized.toolDefinitions;
@@ -775,7 +865,9 @@ function recordError(
         finishReason: null,
         responseId: null,
         operationName: "chat",
-        providerName: "openai",
+        providerName: provider.name,
+        serverAddress: provider.serverAddress,
+        serverPort: provider.serverPort,
         responseModel: model,
         temperature: sanitizedReq.temperature || null,
         maxTokens: sanitizedReq.max_tokens || null,
@@ -792,9 +884,12 @@ function recordError(
           request: sanitizedReq,
           model: model,
           input: inputText,
-          provider: "openai",
+          provider: provider.name,
           duration_ms: duration,
           status_code: extractedError.statusCode || null,
+          // Azure OpenAI prompt filtering (code "content_filter")
+          content_filter_result:
+            error?.error?.innererror?.content_filter_result ?? null,
         },
         errorCategory: extractedError.category,
         errorCode: extractedError.code,
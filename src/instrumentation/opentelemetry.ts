@@ -0,0 +1,581 @@
+/**
+ * OpenTelemetry Bridge
+ *
+ * Translates spans from an existing OpenTelemetry TracerProvider into
+ * canonical events, so LLM calls made through any OTEL instrumentation
+ * library (gen_ai.* semantic conventions) show up in Observa.
+ *
+ * Provides both a SpanProcessor (add it to the provider directly) and a
+ * SpanExporter (wrap it in a BatchSpanProcessor). Both buffer spans per trace
+ * until the local root span ends, then:
+ * - map gen_ai.* spans to llm_call / embedding / tool_call / agent_create
+ *   events (plus an error event for failed spans)
+ * - re-parent each event to its nearest translated ancestor, skipping
+ *   unrelated spans (HTTP, DB, ...)
+ * - hand the events to the normal flush pipeline via observa.sendEvent
+ *
+ * Types are structural so @opentelemetry/* is not a dependency.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { emitDiagnostic } from "../diagnostics.js";
+
+type OtelHrTime = [number, number];
+
+type OtelAttributeValue =
+  | string
+  | number
+  | boolean
+  | Array<string | number | boolean | null | undefined>
+  | undefined;
+
+/**
+ * Subset of @opentelemetry/sdk-trace-base ReadableSpan used by the bridge
+ * (compatible with SDK 1.x and 2.x)
+ */
+export interface OtelReadableSpan {
+  name: string;
+  kind?: number;
+  spanContext(): { traceId: string; spanId: string };
+  // SDK 1.x
+  parentSpanId?: string;
+  // SDK 2.x
+  parentSpanContext?: { spanId: string; isRemote?: boolean };
+  startTime: OtelHrTime;
+  endTime: OtelHrTime;
+  duration?: OtelHrTime;
+  status: { code: number; message?: string };
+  attributes: Record<string, OtelAttributeValue>;
+  events?: Array<{
+    name: string;
+    time: OtelHrTime;
+    attributes?: Record<string, OtelAttributeValue>;
+  }>;
+}
+
+export interface OtelBridgeOptions {
+  // Which spans to translate (default: spans with gen_ai.* attributes)
+  spanFilter?: (span: OtelReadableSpan) => boolean;
+  // Flush the oldest buffered trace once this many spans are pending (default 2048)
+  maxPendingSpans?: number;
+}
+
+// OTEL SpanStatusCode.ERROR
+const OTEL_STATUS_ERROR = 2;
+// OTEL ExportResultCode
+const EXPORT_SUCCESS = 0;
+const EXPORT_FAILED = 1;
+
+function hrTimeToMs(time: OtelHrTime | undefined): number {
+  if (!time) return Date.now();
+  return time[0] * 1000 + time[1] / 1_000_000;
+}
+
+/**
+ * OTEL hex IDs -> canonical UUID-shaped IDs.
+ * Span IDs (16 hex) are right-padded so the OTLP exporter maps them back.
+ */
+function otelIdToUuid(hex: string): string {
+  const padded = (hex.toLowerCase() + "0".repeat(32)).slice(0, 32);
+  return `${padded.slice(0, 8)}-${padded.slice(8, 12)}-${padded.slice(
+    12,
+    16,
+  )}-${padded.slice(16, 20)}-${padded.slice(20)}`;
+}
+
+function getParentSpanId(span: OtelReadableSpan): string | null {
+  return span.parentSpanContext?.spanId || span.parentSpanId || null;
+}
+
+function isLocalRoot(span: OtelReadableSpan): boolean {
+  return !getParentSpanId(span) || span.parentSpanContext?.isRemote === true;
+}
+
+function isGenAISpan(span: OtelReadableSpan): boolean {
+  return Object.keys(span.attributes || {}).some((key) =>
+    key.startsWith("gen_ai."),
+  );
+}
+
+function num(value: OtelAttributeValue): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function str(value: OtelAttributeValue): string | null {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.length > 0 ? String(value[0]) : null;
+  return String(value);
+}
+
+function parseJson(value: OtelAttributeValue): any {
+  if (typeof value !== "string") return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Text content of a gen_ai message (string content or parts array)
+function messageText(message: any): string {
+  if (!message) return "";
+  if (typeof message.content === "string") return message.content;
+  const parts = Array.isArray(message.parts)
+    ? message.parts
+    : Array.isArray(message.content)
+      ? message.content
+      : [];
+  return parts
+    .map((part: any) =>
+      typeof part === "string" ? part : part?.content ?? part?.text ?? "",
+    )
+    .filter((text: any) => typeof text === "string" && text.length > 0)
+    .join("\n");
+}
+
+/**
+ * Collect messages from the gen_ai conventions:
+ * - gen_ai.input.messages / gen_ai.output.messages (JSON, current spec)
+ * - gen_ai.prompt.N.* / gen_ai.completion.N.* (indexed attributes)
+ * - gen_ai.*.message / gen_ai.choice span events (older spec)
+ */
+function extractMessages(
+  span: OtelReadableSpan,
+  direction: "input" | "output",
+): Array<Record<string, any>> | null {
+  const attrs = span.attributes || {};
+
+  const json = parseJson(attrs[`gen_ai.${direction}.messages`]);
+  if (Array.isArray(json) && json.length > 0) return json;
+
+  const prefix = direction === "input" ? "gen_ai.prompt." : "gen_ai.completion.";
+  const indexed: Array<Record<string, any>> = [];
+  for (const [key, value] of Object.entries(attrs)) {
+    if (!key.startsWith(prefix)) continue;
+    const match = key.slice(prefix.length).match(/^(\d+)\.(\w+)$/);
+    if (!match) continue;
+    const index = Number(match[1]);
+    indexed[index] = indexed[index] || {};
+    indexed[index]![match[2]!] = value;
+  }
+  const compact = indexed.filter(Boolean);
+  if (compact.length > 0) {
+    return compact.map((message) => ({
+      role: message.role || (direction === "input" ? "user" : "assistant"),
+      content: message.content ?? "",
+      ...(message.finish_reason
+        ? { finish_reason: message.finish_reason }
+        : {}),
+    }));
+  }
+
+  const fromEvents: Array<Record<string, any>> = [];
+  for (const event of span.events || []) {
+    const eventAttrs = event.attributes || {};
+    if (direction === "input" && /^gen_ai\.\w+\.message$/.test(event.name)) {
+      fromEvents.push({
+        role: event.name.split(".")[1],
+        content: parseJson(eventAttrs.content) ?? "",
+      });
+    } else if (direction === "output" && event.name === "gen_ai.choice") {
+      const message = parseJson(eventAttrs.message);
+      fromEvents.push({
+        role: "assistant",
+        content:
+          message && typeof message === "object"
+            ? message.content ?? ""
+            : parseJson(eventAttrs.content) ?? "",
+        ...(eventAttrs.finish_reason
+          ? { finish_reason: String(eventAttrs.finish_reason) }
+          : {}),
+      });
+    }
+  }
+  return fromEvents.length > 0 ? fromEvents : null;
+}
+
+type CanonicalEventType =
+  | "llm_call"
+  | "embedding"
+  | "tool_call"
+  | "agent_create";
+
+function classifySpan(span: OtelReadableSpan): CanonicalEventType | null {
+  const attrs = span.attributes || {};
+  const operation = str(attrs["gen_ai.operation.name"]);
+  switch (operation) {
+    case "chat":
+    case "text_completion":
+    case "generate_content":
+      return "llm_call";
+    case "embeddings":
+      return "embedding";
+    case "execute_tool":
+      return "tool_call";
+    case "create_agent":
+      return "agent_create";
+    case null:
+      break;
+    default:
+      // invoke_agent and other container operations are not events
+      return null;
+  }
+  if (attrs["gen_ai.tool.name"] !== undefined) return "tool_call";
+  if (
+    attrs["gen_ai.request.model"] !== undefined ||
+    attrs["gen_ai.response.model"] !== undefined
+  ) {
+    return "llm_call";
+  }
+  return null;
+}
+
+function buildAttributes(
+  type: CanonicalEventType,
+  span: OtelReadableSpan,
+): Record<string, any> {
+  const attrs = span.attributes || {};
+  const latencyMs = Math.max(
+    0,
+    Math.round(hrTimeToMs(span.endTime) - hrTimeToMs(span.startTime)),
+  );
+  const failed = span.status?.code === OTEL_STATUS_ERROR;
+  const provider =
+    str(attrs["gen_ai.provider.name"]) ?? str(attrs["gen_ai.system"]);
+
+  if (type === "llm_call") {
+    const inputMessages = extractMessages(span, "input");
+    const outputMessages = extractMessages(span, "output");
+    const lastUser = inputMessages
+      ? [...inputMessages].reverse().find((m) => m.role === "user")
+      : null;
+    const inputTokens =
+      num(attrs["gen_ai.usage.input_tokens"]) ??
+      num(attrs["gen_ai.usage.prompt_tokens"]);
+    const outputTokens =
+      num(attrs["gen_ai.usage.output_tokens"]) ??
+      num(attrs["gen_ai.usage.completion_tokens"]);
+    const stop = attrs["gen_ai.request.stop_sequences"];
+
+    return {
+      llm_call: {
+        model:
+          str(attrs["gen_ai.request.model"]) ??
+          str(attrs["gen_ai.response.model"]) ??
+          "unknown",
+        input: lastUser
+          ? messageText(lastUser)
+          : inputMessages
+            ? messageText(inputMessages[inputMessages.length - 1])
+            : null,
+        output: outputMessages
+          ? outputMessages.map(messageText).join("\n")
+          : null,
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        total_tokens:
+          num(attrs["gen_ai.usage.total_tokens"]) ??
+          (inputTokens !== null && outputTokens !== null
+            ? inputTokens + outputTokens
+            : null),
+        latency_ms: latencyMs,
+        finish_reason: str(attrs["gen_ai.response.finish_reasons"]),
+        response_id: str(attrs["gen_ai.response.id"]),
+        operation_name: str(attrs["gen_ai.operation.name"]) ?? "chat",
+        provider_name: provider,
+        response_model: str(attrs["gen_ai.response.model"]),
+        temperature: num(attrs["gen_ai.request.temperature"]),
+        top_p: num(attrs["gen_ai.request.top_p"]),
+        top_k: num(attrs["gen_ai.request.top_k"]),
+        max_tokens: num(attrs["gen_ai.request.max_tokens"]),
+        frequency_penalty: num(attrs["gen_ai.request.frequency_penalty"]),
+        presence_penalty: num(attrs["gen_ai.request.presence_penalty"]),
+        seed: num(attrs["gen_ai.request.seed"]),
+        stop_sequences: Array.isArray(stop) ? stop.map(String) : null,
+        input_messages: inputMessages,
+        output_messages: outputMessages,
+        system_instructions: parseJson(attrs["gen_ai.system_instructions"]),
+        server_address: str(attrs["server.address"]),
+        server_port: num(attrs["server.port"]),
+        conversation_id_otel: str(attrs["gen_ai.conversation.id"]),
+        status: failed ? "error" : "success",
+      },
+    };
+  }
+
+  if (type === "embedding") {
+    return {
+      embedding: {
+        model: str(attrs["gen_ai.request.model"]) ?? "unknown",
+        dimension_count: num(attrs["gen_ai.embeddings.dimension.count"]),
+        input_tokens: num(attrs["gen_ai.usage.input_tokens"]),
+        latency_ms: latencyMs,
+        operation_name: "embeddings",
+        provider_name: provider,
+      },
+    };
+  }
+
+  if (type === "tool_call") {
+    const args = parseJson(attrs["gen_ai.tool.call.arguments"]);
+    return {
+      tool_call: {
+        tool_name: str(attrs["gen_ai.tool.name"]) ?? span.name,
+        args: args && typeof args === "object" ? args : null,
+        result: parseJson(attrs["gen_ai.tool.call.result"]),
+        result_status: failed ? "error" : "success",
+        latency_ms: latencyMs,
+        error_message: failed ? span.status.message ?? null : null,
+        operation_name: "execute_tool",
+        tool_type: str(attrs["gen_ai.tool.type"]),
+        tool_description: str(attrs["gen_ai.tool.description"]),
+        tool_call_id: str(attrs["gen_ai.tool.call.id"]),
+        error_type: failed ? str(attrs["error.type"]) : null,
+      },
+    };
+  }
+
+  return {
+    agent_create: {
+      agent_name: str(attrs["gen_ai.agent.name"]) ?? span.name,
+      operation_name: "create_agent",
+      model_config: attrs["gen_ai.request.model"]
+        ? { model: str(attrs["gen_ai.request.model"]) }
+        : null,
+    },
+  };
+}
+
+/**
+ * Buffers ended spans per trace and translates complete traces
+ */
+class OtelSpanTranslator {
+  private observa: any;
+  private spanFilter: (span: OtelReadableSpan) => boolean;
+  private maxPendingSpans: number;
+  private pending: Map<string, OtelReadableSpan[]> = new Map();
+  private pendingCount = 0;
+
+  constructor(observa: any, options: OtelBridgeOptions = {}) {
+    this.observa = observa;
+    this.spanFilter = options.spanFilter ?? isGenAISpan;
+    this.maxPendingSpans = options.maxPendingSpans ?? 2048;
+  }
+
+  add(span: OtelReadableSpan): void {
+    const traceId = span.spanContext().traceId;
+    const spans = this.pending.get(traceId);
+    if (spans) {
+      spans.push(span);
+    } else {
+      this.pending.set(traceId, [span]);
+    }
+    this.pendingCount += 1;
+
+    if (isLocalRoot(span)) {
+      this.translateTrace(traceId);
+    }
+
+    // Bound memory when a local root never ends (e.g. remote parents on SDK 1.x)
+    while (this.pendingCount > this.maxPendingSpans) {
+      const oldest = this.pending.keys().next().value;
+      if (oldest === undefined) break;
+      this.translateTrace(oldest);
+    }
+  }
+
+  flushAll(): void {
+    for (const traceId of [...this.pending.keys()]) {
+      this.translateTrace(traceId);
+    }
+  }
+
+  private translateTrace(traceId: string): void {
+    const spans = this.pending.get(traceId) || [];
+    this.pending.delete(traceId);
+    this.pendingCount -= spans.length;
+
+    const byId = new Map(spans.map((s) => [s.spanContext().spanId, s]));
+    const kept = new Map<string, CanonicalEventType>();
+    for (const span of spans) {
+      try {
+        if (!this.spanFilter(span)) continue;
+      } catch {
+        continue;
+      }
+      const type = classifySpan(span);
+      if (type) kept.set(span.spanContext().spanId, type);
+    }
+    if (kept.size === 0) return;
+
+    // Nearest translated ancestor (unrelated spans are skipped over)
+    const resolveParent = (span: OtelReadableSpan): string | null => {
+      let parentId = getParentSpanId(span);
+      while (parentId) {
+        if (kept.has(parentId)) return otelIdToUuid(parentId);
+        const parent = byId.get(parentId);
+        if (!parent) return null;
+        parentId = getParentSpanId(parent);
+      }
+      return null;
+    };
+
+    // Parents first, so the trace root is the first event the client sees
+    const ordered = spans
+      .filter((span) => kept.has(span.spanContext().spanId))
+      .sort((a, b) => hrTimeToMs(a.startTime) - hrTimeToMs(b.startTime));
+
+    const canonicalTraceId = otelIdToUuid(traceId);
+    for (const span of ordered) {
+      const spanId = span.spanContext().spanId;
+      const type = kept.get(spanId)!;
+      const canonicalSpanId = otelIdToUuid(spanId);
+      const timestamp = new Date(hrTimeToMs(span.endTime)).toISOString();
+
+      try {
+        this.observa.sendEvent({
+          event_type: type,
+          span_id: canonicalSpanId,
+          parent_span_id: resolveParent(span),
+          trace_id: canonicalTraceId,
+          timestamp,
+          attributes: buildAttributes(type, span),
+        });
+
+        if (span.status?.code === OTEL_STATUS_ERROR) {
+          const exception = (span.events || []).find(
+            (e) => e.name === "exception",
+          );
+          const exceptionAttrs = exception?.attributes || {};
+          this.observa.sendEvent({
+            event_type: "error",
+            span_id: crypto.randomUUID(),
+            parent_span_id: canonicalSpanId,
+            trace_id: canonicalTraceId,
+            timestamp,
+            attributes: {
+              error: {
+                error_type:
+                  str(exceptionAttrs["exception.type"]) ??
+                  str(span.attributes["error.type"]) ??
+                  "Error",
+                error_message:
+                  str(exceptionAttrs["exception.message"]) ??
+                  span.status.message ??
+                  "Span ended with error status",
+                stack_trace: str(exceptionAttrs["exception.stacktrace"]),
+                context: { otel_span_name: span.name },
+                error_code: str(span.attributes["error.type"]),
+              },
+            },
+          });
+        }
+      } catch (error) {
+        console.error("[Observa] Failed to translate OTEL span:", error);
+      }
+    }
+
+    emitDiagnostic(
+      "opentelemetry.ts:translateTrace",
+      "Translated OTEL spans",
+      () => ({
+        traceId: canonicalTraceId,
+        spanCount: spans.length,
+        eventCount: ordered.length,
+      }),
+      this.observa,
+    );
+  }
+}
+
+/**
+ * SpanProcessor for an existing TracerProvider
+ *
+ * @example
+ * ```typescript
+ * const provider = new NodeTracerProvider({
+ *   spanProcessors: [observa.createOtelSpanProcessor()],
+ * });
+ * ```
+ */
+export class ObservaSpanProcessor {
+  private translator: OtelSpanTranslator;
+  private observa: any;
+
+  constructor(observa: any, options: OtelBridgeOptions = {}) {
+    this.observa = observa;
+    this.translator = new OtelSpanTranslator(observa, options);
+  }
+
+  onStart(): void {
+    // Spans are translated when they end
+  }
+
+  onEnd(span: OtelReadableSpan): void {
+    try {
+      this.translator.add(span);
+    } catch (error) {
+      console.error("[Observa] OTEL span processing failed:", error);
+    }
+  }
+
+  async forceFlush(): Promise<void> {
+    this.translator.flushAll();
+    await this.observa.flush();
+  }
+
+  async shutdown(): Promise<void> {
+    await this.forceFlush();
+  }
+}
+
+/**
+ * SpanExporter for use with a BatchSpanProcessor
+ *
+ * @example
+ * ```typescript
+ * const provider = new NodeTracerProvider({
+ *   spanProcessors: [new BatchSpanProcessor(observa.createOtelSpanExporter())],
+ * });
+ * ```
+ */
+export class ObservaSpanExporter {
+  private translator: OtelSpanTranslator;
+  private observa: any;
+
+  constructor(observa: any, options: OtelBridgeOptions = {}) {
+    this.observa = observa;
+    this.translator = new OtelSpanTranslator(observa, options);
+  }
+
+  export(
+    spans: OtelReadableSpan[],
+    resultCallback: (result: { code: number; error?: Error }) => void,
+  ): void {
+    try {
+      for (const span of spans) {
+        this.translator.add(span);
+      }
+      resultCallback({ code: EXPORT_SUCCESS });
+    } catch (error) {
+      resultCallback({
+        code: EXPORT_FAILED,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }
+
+  async forceFlush(): Promise<void> {
+    this.translator.flushAll();
+    await this.observa.flush();
+  }
+
+  async shutdown(): Promise<void> {
+    await this.forceFlush();
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * OpenAI-compatible provider detection
+ *
+ * The OpenAI SDK is also used against Azure OpenAI, Groq, Together, Ollama,
+ * vLLM, LM Studio and other OpenAI-compatible servers by changing baseURL.
+ * detectProvider() inspects the client's baseURL / default headers so
+ * observeOpenAI() reports the real provider_name (OTEL gen_ai.provider.name
+ * where one is defined), server_address and server_port.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+export interface ProviderConnectionInfo {
+  // Client baseURL, e.g. "http://localhost:11434/v1"
+  baseURL: string | null;
+  hostname: string | null;
+  // Explicit port, or the protocol default (443 / 80)
+  port: number | null;
+  // Client default headers, lower-cased names
+  headers: Record<string, string>;
+  // Client class name, e.g. "OpenAI" or "AzureOpenAI"
+  clientName: string | null;
+}
+
+export interface ProviderMatcher {
+  // Reported as provider_name, e.g. "my-gateway"
+  name: string;
+  // Tested against the client's baseURL (strings match as substrings)
+  baseURL?: RegExp | string;
+  // Custom test on the client's connection info
+  match?: (info: ProviderConnectionInfo) => boolean;
+}
+
+export interface DetectedProvider {
+  name: string;
+  serverAddress: string | null;
+  serverPort: number | null;
+}
+
+const DEFAULT_PROVIDER = "openai";
+
+const hostIs = (info: ProviderConnectionInfo, ...hosts: string[]) =>
+  hosts.some(
+    (host) => info.hostname === host || !!info.hostname?.endsWith(`.${host}`),
+  );
+
+/**
+ * Built-in matchers, checked after custom ones. Self-hosted servers are
+ * recognised by their default ports
+ */
+export const BUILTIN_PROVIDER_MATCHERS: ProviderMatcher[] = [
+  { name: "openai", match: (info) => hostIs(info, "api.openai.com") },
+  {
+    name: "azure.ai.openai",
+    match: (info) =>
+      info.clientName === "AzureOpenAI" ||
+      hostIs(info, "openai.azure.com", "cognitiveservices.azure.com") ||
+      "api-key" in info.headers,
+  },
+  {
+    name: "azure.ai.inference",
+    match: (info) =>
+      hostIs(info, "services.ai.azure.com", "inference.ai.azure.com"),
+  },
+  { name: "groq", match: (info) => hostIs(info, "api.groq.com") },
+  {
+    name: "together_ai",
+    match: (info) => hostIs(info, "api.together.xyz", "api.together.ai"),
+  },
+  { name: "fireworks", match: (info) => hostIs(info, "api.fireworks.ai") },
+  { name: "deepseek", match: (info) => hostIs(info, "api.deepseek.com") },
+  { name: "x_ai", match: (info) => hostIs(info, "api.x.ai") },
+  { name: "perplexity", match: (info) => hostIs(info, "api.perplexity.ai") },
+  { name: "mistral_ai", match: (info) => hostIs(info, "api.mistral.ai") },
+  { name: "openrouter", match: (info) => hostIs(info, "openrouter.ai") },
+  {
+    name: "gcp.gemini",
+    match: (info) => hostIs(info, "generativelanguage.googleapis.com"),
+  },
+  {
+    name: "ollama",
+    match: (info) => info.port === 11434 || /ollama/i.test(info.hostname ?? ""),
+  },
+  { name: "lm_studio", match: (info) => info.port === 1234 },
+  {
+    name: "vllm",
+    match: (info) => info.port === 8000 || /vllm/i.test(info.hostname ?? ""),
+  },
+];
+
+function readHeaders(client: any): Record<string, string> {
+  const raw = client?._options?.defaultHeaders ?? client?.defaultHeaders;
+  const headers: Record<string, string> = {};
+  if (!raw || typeof raw !== "object") return headers;
+  for (const [key, value] of Object.entries(raw)) {
+    if (value != null) headers[key.toLowerCase()] = String(value);
+  }
+  return headers;
+}
+
+/**
+ * Connection info for an OpenAI SDK client (baseURL, host, port, headers)
+ */
+export function getConnectionInfo(client: any): ProviderConnectionInfo {
+  const baseURL =
+    typeof client?.baseURL === "string" ? client.baseURL : null;
+  let hostname: string | null = null;
+  let port: number | null = null;
+  if (baseURL) {
+    try {
+      const url = new URL(baseURL);
+      hostname = url.hostname.toLowerCase();
+      port = url.port
+        ? Number(url.port)
+        : url.protocol === "http:"
+          ? 80
+          : 443;
+    } catch {
+      // Not a URL - keep baseURL only
+    }
+  }
+  return {
+    baseURL,
+    hostname,
+    port,
+    headers: readHeaders(client),
+    clientName: client?.constructor?.name ?? null,
+  };
+}
+
+function matches(matcher: ProviderMatcher, info: ProviderConnectionInfo) {
+  if (matcher.baseURL !== undefined) {
+    if (!info.baseURL) return false;
+    const found =
+      typeof matcher.baseURL === "string"
+        ? info.baseURL.includes(matcher.baseURL)
+        : matcher.baseURL.test(info.baseURL);
+    if (!found) return false;
+  }
+  return matcher.match ? matcher.match(info) : matcher.baseURL !== undefined;
+}
+
+/**
+ * Detect the provider behind an OpenAI SDK client. Custom matchers win over
+ * built-in ones; unknown servers are reported as "openai" (the protocol)
+ * with their own server_address.
+ */
+export function detectProvider(
+  client: any,
+  customMatchers: ProviderMatcher[] = [],
+): DetectedProvider {
+  const info = getConnectionInfo(client);
+  let name = DEFAULT_PROVIDER;
+  for (const matcher of [...customMatchers, ...BUILTIN_PROVIDER_MATCHERS]) {
+    try {
+      if (matches(matcher, info)) {
+        name = matcher.name;
+        break;
+      }
+    } catch (error) {
+      console.warn(
+        `[Observa] Provider matcher "${matcher.name}" threw:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+  return { name, serverAddress: info.hostname, serverPort: info.port };
+}
@@ -16,6 +16,36 @@ export const OTEL_SEMCONV = {
   GEN_AI_USAGE_TOTAL_TOKENS: "gen_ai.usage.total_tokens",
   GEN_AI_USAGE_COST: "gen_ai.usage.cost",
   GEN_AI_FINISH_REASONS: "gen_ai.response.finish_reasons",
+  GEN_AI_OPERATION_NAME: "gen_ai.operation.name",
+  GEN_AI_RESPONSE_ID: "gen_ai.response.id",
+  GEN_AI_CONVERSATION_ID: "gen_ai.conversation.id",
+  GEN_AI_AGENT_NAME: "gen_ai.agent.name",
+
+  // Request parameters
+  GEN_AI_REQUEST_TEMPERATURE: "gen_ai.request.temperature",
+  GEN_AI_REQUEST_TOP_P: "gen_ai.request.top_p",
+  GEN_AI_REQUEST_TOP_K: "gen_ai.request.top_k",
+  GEN_AI_REQUEST_MAX_TOKENS: "gen_ai.request.max_tokens",
+  GEN_AI_REQUEST_FREQUENCY_PENALTY: "gen_ai.request.frequency_penalty",
+  GEN_AI_REQUEST_PRESENCE_PENALTY: "gen_ai.request.presence_penalty",
+  GEN_AI_REQUEST_SEED: "gen_ai.request.seed",
+  GEN_AI_REQUEST_STOP_SEQUENCES: "gen_ai.request.stop_sequences",
+
+  // Tool execution
+  GEN_AI_TOOL_NAME: "gen_ai.tool.name",
+  GEN_AI_TOOL_TYPE: "gen_ai.tool.type",
+  GEN_AI_TOOL_DESCRIPTION: "gen_ai.tool.description",
+  GEN_AI_TOOL_CALL_ID: "gen_ai.tool.call.id",
+
+  // Embeddings
+  GEN_AI_EMBEDDINGS_DIMENSION_COUNT: "gen_ai.embeddings.dimension.count",
+
+  // General attributes
+  SERVER_ADDRESS: "server.address",
+  SERVER_PORT: "server.port",
+  ERROR_TYPE: "error.type",
+  SESSION_ID: "session.id",
+  USER_ID: "user.id",
 
   // Prompt/Response message attributes
   AI_PROMPT_TOOLS: "ai.prompt.tools",
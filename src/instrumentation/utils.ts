@@ -7,8 +7,8 @@
  */
 
 /**
- * Estimate token count from text (rough estimate)
- * In production, use actual tokenizer if available
+ * Estimate token count from text (rough estimate). Exact counts for missing
+ * usage come from the Observa tokenizer in each instrumentation.
  */
 function estimateTokens(text: string): number {
   // Rough estimate: ~4 chars per token
@@ -30,11 +30,35 @@ function reconstructOpenAIResponse(chunks: any[]): any {
   // Combine all delta contents
   let fullContent = "";
   const messages: any[] = [];
+  let finishReason: string | null = null;
+  let usage: any = null;
+  // OpenAI-compatible extras: Azure filter results, Groq x_groq
+  let promptFilterResults: any = null;
+  let contentFilterResults: any = null;
+  let xGroq: any = null;
 
   for (const chunk of chunks) {
     if (chunk?.choices?.[0]?.delta?.content) {
       fullContent += chunk.choices[0].delta.content;
     }
+    // The usage chunk (stream_options.include_usage) has no choices
+    if (chunk?.choices?.[0]?.finish_reason) {
+      finishReason = chunk.choices[0].finish_reason;
+    }
+    // Groq reports stream usage under x_groq.usage
+    if (chunk?.usage || chunk?.x_groq?.usage) {
+      usage = chunk.usage || chunk.x_groq.usage;
+    }
+    if (chunk?.prompt_filter_results) {
+      promptFilterResults = chunk.prompt_filter_results;
+    }
+    const filter = chunk?.choices?.[0]?.content_filter_results;
+    if (filter && Object.keys(filter).length > 0) {
+      contentFilterResults = filter;
+    }
+    if (chunk?.x_groq) {
+      xGroq = { ...xGroq, ...chunk.x_groq };
+    }
   }
 
   // Build response structure
@@ -53,10 +77,17 @@ function reconstructOpenAIResponse(chunks: any[]): any {
           role: "assistant",
           content: fullContent,
         },
-        finish_reason: lastChunk?.choices?.[0]?.finish_reason || null,
+        finish_reason: finishReason,
+        ...(contentFilterResults
+          ? { content_filter_results: contentFilterResults }
+          : {}),
       },
     ],
-    usage: lastChunk?.usage || null, // Usage info typically in last chunk
+    usage, // Usage info typically in last chunk
+    ...(promptFilterResults
+      ? { prompt_filter_results: promptFilterResults }
+      : {}),
+    ...(xGroq ? { x_groq: xGroq } : {}),
   };
 
   return response;
@@ -142,6 +173,379 @@ function reconstructAnthropicResponse(chunks: any[]): any {
   };
 }
 
+/**
+ * Reconstruct a Gemini (@google/genai) response from streamed chunks.
+ * Each chunk is a partial GenerateContentResponse: text parts are concatenated,
+ * function calls collected, and finish reason / safety ratings / usage taken
+ * from the last chunk that carries them.
+ */
+function reconstructGeminiResponse(chunks: any[]): any {
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  let fullText = "";
+  const functionCallParts: any[] = [];
+  let finishReason: string | null = null;
+  let safetyRatings: any[] | null = null;
+  let usageMetadata: any = null;
+  let promptFeedback: any = null;
+  let modelVersion: string | null = null;
+  let responseId: string | null = null;
+
+  for (const chunk of chunks) {
+    const candidate = chunk?.candidates?.[0];
+    for (const part of candidate?.content?.parts ?? []) {
+      if (typeof part?.text === "string" && !part.thought) {
+        fullText += part.text;
+      } else if (part?.functionCall) {
+        functionCallParts.push(part);
+      }
+    }
+    if (candidate?.finishReason) finishReason = candidate.finishReason;
+    if (candidate?.safetyRatings) safetyRatings = candidate.safetyRatings;
+    if (chunk?.usageMetadata) usageMetadata = chunk.usageMetadata;
+    if (chunk?.promptFeedback) promptFeedback = chunk.promptFeedback;
+    if (chunk?.modelVersion) modelVersion = chunk.modelVersion;
+    if (chunk?.responseId) responseId = chunk.responseId;
+  }
+
+  const parts = [
+    ...(fullText ? [{ text: fullText }] : []),
+    ...functionCallParts,
+  ];
+  return {
+    candidates: [
+      {
+        index: 0,
+        content: { role: "model", parts },
+        finishReason,
+        safetyRatings,
+      },
+    ],
+    usageMetadata,
+    promptFeedback,
+    modelVersion,
+    responseId,
+  };
+}
+
+/**
+ * Reconstruct a Bedrock Converse response from ConverseStream events
+ * (messageStart, contentBlockStart/Delta/Stop, messageStop, metadata)
+ */
+function reconstructBedrockConverseResponse(chunks: any[]): any {
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  let role = "assistant";
+  let text = "";
+  let stopReason: string | null = null;
+  let usage: any = null;
+  let metrics: any = null;
+  // Tool use blocks by content block index, input streamed as JSON text
+  const toolUses = new Map<number, { toolUse: any; input: string }>();
+
+  for (const chunk of chunks) {
+    if (chunk?.messageStart?.role) role = chunk.messageStart.role;
+    const start = chunk?.contentBlockStart;
+    if (start?.start?.toolUse) {
+      toolUses.set(start.contentBlockIndex ?? toolUses.size, {
+        toolUse: start.start.toolUse,
+        input: "",
+      });
+    }
+    const delta = chunk?.contentBlockDelta;
+    if (typeof delta?.delta?.text === "string") {
+      text += delta.delta.text;
+    } else if (typeof delta?.delta?.toolUse?.input === "string") {
+      const entry = toolUses.get(delta.contentBlockIndex);
+      if (entry) entry.input += delta.delta.toolUse.input;
+    }
+    if (chunk?.messageStop?.stopReason) {
+      stopReason = chunk.messageStop.stopReason;
+    }
+    if (chunk?.metadata?.usage) usage = chunk.metadata.usage;
+    if (chunk?.metadata?.metrics) metrics = chunk.metadata.metrics;
+  }
+
+  const content: any[] = text ? [{ text }] : [];
+  for (const { toolUse, input } of toolUses.values()) {
+    let parsedInput: any = input;
+    try {
+      parsedInput = input ? JSON.parse(input) : {};
+    } catch {
+      // Keep the raw text when the streamed input isn't valid JSON
+    }
+    content.push({ toolUse: { ...toolUse, input: parsedInput } });
+  }
+
+  return {
+    output: { message: { role, content } },
+    stopReason,
+    usage,
+    metrics,
+  };
+}
+
+const utf8Decoder = new TextDecoder();
+
+/**
+ * Reconstruct a Bedrock InvokeModelWithResponseStream response. Each chunk
+ * carries model-specific JSON in chunk.bytes; text deltas are read from the
+ * fields used by each model family (Anthropic, Llama, Titan, Cohere, Mistral,
+ * Nova), and token counts from amazon-bedrock-invocationMetrics on the last
+ * chunk.
+ */
+function reconstructBedrockInvokeResponse(chunks: any[]): any {
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  let text = "";
+  let stopReason: string | null = null;
+  let inputTokens: number | null = null;
+  let outputTokens: number | null = null;
+  let cacheReadInputTokens: number | null = null;
+  let cacheWriteInputTokens: number | null = null;
+  let id: string | null = null;
+
+  for (const chunk of chunks) {
+    const bytes = chunk?.chunk?.bytes;
+    if (!bytes) continue;
+    let event: any;
+    try {
+      event = JSON.parse(
+        typeof bytes === "string" ? bytes : utf8Decoder.decode(bytes),
+      );
+    } catch {
+      continue;
+    }
+
+    // Anthropic messages stream
+    if (event.type === "message_start") {
+      id = event.message?.id ?? id;
+      const usage = event.message?.usage;
+      inputTokens = usage?.input_tokens ?? inputTokens;
+      cacheReadInputTokens =
+        usage?.cache_read_input_tokens ?? cacheReadInputTokens;
+      cacheWriteInputTokens =
+        usage?.cache_creation_input_tokens ?? cacheWriteInputTokens;
+    } else if (event.type === "content_block_delta") {
+      if (typeof event.delta?.text === "string") text += event.delta.text;
+    } else if (event.type === "message_delta") {
+      stopReason = event.delta?.stop_reason ?? stopReason;
+      outputTokens = event.usage?.output_tokens ?? outputTokens;
+    } else if (typeof event.generation === "string") {
+      // Llama
+      text += event.generation;
+    } else if (typeof event.outputText === "string") {
+      // Titan
+      text += event.outputText;
+    } else if (typeof event.completion === "string") {
+      // Anthropic text completions
+      text += event.completion;
+    } else if (Array.isArray(event.outputs)) {
+      // Mistral
+      text += event.outputs.map((o: any) => o?.text ?? "").join("");
+      stopReason = event.outputs[0]?.stop_reason ?? stopReason;
+    } else if (Array.isArray(event.choices)) {
+      // Mistral chat
+      text += event.choices[0]?.delta?.content ?? "";
+      stopReason = event.choices[0]?.finish_reason ?? stopReason;
+    } else if (event.contentBlockDelta) {
+      // Nova
+      text += event.contentBlockDelta.delta?.text ?? "";
+    } else if (typeof event.text === "string") {
+      // Cohere
+      text += event.text;
+    } else if (Array.isArray(event.generations)) {
+      // Cohere (legacy command)
+      text += event.generations.map((g: any) => g?.text ?? "").join("");
+    }
+
+    stopReason =
+      event.stop_reason ??
+      event.completionReason ??
+      event.finish_reason ??
+      event.messageStop?.stopReason ??
+      stopReason;
+    const metrics = event["amazon-bedrock-invocationMetrics"];
+    if (metrics) {
+      inputTokens = metrics.inputTokenCount ?? inputTokens;
+      outputTokens = metrics.outputTokenCount ?? outputTokens;
+      cacheReadInputTokens =
+        metrics.cacheReadInputTokenCount ?? cacheReadInputTokens;
+      cacheWriteInputTokens =
+        metrics.cacheWriteInputTokenCount ?? cacheWriteInputTokens;
+    }
+  }
+
+  return {
+    id,
+    text,
+    stopReason,
+    usage: {
+      inputTokens,
+      outputTokens,
+      cacheReadInputTokens,
+      cacheWriteInputTokens,
+    },
+  };
+}
+
+/** Text of a Mistral message content (string or content chunks) */
+function mistralContentText(content: any): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((c: any) => c?.type === "text" && typeof c.text === "string")
+    .map((c: any) => c.text)
+    .join("");
+}
+
+/**
+ * Reconstruct a Mistral chat.complete() response from chat.stream() events
+ * ({ data: CompletionChunk }). Tool calls are merged by index.
+ */
+function reconstructMistralResponse(chunks: any[]): any {
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  let content = "";
+  const toolCalls: any[] = [];
+  let finishReason: string | null = null;
+  let usage: any = null;
+  let id: string | null = null;
+  let model: string | null = null;
+
+  for (const event of chunks) {
+    const chunk = event?.data ?? event;
+    const choice = chunk?.choices?.[0];
+    content += mistralContentText(choice?.delta?.content);
+    for (const [position, call] of (choice?.delta?.toolCalls ?? []).entries()) {
+      const index = call?.index ?? position;
+      const existing = toolCalls[index];
+      if (!existing) {
+        toolCalls[index] = {
+          id: call?.id ?? null,
+          type: call?.type ?? "function",
+          function: {
+            name: call?.function?.name ?? null,
+            arguments: call?.function?.arguments ?? "",
+          },
+        };
+      } else if (typeof call?.function?.arguments === "string") {
+        existing.function.arguments += call.function.arguments;
+      }
+    }
+    if (choice?.finishReason) finishReason = choice.finishReason;
+    if (chunk?.usage) usage = chunk.usage;
+    if (chunk?.id) id = chunk.id;
+    if (chunk?.model) model = chunk.model;
+  }
+
+  const calls = toolCalls.filter(Boolean);
+  return {
+    id,
+    model,
+    object: "chat.completion",
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content,
+          ...(calls.length > 0 ? { toolCalls: calls } : {}),
+        },
+        finishReason,
+      },
+    ],
+    usage,
+  };
+}
+
+/**
+ * Reconstruct a Cohere chat() response from chatStream() events. v2 events
+ * (type: "content-delta", "tool-call-start", "message-end", ...) are
+ * assembled into a v2 response; v1 streams end with the full response on
+ * "stream-end".
+ */
+function reconstructCohereResponse(chunks: any[]): any {
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  let text = "";
+  let toolPlan = "";
+  const toolCalls: any[] = [];
+  const citations: any[] = [];
+  let finishReason: string | null = null;
+  let usage: any = null;
+  let id: string | null = null;
+
+  for (const event of chunks) {
+    // v1: the final event carries the complete response
+    if (event?.eventType === "stream-end" && event.response) {
+      return { ...event.response, finishReason: event.finishReason };
+    }
+    const message = event?.delta?.message;
+    switch (event?.type) {
+      case "message-start":
+        id = event.id ?? id;
+        break;
+      case "content-delta":
+        text += message?.content?.text ?? "";
+        break;
+      case "tool-plan-delta":
+        toolPlan += message?.toolPlan ?? "";
+        break;
+      case "tool-call-start":
+        if (message?.toolCalls) {
+          toolCalls.push({
+            ...message.toolCalls,
+            function: {
+              ...message.toolCalls.function,
+              arguments: message.toolCalls.function?.arguments ?? "",
+            },
+          });
+        }
+        break;
+      case "tool-call-delta": {
+        const last = toolCalls[toolCalls.length - 1];
+        const args = message?.toolCalls?.function?.arguments;
+        if (last && typeof args === "string") last.function.arguments += args;
+        break;
+      }
+      case "citation-start":
+        if (message?.citations) citations.push(message.citations);
+        break;
+      case "message-end":
+        finishReason = event.delta?.finishReason ?? finishReason;
+        usage = event.delta?.usage ?? usage;
+        break;
+    }
+    if (event?.eventType === "text-generation") {
+      text += event.text ?? "";
+    }
+  }
+
+  return {
+    id,
+    finishReason,
+    message: {
+      role: "assistant",
+      content: text ? [{ type: "text", text }] : [],
+      ...(toolPlan ? { toolPlan } : {}),
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      ...(citations.length > 0 ? { citations } : {}),
+    },
+    usage,
+  };
+}
+
 /**
  * Wrap an async iterator stream to capture data without blocking TTFT
  * Uses teeing to split stream - one for user, one for tracking
@@ -149,7 +553,7 @@ function reconstructAnthropicResponse(chunks: any[]): any {
  * @param stream - The async iterable stream (OpenAI or Anthropic)
  * @param onComplete - Callback when stream completes with full reconstructed response
  * @param onError - Callback when stream errors
- * @param provider - Provider name ('openai' | 'anthropic') for response reconstruction
+ * @param provider - Provider name ('openai' | 'anthropic' | 'gemini' | 'bedrock-*' | 'mistral' | 'cohere') for response reconstruction
  */
 /** Detected OpenAI stream format: Chat Completions vs Responses API */
 type OpenAIStreamFormat = "chat" | "responses";
@@ -158,11 +562,20 @@ export async function* wrapStream<T>(
   stream: AsyncIterable<T>,
   onComplete: (fullData: any) => void,
   onError: (error: any) => void,
-  provider: "openai" | "anthropic" | "vercel-ai" = "openai",
+  provider:
+    | "openai"
+    | "anthropic"
+    | "gemini"
+    | "bedrock-converse"
+    | "bedrock-invoke"
+    | "mistral"
+    | "cohere"
+    | "vercel-ai" = "openai",
 ): AsyncIterable<T> {
   let firstTokenTime: number | null = null;
   const chunks: T[] = [];
-  let tokenCount = 0;
+  // Streamed output text, estimated once the stream completes (off the hot path)
+  let streamedText = "";
   const streamStartTime = Date.now();
   let openAIFormat: OpenAIStreamFormat | null =
     provider === "openai" ? null : ("chat" as OpenAIStreamFormat);
@@ -187,25 +600,53 @@ export async function* wrapStream<T>(
         if (openAIFormat === "responses") {
           const delta = c?.type === "response.output_text.delta" && c?.delta;
           if (delta && typeof delta === "string") {
-            tokenCount += estimateTokens(delta);
+            streamedText += delta;
           }
         } else {
           const content = c?.choices?.[0]?.delta?.content;
           if (content && typeof content === "string") {
-            tokenCount += estimateTokens(content);
+            streamedText += content;
           }
         }
       } else if (provider === "anthropic") {
         const text = (chunk as any)?.delta?.text;
         if (text && typeof text === "string") {
-          tokenCount += estimateTokens(text);
+          streamedText += text;
+        }
+      } else if (provider === "gemini") {
+        const parts = (chunk as any)?.candidates?.[0]?.content?.parts ?? [];
+        for (const part of parts) {
+          if (typeof part?.text === "string" && !part.thought) {
+            streamedText += part.text;
+          }
+        }
+      } else if (provider === "bedrock-converse") {
+        const text = (chunk as any)?.contentBlockDelta?.delta?.text;
+        if (text && typeof text === "string") {
+          streamedText += text;
+        }
+      } else if (provider === "mistral") {
+        const c = chunk as any;
+        streamedText += mistralContentText(
+          (c?.data ?? c)?.choices?.[0]?.delta?.content,
+        );
+      } else if (provider === "cohere") {
+        const c = chunk as any;
+        const text =
+          c?.type === "content-delta"
+            ? c.delta?.message?.content?.text
+            : c?.eventType === "text-generation"
+              ? c.text
+              : null;
+        if (text && typeof text === "string") {
+          streamedText += text;
         }
       } else if (provider === "vercel-ai") {
         // Vercel AI SDK stream chunks are strings
         if (typeof chunk === "string") {
-          tokenCount += estimateTokens(chunk);
+          streamedText += chunk;
         } else if ((chunk as any)?.textDelta) {
-          tokenCount += estimateTokens((chunk as any).textDelta);
+          streamedText += (chunk as any).textDelta;
         }
       }
 
@@ -259,6 +700,73 @@ export async function* wrapStream<T>(
         });
         return; // Don't call onComplete for empty responses
       }
+    } else if (provider === "gemini") {
+      fullResponse = reconstructGeminiResponse(chunks);
+      // Blocked prompts and filtered candidates carry no parts but are still
+      // reported through onComplete (recordTrace classifies them)
+      const candidate = fullResponse?.candidates?.[0];
+      if (
+        !fullResponse ||
+        (candidate.content.parts.length === 0 &&
+          !candidate.finishReason &&
+          !fullResponse.promptFeedback?.blockReason)
+      ) {
+        onError({
+          name: "EmptyResponseError",
+          message: "AI returned empty response",
+          errorType: "empty_response",
+          errorCategory: "model_error",
+          chunks: chunks.length,
+        });
+        return;
+      }
+    } else if (
+      provider === "bedrock-converse" ||
+      provider === "bedrock-invoke"
+    ) {
+      fullResponse =
+        provider === "bedrock-converse"
+          ? reconstructBedrockConverseResponse(chunks)
+          : reconstructBedrockInvokeResponse(chunks);
+      if (provider === "bedrock-invoke" && fullResponse) {
+        // Model-specific payloads are only decoded once, here
+        streamedText = fullResponse.text;
+      }
+      const hasContent =
+        provider === "bedrock-converse"
+          ? fullResponse?.output.message.content.length > 0
+          : !!fullResponse?.text;
+      if (!fullResponse || (!hasContent && !fullResponse.stopReason)) {
+        onError({
+          name: "EmptyResponseError",
+          message: "AI returned empty response",
+          errorType: "empty_response",
+          errorCategory: "model_error",
+          chunks: chunks.length,
+        });
+        return;
+      }
+    } else if (provider === "mistral" || provider === "cohere") {
+      fullResponse =
+        provider === "mistral"
+          ? reconstructMistralResponse(chunks)
+          : reconstructCohereResponse(chunks);
+      // Tool calls alone are a valid answer; truncated / failed responses
+      // carry a finish reason and are classified by recordTrace
+      const hasFinishReason =
+        provider === "mistral"
+          ? !!fullResponse?.choices?.[0]?.finishReason
+          : !!fullResponse?.finishReason;
+      if (!fullResponse || (!streamedText.trim() && !hasFinishReason)) {
+        onError({
+          name: "EmptyResponseError",
+          message: "AI returned empty response",
+          errorType: "empty_response",
+          errorCategory: "model_error",
+          chunks: chunks.length,
+        });
+        return;
+      }
     } else if (provider === "vercel-ai") {
       // Vercel AI SDK: chunks are strings, combine them
       const fullText = chunks
@@ -277,20 +785,19 @@ export async function* wrapStream<T>(
         });
         return; // Don't call onComplete for empty responses
       }
-      fullResponse = {
-        text: fullText,
-        tokenCount,
-      };
+      fullResponse = { text: fullText };
     } else {
-      fullResponse = { chunks, tokenCount };
+      fullResponse = { chunks };
     }
 
     // Call onComplete in background (don't block user)
     Promise.resolve()
       .then(() => {
         try {
+          const tokenCount = estimateTokens(streamedText);
           onComplete({
             ...fullResponse,
+            ...(provider === "vercel-ai" ? { tokenCount } : {}),
             timeToFirstToken: firstTokenTime
               ? firstTokenTime - streamStartTime
               : null,
@@ -12,6 +12,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { wrapStream } from "./utils";
 import { getTraceContext, waitUntil } from "../context";
+import { emitDiagnostic } from "../diagnostics";
 import { extractProviderError } from "./error-utils";
 import {
   buildNormalizedLLMCall,
@@ -172,35 +173,36 @@ function resolveModelForTracking(...candidates: any[]): string {
   return "unknown";
 }
 
+/**
+ * Count tokens with the Observa tokenizer (used when the provider reports
+ * no usage)
+ */
 function estimateTokensFromText(
+  opts: ObserveOptions | undefined,
   text: string | null | undefined,
+  model: string | null | undefined,
 ): number | null {
   if (!text) return null;
-  return Math.ceil(text.length / 4);
+  return opts?.observa?.countTokens
+    ? opts.observa.countTokens(text, model ?? null)
+    : Math.ceil(text.length / 4);
 }
 
-function estimateCostFromModel(
+/**
+ * Cost from the Observa pricing registry (null for unknown models)
+ */
+function estimateCostFromRegistry(
+  opts: ObserveOptions | undefined,
   model: string | null | undefined,
-  totalTokens: number | null,
-): number | null {
-  if (!model || totalTokens === null || totalTokens === undefined) return null;
-  const normalized = String(model).toLowerCase();
-  const modelName = normalized.includes("/")
-    ? normalized.split("/").pop() || normalized
-    : normalized;
-  const pricing: Array<{ match: string; pricePer1K: number }> = [
-    { match: "gpt-4o-mini", pricePer1K: 0.003 },
-    { match: "gpt-4o", pricePer1K: 0.015 },
-    { match: "gpt-4-turbo", pricePer1K: 0.01 },
-    { match: "gpt-4", pricePer1K: 0.03 },
-    { match: "gpt-3.5", pricePer1K: 0.002 },
-    { match: "claude-3-opus", pricePer1K: 0.03 },
-    { match: "claude-3-sonnet", pricePer1K: 0.012 },
-    { match: "claude-3-haiku", pricePer1K: 0.0025 },
-  ];
-  const matched = pricing.find((entry) => modelName.includes(entry.match));
-  const pricePer1K = matched ? matched.pricePer1K : 0.002;
-  return (totalTokens / 1000) * pricePer1K;
+  usage: {
+    inputTokens: number | null;
+    outputTokens: number | null;
+    cachedInputTokens: number | null;
+    reasoningTokens: number | null;
+  },
+): { inputCost: number; outputCost: number; cost: number } | null {
+  if (!opts?.observa?.estimateCost) return null;
+  return opts.observa.estimateCost({ model, ...usage });
 }
 
 function normalizeMessages(messages: any): any[] {
@@ -483,25 +485,27 @@ function attachFeedbackHelpers(
           })
       : undefined;
 
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:attachFeedbackHelpers",
-      message: "attached feedback helpers",
-      data: {
-        hasTraceId: !!traceId,
-        hasSpanId: !!spanId,
-        hasSubmitFeedback: !!submitFeedback,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "F",
+  // Signed token the browser can post to createFeedbackHandler() (only
+  // when a feedbackSecret is configured)
+  const feedbackToken: string | null =
+    traceId && spanId
+      ? (options?.observa?.createFeedbackToken?.(traceId, spanId, {
+          ...(options.userId ? { userId: options.userId } : {}),
+          ...(options.sessionId ? { sessionId: options.sessionId } : {}),
+        }) ?? null)
+      : null;
+
+  emitDiagnostic(
+    "vercel-ai.ts:attachFeedbackHelpers",
+    "attached feedback helpers",
+    () => ({
+      hasTraceId: !!traceId,
+      hasSpanId: !!spanId,
+      hasSubmitFeedback: !!submitFeedback,
+      hasFeedbackToken: !!feedbackToken,
     }),
-  }).catch(() => {});
-  // #endregion
+    options?.observa,
+  );
 
   // Convenience methods for like/dislike feedback
   const like = submitFeedback
@@ -538,6 +542,7 @@ function attachFeedbackHelpers(
     spanId,
     responseId: traceInfo.responseId ?? null,
     model: traceInfo.model ?? null,
+    feedbackToken,
     submitFeedback,
     like,
     dislike,
@@ -588,46 +593,28 @@ function wrapToolsForTracking(
   options?: ObserveOptions,
   toolCallBuffer?: ToolCallInfo[],
 ): { requestParams: any; toolsWrapped: boolean } | null {
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:wrapToolsForTracking",
-      message: "wrapToolsForTracking entry",
-      data: {
+  emitDiagnostic(
+    "vercel-ai.ts:wrapToolsForTracking",
+    "wrapToolsForTracking entry",
+    () => ({
+      hasTools: !!requestParams.tools,
+      toolsType: typeof requestParams.tools,
+      hasOptions: !!options,
+      hasObserva: !!options?.observa,
+    }),
+    options?.observa,
+  );
+  if (!requestParams.tools || !options?.observa) {
+    emitDiagnostic(
+      "vercel-ai.ts:wrapToolsForTracking",
+      "wrapToolsForTracking returning null",
+      () => ({
         hasTools: !!requestParams.tools,
         toolsType: typeof requestParams.tools,
-        hasOptions: !!options,
         hasObserva: !!options?.observa,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "D",
-    }),
-  }).catch(() => {});
-  // #endregion
-  if (!requestParams.tools || !options?.observa) {
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:wrapToolsForTracking",
-        message: "wrapToolsForTracking returning null",
-        data: {
-          hasTools: !!requestParams.tools,
-          toolsType: typeof requestParams.tools,
-          hasObserva: !!options?.observa,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "D",
       }),
-    }).catch(() => {});
-    // #endregion
+      options?.observa,
+    );
     return null;
   }
 
@@ -637,56 +624,32 @@ function wrapToolsForTracking(
       const originalFn = tool;
       const wrappedFn = async (...executeArgs: any[]) => {
         const toolStartTime = Date.now();
-        // #region agent log
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location: "vercel-ai.ts:wrapToolsForTracking",
-              message: "Tool execute called",
-              data: {
-                toolName,
-                hasArgs: executeArgs.length > 0,
-                argsPreview: executeArgs[0]
-                  ? safeJsonStringify(executeArgs[0]).substring(0, 100)
-                  : null,
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "A",
-            }),
-          },
-        ).catch(() => {});
-        // #endregion
+        emitDiagnostic(
+          "vercel-ai.ts:wrapToolsForTracking",
+          "Tool execute called",
+          () => ({
+            toolName,
+            hasArgs: executeArgs.length > 0,
+            argsPreview: executeArgs[0]
+              ? safeJsonStringify(executeArgs[0]).substring(0, 100)
+              : null,
+          }),
+          options?.observa,
+        );
         try {
           const result = await originalFn(...executeArgs);
           const latencyMs = Date.now() - toolStartTime;
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "vercel-ai.ts:wrapToolsForTracking",
-                message: "Tool execute success",
-                data: {
-                  toolName,
-                  latencyMs,
-                  hasResult: !!result,
-                  resultType: typeof result,
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "A",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "vercel-ai.ts:wrapToolsForTracking",
+            "Tool execute success",
+            () => ({
+              toolName,
+              latencyMs,
+              hasResult: !!result,
+              resultType: typeof result,
+            }),
+            options?.observa,
+          );
           if (toolCallBuffer) {
             toolCallBuffer.push({
               toolName,
@@ -704,49 +667,25 @@ function wrapToolsForTracking(
               latencyMs,
             });
           }
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "vercel-ai.ts:wrapToolsForTracking",
-                message: "trackToolCall invoked (success)",
-                data: { toolName, latencyMs },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "G",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "vercel-ai.ts:wrapToolsForTracking",
+            "trackToolCall invoked (success)",
+            () => ({ toolName, latencyMs }),
+            options?.observa,
+          );
           return result;
         } catch (error: any) {
           const latencyMs = Date.now() - toolStartTime;
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "vercel-ai.ts:wrapToolsForTracking",
-                message: "Tool execute error",
-                data: {
-                  toolName,
-                  latencyMs,
-                  errorMessage: error?.message,
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "A",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "vercel-ai.ts:wrapToolsForTracking",
+            "Tool execute error",
+            () => ({
+              toolName,
+              latencyMs,
+              errorMessage: error?.message,
+            }),
+            options?.observa,
+          );
           if (toolCallBuffer) {
             toolCallBuffer.push({
               toolName,
@@ -764,24 +703,12 @@ function wrapToolsForTracking(
               errorMessage: error?.message || "Unknown error",
             });
           }
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "vercel-ai.ts:wrapToolsForTracking",
-                message: "trackToolCall invoked (error)",
-                data: { toolName, latencyMs },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "G",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "vercel-ai.ts:wrapToolsForTracking",
+            "trackToolCall invoked (error)",
+            () => ({ toolName, latencyMs }),
+            options?.observa,
+          );
           throw error;
         }
       };
@@ -793,56 +720,32 @@ function wrapToolsForTracking(
       ...tool,
       execute: async (...executeArgs: any[]) => {
         const toolStartTime = Date.now();
-        // #region agent log
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location: "vercel-ai.ts:wrapToolsForTracking",
-              message: "Tool execute called",
-              data: {
-                toolName,
-                hasArgs: executeArgs.length > 0,
-                argsPreview: executeArgs[0]
-                  ? safeJsonStringify(executeArgs[0]).substring(0, 100)
-                  : null,
-              },
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "A",
-            }),
-          },
-        ).catch(() => {});
-        // #endregion
+        emitDiagnostic(
+          "vercel-ai.ts:wrapToolsForTracking",
+          "Tool execute called",
+          () => ({
+            toolName,
+            hasArgs: executeArgs.length > 0,
+            argsPreview: executeArgs[0]
+              ? safeJsonStringify(executeArgs[0]).substring(0, 100)
+              : null,
+          }),
+          options?.observa,
+        );
         try {
           const result = await originalExecute(...executeArgs);
           const latencyMs = Date.now() - toolStartTime;
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "vercel-ai.ts:wrapToolsForTracking",
-                message: "Tool execute success",
-                data: {
-                  toolName,
-                  latencyMs,
-                  hasResult: !!result,
-                  resultType: typeof result,
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "A",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "vercel-ai.ts:wrapToolsForTracking",
+            "Tool execute success",
+            () => ({
+              toolName,
+              latencyMs,
+              hasResult: !!result,
+              resultType: typeof result,
+            }),
+            options?.observa,
+          );
           if (toolCallBuffer) {
             toolCallBuffer.push({
               toolName,
@@ -860,49 +763,25 @@ function wrapToolsForTracking(
               latencyMs,
             });
           }
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "vercel-ai.ts:wrapToolsForTracking",
-                message: "trackToolCall invoked (success)",
-                data: { toolName, latencyMs },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "G",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "vercel-ai.ts:wrapToolsForTracking",
+            "trackToolCall invoked (success)",
+            () => ({ toolName, latencyMs }),
+            options?.observa,
+          );
           return result;
         } catch (error: any) {
           const latencyMs = Date.now() - toolStartTime;
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "vercel-ai.ts:wrapToolsForTracking",
-                message: "Tool execute error",
-                data: {
-                  toolName,
-                  latencyMs,
-                  errorMessage: error?.message,
-                },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "A",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "vercel-ai.ts:wrapToolsForTracking",
+            "Tool execute error",
+            () => ({
+              toolName,
+              latencyMs,
+              errorMessage: error?.message,
+            }),
+            options?.observa,
+          );
           if (toolCallBuffer) {
             toolCallBuffer.push({
               toolName,
@@ -920,24 +799,12 @@ function wrapToolsForTracking(
               errorMessage: error?.message || "Unknown error",
             });
           }
-          // #region agent log
-          fetch(
-            "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-            {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                location: "vercel-ai.ts:wrapToolsForTracking",
-                message: "trackToolCall invoked (error)",
-                data: { toolName, latencyMs },
-                timestamp: Date.now(),
-                sessionId: "debug-session",
-                runId: "run1",
-                hypothesisId: "G",
-              }),
-            },
-          ).catch(() => {});
-          // #endregion
+          emitDiagnostic(
+            "vercel-ai.ts:wrapToolsForTracking",
+            "trackToolCall invoked (error)",
+            () => ({ toolName, latencyMs }),
+            options?.observa,
+          );
           throw error;
         }
       },
@@ -993,27 +860,18 @@ async function traceGenerateText(
   const provider = extractProviderFromModel(model);
   const modelIdentifier = extractModelIdentifier(model);
   const preCallTools = requestParams?.tools ?? null;
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:traceGenerateText",
-      message: "generateText model inputs",
-      data: {
-        modelType: typeof requestParams.model,
-        modelIdentifier,
-        provider,
-        hasMessages: Array.isArray(requestParams.messages),
-        hasPrompt: !!requestParams.prompt,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "A",
+  emitDiagnostic(
+    "vercel-ai.ts:traceGenerateText",
+    "generateText model inputs",
+    () => ({
+      modelType: typeof requestParams.model,
+      modelIdentifier,
+      provider,
+      hasMessages: Array.isArray(requestParams.messages),
+      hasPrompt: !!requestParams.prompt,
     }),
-  }).catch(() => {});
-  // #endregion
+    options?.observa,
+  );
 
   let traceStarted = false;
   let startedTraceId: string | null = null;
@@ -1027,62 +885,37 @@ async function traceGenerateText(
     typeof options.observa.getCurrentTraceId === "function"
       ? options.observa.getCurrentTraceId()
       : null;
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:traceGenerateText",
-      message: "trace start decision",
-      data: {
-        hasActiveTraceFn,
-        hasActiveTrace,
-        existingTraceId,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "L",
+  emitDiagnostic(
+    "vercel-ai.ts:traceGenerateText",
+    "trace start decision",
+    () => ({
+      hasActiveTraceFn,
+      hasActiveTrace,
+      existingTraceId,
     }),
-  }).catch(() => {});
-  // #endregion
+    options?.observa,
+  );
   if (hasActiveTraceFn && !hasActiveTrace) {
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:traceGenerateText",
-        message: "Starting new trace for generateText",
-        data: { hasObserva: !!options?.observa },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "F",
-      }),
-    }).catch(() => {});
-    // #endregion
-    startedTraceId = options.observa.startTrace({ name: options?.name });
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:traceGenerateText",
-        message: "startTrace return value",
-        data: {
-          startedTraceId,
-          currentTraceId: options?.observa?.getCurrentTraceId
-            ? options.observa.getCurrentTraceId()
-            : null,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "H",
+    emitDiagnostic(
+      "vercel-ai.ts:traceGenerateText",
+      "Starting new trace for generateText",
+      () => ({ hasObserva: !!options?.observa }),
+      options?.observa,
+    );
+    startedTraceId = options.observa.startTrace({
+      name: options?.name,
+    });
+    emitDiagnostic(
+      "vercel-ai.ts:traceGenerateText",
+      "startTrace return value",
+      () => ({
+        startedTraceId,
+        currentTraceId: options?.observa?.getCurrentTraceId
+          ? options.observa.getCurrentTraceId()
+          : null,
       }),
-    }).catch(() => {});
-    // #endregion
+      options?.observa,
+    );
     traceStarted = true;
   }
   const traceIdForRequest = startedTraceId || existingTraceId;
@@ -1405,57 +1238,34 @@ async function traceStreamText(
   args: any[],
   options?: ObserveOptions,
 ) {
-  // #region agent log
-  console.log("[Observa DEBUG] traceStreamText entry:", {
-    hasOptions: !!options,
-    hasObserva: !!options?.observa,
-    argsLength: args.length,
-  });
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:375",
-      message: "traceStreamText entry",
-      data: {
-        hasOptions: !!options,
-        hasObserva: !!options?.observa,
-        argsLength: args.length,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "E",
+  emitDiagnostic(
+    "vercel-ai.ts:traceStreamText",
+    "traceStreamText entry",
+    () => ({
+      hasOptions: !!options,
+      hasObserva: !!options?.observa,
+      argsLength: args.length,
     }),
-  }).catch(() => {});
-  // #endregion
+    options?.observa,
+  );
   const startTime = Date.now();
   const requestParams = args[0] || {};
   const model = requestParams.model || "unknown";
   const provider = extractProviderFromModel(model);
   const modelIdentifier = extractModelIdentifier(model);
   const preCallTools = requestParams?.tools ?? null;
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:traceStreamText",
-      message: "streamText model inputs",
-      data: {
-        modelType: typeof requestParams.model,
-        modelIdentifier,
-        provider,
-        hasMessages: Array.isArray(requestParams.messages),
-        hasPrompt: !!requestParams.prompt,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "A",
+  emitDiagnostic(
+    "vercel-ai.ts:traceStreamText",
+    "streamText model inputs",
+    () => ({
+      modelType: typeof requestParams.model,
+      modelIdentifier,
+      provider,
+      hasMessages: Array.isArray(requestParams.messages),
+      hasPrompt: !!requestParams.prompt,
     }),
-  }).catch(() => {});
-  // #endregion
+    options?.observa,
+  );
 
   // Extract input text early (before operation starts) to ensure it's captured even on errors
   let inputText: string | null = null;
@@ -1494,35 +1304,26 @@ async function traceStreamText(
   const lastUserMessage = Array.isArray(requestParams.messages)
     ? [...requestParams.messages].reverse().find((m: any) => m.role === "user")
     : null;
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:traceStreamText",
-      message: "messages summary before trace",
-      data: {
-        messagesCount: Array.isArray(requestParams.messages)
-          ? requestParams.messages.length
-          : 0,
-        firstRole: messageRoles[0] || null,
-        lastRole: messageRoles[messageRoles.length - 1] || null,
-        lastUserMessagePreview: lastUserMessage?.content
-          ? safeJsonStringify(lastUserMessage.content).substring(0, 100)
-          : null,
-        hasActiveTraceMethod:
-          typeof options?.observa?.hasActiveTrace === "function",
-        currentTraceId: options?.observa?.getCurrentTraceId
-          ? options.observa.getCurrentTraceId()
-          : null,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "K",
+  emitDiagnostic(
+    "vercel-ai.ts:traceStreamText",
+    "messages summary before trace",
+    () => ({
+      messagesCount: Array.isArray(requestParams.messages)
+        ? requestParams.messages.length
+        : 0,
+      firstRole: messageRoles[0] || null,
+      lastRole: messageRoles[messageRoles.length - 1] || null,
+      lastUserMessagePreview: lastUserMessage?.content
+        ? safeJsonStringify(lastUserMessage.content).substring(0, 100)
+        : null,
+      hasActiveTraceMethod:
+        typeof options?.observa?.hasActiveTrace === "function",
+      currentTraceId: options?.observa?.getCurrentTraceId
+        ? options.observa.getCurrentTraceId()
+        : null,
     }),
-  }).catch(() => {});
-  // #endregion
+    options?.observa,
+  );
 
   let traceStarted = false;
   let startedTraceId: string | null = null;
@@ -1536,91 +1337,57 @@ async function traceStreamText(
     typeof options.observa.getCurrentTraceId === "function"
       ? options.observa.getCurrentTraceId()
       : null;
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:traceStreamText",
-      message: "trace start decision",
-      data: {
-        hasActiveTraceFn,
-        hasActiveTrace,
-        existingTraceId,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "L",
+  emitDiagnostic(
+    "vercel-ai.ts:traceStreamText",
+    "trace start decision",
+    () => ({
+      hasActiveTraceFn,
+      hasActiveTrace,
+      existingTraceId,
     }),
-  }).catch(() => {});
-  // #endregion
+    options?.observa,
+  );
   if (hasActiveTraceFn && !hasActiveTrace) {
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:traceStreamText",
-        message: "Starting new trace for streamText",
-        data: { hasObserva: !!options?.observa },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "F",
-      }),
-    }).catch(() => {});
-    // #endregion
-    startedTraceId = options.observa.startTrace({ name: options?.name });
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:traceStreamText",
-        message: "startTrace return value",
-        data: {
-          startedTraceId,
-          currentTraceId: options?.observa?.getCurrentTraceId
-            ? options.observa.getCurrentTraceId()
-            : null,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "H",
+    emitDiagnostic(
+      "vercel-ai.ts:traceStreamText",
+      "Starting new trace for streamText",
+      () => ({ hasObserva: !!options?.observa }),
+      options?.observa,
+    );
+    startedTraceId = options.observa.startTrace({
+      name: options?.name,
+    });
+    emitDiagnostic(
+      "vercel-ai.ts:traceStreamText",
+      "startTrace return value",
+      () => ({
+        startedTraceId,
+        currentTraceId: options?.observa?.getCurrentTraceId
+          ? options.observa.getCurrentTraceId()
+          : null,
       }),
-    }).catch(() => {});
-    // #endregion
+      options?.observa,
+    );
     traceStarted = true;
   }
   const traceIdForRequest = startedTraceId || existingTraceId;
 
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:624",
-      message: "Before wrapToolsForTracking - checking requestParams",
-      data: {
-        hasTools: !!requestParams.tools,
-        toolsType: typeof requestParams.tools,
-        toolsKeys: requestParams.tools ? Object.keys(requestParams.tools) : [],
-        toolsCount: requestParams.tools
-          ? Object.keys(requestParams.tools).length
-          : 0,
-        hasOptions: !!options,
-        hasObserva: !!options?.observa,
-        requestParamsKeys: Object.keys(requestParams),
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "D",
+  emitDiagnostic(
+    "vercel-ai.ts:traceStreamText",
+    "Before wrapToolsForTracking - checking requestParams",
+    () => ({
+      hasTools: !!requestParams.tools,
+      toolsType: typeof requestParams.tools,
+      toolsKeys: requestParams.tools ? Object.keys(requestParams.tools) : [],
+      toolsCount: requestParams.tools
+        ? Object.keys(requestParams.tools).length
+        : 0,
+      hasOptions: !!options,
+      hasObserva: !!options?.observa,
+      requestParamsKeys: Object.keys(requestParams),
     }),
-  }).catch(() => {});
-  // #endregion
+    options?.observa,
+  );
 
   // Wrap tools to track tool calls
   const wrapResult = wrapToolsForTracking(
@@ -1629,60 +1396,37 @@ async function traceStreamText(
     toolCallBuffer,
   );
   const toolsWrapped = wrapResult?.toolsWrapped ?? false;
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:650",
-      message: "After wrapToolsForTracking",
-      data: {
-        hasWrappedRequestParams: !!wrapResult?.requestParams,
-        wrappedToolsKeys:
-          wrapResult?.requestParams?.tools &&
-          typeof wrapResult.requestParams.tools === "object"
-            ? Object.keys(wrapResult.requestParams.tools)
-            : [],
-        toolsWrapped,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "D",
+  emitDiagnostic(
+    "vercel-ai.ts:traceStreamText",
+    "After wrapToolsForTracking",
+    () => ({
+      hasWrappedRequestParams: !!wrapResult?.requestParams,
+      wrappedToolsKeys:
+        wrapResult?.requestParams?.tools &&
+        typeof wrapResult.requestParams.tools === "object"
+          ? Object.keys(wrapResult.requestParams.tools)
+          : [],
+      toolsWrapped,
     }),
-  }).catch(() => {});
-  // #endregion
+    options?.observa,
+  );
   if (wrapResult?.requestParams) {
     args[0] = wrapResult.requestParams;
   }
 
   try {
     const result = await originalFn(...args);
-    // #region agent log
-    console.log("[Observa DEBUG] after originalFn call:", {
-      hasTextStream: !!result.textStream,
-      hasUsage: !!result.usage,
-      resultKeys: Object.keys(result),
-      textStreamType: typeof result.textStream,
-    });
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:398",
-        message: "after originalFn call",
-        data: {
-          hasTextStream: !!result.textStream,
-          hasUsage: !!result.usage,
-          resultKeys: Object.keys(result),
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "C",
+    emitDiagnostic(
+      "vercel-ai.ts:traceStreamText",
+      "after originalFn call",
+      () => ({
+        hasTextStream: !!result.textStream,
+        hasUsage: !!result.usage,
+        resultKeys: Object.keys(result),
+        textStreamType: typeof result.textStream,
       }),
-    }).catch(() => {});
-    // #endregion
+      options?.observa,
+    );
     // Vercel AI SDK streamText returns an object with .textStream property
     // textStream is a ReadableStream in modern Vercel AI SDK versions
     // We use tee() to split it, preserving the ReadableStream interface
@@ -1695,66 +1439,33 @@ async function traceStreamText(
       const isReadableStream =
         originalTextStream &&
         typeof originalTextStream.getReader === "function";
-      // #region agent log
-      console.log("[Observa DEBUG] isReadableStream check:", {
-        isReadableStream,
-        hasGetReader: typeof originalTextStream?.getReader,
-        textStreamConstructor: originalTextStream?.constructor?.name,
-      });
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "vercel-ai.ts:412",
-            message: "isReadableStream check",
-            data: {
-              isReadableStream,
-              hasGetReader: typeof originalTextStream?.getReader,
-            },
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "C",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "vercel-ai.ts:traceStreamText",
+        "isReadableStream check",
+        () => ({
+          isReadableStream,
+          hasGetReader: typeof originalTextStream?.getReader,
+          textStreamConstructor: originalTextStream?.constructor?.name,
+        }),
+        options?.observa,
+      );
       if (isReadableStream) {
         // It's a ReadableStream - use tee() to split it
         // This preserves the ReadableStream interface including pipeThrough
         const wrappedStream = wrapReadableStream(
           originalTextStream as ReadableStream<Uint8Array>,
           async (fullResponse: any) => {
-            // #region agent log
-            console.log("[Observa DEBUG] onComplete callback called:", {
-              fullResponseKeys: Object.keys(fullResponse),
-              hasText: !!fullResponse.text,
-              textLength: fullResponse.text?.length,
-              textPreview: fullResponse.text?.substring(0, 100),
-            });
-            fetch(
-              "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-              {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  location: "vercel-ai.ts:417",
-                  message: "onComplete callback called",
-                  data: {
-                    fullResponseKeys: Object.keys(fullResponse),
-                    hasText: !!fullResponse.text,
-                    textLength: fullResponse.text?.length,
-                  },
-                  timestamp: Date.now(),
-                  sessionId: "debug-session",
-                  runId: "run1",
-                  hypothesisId: "A",
-                }),
-              },
-            ).catch(() => {});
-            // #endregion
+            emitDiagnostic(
+              "vercel-ai.ts:traceStreamText",
+              "onComplete callback called",
+              () => ({
+                fullResponseKeys: Object.keys(fullResponse),
+                hasText: !!fullResponse.text,
+                textLength: fullResponse.text?.length,
+                textPreview: fullResponse.text?.substring(0, 100),
+              }),
+              options?.observa,
+            );
             // CRITICAL FIX: Extract usage from result.usage (which may be a Promise)
             // Vercel AI SDK's streamText result.usage resolves when stream completes
             let usage: any = {};
@@ -1773,29 +1484,17 @@ async function traceStreamText(
               // If usage extraction fails, continue with empty usage
               console.warn("[Observa] Failed to extract usage from result:", e);
             }
-            // #region agent log
-            fetch(
-              "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-              {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  location: "vercel-ai.ts:450",
-                  message: "before recordTrace call",
-                  data: {
-                    usageKeys: Object.keys(usage),
-                    fullResponseText: fullResponse.text?.substring(0, 50),
-                    hasRequestParamsPrompt: !!requestParams.prompt,
-                    hasRequestParamsMessages: !!requestParams.messages,
-                  },
-                  timestamp: Date.now(),
-                  sessionId: "debug-session",
-                  runId: "run1",
-                  hypothesisId: "B",
-                }),
-              },
-            ).catch(() => {});
-            // #endregion
+            emitDiagnostic(
+              "vercel-ai.ts:traceStreamText",
+              "before recordTrace call",
+              () => ({
+                usageKeys: Object.keys(usage),
+                fullResponseText: fullResponse.text?.substring(0, 50),
+                hasRequestParamsPrompt: !!requestParams.prompt,
+                hasRequestParamsMessages: !!requestParams.messages,
+              }),
+              options?.observa,
+            );
             const responseMessages =
               result.messages ||
               result.response?.messages ||
@@ -1825,29 +1524,17 @@ async function traceStreamText(
               preCallTools,
             );
 
-            // #region agent log
-            fetch(
-              "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-              {
-                method: "POST",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({
-                  location: "vercel-ai.ts:traceStreamText",
-                  message: "trace id before recordTrace",
-                  data: {
-                    startedTraceId,
-                    currentTraceId: options?.observa?.getCurrentTraceId
-                      ? options.observa.getCurrentTraceId()
-                      : null,
-                  },
-                  timestamp: Date.now(),
-                  sessionId: "debug-session",
-                  runId: "run1",
-                  hypothesisId: "J",
-                }),
-              },
-            ).catch(() => {});
-            // #endregion
+            emitDiagnostic(
+              "vercel-ai.ts:traceStreamText",
+              "trace id before recordTrace",
+              () => ({
+                startedTraceId,
+                currentTraceId: options?.observa?.getCurrentTraceId
+                  ? options.observa.getCurrentTraceId()
+                  : null,
+              }),
+              options?.observa,
+            );
 
             if (traceInfo && wrappedResult) {
               attachFeedbackHelpers(
@@ -2094,50 +1781,29 @@ function recordTrace(
   outputText: string | null;
 } | null {
   const duration = Date.now() - start;
-  // #region agent log
-  fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      location: "vercel-ai.ts:550",
-      message: "recordTrace entry",
-      data: {
-        reqKeys: Object.keys(req),
-        resKeys: Object.keys(res),
-        duration,
-        hasObserva: !!opts?.observa,
-      },
-      timestamp: Date.now(),
-      sessionId: "debug-session",
-      runId: "run1",
-      hypothesisId: "B",
+  emitDiagnostic(
+    "vercel-ai.ts:recordTrace",
+    "recordTrace entry",
+    () => ({
+      reqKeys: Object.keys(req),
+      resKeys: Object.keys(res),
+      duration,
+      hasObserva: !!opts?.observa,
     }),
-  }).catch(() => {});
-  // #endregion
+    opts?.observa,
+  );
   try {
     const sanitizedReq = opts?.redact ? opts.redact(req) : req;
     const sanitizedRes = opts?.redact ? opts.redact(res) : res; // Fixed: was using req instead of res
 
     // CRITICAL: Validate that observa instance is provided
     if (!opts?.observa) {
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "vercel-ai.ts:560",
-            message: "recordTrace: observa instance missing",
-            data: {},
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "E",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
+      emitDiagnostic(
+        "vercel-ai.ts:recordTrace",
+        "recordTrace: observa instance missing",
+        () => ({}),
+        opts?.observa,
+      );
       console.error(
         "[Observa] ⚠️ CRITICAL: observa instance not provided to observeVercelAI(). " +
           "Tracking is disabled. Make sure you're using observa.observeVercelAI() " +
@@ -2157,28 +1823,19 @@ function recordTrace(
       res?.model,
       trackedModel,
     );
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:recordTrace",
-        message: "resolved models for tracking",
-        data: {
-          trackedModel,
-          trackedResponseModel,
-          reqModelType: typeof req?.model,
-          resModelType: typeof res?.model,
-          sanitizedReqModelType: typeof sanitizedReq?.model,
-          sanitizedResModelType: typeof sanitizedRes?.model,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "B",
+    emitDiagnostic(
+      "vercel-ai.ts:recordTrace",
+      "resolved models for tracking",
+      () => ({
+        trackedModel,
+        trackedResponseModel,
+        reqModelType: typeof req?.model,
+        resModelType: typeof res?.model,
+        sanitizedReqModelType: typeof sanitizedReq?.model,
+        sanitizedResModelType: typeof sanitizedRes?.model,
       }),
-    }).catch(() => {});
-    // #endregion
+      opts?.observa,
+    );
 
     // Extract additional metadata from request (matching Langfuse's OTEL attributes)
     // Helper function to extract metadata from request
@@ -2248,28 +1905,33 @@ function recordTrace(
 
     // Extract input text from prompt or messages
     let inputText: string | null = null;
-    // #region agent log
-    console.log("[Observa DEBUG] recordTrace: sanitizedReq structure:", {
-      hasPrompt: !!sanitizedReq.prompt,
-      promptType: typeof sanitizedReq.prompt,
-      isPromptArray: Array.isArray(sanitizedReq.prompt),
-      hasMessages: !!sanitizedReq.messages,
-      messagesType: typeof sanitizedReq.messages,
-      isMessagesArray: Array.isArray(sanitizedReq.messages),
-      messagesLength: Array.isArray(sanitizedReq.messages)
-        ? sanitizedReq.messages.length
-        : 0,
-      firstMessageStructure:
-        Array.isArray(sanitizedReq.messages) && sanitizedReq.messages[0]
-          ? {
-              keys: Object.keys(sanitizedReq.messages[0]),
-              hasContent: !!sanitizedReq.messages[0].content,
-              contentType: typeof sanitizedReq.messages[0].content,
-              isContentArray: Array.isArray(sanitizedReq.messages[0].content),
-            }
-          : null,
-    });
-    // #endregion
+    emitDiagnostic(
+      "vercel-ai.ts:recordTrace",
+      "recordTrace: sanitizedReq structure",
+      () => ({
+        hasPrompt: !!sanitizedReq.prompt,
+        promptType: typeof sanitizedReq.prompt,
+        isPromptArray: Array.isArray(sanitizedReq.prompt),
+        hasMessages: !!sanitizedReq.messages,
+        messagesType: typeof sanitizedReq.messages,
+        isMessagesArray: Array.isArray(sanitizedReq.messages),
+        messagesLength: Array.isArray(sanitizedReq.messages)
+          ? sanitizedReq.messages.length
+          : 0,
+        firstMessageStructure:
+          Array.isArray(sanitizedReq.messages) && sanitizedReq.messages[0]
+            ? {
+                keys: Object.keys(sanitizedReq.messages[0]),
+                hasContent: !!sanitizedReq.messages[0].content,
+                contentType: typeof sanitizedReq.messages[0].content,
+                isContentArray: Array.isArray(
+                  sanitizedReq.messages[0].content,
+                ),
+              }
+            : null,
+      }),
+      opts?.observa,
+    );
     if (sanitizedReq.prompt) {
       // Don't treat messages array as prompt - if prompt is an array, it's actually messages
       if (Array.isArray(sanitizedReq.prompt)) {
@@ -2326,35 +1988,19 @@ function recordTrace(
             },
           ]
         : null);
-    // #region agent log
-    console.log("[Observa DEBUG] recordTrace: extracted data:", {
-      inputText: inputText?.substring(0, 50),
-      inputTextLength: inputText?.length,
-      outputText: outputText?.substring(0, 50),
-      outputTextLength: outputText?.length,
-      sanitizedResKeys: Object.keys(sanitizedRes),
-      sanitizedReqKeys: Object.keys(sanitizedReq),
-    });
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:590",
-        message: "recordTrace: extracted data",
-        data: {
-          inputText: inputText?.substring(0, 50),
-          inputTextLength: inputText?.length,
-          outputText: outputText?.substring(0, 50),
-          outputTextLength: outputText?.length,
-          sanitizedResKeys: Object.keys(sanitizedRes),
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "B",
+    emitDiagnostic(
+      "vercel-ai.ts:recordTrace",
+      "recordTrace: extracted data",
+      () => ({
+        inputText: inputText?.substring(0, 50),
+        inputTextLength: inputText?.length,
+        outputText: outputText?.substring(0, 50),
+        outputTextLength: outputText?.length,
+        sanitizedResKeys: Object.keys(sanitizedRes),
+        sanitizedReqKeys: Object.keys(sanitizedReq),
       }),
-    }).catch(() => {});
-    // #endregion
+      opts?.observa,
+    );
     // Extract finish reason
     const finishReason = sanitizedRes.finishReason || null;
 
@@ -2403,13 +2049,15 @@ function recordTrace(
       const inputTokens = usage.promptTokens || usage.inputTokens || null;
       const outputTokens = usage.completionTokens || usage.outputTokens || null;
       const totalTokens = usage.totalTokens || null;
-      const inputCost =
+      const cachedInputTokens = (usage as any).cachedInputTokens ?? null;
+      const reasoningTokens = (usage as any).reasoningTokens ?? null;
+      let inputCost =
         (usage as any).inputCost ||
         (usage as any).promptCost ||
         (usage as any).input_cost ||
         (usage as any).prompt_cost ||
         null;
-      const outputCost =
+      let outputCost =
         (usage as any).outputCost ||
         (usage as any).completionCost ||
         (usage as any).output_cost ||
@@ -2420,10 +2068,20 @@ function recordTrace(
         (usage as any).total_cost ||
         (inputCost || 0) + (outputCost || 0) ||
         null;
-      const estimatedCost =
+      const estimate =
         totalCost === null
-          ? estimateCostFromModel(trackedModel, totalTokens)
-          : totalCost;
+          ? estimateCostFromRegistry(opts, trackedModel, {
+              inputTokens,
+              outputTokens,
+              cachedInputTokens,
+              reasoningTokens,
+            })
+          : null;
+      if (estimate) {
+        inputCost = estimate.inputCost;
+        outputCost = estimate.outputCost;
+      }
+      const estimatedCost = totalCost ?? estimate?.cost ?? null;
 
       // Record LLM call with null output to show the attempt
       const errorTraceId =
@@ -2454,6 +2112,8 @@ function recordTrace(
           inputTokens,
           outputTokens,
           totalTokens,
+          cachedInputTokens,
+          reasoningTokens,
         },
         toolDefsOverride: sanitizedReq?.tools ?? preCallTools,
         cost: estimatedCost,
@@ -2475,6 +2135,8 @@ function recordTrace(
         inputTokens,
         outputTokens,
         totalTokens,
+        cachedInputTokens,
+        reasoningTokens,
         cost: estimatedCost,
         inputCost,
         outputCost,
@@ -2533,25 +2195,18 @@ function recordTrace(
       });
 
       if (traceStarted && opts?.observa?.endTrace) {
-        // #region agent log
-        fetch(
-          "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              location: "vercel-ai.ts:recordTrace",
-              message: "Ending trace after failed response",
-              data: {},
-              timestamp: Date.now(),
-              sessionId: "debug-session",
-              runId: "run1",
-              hypothesisId: "F",
-            }),
-          },
-        ).catch(() => {});
-        // #endregion
-        opts.observa.endTrace({ outcome: "error" }).catch(() => {});
+        emitDiagnostic(
+          "vercel-ai.ts:recordTrace",
+          "Ending trace after failed response",
+          () => ({}),
+          opts?.observa,
+        );
+        opts.observa
+          .endTrace({
+            outcome: "error",
+            traceId: explicitTraceId ?? undefined,
+          })
+          .catch(() => {});
       }
 
       // Don't record as successful trace
@@ -2562,36 +2217,27 @@ function recordTrace(
     // Extract usage
     const usage = sanitizedRes.usage || {};
     const usageRaw = (usage as any)?.raw || usage;
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:recordTrace",
-        message: "usage values before mapping",
-        data: {
-          usageKeys: Object.keys(usage),
-          rawKeys:
-            usageRaw && typeof usageRaw === "object"
-              ? Object.keys(usageRaw)
-              : [],
-          inputTokens: usage.inputTokens ?? null,
-          outputTokens: usage.outputTokens ?? null,
-          totalTokens: usage.totalTokens ?? null,
-          promptTokens: usage.promptTokens ?? null,
-          completionTokens: usage.completionTokens ?? null,
-          rawPromptTokens: usageRaw?.prompt_tokens ?? usageRaw?.promptTokens,
-          rawCompletionTokens:
-            usageRaw?.completion_tokens ?? usageRaw?.completionTokens,
-          rawTotalTokens: usageRaw?.total_tokens ?? usageRaw?.totalTokens,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "H",
+    emitDiagnostic(
+      "vercel-ai.ts:recordTrace",
+      "usage values before mapping",
+      () => ({
+        usageKeys: Object.keys(usage),
+        rawKeys:
+          usageRaw && typeof usageRaw === "object"
+            ? Object.keys(usageRaw)
+            : [],
+        inputTokens: usage.inputTokens ?? null,
+        outputTokens: usage.outputTokens ?? null,
+        totalTokens: usage.totalTokens ?? null,
+        promptTokens: usage.promptTokens ?? null,
+        completionTokens: usage.completionTokens ?? null,
+        rawPromptTokens: usageRaw?.prompt_tokens ?? usageRaw?.promptTokens,
+        rawCompletionTokens:
+          usageRaw?.completion_tokens ?? usageRaw?.completionTokens,
+        rawTotalTokens: usageRaw?.total_tokens ?? usageRaw?.totalTokens,
       }),
-    }).catch(() => {});
-    // #endregion
+      opts?.observa,
+    );
     let inputTokens =
       usage.promptTokens ||
       usage.inputTokens ||
@@ -2614,11 +2260,17 @@ function recordTrace(
       usageRaw?.totalTokens ||
       null;
 
+    let usageSource: "provider_reported" | "estimated" | null =
+      inputTokens !== null || outputTokens !== null
+        ? "provider_reported"
+        : null;
     if (inputTokens === null && inputText) {
-      inputTokens = estimateTokensFromText(inputText);
+      inputTokens = estimateTokensFromText(opts, inputText, trackedModel);
+      usageSource = "estimated";
     }
     if (outputTokens === null && outputText) {
-      outputTokens = estimateTokensFromText(outputText);
+      outputTokens = estimateTokensFromText(opts, outputText, trackedModel);
+      usageSource = "estimated";
     }
     if (
       totalTokens === null &&
@@ -2626,6 +2278,16 @@ function recordTrace(
     ) {
       totalTokens = (inputTokens || 0) + (outputTokens || 0);
     }
+    const cachedInputTokens =
+      usage.cachedInputTokens ??
+      usageRaw?.cachedInputTokens ??
+      usageRaw?.prompt_tokens_details?.cached_tokens ??
+      null;
+    const reasoningTokens =
+      usage.reasoningTokens ??
+      usageRaw?.reasoningTokens ??
+      usageRaw?.completion_tokens_details?.reasoning_tokens ??
+      null;
 
     let inputCost =
       usage.inputCost ||
@@ -2647,54 +2309,46 @@ function recordTrace(
       totalCost = (inputCost || 0) + (outputCost || 0);
     }
     if (totalCost === null) {
-      totalCost = estimateCostFromModel(trackedModel, totalTokens);
+      const estimate = estimateCostFromRegistry(opts, trackedModel, {
+        inputTokens,
+        outputTokens,
+        cachedInputTokens,
+        reasoningTokens,
+      });
+      if (estimate) {
+        inputCost = estimate.inputCost;
+        outputCost = estimate.outputCost;
+        totalCost = estimate.cost;
+      }
     }
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:recordTrace",
-        message: "cost estimation inputs",
-        data: {
-          modelType: typeof (sanitizedReq.model || sanitizedRes.model),
-          modelValue:
-            typeof (sanitizedReq.model || sanitizedRes.model) === "string"
-              ? sanitizedReq.model || sanitizedRes.model
-              : null,
-          totalTokens,
-          totalCost,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "I",
+    emitDiagnostic(
+      "vercel-ai.ts:recordTrace",
+      "cost estimation inputs",
+      () => ({
+        modelType: typeof (sanitizedReq.model || sanitizedRes.model),
+        modelValue:
+          typeof (sanitizedReq.model || sanitizedRes.model) === "string"
+            ? sanitizedReq.model || sanitizedRes.model
+            : null,
+        totalTokens,
+        totalCost,
       }),
-    }).catch(() => {});
-    // #endregion
-
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:669",
-        message: "trackLLMCall call",
-        data: {
-          input: inputText?.substring(0, 50),
-          output: outputText?.substring(0, 50),
-          inputTokens,
-          outputTokens,
-          totalTokens,
-          latencyMs: duration,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "B",
+      opts?.observa,
+    );
+
+    emitDiagnostic(
+      "vercel-ai.ts:recordTrace",
+      "trackLLMCall call",
+      () => ({
+        input: inputText?.substring(0, 50),
+        output: outputText?.substring(0, 50),
+        inputTokens,
+        outputTokens,
+        totalTokens,
+        latencyMs: duration,
       }),
-    }).catch(() => {});
-    // #endregion
+      opts?.observa,
+    );
     const resolvedTraceId =
       explicitTraceId ||
       (opts?.observa?.getCurrentTraceId
@@ -2717,6 +2371,8 @@ function recordTrace(
         inputTokens,
         outputTokens,
         totalTokens,
+        cachedInputTokens,
+        reasoningTokens,
       },
       toolDefsOverride: sanitizedReq?.tools ?? preCallTools,
       cost: totalCost,
@@ -2738,6 +2394,9 @@ function recordTrace(
       inputTokens,
       outputTokens,
       totalTokens,
+      cachedInputTokens,
+      reasoningTokens,
+      usageSource,
       latencyMs: duration,
       timeToFirstTokenMs: timeToFirstToken || null,
       streamingDurationMs: streamingDuration || null,
@@ -2760,53 +2419,35 @@ function recordTrace(
       tools: normalized.toolDefinitions ?? requestMetadata.tools ?? null,
     });
 
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:recordTrace",
-        message: "trace id resolution",
-        data: {
-          explicitTraceId,
-          resolvedTraceId,
-          hasGetCurrentTraceId: !!opts?.observa?.getCurrentTraceId,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "K",
+    emitDiagnostic(
+      "vercel-ai.ts:recordTrace",
+      "trace id resolution",
+      () => ({
+        explicitTraceId,
+        resolvedTraceId,
+        hasGetCurrentTraceId: !!opts?.observa?.getCurrentTraceId,
       }),
-    }).catch(() => {});
-    // #endregion
-
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:recordTrace",
-        message: "llm_call payload summary",
-        data: {
-          inputLength: inputText?.length || 0,
-          outputLength: outputText?.length || 0,
-          inputTokens,
-          outputTokens,
-          totalTokens,
-          cost: totalCost,
-          inputCost,
-          outputCost,
-          toolBufferCount: (toolCallBuffer || []).length,
-          resolvedTraceId,
-          llmSpanId,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "B",
+      opts?.observa,
+    );
+
+    emitDiagnostic(
+      "vercel-ai.ts:recordTrace",
+      "llm_call payload summary",
+      () => ({
+        inputLength: inputText?.length || 0,
+        outputLength: outputText?.length || 0,
+        inputTokens,
+        outputTokens,
+        totalTokens,
+        cost: totalCost,
+        inputCost,
+        outputCost,
+        toolBufferCount: (toolCallBuffer || []).length,
+        resolvedTraceId,
+        llmSpanId,
       }),
-    }).catch(() => {});
-    // #endregion
+      opts?.observa,
+    );
 
     if (opts?.onLLMSpan) {
       opts.onLLMSpan({
@@ -2826,25 +2467,16 @@ function recordTrace(
       : [];
     const traceId = resolvedTraceId;
     const toolCalls = [...bufferedToolCalls, ...responseToolCalls];
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:recordTrace",
-        message: "tool_calls emitted",
-        data: {
-          bufferedCount: bufferedToolCalls.length,
-          responseCount: responseToolCalls.length,
-          totalCount: toolCalls.length,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "C",
+    emitDiagnostic(
+      "vercel-ai.ts:recordTrace",
+      "tool_calls emitted",
+      () => ({
+        bufferedCount: bufferedToolCalls.length,
+        responseCount: responseToolCalls.length,
+        totalCount: toolCalls.length,
       }),
-    }).catch(() => {});
-    // #endregion
+      opts?.observa,
+    );
     for (const call of toolCalls) {
       opts.observa.trackToolCall({
         toolName: call.toolName,
@@ -2860,25 +2492,18 @@ function recordTrace(
     }
 
     if (traceStarted && opts?.observa?.endTrace) {
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "vercel-ai.ts:recordTrace",
-            message: "Ending trace after successful response",
-            data: {},
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "F",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
-      opts.observa.endTrace({ outcome: "success" }).catch(() => {});
+      emitDiagnostic(
+        "vercel-ai.ts:recordTrace",
+        "Ending trace after successful response",
+        () => ({}),
+        opts?.observa,
+      );
+      opts.observa
+        .endTrace({
+          outcome: "success",
+          traceId: explicitTraceId ?? undefined,
+        })
+        .catch(() => {});
     }
 
     return {
@@ -2938,25 +2563,16 @@ function recordError(
       sanitizedReq.model,
       req?.model,
     );
-    // #region agent log
-    fetch("http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        location: "vercel-ai.ts:recordError",
-        message: "resolved model for error tracking",
-        data: {
-          trackedModel,
-          reqModelType: typeof req?.model,
-          sanitizedReqModelType: typeof sanitizedReq?.model,
-        },
-        timestamp: Date.now(),
-        sessionId: "debug-session",
-        runId: "run1",
-        hypothesisId: "C",
+    emitDiagnostic(
+      "vercel-ai.ts:recordError",
+      "resolved model for error tracking",
+      () => ({
+        trackedModel,
+        reqModelType: typeof req?.model,
+        sanitizedReqModelType: typeof sanitizedReq?.model,
       }),
-    }).catch(() => {});
-    // #endregion
+      opts?.observa,
+    );
 
     // Use pre-extracted input text if available (extracted before operation), otherwise extract now
     let inputText: string | null = preExtractedInputText || null;
@@ -3152,25 +2768,18 @@ function recordError(
     });
 
     if (traceStarted && opts?.observa?.endTrace) {
-      // #region agent log
-      fetch(
-        "http://127.0.0.1:7243/ingest/58308b77-6db1-45c3-a89e-548ba2d1edd2",
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            location: "vercel-ai.ts:recordError",
-            message: "Ending trace after error",
-            data: {},
-            timestamp: Date.now(),
-            sessionId: "debug-session",
-            runId: "run1",
-            hypothesisId: "F",
-          }),
-        },
-      ).catch(() => {});
-      // #endregion
-      opts.observa.endTrace({ outcome: "error" }).catch(() => {});
+      emitDiagnostic(
+        "vercel-ai.ts:recordError",
+        "Ending trace after error",
+        () => ({}),
+        opts?.observa,
+      );
+      opts.observa
+        .endTrace({
+          outcome: "error",
+          traceId: explicitTraceId ?? undefined,
+        })
+        .catch(() => {});
     }
   } catch (e) {
     // Ignore errors in error handling
@@ -3203,7 +2812,9 @@ async function traceGenerateObject(
       ? options.observa.getCurrentTraceId()
       : null;
   if (hasActiveTraceFn && !hasActiveTrace) {
-    startedTraceId = options!.observa.startTrace({ name: options?.name });
+    startedTraceId = options!.observa.startTrace({
+      name: options?.name,
+    });
     traceStarted = true;
   }
   const traceIdForRequest = startedTraceId || existingTraceId;
@@ -3315,7 +2926,9 @@ async function traceStreamObject(
       ? options.observa.getCurrentTraceId()
       : null;
   if (hasActiveTraceFn && !hasActiveTrace) {
-    startedTraceId = options!.observa.startTrace({ name: options?.name });
+    startedTraceId = options!.observa.startTrace({
+      name: options?.name,
+    });
     traceStarted = true;
   }
   const traceIdForRequest = startedTraceId || existingTraceId;
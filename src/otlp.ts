@@ -0,0 +1,693 @@
+/**
+ * OTLP Exporter
+ *
+ * Converts canonical events into OpenTelemetry spans and ships them to any
+ * OTLP/HTTP collector (Jaeger, Tempo, the OTEL Collector, ...) as JSON or
+ * protobuf. Use it as a transport, or next to the Observa API via
+ * ObservaInitConfig.exporters.
+ *
+ * Mapping:
+ * - trace_start + trace_end (same span_id) become the root span
+ * - every other event becomes one span (a child of the root when it was
+ *   recorded without a parent); events that carry latency_ms start
+ *   latency_ms before their timestamp (events are recorded on completion)
+ * - gen_ai.* attributes follow the OTEL GenAI semantic conventions, and the
+ *   full event payload is kept under observa.<event_type>.<field>
+ * - failed LLM/tool calls, error events and error/timeout outcomes get
+ *   status ERROR; error events also carry an "exception" span event
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { CanonicalEvent } from "./index.js";
+import type { ObservaTransport } from "./transport.js";
+import { OTEL_SEMCONV } from "./instrumentation/semconv.js";
+
+export interface OtlpExporterOptions {
+  // Collector traces endpoint (default: http://localhost:4318/v1/traces)
+  url?: string;
+  // Wire format (default: "http/json")
+  protocol?: "http/json" | "http/protobuf";
+  headers?: Record<string, string>;
+  // service.name resource attribute (default: "observa-sdk")
+  serviceName?: string;
+  resourceAttributes?: Record<string, string | number | boolean>;
+  timeoutMs?: number;
+}
+
+export interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string;
+  doubleValue?: number;
+  arrayValue?: { values: OtlpAnyValue[] };
+}
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: Array<{
+    timeUnixNano: string;
+    name: string;
+    attributes: OtlpKeyValue[];
+  }>;
+  status: { code: number; message?: string };
+}
+
+/**
+ * OTLP ExportTraceServiceRequest in its OTLP/JSON shape
+ * (hex-encoded IDs, nanosecond timestamps as strings)
+ */
+export interface OtlpTraceRequest {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: Array<{
+      scope: { name: string };
+      spans: OtlpSpan[];
+    }>;
+  }>;
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const STATUS_UNSET = 0;
+const STATUS_ERROR = 2;
+
+const CLIENT_EVENT_TYPES = new Set([
+  "llm_call",
+  "embedding",
+  "retrieval",
+  "vector_db_operation",
+  "cache_operation",
+]);
+
+// ---------- IDs and timestamps ----------
+
+function hashHex(value: string, hexLength: number): string {
+  let out = "";
+  for (let seed = 0; out.length < hexLength; seed++) {
+    let hash = 0x811c9dc5 ^ seed;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    out += (hash >>> 0).toString(16).padStart(8, "0");
+  }
+  return out.slice(0, hexLength);
+}
+
+/**
+ * Map a canonical ID (usually a UUID) to a hex OTLP ID.
+ * 32 hex chars for trace IDs, 16 for span IDs.
+ */
+function toOtlpId(id: string, hexLength: 32 | 16): string {
+  const hex = id.replace(/-/g, "").toLowerCase();
+  if (/^[0-9a-f]+$/.test(hex) && hex.length >= hexLength) {
+    const candidate = hex.slice(0, hexLength);
+    if (/[1-9a-f]/.test(candidate)) return candidate;
+  }
+  return hashHex(id, hexLength);
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * BigInt(1_000_000)).toString();
+}
+
+function parseTimestamp(timestamp: string | undefined): number {
+  const ms = timestamp ? Date.parse(timestamp) : NaN;
+  return Number.isNaN(ms) ? Date.now() : ms;
+}
+
+// ---------- Attributes ----------
+
+function toAnyValue(value: unknown): OtlpAnyValue | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return null;
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  if (
+    Array.isArray(value) &&
+    value.every((item) =>
+      ["string", "number", "boolean"].includes(typeof item),
+    )
+  ) {
+    return {
+      arrayValue: {
+        values: value
+          .map((item) => toAnyValue(item))
+          .filter((item): item is OtlpAnyValue => item !== null),
+      },
+    };
+  }
+  try {
+    return { stringValue: JSON.stringify(value) };
+  } catch {
+    return { stringValue: String(value) };
+  }
+}
+
+function toKeyValues(attributes: Record<string, unknown>): OtlpKeyValue[] {
+  const out: OtlpKeyValue[] = [];
+  for (const [key, raw] of Object.entries(attributes)) {
+    const value = toAnyValue(raw);
+    if (value) out.push({ key, value });
+  }
+  return out;
+}
+
+function genAiAttributes(event: CanonicalEvent): Record<string, unknown> {
+  const attrs: Record<string, unknown> = {};
+  if (event.event_type === "llm_call" && event.attributes.llm_call) {
+    const llm = event.attributes.llm_call;
+    attrs[OTEL_SEMCONV.GEN_AI_OPERATION_NAME] = llm.operation_name || "chat";
+    attrs[OTEL_SEMCONV.GEN_AI_SYSTEM] = llm.provider_name;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_MODEL] = llm.model;
+    attrs[OTEL_SEMCONV.GEN_AI_RESPONSE_MODEL] = llm.response_model;
+    attrs[OTEL_SEMCONV.GEN_AI_RESPONSE_ID] = llm.response_id;
+    attrs[OTEL_SEMCONV.GEN_AI_USAGE_INPUT_TOKENS] = llm.input_tokens;
+    attrs[OTEL_SEMCONV.GEN_AI_USAGE_OUTPUT_TOKENS] = llm.output_tokens;
+    attrs[OTEL_SEMCONV.GEN_AI_USAGE_TOTAL_TOKENS] = llm.total_tokens;
+    attrs[OTEL_SEMCONV.GEN_AI_USAGE_COST] = llm.cost;
+    attrs[OTEL_SEMCONV.GEN_AI_FINISH_REASONS] = llm.finish_reason
+      ? [llm.finish_reason]
+      : null;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_TEMPERATURE] = llm.temperature;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_TOP_P] = llm.top_p;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_TOP_K] = llm.top_k;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_MAX_TOKENS] = llm.max_tokens;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_FREQUENCY_PENALTY] =
+      llm.frequency_penalty;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_PRESENCE_PENALTY] = llm.presence_penalty;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_SEED] = llm.seed;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_STOP_SEQUENCES] = llm.stop_sequences;
+    attrs[OTEL_SEMCONV.SERVER_ADDRESS] = llm.server_address;
+    attrs[OTEL_SEMCONV.SERVER_PORT] = llm.server_port;
+  } else if (event.event_type === "tool_call" && event.attributes.tool_call) {
+    const tool = event.attributes.tool_call;
+    attrs[OTEL_SEMCONV.GEN_AI_OPERATION_NAME] =
+      tool.operation_name || "execute_tool";
+    attrs[OTEL_SEMCONV.GEN_AI_TOOL_NAME] = tool.tool_name;
+    attrs[OTEL_SEMCONV.GEN_AI_TOOL_TYPE] = tool.tool_type;
+    attrs[OTEL_SEMCONV.GEN_AI_TOOL_DESCRIPTION] = tool.tool_description;
+    attrs[OTEL_SEMCONV.GEN_AI_TOOL_CALL_ID] = tool.tool_call_id;
+    attrs[OTEL_SEMCONV.ERROR_TYPE] = tool.error_type;
+  } else if (event.event_type === "embedding" && event.attributes.embedding) {
+    const embedding = event.attributes.embedding;
+    attrs[OTEL_SEMCONV.GEN_AI_OPERATION_NAME] =
+      embedding.operation_name || "embeddings";
+    attrs[OTEL_SEMCONV.GEN_AI_SYSTEM] = embedding.provider_name;
+    attrs[OTEL_SEMCONV.GEN_AI_REQUEST_MODEL] = embedding.model;
+    attrs[OTEL_SEMCONV.GEN_AI_USAGE_INPUT_TOKENS] = embedding.input_tokens;
+    attrs[OTEL_SEMCONV.GEN_AI_EMBEDDINGS_DIMENSION_COUNT] =
+      embedding.dimension_count;
+    attrs[OTEL_SEMCONV.GEN_AI_USAGE_COST] = embedding.cost;
+  } else if (event.event_type === "error" && event.attributes.error) {
+    attrs[OTEL_SEMCONV.ERROR_TYPE] =
+      event.attributes.error.error_code || event.attributes.error.error_type;
+  }
+  return attrs;
+}
+
+function eventAttributes(event: CanonicalEvent): Record<string, unknown> {
+  const attrs: Record<string, unknown> = {
+    "observa.event_type": event.event_type,
+    [OTEL_SEMCONV.OBSERVA_TRACE_ID]: event.trace_id,
+    [OTEL_SEMCONV.OBSERVA_SPAN_ID]: event.span_id,
+    [OTEL_SEMCONV.GEN_AI_CONVERSATION_ID]: event.conversation_id,
+    [OTEL_SEMCONV.SESSION_ID]: event.session_id,
+    [OTEL_SEMCONV.USER_ID]: event.user_id,
+    [OTEL_SEMCONV.GEN_AI_AGENT_NAME]: event.agent_name,
+    "observa.version": event.version,
+    "observa.route": event.route,
+  };
+
+  // Keep the full canonical payload, flattened one level
+  const payload = event.attributes[event.event_type];
+  if (payload && typeof payload === "object") {
+    for (const [key, value] of Object.entries(payload)) {
+      // Mapped to span attributes/events in eventToSpan
+      if (
+        event.event_type === "span" &&
+        (key === "attributes" || key === "events")
+      ) {
+        continue;
+      }
+      attrs[`observa.${event.event_type}.${key}`] = value;
+    }
+  }
+
+  return { ...attrs, ...genAiAttributes(event) };
+}
+
+// ---------- Spans ----------
+
+function spanName(event: CanonicalEvent): string {
+  const attrs: any = event.attributes[event.event_type] || {};
+  switch (event.event_type) {
+    case "llm_call":
+      return `${attrs.operation_name || "chat"} ${attrs.model || "unknown"}`;
+    case "embedding":
+      return `${attrs.operation_name || "embeddings"} ${
+        attrs.model || "unknown"
+      }`;
+    case "tool_call":
+      return `execute_tool ${attrs.tool_name || "unknown"}`;
+    case "agent_create":
+      return `create_agent ${attrs.agent_name || "unknown"}`;
+    case "span":
+      return String(attrs.name || "span");
+    case "vector_db_operation":
+      return attrs.index_name
+        ? `${attrs.operation_type} ${attrs.index_name}`
+        : String(attrs.operation_type || event.event_type);
+    default:
+      return event.event_type;
+  }
+}
+
+function spanStatus(event: CanonicalEvent): OtlpSpan["status"] {
+  const attrs = event.attributes;
+  if (event.event_type === "llm_call" && attrs.llm_call?.status === "error") {
+    return { code: STATUS_ERROR };
+  }
+  if (
+    event.event_type === "tool_call" &&
+    attrs.tool_call &&
+    attrs.tool_call.result_status !== "success"
+  ) {
+    return {
+      code: STATUS_ERROR,
+      ...(attrs.tool_call.error_message
+        ? { message: attrs.tool_call.error_message }
+        : {}),
+    };
+  }
+  if (event.event_type === "error" && attrs.error) {
+    return { code: STATUS_ERROR, message: attrs.error.error_message };
+  }
+  if (event.event_type === "span" && attrs.span?.status === "error") {
+    return { code: STATUS_ERROR };
+  }
+  return { code: STATUS_UNSET };
+}
+
+function eventToSpan(event: CanonicalEvent, spanId: string): OtlpSpan {
+  const endMs = parseTimestamp(event.timestamp);
+  const latency = (event.attributes[event.event_type] as any)?.latency_ms;
+  const startMs =
+    typeof latency === "number" && latency > 0 ? endMs - latency : endMs;
+
+  const span: OtlpSpan = {
+    traceId: toOtlpId(event.trace_id, 32),
+    spanId,
+    name: spanName(event),
+    kind: CLIENT_EVENT_TYPES.has(event.event_type)
+      ? SPAN_KIND_CLIENT
+      : SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(startMs),
+    endTimeUnixNano: toUnixNano(endMs),
+    attributes: toKeyValues(eventAttributes(event)),
+    events: [],
+    status: spanStatus(event),
+  };
+  if (event.parent_span_id) {
+    span.parentSpanId = toOtlpId(event.parent_span_id, 16);
+  }
+
+  // App-level spans: user attributes as-is, timeline events as span events
+  if (event.event_type === "span" && event.attributes.span) {
+    const appSpan = event.attributes.span;
+    if (appSpan.attributes) {
+      span.attributes.push(...toKeyValues(appSpan.attributes));
+    }
+    for (const spanEvent of appSpan.events || []) {
+      span.events.push({
+        timeUnixNano: toUnixNano(parseTimestamp(spanEvent.timestamp)),
+        name: spanEvent.name,
+        attributes: toKeyValues(spanEvent.attributes || {}),
+      });
+    }
+  }
+
+  if (event.event_type === "error" && event.attributes.error) {
+    const error = event.attributes.error;
+    span.events.push({
+      timeUnixNano: toUnixNano(endMs),
+      name: "exception",
+      attributes: toKeyValues({
+        "exception.type": error.error_type,
+        "exception.message": error.error_message,
+        "exception.stacktrace": error.stack_trace,
+      }),
+    });
+  }
+  return span;
+}
+
+function rootSpan(
+  start: CanonicalEvent | undefined,
+  end: CanonicalEvent | undefined,
+): OtlpSpan {
+  const base = (start || end)!;
+  const traceEnd = end?.attributes.trace_end;
+  const endMs = parseTimestamp(end?.timestamp ?? base.timestamp);
+  const startMs = start
+    ? parseTimestamp(start.timestamp)
+    : endMs - (traceEnd?.total_latency_ms || 0);
+
+  const attributes: Record<string, unknown> = {};
+  for (const event of [start, end]) {
+    if (event) Object.assign(attributes, eventAttributes(event));
+  }
+  attributes["observa.event_type"] = "trace";
+
+  const failed =
+    traceEnd?.outcome === "error" || traceEnd?.outcome === "timeout";
+  const span: OtlpSpan = {
+    traceId: toOtlpId(base.trace_id, 32),
+    spanId: toOtlpId(base.span_id, 16),
+    name: start?.attributes.trace_start?.name || "trace",
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(Math.min(startMs, endMs)),
+    endTimeUnixNano: toUnixNano(endMs),
+    attributes: toKeyValues(attributes),
+    events: [],
+    status: failed
+      ? { code: STATUS_ERROR, message: String(traceEnd?.outcome) }
+      : { code: STATUS_UNSET },
+  };
+  if (base.parent_span_id) {
+    span.parentSpanId = toOtlpId(base.parent_span_id, 16);
+  }
+  return span;
+}
+
+/**
+ * Convert canonical events into an OTLP ExportTraceServiceRequest (JSON shape)
+ */
+export function convertToOtlpTraceRequest(
+  events: CanonicalEvent[],
+  options: Pick<OtlpExporterOptions, "serviceName" | "resourceAttributes"> = {},
+): OtlpTraceRequest {
+  // One resource per tenant/project/environment
+  const byResource = new Map<string, CanonicalEvent[]>();
+  for (const event of events) {
+    const key = `${event.tenant_id}\u0000${event.project_id}\u0000${event.environment}`;
+    const group = byResource.get(key);
+    if (group) {
+      group.push(event);
+    } else {
+      byResource.set(key, [event]);
+    }
+  }
+
+  const resourceSpans: OtlpTraceRequest["resourceSpans"] = [];
+  for (const group of byResource.values()) {
+    const first = group[0]!;
+    const spans: OtlpSpan[] = [];
+
+    // trace_start/trace_end pairs become root spans
+    const roots = new Map<
+      string,
+      { start?: CanonicalEvent; end?: CanonicalEvent }
+    >();
+    for (const event of group) {
+      if (
+        event.event_type !== "trace_start" &&
+        event.event_type !== "trace_end"
+      ) {
+        continue;
+      }
+      const key = `${event.trace_id}\u0000${event.span_id}`;
+      const root = roots.get(key) || {};
+      if (event.event_type === "trace_start") {
+        root.start = event;
+      } else {
+        root.end = event;
+      }
+      roots.set(key, root);
+    }
+    // Trace ID -> root span ID, to adopt events recorded without a parent
+    const rootSpanIds = new Map<string, string>();
+    for (const root of roots.values()) {
+      const span = rootSpan(root.start, root.end);
+      if (!span.parentSpanId && !rootSpanIds.has(span.traceId)) {
+        rootSpanIds.set(span.traceId, span.spanId);
+      }
+      spans.push(span);
+    }
+
+    for (const event of group) {
+      if (
+        event.event_type === "trace_start" ||
+        event.event_type === "trace_end"
+      ) {
+        continue;
+      }
+      // Instrumentation without startTrace reuses the first event's span_id
+      // for the synthesized root, so give that event its own child span
+      const sharesRootId = roots.has(`${event.trace_id}\u0000${event.span_id}`);
+      const span = eventToSpan(
+        event,
+        sharesRootId
+          ? hashHex(`${event.span_id}:${event.event_type}`, 16)
+          : toOtlpId(event.span_id, 16),
+      );
+      if (sharesRootId) {
+        span.parentSpanId = toOtlpId(event.span_id, 16);
+      } else if (!span.parentSpanId) {
+        const rootSpanId = rootSpanIds.get(span.traceId);
+        if (rootSpanId) span.parentSpanId = rootSpanId;
+      }
+      spans.push(span);
+    }
+
+    resourceSpans.push({
+      resource: {
+        attributes: toKeyValues({
+          "service.name": options.serviceName || "observa-sdk",
+          "deployment.environment": first.environment,
+          "observa.tenant_id": first.tenant_id,
+          "observa.project_id": first.project_id,
+          ...(options.resourceAttributes || {}),
+        }),
+      },
+      scopeSpans: [{ scope: { name: "observa-sdk" }, spans }],
+    });
+  }
+
+  return { resourceSpans };
+}
+
+// ---------- Protobuf encoding (opentelemetry/proto/collector/trace/v1) ----------
+
+const textEncoder = new TextEncoder();
+
+function writeVarint(out: number[], value: bigint): void {
+  let v = BigInt.asUintN(64, value);
+  while (v > BigInt(0x7f)) {
+    out.push(Number((v & BigInt(0x7f)) | BigInt(0x80)));
+    v >>= BigInt(7);
+  }
+  out.push(Number(v));
+}
+
+function writeTag(out: number[], field: number, wireType: number): void {
+  writeVarint(out, BigInt((field << 3) | wireType));
+}
+
+function writeBytes(out: number[], field: number, bytes: ArrayLike<number>) {
+  writeTag(out, field, 2);
+  writeVarint(out, BigInt(bytes.length));
+  for (let i = 0; i < bytes.length; i++) out.push(bytes[i]!);
+}
+
+function writeString(out: number[], field: number, value: string): void {
+  writeBytes(out, field, textEncoder.encode(value));
+}
+
+function writeFixed64(out: number[], field: number, value: bigint): void {
+  writeTag(out, field, 1);
+  let v = BigInt.asUintN(64, value);
+  for (let i = 0; i < 8; i++) {
+    out.push(Number(v & BigInt(0xff)));
+    v >>= BigInt(8);
+  }
+}
+
+function writeDouble(out: number[], field: number, value: number): void {
+  writeTag(out, field, 1);
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value, true);
+  for (let i = 0; i < 8; i++) out.push(view.getUint8(i));
+}
+
+function writeEnum(out: number[], field: number, value: number): void {
+  if (value === 0) return;
+  writeTag(out, field, 0);
+  writeVarint(out, BigInt(value));
+}
+
+function hexToBytes(hex: string): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return bytes;
+}
+
+function encodeAnyValue(value: OtlpAnyValue): number[] {
+  const out: number[] = [];
+  if (value.stringValue !== undefined) {
+    writeString(out, 1, value.stringValue);
+  } else if (value.boolValue !== undefined) {
+    writeTag(out, 2, 0);
+    writeVarint(out, BigInt(value.boolValue ? 1 : 0));
+  } else if (value.intValue !== undefined) {
+    writeTag(out, 3, 0);
+    writeVarint(out, BigInt(value.intValue));
+  } else if (value.doubleValue !== undefined) {
+    writeDouble(out, 4, value.doubleValue);
+  } else if (value.arrayValue) {
+    const array: number[] = [];
+    for (const item of value.arrayValue.values) {
+      writeBytes(array, 1, encodeAnyValue(item));
+    }
+    writeBytes(out, 5, array);
+  }
+  return out;
+}
+
+function encodeKeyValue(kv: OtlpKeyValue): number[] {
+  const out: number[] = [];
+  writeString(out, 1, kv.key);
+  writeBytes(out, 2, encodeAnyValue(kv.value));
+  return out;
+}
+
+function encodeSpan(span: OtlpSpan): number[] {
+  const out: number[] = [];
+  writeBytes(out, 1, hexToBytes(span.traceId));
+  writeBytes(out, 2, hexToBytes(span.spanId));
+  if (span.parentSpanId) {
+    writeBytes(out, 4, hexToBytes(span.parentSpanId));
+  }
+  writeString(out, 5, span.name);
+  writeEnum(out, 6, span.kind);
+  writeFixed64(out, 7, BigInt(span.startTimeUnixNano));
+  writeFixed64(out, 8, BigInt(span.endTimeUnixNano));
+  for (const kv of span.attributes) {
+    writeBytes(out, 9, encodeKeyValue(kv));
+  }
+  for (const event of span.events) {
+    const encoded: number[] = [];
+    writeFixed64(encoded, 1, BigInt(event.timeUnixNano));
+    writeString(encoded, 2, event.name);
+    for (const kv of event.attributes) {
+      writeBytes(encoded, 3, encodeKeyValue(kv));
+    }
+    writeBytes(out, 11, encoded);
+  }
+  const status: number[] = [];
+  if (span.status.message) writeString(status, 2, span.status.message);
+  writeEnum(status, 3, span.status.code);
+  writeBytes(out, 15, status);
+  return out;
+}
+
+/**
+ * Encode an OTLP trace request as protobuf (application/x-protobuf)
+ */
+export function encodeOtlpTraceRequest(
+  request: OtlpTraceRequest,
+): Uint8Array<ArrayBuffer> {
+  const out: number[] = [];
+  for (const resourceSpans of request.resourceSpans) {
+    const rs: number[] = [];
+
+    const resource: number[] = [];
+    for (const kv of resourceSpans.resource.attributes) {
+      writeBytes(resource, 1, encodeKeyValue(kv));
+    }
+    writeBytes(rs, 1, resource);
+
+    for (const scopeSpans of resourceSpans.scopeSpans) {
+      const ss: number[] = [];
+      const scope: number[] = [];
+      writeString(scope, 1, scopeSpans.scope.name);
+      writeBytes(ss, 1, scope);
+      for (const span of scopeSpans.spans) {
+        writeBytes(ss, 2, encodeSpan(span));
+      }
+      writeBytes(rs, 2, ss);
+    }
+
+    writeBytes(out, 1, rs);
+  }
+  return Uint8Array.from(out);
+}
+
+/**
+ * Transport that exports canonical events as OTLP/HTTP traces
+ */
+export function createOtlpTransport(
+  options: OtlpExporterOptions = {},
+): ObservaTransport {
+  const url = options.url || "http://localhost:4318/v1/traces";
+  const protocol = options.protocol || "http/json";
+  const timeoutMs = options.timeoutMs ?? 10000;
+
+  return {
+    async send(events: CanonicalEvent[]): Promise<void> {
+      const request = convertToOtlpTraceRequest(events, options);
+      if (request.resourceSpans.length === 0) return;
+
+      const body =
+        protocol === "http/protobuf"
+          ? encodeOtlpTraceRequest(request)
+          : JSON.stringify(request);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type":
+              protocol === "http/protobuf"
+                ? "application/x-protobuf"
+                : "application/json",
+            ...(options.headers || {}),
+          },
+          body,
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          const errorText = await response
+            .text()
+            .catch(() => "Unknown error");
+          throw new Error(
+            `OTLP export error: ${response.status} ${errorText}`,
+          );
+        }
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+  };
+}
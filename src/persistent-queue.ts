@@ -0,0 +1,360 @@
+/**
+ * Persistent Event Queue
+ *
+ * Optional file-backed write-ahead log for buffered events (Node.js only).
+ * Every buffered event is appended to a JSONL segment before it is sent and
+ * acknowledged once the transport accepted it. Appends are synchronous, so an
+ * event is on disk (in the OS page cache, without fsync) by the time it is
+ * buffered.
+ *
+ * node:fs is loaded synchronously where the runtime has
+ * process.getBuiltinModule (Node.js 20.16+). Otherwise it loads
+ * asynchronously right after the queue is created: events recorded before
+ * then are written once it has loaded, and a crash in that window loses them.
+ *
+ * Events that were never acknowledged (failed delivery, process exit,
+ * preemption) are replayed on the next init, which gives at-least-once
+ * delivery. The backend does not de-duplicate: an event that was delivered
+ * but not yet acknowledged when the process stopped is stored twice.
+ *
+ * Segment records:
+ *   {"op":"event","event":{...}}
+ *   {"op":"ack","keys":["..."]}
+ *   {"op":"resend","keys":["..."]}
+ *
+ * Acks are written to the segment that holds the acknowledged events, so a
+ * segment is self-contained and is deleted once all of its events are acked.
+ * Use one directory per process.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { CanonicalEvent } from "./index.js";
+import { emitDiagnostic } from "./diagnostics.js";
+
+export interface PersistentQueueOptions {
+  // Directory for queue segments (created if missing)
+  directory: string;
+  // Rotate to a new segment once the active one reaches this size (default 1 MiB)
+  maxSegmentBytes?: number;
+  // Cap for all segments together; oldest segments are dropped beyond it (default 50 MiB)
+  maxTotalBytes?: number;
+}
+
+export interface PersistentQueue {
+  /**
+   * Append an event to the log. The event must have an idempotency_key.
+   */
+  append(event: CanonicalEvent): void;
+  /**
+   * Acknowledge delivered (or intentionally discarded) events by idempotency key
+   */
+  ack(keys: string[]): void;
+  /**
+   * Mark events whose trace was already sent, so a replay sends them as-is
+   */
+  markResend(keys: string[]): void;
+  /**
+   * Load events left unacknowledged by previous runs (call once).
+   * Segments written by this process are never replayed.
+   */
+  replay(): Promise<ReplayedEvent[]>;
+  /**
+   * Wait for writes recorded before node:fs loaded to reach disk
+   */
+  close(): Promise<void>;
+}
+
+export interface ReplayedEvent {
+  event: CanonicalEvent;
+  // The event's trace was already sent (see markResend)
+  resend: boolean;
+}
+
+interface SegmentState {
+  bytes: number;
+  pending: number;
+}
+
+const SEGMENT_PREFIX = "segment-";
+const SEGMENT_SUFFIX = ".jsonl";
+
+// Load a Node.js built-in lazily so edge/browser bundles never touch it
+async function loadNodeModule(name: string): Promise<any> {
+  return import(name);
+}
+
+// The same, synchronously where the runtime allows it (null otherwise)
+function loadNodeModuleSync(name: string): any {
+  const proc = (globalThis as any).process;
+  return typeof proc?.getBuiltinModule === "function"
+    ? (proc.getBuiltinModule(name) ?? null)
+    : null;
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+export function createPersistentQueue(
+  options: PersistentQueueOptions,
+  // Client whose diagnostic handlers receive the queue's diagnostics
+  diagnosticsOwner?: object,
+): PersistentQueue {
+  const directory = options.directory.replace(/\/+$/, "");
+  const maxSegmentBytes = options.maxSegmentBytes ?? 1024 * 1024;
+  const maxTotalBytes = options.maxTotalBytes ?? 50 * 1024 * 1024;
+
+  // Segment name -> size and number of unacknowledged events
+  const segments = new Map<string, SegmentState>();
+  // Idempotency key -> segment holding the event
+  const pendingKeys = new Map<string, string>();
+  let activeSegment: string | null = null;
+  let segmentCounter = 0;
+  let totalBytes = 0;
+
+  // File operations run synchronously once node:fs has loaded; the ones
+  // requested before that run in order as soon as it does
+  let fsModule: any = null;
+  try {
+    fsModule = loadNodeModuleSync("node:fs");
+  } catch {
+    // Loaded asynchronously below
+  }
+  const pendingOperations: Array<(fs: any) => void> = [];
+  const runOperation = (operation: (fs: any) => void): void => {
+    try {
+      operation(fsModule);
+    } catch (error) {
+      console.error("[Observa] Persistent queue write failed:", error);
+    }
+  };
+  const enqueue = (operation: (fs: any) => void): void => {
+    if (fsModule) {
+      runOperation(operation);
+    } else {
+      pendingOperations.push(operation);
+    }
+  };
+  let ready: Promise<void> = Promise.resolve();
+  if (fsModule) {
+    runOperation((fs) => fs.mkdirSync(directory, { recursive: true }));
+  } else {
+    ready = loadNodeModule("node:fs")
+      .then((module) => {
+        fsModule = module;
+        runOperation((fs) => fs.mkdirSync(directory, { recursive: true }));
+        for (const operation of pendingOperations.splice(0)) {
+          runOperation(operation);
+        }
+      })
+      .catch((error) => {
+        console.error("[Observa] Persistent queue is unavailable:", error);
+      });
+  }
+
+  const segmentPath = (name: string) => `${directory}/${name}`;
+
+  const newSegmentName = () =>
+    `${SEGMENT_PREFIX}${Date.now()}-${String(segmentCounter++).padStart(
+      6,
+      "0",
+    )}${SEGMENT_SUFFIX}`;
+
+  const removeSegment = (name: string): void => {
+    const state = segments.get(name);
+    if (!state) return;
+    segments.delete(name);
+    totalBytes -= state.bytes;
+    if (activeSegment === name) {
+      activeSegment = null;
+    }
+    enqueue((fs) => fs.rmSync(segmentPath(name), { force: true }));
+  };
+
+  const writeLine = (name: string, line: string): void => {
+    const state = segments.get(name);
+    if (!state) return;
+    const size = byteLength(line);
+    state.bytes += size;
+    totalBytes += size;
+    enqueue((fs) => fs.appendFileSync(segmentPath(name), line, "utf-8"));
+  };
+
+  // Drop the oldest segments until `incoming` more bytes fit under the cap
+  const enforceTotalCap = (incoming: number): boolean => {
+    while (totalBytes + incoming > maxTotalBytes) {
+      const oldest = [...segments.keys()]
+        .sort()
+        .find((name) => name !== activeSegment);
+      if (!oldest) {
+        return totalBytes + incoming <= maxTotalBytes;
+      }
+      const dropped = segments.get(oldest)?.pending ?? 0;
+      for (const [key, name] of pendingKeys) {
+        if (name === oldest) pendingKeys.delete(key);
+      }
+      removeSegment(oldest);
+      console.warn(
+        `[Observa] Persistent queue exceeded ${maxTotalBytes} bytes, dropped ${dropped} undelivered events`,
+      );
+    }
+    return true;
+  };
+
+  const ensureActiveSegment = (incoming: number): string => {
+    if (activeSegment) {
+      const state = segments.get(activeSegment)!;
+      if (state.bytes + incoming <= maxSegmentBytes || state.bytes === 0) {
+        return activeSegment;
+      }
+      // Rotate: the previous segment is deleted as soon as it is fully acked
+      const previous = activeSegment;
+      activeSegment = null;
+      if (state.pending === 0) {
+        removeSegment(previous);
+      }
+    }
+    const name = newSegmentName();
+    segments.set(name, { bytes: 0, pending: 0 });
+    activeSegment = name;
+    return name;
+  };
+
+  // Group pending keys by the segment holding their events
+  const keysBySegment = (keys: string[]): Map<string, string[]> => {
+    const bySegment = new Map<string, string[]>();
+    for (const key of keys) {
+      const name = pendingKeys.get(key);
+      if (!name) continue;
+      const list = bySegment.get(name);
+      if (list) {
+        list.push(key);
+      } else {
+        bySegment.set(name, [key]);
+      }
+    }
+    return bySegment;
+  };
+
+  return {
+    append(event: CanonicalEvent): void {
+      const key = event.idempotency_key;
+      if (!key) return;
+
+      const line = JSON.stringify({ op: "event", event }) + "\n";
+      const size = byteLength(line);
+      if (!enforceTotalCap(size)) {
+        console.warn(
+          "[Observa] Persistent queue is full, event is kept in memory only",
+        );
+        return;
+      }
+
+      const name = ensureActiveSegment(size);
+      segments.get(name)!.pending += 1;
+      pendingKeys.set(key, name);
+      writeLine(name, line);
+    },
+
+    ack(keys: string[]): void {
+      for (const [name, segmentKeys] of keysBySegment(keys)) {
+        for (const key of segmentKeys) pendingKeys.delete(key);
+        const state = segments.get(name);
+        if (!state) continue;
+        state.pending -= segmentKeys.length;
+        if (state.pending <= 0 && name !== activeSegment) {
+          removeSegment(name);
+        } else {
+          writeLine(
+            name,
+            JSON.stringify({ op: "ack", keys: segmentKeys }) + "\n",
+          );
+        }
+      }
+    },
+
+    markResend(keys: string[]): void {
+      for (const [name, segmentKeys] of keysBySegment(keys)) {
+        writeLine(
+          name,
+          JSON.stringify({ op: "resend", keys: segmentKeys }) + "\n",
+        );
+      }
+    },
+
+    async replay(): Promise<ReplayedEvent[]> {
+      const fs = await loadNodeModule("node:fs/promises");
+      await fs.mkdir(directory, { recursive: true });
+
+      // Skip segments this process already started writing
+      const names: string[] = (await fs.readdir(directory))
+        .filter(
+          (name: string) =>
+            name.startsWith(SEGMENT_PREFIX) &&
+            name.endsWith(SEGMENT_SUFFIX) &&
+            !segments.has(name),
+        )
+        .sort();
+
+      const replayed: ReplayedEvent[] = [];
+      for (const name of names) {
+        let content: string;
+        try {
+          content = await fs.readFile(segmentPath(name), "utf-8");
+        } catch {
+          continue;
+        }
+
+        const events = new Map<string, CanonicalEvent>();
+        const resend = new Set<string>();
+        for (const line of content.split("\n")) {
+          if (!line.trim()) continue;
+          let record: any;
+          try {
+            record = JSON.parse(line);
+          } catch {
+            // Torn write from a crash - skip the partial line
+            continue;
+          }
+          if (record?.op === "event" && record.event?.idempotency_key) {
+            events.set(record.event.idempotency_key, record.event);
+          } else if (record?.op === "ack" && Array.isArray(record.keys)) {
+            for (const key of record.keys) events.delete(key);
+          } else if (record?.op === "resend" && Array.isArray(record.keys)) {
+            for (const key of record.keys) resend.add(key);
+          }
+        }
+
+        if (events.size === 0) {
+          await fs.rm(segmentPath(name), { force: true });
+          continue;
+        }
+
+        const bytes = byteLength(content);
+        segments.set(name, { bytes, pending: events.size });
+        totalBytes += bytes;
+        for (const [key, event] of events) {
+          pendingKeys.set(key, name);
+          replayed.push({ event, resend: resend.has(key) });
+        }
+      }
+
+      emitDiagnostic(
+        "persistent-queue.ts:replay",
+        "Loaded unacknowledged events",
+        () => ({
+          directory,
+          segmentCount: segments.size,
+          eventCount: replayed.length,
+          totalBytes,
+        }),
+        diagnosticsOwner,
+      );
+      return replayed;
+    },
+
+    async close(): Promise<void> {
+      await ready;
+    },
+  };
+}
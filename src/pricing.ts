@@ -0,0 +1,360 @@
+/**
+ * Model Pricing
+ *
+ * Central price list used to fill input_cost / output_cost / cost on
+ * llm_call and embedding events when the provider does not report cost.
+ *
+ * Rates are USD per 1M tokens. Cached input tokens are a subset of input
+ * tokens and reasoning tokens a subset of output tokens (OpenAI / OTEL
+ * gen_ai.usage convention); each subset is billed at its own rate when one
+ * is set, otherwise at the base rate. Anthropic prompt cache reads and writes
+ * are reported next to input tokens, not within them, and are billed on top
+ * at the cached-input and cache-write rates.
+ *
+ * Model IDs are matched after normalization:
+ * - provider prefixes are stripped ("openai/gpt-4o", "models/gemini-2.0-flash",
+ *   "us.anthropic.claude-3-5-sonnet-20240620-v1:0")
+ * - dated / versioned suffixes fall back to the base model
+ *   ("gpt-4o-2024-08-06", "claude-3-5-haiku@20241022")
+ * - otherwise the longest table key that prefixes the model ID wins, unless
+ *   the model ID continues the key's version ("gpt-4.5" is not "gpt-4")
+ *
+ * Provider-qualified keys ("groq/llama-3.3-70b-versatile") price a model on
+ * that provider only and win over the generic entry. Self-hosted servers and
+ * open-weight model hosts (see UNLISTED_PROVIDERS) are only priced through
+ * such keys, never at the model vendor's list price.
+ */
+
+export interface ModelPricing {
+  // USD per 1M input tokens
+  input: number;
+  // USD per 1M output tokens
+  output: number;
+  // USD per 1M cached input tokens (defaults to input)
+  cachedInput?: number;
+  // USD per 1M prompt cache write tokens (defaults to input)
+  cacheWrite?: number;
+  // USD per 1M reasoning tokens (defaults to output)
+  reasoning?: number;
+}
+
+/**
+ * ObservaInitConfig.pricing: model ID (or prefix) -> rates.
+ * Entries override the built-in table.
+ */
+export type ModelPricingTable = Record<string, ModelPricing>;
+
+export interface TokenUsageForPricing {
+  model: string | null | undefined;
+  // provider_name, e.g. "groq" or "ollama"
+  provider?: string | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  cachedInputTokens?: number | null;
+  reasoningTokens?: number | null;
+  // Anthropic prompt cache reads / writes, not included in inputTokens
+  cacheReadInputTokens?: number | null;
+  cacheWriteInputTokens?: number | null;
+}
+
+export interface CostEstimate {
+  inputCost: number;
+  outputCost: number;
+  cost: number;
+}
+
+export interface PricingRegistry {
+  /**
+   * Rates for a model ID, or null if the model is unknown
+   */
+  resolve(
+    model: string | null | undefined,
+    provider?: string | null,
+  ): ModelPricing | null;
+  /**
+   * Cost of a call, or null if the model is unknown or no tokens are known
+   */
+  estimate(usage: TokenUsageForPricing): CostEstimate | null;
+}
+
+/**
+ * Built-in list prices (USD per 1M tokens).
+ * Override or extend via ObservaInitConfig.pricing when your rates differ.
+ */
+export const DEFAULT_MODEL_PRICING: ModelPricingTable = {
+  // OpenAI
+  "gpt-5.1": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gpt-5": { input: 1.25, output: 10, cachedInput: 0.125 },
+  "gpt-5-mini": { input: 0.25, output: 2, cachedInput: 0.025 },
+  "gpt-5-nano": { input: 0.05, output: 0.4, cachedInput: 0.005 },
+  "gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  o1: { input: 15, output: 60, cachedInput: 7.5 },
+  "o1-mini": { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  o3: { input: 2, output: 8, cachedInput: 0.5 },
+  "o3-mini": { input: 1.1, output: 4.4, cachedInput: 0.55 },
+  "o4-mini": { input: 1.1, output: 4.4, cachedInput: 0.275 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+
+  // Anthropic
+  "claude-opus-4-1": {
+    input: 15,
+    output: 75,
+    cachedInput: 1.5,
+    cacheWrite: 18.75,
+  },
+  "claude-opus-4": {
+    input: 15,
+    output: 75,
+    cachedInput: 1.5,
+    cacheWrite: 18.75,
+  },
+  "claude-sonnet-4-5": {
+    input: 3,
+    output: 15,
+    cachedInput: 0.3,
+    cacheWrite: 3.75,
+  },
+  "claude-sonnet-4": {
+    input: 3,
+    output: 15,
+    cachedInput: 0.3,
+    cacheWrite: 3.75,
+  },
+  "claude-haiku-4-5": {
+    input: 1,
+    output: 5,
+    cachedInput: 0.1,
+    cacheWrite: 1.25,
+  },
+  "claude-haiku-4": {
+    input: 1,
+    output: 5,
+    cachedInput: 0.1,
+    cacheWrite: 1.25,
+  },
+  "claude-3-7-sonnet": {
+    input: 3,
+    output: 15,
+    cachedInput: 0.3,
+    cacheWrite: 3.75,
+  },
+  "claude-3-5-sonnet": {
+    input: 3,
+    output: 15,
+    cachedInput: 0.3,
+    cacheWrite: 3.75,
+  },
+  "claude-3-5-haiku": {
+    input: 0.8,
+    output: 4,
+    cachedInput: 0.08,
+    cacheWrite: 1,
+  },
+  "claude-3-opus": {
+    input: 15,
+    output: 75,
+    cachedInput: 1.5,
+    cacheWrite: 18.75,
+  },
+  "claude-3-sonnet": { input: 3, output: 15 },
+  "claude-3-haiku": {
+    input: 0.25,
+    output: 1.25,
+    cachedInput: 0.03,
+    cacheWrite: 0.3,
+  },
+
+  // Google
+  "gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.31 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.075 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "text-embedding-004": { input: 0, output: 0 },
+
+  // Amazon (Bedrock)
+  "nova-pro": { input: 0.8, output: 3.2, cachedInput: 0.2 },
+  "nova-lite": { input: 0.06, output: 0.24, cachedInput: 0.015 },
+  "nova-micro": { input: 0.035, output: 0.14, cachedInput: 0.00875 },
+
+  // Mistral / Cohere
+  "mistral-large": { input: 2, output: 6 },
+  "mistral-small": { input: 0.2, output: 0.6 },
+  "mistral-embed": { input: 0.1, output: 0 },
+  "command-r-plus": { input: 2.5, output: 10 },
+  "command-r": { input: 0.15, output: 0.6 },
+  "embed-english-v3.0": { input: 0.1, output: 0 },
+
+  // Groq
+  "groq/llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "groq/llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+};
+
+// Providers whose rates are not the model vendor's list price: self-hosted
+// servers and hosts for open-weight models
+const UNLISTED_PROVIDERS = new Set([
+  "ollama",
+  "vllm",
+  "lm_studio",
+  "groq",
+  "together_ai",
+  "fireworks",
+]);
+
+// Bedrock-style vendor prefixes, optionally scoped to a cross-region
+// inference profile ("us.anthropic.", "apac.anthropic.", "global.anthropic.")
+const VENDOR_PREFIX =
+  /^(?:[a-z]{2}\.|apac\.|global\.)?(?:anthropic|meta|mistral|cohere|amazon|ai21|google|openai)\./;
+
+// Date / version suffixes that don't change the price
+const VERSION_SUFFIXES = [
+  /-v\d+(?::\d+)?$/, // Bedrock: -v1:0
+  /[-@]\d{4}-?\d{2}-?\d{2}$/, // -2024-08-06, -20241022, @20241022
+  /-(?:latest|preview|exp)$/,
+  /-\d{3,4}$/, // -0125, -001
+];
+
+function normalizeModelId(model: string): string {
+  let id = model.trim().toLowerCase();
+  if (id.includes("/")) {
+    id = id.split("/").pop() || id;
+  }
+  return id.replace(VENDOR_PREFIX, "");
+}
+
+function isBoundary(char: string | undefined): boolean {
+  return char === undefined || /[-.:@]/.test(char);
+}
+
+// A key prefixes a model ID at a boundary, unless the rest continues the
+// key's version number ("gpt-4" must not price "gpt-4.5-preview", nor
+// "claude-3" price "claude-3-5-haiku")
+function isPrefixMatch(id: string, key: string): boolean {
+  if (!id.startsWith(key) || !isBoundary(id[key.length])) return false;
+  return !(/\d$/.test(key) && /^[-.]\d/.test(id.slice(key.length)));
+}
+
+function tokens(value: number | null | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+    ? value
+    : 0;
+}
+
+/**
+ * Build a registry from the built-in table plus overrides
+ */
+export function createPricingRegistry(
+  overrides: ModelPricingTable = {},
+): PricingRegistry {
+  const table = new Map<string, ModelPricing>();
+  // "<provider>/<normalized model>" -> rates
+  const providerTable = new Map<string, ModelPricing>();
+  const qualifiedKey = (key: string) => {
+    const slash = key.indexOf("/");
+    return `${key.slice(0, slash).trim().toLowerCase()}/${normalizeModelId(
+      key.slice(slash + 1),
+    )}`;
+  };
+  for (const [key, pricing] of [
+    ...Object.entries(DEFAULT_MODEL_PRICING),
+    ...Object.entries(overrides),
+  ]) {
+    if (key.includes("/")) {
+      providerTable.set(qualifiedKey(key), pricing);
+    } else {
+      table.set(normalizeModelId(key), pricing);
+    }
+  }
+  // Longest keys first so "gpt-4o-mini" wins over "gpt-4o"
+  const keysByLength = [...table.keys()].sort((a, b) => b.length - a.length);
+  const cache = new Map<string, ModelPricing | null>();
+
+  const lookup = (id: string): ModelPricing | null => {
+    const exact = table.get(id);
+    if (exact) return exact;
+
+    // Strip version suffixes one at a time ("-2024-08-06", then "-latest")
+    let stripped = id;
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const suffix of VERSION_SUFFIXES) {
+        const next = stripped.replace(suffix, "");
+        if (next !== stripped && next.length > 0) {
+          stripped = next;
+          changed = true;
+          const match = table.get(stripped);
+          if (match) return match;
+        }
+      }
+    }
+
+    for (const key of keysByLength) {
+      if (isPrefixMatch(id, key)) {
+        return table.get(key)!;
+      }
+    }
+    return null;
+  };
+
+  const resolve = (
+    model: string | null | undefined,
+    provider?: string | null,
+  ): ModelPricing | null => {
+    if (!model || typeof model !== "string") return null;
+    const id = normalizeModelId(model);
+    if (provider) {
+      const name = provider.toLowerCase();
+      const qualified = providerTable.get(`${name}/${id}`);
+      if (qualified) return qualified;
+      if (UNLISTED_PROVIDERS.has(name)) return null;
+    }
+    if (!cache.has(id)) {
+      cache.set(id, lookup(id));
+    }
+    return cache.get(id) ?? null;
+  };
+
+  return {
+    resolve,
+    estimate(usage: TokenUsageForPricing): CostEstimate | null {
+      const pricing = resolve(usage.model, usage.provider);
+      if (!pricing) return null;
+      if (
+        typeof usage.inputTokens !== "number" &&
+        typeof usage.outputTokens !== "number" &&
+        typeof usage.cacheReadInputTokens !== "number" &&
+        typeof usage.cacheWriteInputTokens !== "number"
+      ) {
+        return null;
+      }
+
+      const input = tokens(usage.inputTokens);
+      const cached = Math.min(tokens(usage.cachedInputTokens), input);
+      const output = tokens(usage.outputTokens);
+      const reasoning = Math.min(tokens(usage.reasoningTokens), output);
+      const cacheRead = tokens(usage.cacheReadInputTokens);
+      const cacheWrite = tokens(usage.cacheWriteInputTokens);
+
+      const inputCost =
+        ((input - cached) * pricing.input +
+          (cached + cacheRead) * (pricing.cachedInput ?? pricing.input) +
+          cacheWrite * (pricing.cacheWrite ?? pricing.input)) /
+        1_000_000;
+      const outputCost =
+        ((output - reasoning) * pricing.output +
+          reasoning * (pricing.reasoning ?? pricing.output)) /
+        1_000_000;
+      return { inputCost, outputCost, cost: inputCost + outputCost };
+    },
+  };
+}
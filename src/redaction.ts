@@ -0,0 +1,245 @@
+/**
+ * PII Redaction
+ *
+ * Declarative redaction applied by addEvent to every string attribute of
+ * every event before it is buffered, so manual tracking (trackLLMCall,
+ * trackToolCall, trackRetrieval, trackFeedback, ...) is covered as well as
+ * the provider wrappers.
+ *
+ * Modes:
+ * - mask: replace each match with [REDACTED_<DETECTOR>]
+ * - hash: replace each match with [<DETECTOR>:<sha256 prefix>] so equal
+ *   values can still be correlated
+ * - drop: replace the whole string containing a match with null
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { sha256Hex } from "./hash.js";
+
+export type RedactionMode = "mask" | "hash" | "drop";
+
+export type BuiltinPiiDetector =
+  | "email"
+  | "phone"
+  | "credit_card"
+  | "iban"
+  | "api_key"
+  | "jwt"
+  | "ip_address";
+
+export interface CustomPiiDetector {
+  // Used in the replacement, e.g. "employee_id" -> [REDACTED_EMPLOYEE_ID]
+  name: string;
+  pattern: RegExp | string;
+  // Defaults to RedactionConfig.mode
+  mode?: RedactionMode;
+}
+
+export interface RedactionConfig {
+  // Default mode for every detector (default: "mask")
+  mode?: RedactionMode;
+  // Built-in detectors to run (default: all)
+  detectors?: BuiltinPiiDetector[];
+  // Per-detector mode overrides, e.g. { email: "hash" }
+  modes?: Partial<Record<BuiltinPiiDetector, RedactionMode>>;
+  // Additional patterns
+  custom?: CustomPiiDetector[];
+  // Mixed into hashes so they can't be reversed with a dictionary
+  hashSalt?: string;
+}
+
+export interface Redactor {
+  // Redacted copy of a string, or null when it must be dropped
+  redactString(value: string): string | null;
+  // Redacted deep copy of a JSON-like value (strings inside objects/arrays)
+  redact<T>(value: T): T;
+}
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  mode: RedactionMode;
+  validate?: (match: string) => boolean;
+}
+
+const MAX_DEPTH = 20;
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  // Move the country code + check digits to the end, letters -> 10..35,
+  // then the number mod 97 must be 1
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function isValidIpv4(value: string): boolean {
+  return value.split(".").every((octet) => Number(octet) <= 255);
+}
+
+function isPhoneNumber(value: string): boolean {
+  const digits = digitsOf(value).length;
+  if (digits < 7 || digits > 15) return false;
+  // Dates and times are not phone numbers
+  return !/^\d{4}([-./])\d{1,2}\1\d{1,2}$|^\d{1,2}([-./])\d{1,2}\2\d{2,4}$/.test(
+    value.trim(),
+  );
+}
+
+// Ordered so that more specific detectors run first (a JWT is not an API
+// key, an IP address is not a phone number, a card number is not a phone)
+const BUILTIN_DETECTORS: Array<Omit<Detector, "mode">> = [
+  {
+    name: "jwt",
+    pattern: /\beyJ[\w-]{5,}\.eyJ[\w-]{5,}\.[\w-]{10,}/g,
+  },
+  {
+    name: "api_key",
+    pattern:
+      /\b(?:sk-(?:ant-|proj-)?[\w-]{20,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{40,}|xox[abprs]-[\w-]{10,}|AIza[\w-]{35}|(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,})\b|\bBearer\s+[\w.~+/-]{20,}=*/g,
+  },
+  {
+    name: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    name: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    validate: isValidIban,
+  },
+  {
+    name: "credit_card",
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    validate: passesLuhn,
+  },
+  {
+    name: "ip_address",
+    pattern:
+      /(?<![\d.])(?:\d{1,3}\.){3}\d{1,3}(?![\d.])|(?<![\w:])(?:[0-9A-Fa-f]{1,4}:){7}[0-9A-Fa-f]{1,4}(?![\w:])|(?<![\w:])(?:[0-9A-Fa-f]{1,4}:){1,6}:(?:[0-9A-Fa-f]{1,4}(?::[0-9A-Fa-f]{1,4}){0,5})?(?![\w:])/g,
+    // "::" alone also matches code like "abc::def"; real IPv6 has digits
+    validate: (match) =>
+      match.includes(".") ? isValidIpv4(match) : /\d/.test(match),
+  },
+  {
+    name: "phone",
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]\d{2,4}){1,4}(?![\w])|(?<![\w+])\+\d{7,15}(?!\d)/g,
+    validate: isPhoneNumber,
+  },
+];
+
+function toGlobalRegExp(pattern: RegExp | string): RegExp {
+  if (typeof pattern === "string") return new RegExp(pattern, "g");
+  return pattern.global
+    ? pattern
+    : new RegExp(pattern.source, `${pattern.flags}g`);
+}
+
+/**
+ * Build a redactor from config. Invalid custom patterns are skipped with a
+ * warning rather than failing init.
+ */
+export function createRedactor(config: RedactionConfig = {}): Redactor {
+  const defaultMode = config.mode ?? "mask";
+  const enabled = new Set<string>(
+    config.detectors ?? BUILTIN_DETECTORS.map((d) => d.name),
+  );
+
+  const detectors: Detector[] = BUILTIN_DETECTORS.filter((d) =>
+    enabled.has(d.name),
+  ).map((d) => ({
+    ...d,
+    mode: config.modes?.[d.name as BuiltinPiiDetector] ?? defaultMode,
+  }));
+  for (const custom of config.custom ?? []) {
+    try {
+      detectors.push({
+        name: custom.name,
+        pattern: toGlobalRegExp(custom.pattern),
+        mode: custom.mode ?? defaultMode,
+      });
+    } catch (error) {
+      console.warn(
+        `[Observa] Ignoring invalid redaction pattern "${custom.name}":`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  const label = (name: string) => name.toUpperCase().replace(/\W+/g, "_");
+  const replacement = (detector: Detector, match: string): string =>
+    detector.mode === "hash"
+      ? `[${label(detector.name)}:${sha256Hex(
+          `${config.hashSalt ?? ""}${match}`,
+        ).slice(0, 12)}]`
+      : `[REDACTED_${label(detector.name)}]`;
+
+  const redactString = (value: string): string | null => {
+    let result = value;
+    for (const detector of detectors) {
+      detector.pattern.lastIndex = 0;
+      if (!detector.pattern.test(result)) continue;
+      detector.pattern.lastIndex = 0;
+
+      let dropped = false;
+      result = result.replace(detector.pattern, (match) => {
+        if (detector.validate && !detector.validate(match)) return match;
+        if (detector.mode === "drop") dropped = true;
+        return replacement(detector, match);
+      });
+      if (dropped) return null;
+    }
+    return result;
+  };
+
+  const redactValue = (value: any, depth: number): any => {
+    if (typeof value === "string") return redactString(value);
+    if (value === null || typeof value !== "object" || depth > MAX_DEPTH) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redactValue(item, depth + 1));
+    }
+    const proto = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) return value;
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = redactValue(item, depth + 1);
+    }
+    return result;
+  };
+
+  return {
+    redactString,
+    redact<T>(value: T): T {
+      return redactValue(value, 0);
+    },
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Token Counting
+ *
+ * Used when a provider does not report usage (streams without
+ * stream_options.include_usage, LangChain models, Vercel AI providers).
+ * Counts produced here are marked usage_source: "estimated" on events.
+ *
+ * The default tokenizer estimates ~4 characters per token. createBpeTokenizer()
+ * is a byte-pair encoder for OpenAI's cl100k_base and o200k_base encodings;
+ * its merge ranks are not bundled and are loaded asynchronously, on first use,
+ * from a user-supplied directory or URL (OpenAI publishes them at
+ * https://openaipublic.blob.core.windows.net/encodings/). Other model families
+ * are counted with cl100k_base as an approximation. Until the ranks are
+ * loaded, or if they can't be, it falls back to ~4 characters per token.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+export type TokenizerEncoding = "cl100k_base" | "o200k_base";
+
+/**
+ * Pluggable tokenizer (ObservaInitConfig.tokenizer)
+ */
+export interface Tokenizer {
+  // Number of tokens in text for a model (model is null when unknown)
+  countTokens(text: string, model?: string | null): number;
+}
+
+export interface BpeTokenizerOptions {
+  // Directory, file: URL or http(s) URL with <encoding>.tiktoken rank files
+  ranksDirectory: string | URL;
+  // Fixed encoding; by default it is picked per model
+  encoding?: TokenizerEncoding;
+}
+
+export interface BpeTokenizer extends Tokenizer {
+  /**
+   * Load the ranks for a model's encoding (or the fixed encoding) ahead of
+   * the first count. Resolves to false if they could not be loaded.
+   */
+  load(model?: string | null): Promise<boolean>;
+}
+
+// Pre-tokenization patterns, as in tiktoken (case-insensitive contractions
+// spelled out because JS has no inline (?i:) groups)
+const CONTRACTIONS =
+  "'s|'S|'t|'T|'re|'rE|'Re|'RE|'ve|'vE|'Ve|'VE|'m|'M|'ll|'lL|'Ll|'LL|'d|'D";
+const UPPER = String.raw`[\p{Lu}\p{Lt}\p{Lm}\p{Lo}\p{M}]`;
+const LOWER = String.raw`[\p{Ll}\p{Lm}\p{Lo}\p{M}]`;
+const PATTERNS: Record<TokenizerEncoding, string> = {
+  cl100k_base: [
+    `(?:${CONTRACTIONS})`,
+    String.raw`[^\r\n\p{L}\p{N}]?\p{L}+`,
+    String.raw`\p{N}{1,3}`,
+    String.raw` ?[^\s\p{L}\p{N}]+[\r\n]*`,
+    String.raw`\s*[\r\n]+`,
+    String.raw`\s+(?!\S)`,
+    String.raw`\s+`,
+  ].join("|"),
+  o200k_base: [
+    String.raw`[^\r\n\p{L}\p{N}]?${UPPER}*${LOWER}+(?:${CONTRACTIONS})?`,
+    String.raw`[^\r\n\p{L}\p{N}]?${UPPER}+${LOWER}*(?:${CONTRACTIONS})?`,
+    String.raw`\p{N}{1,3}`,
+    String.raw` ?[^\s\p{L}\p{N}]+[\r\n/]*`,
+    String.raw`\s*[\r\n]+`,
+    String.raw`\s+(?!\S)`,
+    String.raw`\s+`,
+  ].join("|"),
+};
+
+// Models tokenized with o200k_base; everything else uses cl100k_base
+const O200K_MODELS =
+  /^(?:gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|gpt-oss|o1|o3|o4)/;
+
+// Distinct pieces remembered per encoding (common words repeat a lot)
+const MAX_CACHED_PIECES = 10_000;
+// Longer pieces (long digit-free runs, base64, minified code) are estimated:
+// merging is quadratic in the piece length
+const MAX_PIECE_BYTES = 256;
+
+interface LoadedEncoding {
+  ranks: Map<string, number>;
+  pattern: RegExp;
+  // Token count per pre-tokenized piece
+  cache: Map<string, number>;
+}
+
+/**
+ * Rough estimate: ~4 characters per token
+ */
+export function createHeuristicTokenizer(): Tokenizer {
+  return {
+    countTokens(text: string): number {
+      return text ? Math.ceil(text.length / 4) : 0;
+    },
+  };
+}
+
+/**
+ * Encoding used for a model ID
+ */
+export function encodingForModel(
+  model: string | null | undefined,
+): TokenizerEncoding {
+  if (!model) return "cl100k_base";
+  const id = model.toLowerCase().split("/").pop() || "";
+  return O200K_MODELS.test(id) ? "o200k_base" : "cl100k_base";
+}
+
+// Load a Node.js built-in lazily so edge/browser bundles never touch it
+async function loadNodeModule(name: string): Promise<any> {
+  return import(name);
+}
+
+/**
+ * Parse a .tiktoken rank file ("<base64 token> <rank>" per line).
+ * Keys are the token bytes as a binary string.
+ */
+function parseRanks(contents: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+  for (const line of contents.split("\n")) {
+    const space = line.indexOf(" ");
+    if (space <= 0) continue;
+    ranks.set(atob(line.slice(0, space)), Number(line.slice(space + 1)));
+  }
+  return ranks;
+}
+
+async function readRanks(
+  encoding: TokenizerEncoding,
+  directory: string | URL,
+): Promise<Map<string, number> | null> {
+  const file = `${encoding}.tiktoken`;
+  try {
+    const base = String(directory);
+    let contents: string;
+    if (/^https?:/i.test(base)) {
+      const response = await fetch(new URL(file, base.replace(/\/?$/, "/")));
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+      contents = await response.text();
+    } else {
+      const fs = await loadNodeModule("node:fs/promises");
+      const location = base.startsWith("file:")
+        ? new URL(file, base.replace(/\/?$/, "/"))
+        : `${base.replace(/[\\/]+$/, "")}/${file}`;
+      contents = await fs.readFile(location, "utf8");
+    }
+    return parseRanks(contents);
+  } catch (error) {
+    console.warn(
+      `[Observa] Could not load ${encoding} ranks, estimating token counts:`,
+      error instanceof Error ? error.message : error,
+    );
+    return null;
+  }
+}
+
+function toBinaryString(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]!);
+  }
+  return result;
+}
+
+/**
+ * Number of tokens a pre-tokenized piece encodes to (tiktoken's
+ * byte_pair_merge: repeatedly merge the adjacent pair with the lowest rank)
+ */
+function countPieceTokens(piece: string, ranks: Map<string, number>): number {
+  if (piece.length <= 1 || ranks.has(piece)) return 1;
+  if (piece.length > MAX_PIECE_BYTES) return Math.ceil(piece.length / 4);
+
+  // Boundaries of the current parts; parts[i]..parts[i + 1] is one token
+  const parts: number[] = [];
+  for (let i = 0; i <= piece.length; i++) parts.push(i);
+  const pairRank = (i: number): number =>
+    i + 2 < parts.length
+      ? (ranks.get(piece.slice(parts[i], parts[i + 2])) ?? Infinity)
+      : Infinity;
+  const pairRanks = parts.map((_, i) => pairRank(i));
+
+  for (;;) {
+    let minIndex = -1;
+    let minRank = Infinity;
+    for (let i = 0; i < pairRanks.length - 2; i++) {
+      if (pairRanks[i]! < minRank) {
+        minRank = pairRanks[i]!;
+        minIndex = i;
+      }
+    }
+    if (minIndex === -1) break;
+
+    parts.splice(minIndex + 1, 1);
+    pairRanks.splice(minIndex + 1, 1);
+    pairRanks[minIndex] = pairRank(minIndex);
+    if (minIndex > 0) pairRanks[minIndex - 1] = pairRank(minIndex - 1);
+  }
+  return parts.length - 1;
+}
+
+/**
+ * BPE tokenizer for cl100k_base / o200k_base. Rank files are loaded
+ * asynchronously, once per encoding, on first use (or with load()); counts
+ * requested before they are loaded are estimated.
+ */
+export function createBpeTokenizer(options: BpeTokenizerOptions): BpeTokenizer {
+  const fallback = createHeuristicTokenizer();
+  const encoder = new TextEncoder();
+  const loaded = new Map<TokenizerEncoding, LoadedEncoding | null>();
+  const loading = new Map<TokenizerEncoding, Promise<boolean>>();
+
+  const loadEncoding = (encoding: TokenizerEncoding): Promise<boolean> => {
+    let promise = loading.get(encoding);
+    if (!promise) {
+      promise = readRanks(encoding, options.ranksDirectory).then((ranks) => {
+        loaded.set(
+          encoding,
+          ranks && {
+            ranks,
+            pattern: new RegExp(PATTERNS[encoding], "gu"),
+            cache: new Map(),
+          },
+        );
+        return ranks !== null;
+      });
+      loading.set(encoding, promise);
+    }
+    return promise;
+  };
+
+  const encodingFor = (model?: string | null) =>
+    options.encoding ?? encodingForModel(model);
+
+  return {
+    load(model?: string | null): Promise<boolean> {
+      return loadEncoding(encodingFor(model));
+    },
+
+    countTokens(text: string, model?: string | null): number {
+      if (!text) return 0;
+      const name = encodingFor(model);
+      const encoding = loaded.get(name);
+      if (!encoding) {
+        if (encoding === undefined) void loadEncoding(name);
+        return fallback.countTokens(text, model);
+      }
+
+      let count = 0;
+      for (const match of text.matchAll(encoding.pattern)) {
+        const piece = match[0];
+        let pieceCount = encoding.cache.get(piece);
+        if (pieceCount === undefined) {
+          pieceCount = countPieceTokens(
+            toBinaryString(encoder.encode(piece)),
+            encoding.ranks,
+          );
+          if (encoding.cache.size < MAX_CACHED_PIECES) {
+            encoding.cache.set(piece, pieceCount);
+          }
+        }
+        count += pieceCount;
+      }
+      return count;
+    },
+  };
+}
@@ -0,0 +1,478 @@
+/**
+ * Trace Viewer
+ *
+ * Renders canonical events as indented span trees for the terminal (used by
+ * the `observa` CLI). Events sharing a span_id (trace_start and trace_end on
+ * the root span) are merged into one node; spans whose parent is not part of
+ * the trace become roots. Prompt/response content is collapsed to a one-line
+ * preview unless `expand` is set.
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { CanonicalEvent } from "./index.js";
+
+export interface TraceFilter {
+  // Trace ID (or prefix of one)
+  traceId?: string;
+  userId?: string;
+  sessionId?: string;
+  // Substring of an LLM call's model
+  model?: string;
+  // "success" | "error" | "interrupted" | "timeout"
+  status?: string;
+}
+
+export interface RenderOptions {
+  // Show full prompt/response content instead of one-line previews
+  expand?: boolean;
+  // ANSI colors (default true)
+  color?: boolean;
+  // Width of latency bars in characters (default 20)
+  barWidth?: number;
+}
+
+export interface ViewerSpan {
+  spanId: string;
+  parentSpanId: string | null;
+  events: CanonicalEvent[];
+  children: ViewerSpan[];
+  latencyMs: number | null;
+  tokens: number;
+  cost: number;
+  status: string | null;
+}
+
+export interface ViewerTrace {
+  traceId: string;
+  events: CanonicalEvent[];
+  roots: ViewerSpan[];
+  startTime: string;
+  durationMs: number;
+  tokens: number;
+  cost: number;
+  status: string;
+}
+
+const ANSI = {
+  reset: "\x1b[0m",
+  bright: "\x1b[1m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  blue: "\x1b[34m",
+  magenta: "\x1b[35m",
+  cyan: "\x1b[36m",
+  gray: "\x1b[90m",
+};
+
+type Color = keyof typeof ANSI;
+
+const PREVIEW_LENGTH = 80;
+
+function attributesOf(event: CanonicalEvent): Record<string, any> {
+  return (event.attributes?.[event.event_type] ?? {}) as Record<string, any>;
+}
+
+function eventLatency(event: CanonicalEvent): number | null {
+  const attrs = attributesOf(event);
+  const latency = attrs.latency_ms ?? attrs.total_latency_ms;
+  return typeof latency === "number" ? latency : null;
+}
+
+function eventTokens(event: CanonicalEvent): number {
+  if (event.event_type !== "llm_call" && event.event_type !== "embedding") {
+    return 0;
+  }
+  const attrs = attributesOf(event);
+  if (typeof attrs.total_tokens === "number") return attrs.total_tokens;
+  return (attrs.input_tokens ?? 0) + (attrs.output_tokens ?? 0);
+}
+
+function eventCost(event: CanonicalEvent): number {
+  if (event.event_type !== "llm_call" && event.event_type !== "embedding") {
+    return 0;
+  }
+  const cost = attributesOf(event).cost;
+  return typeof cost === "number" ? cost : 0;
+}
+
+function eventStatus(event: CanonicalEvent): string | null {
+  if (event.event_type === "error") return "error";
+  const attrs = attributesOf(event);
+  return attrs.status ?? attrs.result_status ?? attrs.outcome ?? null;
+}
+
+// Non-success statuses win over success when events are merged
+function mergeStatus(a: string | null, b: string | null): string | null {
+  if (a === null) return b;
+  if (b === null || b === "success") return a;
+  return a === "success" ? b : a;
+}
+
+/**
+ * Group events by trace and rebuild each trace's span tree. Traces are
+ * ordered by start time.
+ */
+export function buildTraces(events: CanonicalEvent[]): ViewerTrace[] {
+  const byTrace = new Map<string, CanonicalEvent[]>();
+  for (const event of events) {
+    const list = byTrace.get(event.trace_id) ?? [];
+    list.push(event);
+    byTrace.set(event.trace_id, list);
+  }
+
+  const traces: ViewerTrace[] = [];
+  for (const [traceId, traceEvents] of byTrace) {
+    const sorted = [...traceEvents].sort((a, b) =>
+      a.timestamp.localeCompare(b.timestamp),
+    );
+    const spans = new Map<string, ViewerSpan>();
+    for (const event of sorted) {
+      let span = spans.get(event.span_id);
+      if (!span) {
+        span = {
+          spanId: event.span_id,
+          parentSpanId: event.parent_span_id ?? null,
+          events: [],
+          children: [],
+          latencyMs: null,
+          tokens: 0,
+          cost: 0,
+          status: null,
+        };
+        spans.set(event.span_id, span);
+      }
+      span.events.push(event);
+      span.parentSpanId ??= event.parent_span_id ?? null;
+      span.latencyMs = eventLatency(event) ?? span.latencyMs;
+      span.status = mergeStatus(span.status, eventStatus(event));
+      if (event.event_type !== "trace_end") {
+        span.tokens += eventTokens(event);
+        span.cost += eventCost(event);
+      }
+    }
+
+    const roots: ViewerSpan[] = [];
+    for (const span of spans.values()) {
+      const parent =
+        span.parentSpanId !== null ? spans.get(span.parentSpanId) : undefined;
+      if (parent && parent !== span) {
+        parent.children.push(span);
+      } else {
+        roots.push(span);
+      }
+    }
+
+    const first = sorted[0]!;
+    const last = sorted[sorted.length - 1]!;
+    const traceEnd = sorted.find((e) => e.event_type === "trace_end");
+    const endAttrs = traceEnd ? attributesOf(traceEnd) : {};
+    const spanList = [...spans.values()];
+    const elapsed = Date.parse(last.timestamp) - Date.parse(first.timestamp);
+    const status = spanList.reduce<string | null>(
+      (acc, span) => mergeStatus(acc, span.status),
+      null,
+    );
+
+    traces.push({
+      traceId,
+      events: sorted,
+      roots,
+      startTime: first.timestamp,
+      durationMs: Math.max(
+        endAttrs.total_latency_ms ?? 0,
+        ...spanList.map((span) => span.latencyMs ?? 0),
+        Number.isFinite(elapsed) ? elapsed : 0,
+      ),
+      tokens:
+        endAttrs.total_tokens ??
+        spanList.reduce((sum, span) => sum + span.tokens, 0),
+      cost:
+        endAttrs.total_cost ??
+        spanList.reduce((sum, span) => sum + span.cost, 0),
+      status: status ?? "success",
+    });
+  }
+
+  return traces.sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+/**
+ * Keep traces matching every given filter. User, session and model match
+ * if any event of the trace matches.
+ */
+export function filterTraces(
+  traces: ViewerTrace[],
+  filter: TraceFilter,
+): ViewerTrace[] {
+  return traces.filter((trace) => {
+    if (filter.traceId && !trace.traceId.startsWith(filter.traceId)) {
+      return false;
+    }
+    if (filter.status && trace.status !== filter.status) return false;
+    if (
+      filter.userId &&
+      !trace.events.some((e) => e.user_id === filter.userId)
+    ) {
+      return false;
+    }
+    if (
+      filter.sessionId &&
+      !trace.events.some((e) => e.session_id === filter.sessionId)
+    ) {
+      return false;
+    }
+    if (filter.model) {
+      const model = filter.model.toLowerCase();
+      const matches = trace.events.some(
+        (e) =>
+          (e.event_type === "llm_call" || e.event_type === "embedding") &&
+          String(attributesOf(e).model ?? "")
+            .toLowerCase()
+            .includes(model),
+      );
+      if (!matches) return false;
+    }
+    return true;
+  });
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return "";
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+function formatCost(cost: number): string {
+  return `$${cost < 0.01 ? cost.toFixed(5) : cost.toFixed(4)}`;
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Render traces as indented span trees, one line per array entry
+ */
+export function renderTraces(
+  traces: ViewerTrace[],
+  options: RenderOptions = {},
+): string[] {
+  const useColor = options.color ?? true;
+  const barWidth = options.barWidth ?? 20;
+  const paint = (color: Color, text: string) =>
+    useColor ? `${ANSI[color]}${text}${ANSI.reset}` : text;
+  const statusIcon = (status: string | null) => {
+    if (status === "error" || status === "timeout") return paint("red", "✗");
+    if (status === "interrupted") return paint("yellow", "⏸");
+    return paint("green", "✓");
+  };
+
+  const bar = (latencyMs: number | null, totalMs: number) => {
+    if (latencyMs === null) return " ".repeat(barWidth + 2);
+    const ratio = totalMs > 0 ? Math.min(latencyMs / totalMs, 1) : 0;
+    const filled = Math.max(1, Math.round(ratio * barWidth));
+    return (
+      paint("cyan", "▕" + "█".repeat(filled)) +
+      paint("gray", "░".repeat(barWidth - filled) + "▏")
+    );
+  };
+
+  // Label and inline details for one event
+  const describe = (event: CanonicalEvent): [string, string[]] => {
+    const attrs = attributesOf(event);
+    switch (event.event_type) {
+      case "llm_call": {
+        const details: string[] = [];
+        if (attrs.input_tokens != null || attrs.output_tokens != null) {
+          details.push(
+            `${attrs.input_tokens ?? "?"}→${attrs.output_tokens ?? "?"} tok`,
+          );
+        }
+        if (typeof attrs.cost === "number") {
+          details.push(paint("green", formatCost(attrs.cost)));
+        }
+        if (attrs.finish_reason) details.push(`finish=${attrs.finish_reason}`);
+        return [
+          `${paint("magenta", "llm")} ${paint("yellow", attrs.model ?? "?")}`,
+          details,
+        ];
+      }
+      case "tool_call":
+        return [`${paint("blue", "tool")} ${attrs.tool_name ?? "?"}`, []];
+      case "retrieval": {
+        const details: string[] = [];
+        const count = attrs.retrieval_context_ids?.length ?? attrs.k;
+        if (count != null) details.push(`${count} docs`);
+        const scores: number[] = attrs.similarity_scores ?? [];
+        if (scores.length > 0) {
+          details.push(`top=${Math.max(...scores).toFixed(3)}`);
+        }
+        return [paint("blue", "retrieval"), details];
+      }
+      case "embedding":
+        return [
+          `${paint("blue", "embedding")} ${paint("yellow", attrs.model ?? "?")}`,
+          [],
+        ];
+      case "error":
+        return [
+          paint(
+            "red",
+            `error ${attrs.error_type ?? "Error"}: ${attrs.error_message ?? ""}`,
+          ),
+          [],
+        ];
+      case "span":
+        return [
+          `${paint("bright", attrs.name ?? "span")}` +
+            (attrs.kind ? ` ${paint("gray", `[${attrs.kind}]`)}` : ""),
+          [],
+        ];
+      case "trace_start":
+        return [paint("bright", attrs.name ?? "trace"), []];
+      case "feedback":
+        return [
+          `${paint("blue", "feedback")} ${attrs.type ?? ""}` +
+            (attrs.rating != null ? ` ${attrs.rating}` : ""),
+          [],
+        ];
+      default:
+        return [paint("blue", event.event_type), []];
+    }
+  };
+
+  // Collapsible content of one event: [label, value]
+  const contentOf = (event: CanonicalEvent): Array<[string, unknown]> => {
+    const attrs = attributesOf(event);
+    switch (event.event_type) {
+      case "llm_call":
+        return [
+          ["prompt", attrs.input],
+          ["response", attrs.output],
+        ];
+      case "tool_call":
+        return [
+          ["args", attrs.args],
+          ["result", attrs.result],
+          ["error", attrs.error_message],
+        ];
+      case "retrieval":
+        return [["context", attrs.retrieval_context]];
+      case "embedding":
+        return [["input", attrs.input_text]];
+      case "output":
+        return [["output", attrs.final_output]];
+      case "feedback":
+        return [["comment", attrs.comment]];
+      case "error":
+        return [["stack", attrs.stack_trace]];
+      default:
+        return [];
+    }
+  };
+
+  const contentLines = (event: CanonicalEvent, indent: string): string[] => {
+    const lines: string[] = [];
+    for (const [label, value] of contentOf(event)) {
+      if (value === null || value === undefined || value === "") continue;
+      const text = stringify(value);
+      if (options.expand) {
+        lines.push(`${indent}${paint("gray", `▾ ${label}`)}`);
+        for (const line of text.split("\n")) {
+          lines.push(`${indent}  ${paint("dim", line)}`);
+        }
+        continue;
+      }
+      const flat = text.replace(/\s+/g, " ").trim();
+      const preview =
+        flat.length > PREVIEW_LENGTH
+          ? `${flat.slice(0, PREVIEW_LENGTH)}… (${text.length.toLocaleString()} chars)`
+          : flat;
+      lines.push(
+        `${indent}${paint("gray", `▸ ${label}`)} ${paint("dim", preview)}`,
+      );
+    }
+    return lines;
+  };
+
+  const renderSpan = (
+    span: ViewerSpan,
+    trace: ViewerTrace,
+    prefix: string,
+    isLast: boolean,
+    lines: string[],
+  ) => {
+    // trace_end only carries totals for the span opened by trace_start
+    const visible = span.events.filter((e) => e.event_type !== "trace_end");
+    const [primary, ...rest] = visible.length > 0 ? visible : span.events;
+    const [label, details] = describe(primary!);
+    const summary = [
+      bar(span.latencyMs, trace.durationMs),
+      formatDuration(span.latencyMs).padStart(7),
+      statusIcon(span.status),
+      label,
+      ...details,
+    ];
+    lines.push(`${prefix}${isLast ? "└─ " : "├─ "}${summary.join(" ")}`);
+
+    const childPrefix = prefix + (isLast ? "   " : "│  ");
+    const detailIndent =
+      childPrefix + (span.children.length > 0 ? "│ " : "  ");
+    lines.push(...contentLines(primary!, detailIndent));
+    for (const event of rest) {
+      const [extraLabel, extraDetails] = describe(event);
+      lines.push(
+        `${detailIndent}${[paint("gray", "·"), extraLabel, ...extraDetails].join(" ")}`,
+      );
+      lines.push(...contentLines(event, detailIndent + "  "));
+    }
+
+    span.children.forEach((child, index) =>
+      renderSpan(
+        child,
+        trace,
+        childPrefix,
+        index === span.children.length - 1,
+        lines,
+      ),
+    );
+  };
+
+  const lines: string[] = [];
+  for (const trace of traces) {
+    const first = trace.events[0];
+    const header = [
+      paint("bright", paint("blue", "🔍 TRACE")),
+      paint("gray", trace.traceId),
+      paint("gray", new Date(trace.startTime).toLocaleString()),
+      formatDuration(trace.durationMs),
+      `${trace.tokens.toLocaleString()} tokens`,
+      paint("green", formatCost(trace.cost)),
+      `${statusIcon(trace.status)} ${trace.status}`,
+    ];
+    lines.push("═".repeat(90));
+    lines.push(header.join("  "));
+
+    const context = [
+      first?.user_id ? `user ${first.user_id}` : null,
+      first?.session_id ? `session ${first.session_id}` : null,
+      first?.agent_name ? `agent ${first.agent_name}` : null,
+      first?.environment ? `env ${first.environment}` : null,
+    ].filter((part): part is string => part !== null);
+    if (context.length > 0) lines.push(paint("gray", context.join(" · ")));
+    lines.push("─".repeat(90));
+
+    trace.roots.forEach((root, index) =>
+      renderSpan(root, trace, "", index === trace.roots.length - 1, lines),
+    );
+    lines.push("");
+  }
+  return lines;
+}
@@ -0,0 +1,344 @@
+/**
+ * Event Transports
+ *
+ * Decouples event delivery from the Observa client. The client buffers,
+ * sanitizes and batches canonical events; a transport only decides where a
+ * batch ends up (Observa HTTP API, a local file, stdout, memory, or a custom
+ * function).
+ *
+ * A transport signals failure by throwing (or rejecting). The client retries
+ * failed batches with exponential backoff before re-buffering them. A
+ * transport whose destination accepts events one by one can instead resolve
+ * with the indexes of the events to send again (TransportSendResult).
+ */
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { CanonicalEvent } from "./index.js";
+import { emitDiagnostic } from "./diagnostics.js";
+
+/**
+ * Per-event outcome of a batch. Events not listed in `retry` were delivered
+ * (or rejected for good) and are not sent again.
+ */
+export interface TransportSendResult {
+  // Indexes into the batch of the events to send again
+  retry: number[];
+}
+
+export interface ObservaTransport {
+  /**
+   * Deliver a batch of canonical events.
+   * Must throw/reject when delivery fails so the client can retry.
+   */
+  send(events: CanonicalEvent[]): Promise<void | TransportSendResult>;
+  /**
+   * Optional cleanup hook, called from observa.end()
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Anything accepted by ObservaInitConfig.transport: a transport object or a
+ * plain function that receives each batch.
+ */
+export type ObservaTransportLike =
+  | ObservaTransport
+  | ((events: CanonicalEvent[]) => void | Promise<void>);
+
+// Load a Node.js built-in lazily so edge/browser bundles never touch it
+async function loadNodeModule(name: string): Promise<any> {
+  return import(name);
+}
+
+/**
+ * Normalize ObservaInitConfig.transport into an ObservaTransport
+ */
+export function resolveTransport(
+  transport: ObservaTransportLike,
+): ObservaTransport {
+  if (typeof transport === "function") {
+    return createFunctionTransport(transport);
+  }
+  return transport;
+}
+
+/**
+ * Outcome of a batch from the ingest API's per-event results. Events rejected
+ * with retryable: true (storage failures) are sent again; the other rejected
+ * events failed validation and are dropped, since resending cannot fix them.
+ */
+function readIngestResults(
+  results: any[],
+  events: CanonicalEvent[],
+  owner?: object,
+): TransportSendResult {
+  const retry: number[] = [];
+  const dropped: Array<{ index: number; error: string | null }> = [];
+  for (const result of results) {
+    const index = result?.index;
+    if (
+      result?.status !== "rejected" ||
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= events.length
+    ) {
+      continue;
+    }
+    if (result.retryable === true) {
+      retry.push(index);
+    } else {
+      dropped.push({ index, error: result.error ?? null });
+    }
+  }
+
+  if (dropped.length > 0) {
+    console.error(
+      `[Observa] Ingest API rejected ${dropped.length} event(s):`,
+      dropped[0]!.error,
+    );
+    emitDiagnostic(
+      "transport.ts:readIngestResults",
+      "events rejected by the ingest API",
+      () => ({
+        dropped: dropped.map(({ index, error }) => ({
+          spanId: events[index]?.span_id ?? null,
+          eventType: events[index]?.event_type ?? null,
+          error,
+        })),
+        retry: retry.length,
+      }),
+      owner,
+    );
+  }
+  return { retry };
+}
+
+/**
+ * Default transport: POST events to the Observa ingest endpoint
+ * (`${apiUrl}/api/v1/events/ingest`) with a bearer token.
+ *
+ * Responses with per-event results (200, 207, 400, 503) resend only the
+ * events rejected as retryable. A 400 without results means the batch itself
+ * was invalid, so it is dropped instead of being resent forever.
+ */
+export function createHttpTransport(options: {
+  apiUrl: string;
+  apiKey: string;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+  // Serializer for the request body (defaults to JSON.stringify)
+  serialize?: (events: CanonicalEvent[]) => string;
+  // Client whose diagnostic handlers receive this transport's diagnostics
+  diagnosticsOwner?: object;
+}): ObservaTransport {
+  // Remove trailing slash from apiUrl if present, then add the path
+  const baseUrl = options.apiUrl.replace(/\/+$/, "");
+  const url = `${baseUrl}/api/v1/events/ingest`;
+  const timeoutMs = options.timeoutMs ?? 10000;
+  const serialize = options.serialize ?? ((events) => JSON.stringify(events));
+
+  return {
+    async send(events: CanonicalEvent[]): Promise<void | TransportSendResult> {
+      const traceId = events[0]?.trace_id;
+
+      // Enhanced logging for debugging
+      console.log(
+        `[Observa] Sending ${
+          events.length
+        } canonical events - URL: ${url}, TraceID: ${traceId}, Tenant: ${
+          events[0]?.tenant_id
+        }, Project: ${events[0]?.project_id}, APIKey: ${
+          options.apiKey ? `Yes(${options.apiKey.length} chars)` : "No"
+        }`,
+      );
+
+      // Add timeout to prevent hanging requests
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${options.apiKey}`,
+            "Content-Type": "application/json",
+            ...(options.headers || {}),
+          },
+          body: serialize(events),
+          signal: controller.signal,
+        });
+
+        clearTimeout(timeoutId);
+
+        emitDiagnostic(
+          "transport.ts:createHttpTransport",
+          "ingest response status",
+          () => ({
+            status: response.status,
+            statusText: response.statusText,
+            url,
+          }),
+          options.diagnosticsOwner,
+        );
+
+        // Always log response status for debugging
+        console.log(
+          `[Observa] Response status: ${response.status} ${response.statusText}`,
+        );
+
+        const responseText = await response.text().catch(() => "");
+        let result: any = null;
+        try {
+          result = JSON.parse(responseText);
+        } catch {
+          // Not JSON - handled by status below
+        }
+
+        // Per-event results (an error response with none is handled below)
+        if (
+          Array.isArray(result?.results) &&
+          (response.ok || result.results.length > 0)
+        ) {
+          const outcome = readIngestResults(
+            result.results,
+            events,
+            options.diagnosticsOwner,
+          );
+          console.log(
+            `[Observa] Ingest results - Trace ID: ${traceId}, accepted: ${
+              result.accepted ?? events.length
+            }, retrying: ${outcome.retry.length}`,
+          );
+          return outcome;
+        }
+
+        if (!response.ok) {
+          const errorText = responseText || "Unknown error";
+          const errorJson: any = result ?? { error: errorText };
+
+          emitDiagnostic(
+            "transport.ts:createHttpTransport",
+            "ingest error response",
+            () => ({
+              status: response.status,
+              statusText: response.statusText,
+              errorPreview:
+                typeof errorText === "string"
+                  ? errorText.substring(0, 300)
+                  : null,
+            }),
+            options.diagnosticsOwner,
+          );
+
+          console.error(
+            `[Observa] Backend API error: ${response.status} ${response.statusText}`,
+            errorJson.error || errorText,
+          );
+          if (response.status === 400) {
+            console.error(
+              `[Observa] Dropping ${events.length} event(s) (not resendable)`,
+            );
+            return { retry: [] };
+          }
+          throw new Error(
+            `Observa API error: ${response.status} ${
+              errorJson.error?.message || errorText
+            }`,
+          );
+        } else {
+          // Log success even in production for debugging
+          console.log(
+            `✅ [Observa] Events sent successfully - Trace ID: ${traceId}, Event count: ${
+              result?.event_count || events.length
+            }`,
+          );
+        }
+      } catch (fetchError) {
+        clearTimeout(timeoutId);
+        if (fetchError instanceof Error && fetchError.name === "AbortError") {
+          console.error(
+            `[Observa] Request timeout after ${timeoutMs / 1000} seconds`,
+          );
+        }
+        throw fetchError;
+      }
+    },
+  };
+}
+
+/**
+ * Append each event as one JSON line (JSONL) to a local file.
+ * Node.js only - useful for air-gapped environments and CI artifacts.
+ */
+export function createFileTransport(options: {
+  path: string;
+}): ObservaTransport {
+  // Serialize writes so concurrent flushes never interleave lines
+  let writeChain: Promise<void> = Promise.resolve();
+
+  return {
+    send(events: CanonicalEvent[]): Promise<void> {
+      const lines = events.map((event) => JSON.stringify(event)).join("\n");
+      const write = writeChain.then(async () => {
+        const fs = await loadNodeModule("node:fs/promises");
+        await fs.appendFile(options.path, lines + "\n", "utf-8");
+      });
+      writeChain = write.catch(() => {});
+      return write;
+    },
+    async close(): Promise<void> {
+      await writeChain;
+    },
+  };
+}
+
+/**
+ * Write each event as one JSON line to stdout (falls back to console.log)
+ */
+export function createConsoleTransport(): ObservaTransport {
+  return {
+    async send(events: CanonicalEvent[]): Promise<void> {
+      const stdout = (globalThis as any).process?.stdout;
+      for (const event of events) {
+        const line = JSON.stringify(event);
+        if (stdout?.write) {
+          stdout.write(line + "\n");
+        } else {
+          console.log(line);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Keep events in memory (tests, local inspection)
+ */
+export function createMemoryTransport(): ObservaTransport & {
+  events: CanonicalEvent[];
+  clear(): void;
+} {
+  const events: CanonicalEvent[] = [];
+  return {
+    events,
+    async send(batch: CanonicalEvent[]): Promise<void> {
+      events.push(...batch);
+    },
+    clear(): void {
+      events.length = 0;
+    },
+  };
+}
+
+/**
+ * Hand each batch to a custom function (e.g. your own gateway client)
+ */
+export function createFunctionTransport(
+  fn: (events: CanonicalEvent[]) => void | Promise<void>,
+): ObservaTransport {
+  return {
+    async send(events: CanonicalEvent[]): Promise<void> {
+      await fn(events);
+    },
+  };
+}
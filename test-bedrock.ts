@@ -0,0 +1,175 @@
+/**
+ * Test script for Bedrock commands (observeBedrock)
+ * Tests:
+ * 1. Commands are matched by class name and record an llm_call
+ * 2. Minified command classes are matched by input shape
+ * 3. Streaming is detected from the response
+ * 4. Unmatched commands pass through with a diagnostic
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+// Command classes as the AWS SDK names them, and as a minifier renames them
+class ConverseCommand {
+  constructor(public input: any) {}
+}
+class ConverseStreamCommand {
+  constructor(public input: any) {}
+}
+class InvokeModelCommand {
+  constructor(public input: any) {}
+}
+class a {
+  constructor(public input: any) {}
+}
+
+const modelId = "anthropic.claude-3-5-haiku-20241022-v1:0";
+const converseInput = {
+  modelId,
+  messages: [{ role: "user", content: [{ text: "Hi there" }] }],
+};
+const invokeInput = {
+  modelId,
+  body: JSON.stringify({
+    anthropic_version: "bedrock-2023-05-31",
+    max_tokens: 50,
+    messages: [{ role: "user", content: "Hi there" }],
+  }),
+};
+
+async function* converseStream() {
+  yield { messageStart: { role: "assistant" } };
+  yield { contentBlockDelta: { contentBlockIndex: 0, delta: { text: "Hel" } } };
+  yield { contentBlockDelta: { contentBlockIndex: 0, delta: { text: "lo" } } };
+  yield { messageStop: { stopReason: "end_turn" } };
+  yield { metadata: { usage: { inputTokens: 5, outputTokens: 2 } } };
+}
+
+// Fake BedrockRuntimeClient answering by input shape and a stream flag
+const client = {
+  async send(command: any) {
+    const input = command.input;
+    if (input.stream) return { stream: converseStream() };
+    if (input.messages) {
+      return {
+        output: {
+          message: { role: "assistant", content: [{ text: "Hello" }] },
+        },
+        stopReason: "end_turn",
+        usage: {
+          inputTokens: 5,
+          outputTokens: 2,
+          cacheReadInputTokens: 3,
+          cacheWriteInputTokens: 4,
+        },
+        $metadata: { requestId: "req-1" },
+      };
+    }
+    if (input.body) {
+      const body = {
+        id: "msg_1",
+        content: [{ type: "text", text: "Hello" }],
+        stop_reason: "end_turn",
+        usage: { input_tokens: 5, output_tokens: 2 },
+      };
+      return { body: new TextEncoder().encode(JSON.stringify(body)) };
+    }
+    return { guardrails: [] };
+  },
+};
+
+async function main() {
+  const transport = createMemoryTransport();
+  const diagnostics: string[] = [];
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+    onDiagnostic: (event) => diagnostics.push(event.message),
+  });
+  const bedrock = observa.observeBedrock(client);
+  const operations = async () => {
+    await observa.flush();
+    const ops = transport.events
+      .filter((e) => e.event_type === "llm_call")
+      .map((e) => (e.attributes as any).metadata?.bedrock_operation);
+    transport.events.length = 0;
+    return ops;
+  };
+
+  console.log("\nTest 1: Matched by class name");
+  await bedrock.send(new ConverseCommand(converseInput));
+  await observa.flush();
+  const llm = transport.events.find((e) => e.event_type === "llm_call")
+    ?.attributes.llm_call;
+  check(
+    "llm_call with input, output and usage",
+    llm?.input === "Hi there" &&
+      llm?.output === "Hello" &&
+      llm?.input_tokens === 5 &&
+      llm?.output_tokens === 2 &&
+      llm?.provider_name === "aws.bedrock",
+  );
+  check(
+    "prompt cache reads and writes are reported next to input tokens",
+    llm?.cache_read_input_tokens === 3 && llm?.cache_write_input_tokens === 4,
+  );
+  check("ConverseCommand is traced", (await operations())[0] === "Converse");
+  await bedrock.send(new InvokeModelCommand(invokeInput));
+  check(
+    "InvokeModelCommand is traced",
+    (await operations())[0] === "InvokeModel",
+  );
+  const streamed = await bedrock.send(
+    new ConverseStreamCommand({ ...converseInput, stream: true }),
+  );
+  for await (const _chunk of streamed.stream) {
+    // drain
+  }
+  check(
+    "ConverseStreamCommand is traced",
+    (await operations())[0] === "ConverseStream",
+  );
+
+  console.log("\nTest 2: Minified command classes");
+  await bedrock.send(new a(converseInput));
+  check(
+    "modelId + messages is traced as Converse",
+    (await operations())[0] === "Converse",
+  );
+  await bedrock.send(new a(invokeInput));
+  check(
+    "modelId + body is traced as InvokeModel",
+    (await operations())[0] === "InvokeModel",
+  );
+
+  console.log("\nTest 3: Streaming from the response");
+  const response = await bedrock.send(
+    new a({ ...converseInput, stream: true }),
+  );
+  let text = "";
+  for await (const chunk of response.stream) {
+    text += chunk.contentBlockDelta?.delta?.text ?? "";
+  }
+  check("the stream is passed through", text === "Hello");
+  check(
+    "traced as ConverseStream",
+    (await operations())[0] === "ConverseStream",
+  );
+
+  console.log("\nTest 4: Unmatched commands");
+  const guardrail = await bedrock.send(new a({ content: [] }));
+  check("result is returned", Array.isArray(guardrail.guardrails));
+  check("no llm_call recorded", (await operations()).length === 0);
+  check(
+    "a diagnostic is reported",
+    diagnostics.some((message) => message.startsWith("Command not traced")),
+  );
+
+  finish("Bedrock");
+}
+
+run(main);
@@ -0,0 +1,135 @@
+/**
+ * Test script for the content capture policy (captureContent)
+ * Tests:
+ * 1. full, truncated, hashed and none modes on content fields
+ * 2. A per-event-type policy with a default
+ * 3. Non-content fields are always kept
+ * 4. Hashes are taken over redacted content
+ */
+
+import { init, createMemoryTransport, createContentCapture } from "./src/index";
+import { sha256Hex } from "./src/hash";
+import { check, finish, run } from "./test-fixtures/check";
+
+function client(config: Record<string, unknown>) {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+    ...config,
+  });
+  return { observa, transport };
+}
+
+async function main() {
+  const input = "Summarize the quarterly report for the board";
+  const attributes = {
+    llm_call: { model: "gpt-4o", input, output: "Revenue grew", cost: 0.01 },
+  };
+
+  console.log("\nTest 1: Capture modes");
+  const full = createContentCapture("full").apply("llm_call", attributes);
+  check("full keeps the attributes as is", full === attributes);
+
+  const truncated = createContentCapture("truncated", 20).apply(
+    "llm_call",
+    attributes,
+  ).llm_call;
+  check(
+    "truncated cuts long strings",
+    truncated.input === "Summarize the quarte...",
+  );
+  check("truncated keeps short strings", truncated.output === "Revenue grew");
+  check("truncated is marked", truncated.content_capture === "truncated");
+
+  const hashed = createContentCapture("hashed").apply(
+    "llm_call",
+    attributes,
+  ).llm_call;
+  check("hashed clears the field", hashed.input === null);
+  check("hashed stores the SHA-256", hashed.input_hash === sha256Hex(input));
+  check("hashed is marked", hashed.content_capture === "hashed");
+
+  const none = createContentCapture("none").apply(
+    "llm_call",
+    attributes,
+  ).llm_call;
+  check(
+    "none clears the fields without hashes",
+    none.input === null && none.output === null && !("input_hash" in none),
+  );
+  check(
+    "the original attributes are not mutated",
+    attributes.llm_call.input === input,
+  );
+
+  console.log("\nTest 2: Per-event-type policy");
+  const { observa, transport } = client({
+    captureContent: { default: "none", tool_call: "full" },
+  });
+  observa.trackLLMCall({
+    model: "gpt-4o",
+    input,
+    output: "Revenue grew",
+    inputTokens: 12,
+    outputTokens: 3,
+    latencyMs: 10,
+  });
+  observa.trackToolCall({
+    toolName: "search",
+    args: { query: "report" },
+    result: { hits: 3 },
+    resultStatus: "success",
+    latencyMs: 5,
+  });
+  await observa.flush();
+  const llm = transport.events.find((e) => e.event_type === "llm_call");
+  const tool = transport.events.find((e) => e.event_type === "tool_call");
+  check(
+    "default applies to llm_call",
+    llm?.attributes.llm_call?.input === null &&
+      llm?.attributes.llm_call?.output === null,
+  );
+  check(
+    "tool_call keeps full content",
+    tool?.attributes.tool_call?.args?.query === "report" &&
+      (tool?.attributes.tool_call as any)?.content_capture === undefined,
+  );
+
+  console.log("\nTest 3: Non-content fields are kept");
+  check(
+    "model, tokens and latency survive",
+    llm?.attributes.llm_call?.model === "gpt-4o" &&
+      llm?.attributes.llm_call?.input_tokens === 12 &&
+      llm?.attributes.llm_call?.output_tokens === 3 &&
+      llm?.attributes.llm_call?.latency_ms === 10,
+  );
+
+  console.log("\nTest 4: Hashes are taken over redacted content");
+  const redacted = client({ captureContent: "hashed", redaction: {} });
+  redacted.observa.trackLLMCall({
+    model: "gpt-4o",
+    input: "Mail jane@example.com",
+    output: "ok",
+    latencyMs: 10,
+  });
+  await redacted.observa.flush();
+  const call: any = redacted.transport.events.find(
+    (e) => e.event_type === "llm_call",
+  )?.attributes.llm_call;
+  check(
+    "hash matches the redacted input",
+    call?.input_hash === sha256Hex("Mail [REDACTED_EMAIL]"),
+  );
+  check(
+    "hash does not match the raw input",
+    call?.input_hash !== sha256Hex("Mail jane@example.com"),
+  );
+
+  finish("content capture");
+}
+
+run(main);
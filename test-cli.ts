@@ -0,0 +1,230 @@
+/**
+ * Test script for the trace viewer and the observa CLI
+ * Tests:
+ * 1. buildTraces() rebuilds span trees and merges trace_start/trace_end
+ * 2. Trace status, tokens and cost come from the events
+ * 3. filterTraces() matches trace ID prefix, user, model and status
+ * 4. renderTraces() collapses content unless expanded
+ * 5. The CLI reads SDK events, queue records and Tinybird rows
+ * 6. The CLI drops replayed events and skips stray input
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildTraces, filterTraces, renderTraces } from "./src/trace-viewer";
+import { check, finish, run } from "./test-fixtures/check";
+
+let clock = Date.parse("2026-01-01T10:00:00Z");
+
+function event(
+  traceId: string,
+  spanId: string,
+  parentSpanId: string | null,
+  type: string,
+  attributes: Record<string, any>,
+  extra: Record<string, any> = {},
+): any {
+  return {
+    tenant_id: "test-tenant",
+    project_id: "test-project",
+    environment: "prod",
+    trace_id: traceId,
+    span_id: spanId,
+    parent_span_id: parentSpanId,
+    timestamp: new Date((clock += 100)).toISOString(),
+    event_type: type,
+    attributes: { [type]: attributes },
+    ...extra,
+  };
+}
+
+const longPrompt = "Explain the refund policy in detail. ".repeat(10);
+
+// Trace A: root -> llm_call -> tool_call
+const traceA = [
+  event(
+    "aaaa-1",
+    "root-a",
+    null,
+    "trace_start",
+    { name: "chat" },
+    {
+      user_id: "user-1",
+    },
+  ),
+  event("aaaa-1", "llm-a", "root-a", "llm_call", {
+    model: "gpt-4o",
+    input: longPrompt,
+    output: "Refunds take 5 days.",
+    input_tokens: 90,
+    output_tokens: 6,
+    cost: 0.0012,
+    latency_ms: 400,
+  }),
+  event("aaaa-1", "tool-a", "llm-a", "tool_call", {
+    tool_name: "policy.lookup",
+    args: { topic: "refunds" },
+    result_status: "success",
+    latency_ms: 30,
+  }),
+  event("aaaa-1", "root-a", null, "trace_end", {
+    total_latency_ms: 500,
+    total_tokens: 96,
+  }),
+];
+
+// Trace B: a failed LLM call
+const traceB = [
+  event(
+    "bbbb-2",
+    "root-b",
+    null,
+    "trace_start",
+    { name: "summarize" },
+    {
+      user_id: "user-2",
+    },
+  ),
+  event("bbbb-2", "llm-b", "root-b", "llm_call", {
+    model: "claude-3-5-haiku",
+    input: "Summarize",
+    output: null,
+    status: "error",
+  }),
+  event("bbbb-2", "err-b", "llm-b", "error", {
+    error_type: "RateLimitError",
+    error_message: "Too many requests",
+  }),
+];
+
+async function runCli(argv: string[]): Promise<string[]> {
+  const lines: string[] = [];
+  const log = console.log;
+  const error = console.error;
+  console.log = (line: string) => lines.push(line);
+  console.error = (line: string) => lines.push(line);
+  process.argv = [process.argv[0]!, "observa", ...argv];
+  try {
+    await import("./src/cli");
+    while (process.exitCode === undefined) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  } finally {
+    console.log = log;
+    console.error = error;
+  }
+  return lines;
+}
+
+async function main() {
+  console.log("\nTest 1: Span trees");
+  const traces = buildTraces([...traceB, ...traceA]);
+  const a = traces.find((t) => t.traceId === "aaaa-1");
+  const b = traces.find((t) => t.traceId === "bbbb-2");
+  check(
+    "traces ordered by start time",
+    traces.map((t) => t.traceId).join(",") === "aaaa-1,bbbb-2",
+  );
+  check(
+    "trace_start and trace_end share one root node",
+    a?.roots.length === 1 && a.roots[0]!.events.length === 2,
+  );
+  check(
+    "children nest under their parents",
+    a?.roots[0]?.children[0]?.spanId === "llm-a" &&
+      a.roots[0].children[0].children[0]?.spanId === "tool-a",
+  );
+
+  console.log("\nTest 2: Totals and status");
+  check("trace_end totals are used", a?.tokens === 96 && a?.durationMs === 500);
+  check("cost is summed from llm calls", a?.cost === 0.0012);
+  check(
+    "an error event fails the trace",
+    a?.status === "success" && b?.status === "error",
+  );
+
+  console.log("\nTest 3: Filters");
+  const ids = (filter: any) =>
+    filterTraces(traces, filter)
+      .map((t) => t.traceId)
+      .join(",");
+  check("trace ID prefix", ids({ traceId: "bbbb" }) === "bbbb-2");
+  check("user", ids({ userId: "user-1" }) === "aaaa-1");
+  check("model substring", ids({ model: "HAIKU" }) === "bbbb-2");
+  check("status", ids({ status: "error" }) === "bbbb-2");
+
+  console.log("\nTest 4: Rendering");
+  const collapsed = renderTraces([a!], { color: false }).join("\n");
+  const expanded = renderTraces([a!], { color: false, expand: true });
+  check(
+    "one line per span with model and tokens",
+    collapsed.includes("llm gpt-4o") &&
+      collapsed.includes("90→6 tok") &&
+      collapsed.includes("tool policy.lookup"),
+  );
+  check(
+    "long content is previewed",
+    collapsed.includes(`(${longPrompt.length} chars)`),
+  );
+  check(
+    "expand shows the full content",
+    expanded.some((line) => line.includes(longPrompt.trim())),
+  );
+  check("no ANSI codes without color", !collapsed.includes("\x1b["));
+
+  console.log("\nTest 5: CLI input formats");
+  const directory = mkdtempSync(join(tmpdir(), "observa-cli-"));
+  const [start, llm, tool, end] = traceA;
+  const queued = { ...tool, idempotency_key: "key-1" };
+  const { attributes, ...row } = traceB[2];
+  writeFileSync(
+    join(directory, "a-sdk.jsonl"),
+    [start, llm, end].map((e) => JSON.stringify(e)).join("\n") + "\n",
+  );
+  writeFileSync(
+    join(directory, "b-queue.jsonl"),
+    [
+      { op: "event", event: queued },
+      { op: "ack", keys: ["key-1"] },
+      { op: "event", event: queued },
+    ]
+      .map((e) => JSON.stringify(e))
+      .join("\n") + '\n{"op":"event","ev',
+  );
+  writeFileSync(
+    join(directory, "c-tinybird.jsonl"),
+    [
+      JSON.stringify(traceB[0]),
+      JSON.stringify(traceB[1]),
+      JSON.stringify({ ...row, attributes_json: JSON.stringify(attributes) }),
+    ].join("\n"),
+  );
+  writeFileSync(join(directory, "notes.txt"), "not events");
+  const output = await runCli([directory, "--limit=5", "--no-color"]);
+  rmSync(directory, { recursive: true, force: true });
+  const text = output.join("\n");
+  check("exit code 0", process.exitCode === 0);
+  check(
+    "SDK events and queue records",
+    text.includes("llm gpt-4o") && text.includes("tool policy.lookup"),
+  );
+  check(
+    "Tinybird rows are parsed from attributes_json",
+    text.includes("error RateLimitError: Too many requests"),
+  );
+
+  console.log("\nTest 6: Replayed events and stray input");
+  check(
+    "replayed events are shown once",
+    text.split("tool policy.lookup").length === 2,
+  );
+  check(
+    "both traces, ignoring other files and partial lines",
+    output.filter((line) => line.includes("TRACE")).length === 2,
+  );
+
+  finish("trace viewer");
+}
+
+run(main);
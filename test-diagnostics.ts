@@ -0,0 +1,64 @@
+/**
+ * Test script for diagnostics (onDiagnostic)
+ * Tests:
+ * 1. Each client receives only its own diagnostics
+ * 2. Integrations report to the client they were created from
+ * 3. Diagnostics from shared helpers reach every client
+ * 4. end() unregisters the client's handler
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import { emitDiagnostic } from "./src/diagnostics";
+import { check, finish, run } from "./test-fixtures/check";
+
+function client(received: string[]) {
+  return init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport: createMemoryTransport(),
+    onDiagnostic: (event) => received.push(event.message),
+  });
+}
+
+async function main() {
+  const first: string[] = [];
+  const second: string[] = [];
+  const a = client(first);
+  const b = client(second);
+
+  console.log("\nTest 1: Client diagnostics");
+  a.startTrace({ name: "a" });
+  check(
+    "the client that started the trace is told",
+    first.includes("startTrace called"),
+  );
+  check("the other client is not", !second.includes("startTrace called"));
+  await a.endTrace();
+
+  console.log("\nTest 2: Integrations");
+  const bedrock = b.observeBedrock({ send: async () => ({}) });
+  await bedrock.send({ input: {} });
+  const untraced = "Command not traced (not a Converse or InvokeModel command)";
+  check("the integration's client is told", second.includes(untraced));
+  check("the other client is not", !first.includes(untraced));
+
+  console.log("\nTest 3: Shared helpers");
+  emitDiagnostic("test", "shared helper", () => ({}));
+  check(
+    "both clients are told",
+    first.includes("shared helper") && second.includes("shared helper"),
+  );
+
+  console.log("\nTest 4: end()");
+  await a.end();
+  emitDiagnostic("test", "after end", () => ({}));
+  check("the ended client is no longer told", !first.includes("after end"));
+  check("the other client still is", second.includes("after end"));
+  await b.end();
+
+  finish("diagnostics");
+}
+
+run(main);
@@ -0,0 +1,149 @@
+/**
+ * Test script for feedback tokens (createFeedbackHandler)
+ * Tests:
+ * 1. Tokens carry a unique jti and expire after 1 hour by default
+ * 2. Valid tokens record feedback under their span
+ * 3. Forged, tampered and expired tokens are refused
+ * 4. Invalid bodies and methods are refused
+ * 5. isTokenUsed/markTokenUsed make tokens single-use
+ */
+
+import { init, createMemoryTransport, verifyFeedbackToken } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const secret = "feedback-test-secret";
+const traceId = crypto.randomUUID();
+const spanId = crypto.randomUUID();
+
+const post = (body: unknown) =>
+  new Request("http://localhost/api/feedback", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+async function main() {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+    feedbackSecret: secret,
+  });
+  const feedbackEvents = () =>
+    transport.events.filter((e) => e.event_type === "feedback");
+
+  console.log("\nTest 1: Token claims");
+  const token = observa.createFeedbackToken(traceId, spanId)!;
+  const claims = verifyFeedbackToken(token, secret);
+  const other = verifyFeedbackToken(
+    observa.createFeedbackToken(traceId, spanId)!,
+    secret,
+  );
+  check("token verifies", claims?.spanId === spanId);
+  check(
+    "each token has its own jti",
+    !!claims?.jti && !!other?.jti && claims.jti !== other.jti,
+  );
+  const lifetime = (claims?.exp ?? 0) - Math.floor(Date.now() / 1000);
+  check("expires after 1 hour", lifetime > 3590 && lifetime <= 3600);
+
+  console.log("\nTest 2: Feedback is recorded under the span");
+  const handler = observa.createFeedbackHandler();
+  const response = await handler(post({ token, type: "like" }));
+  const feedback = feedbackEvents()[0];
+  check("answers 200", response.status === 200);
+  check(
+    "feedback attaches to the token's span",
+    feedback?.trace_id === traceId && feedback?.parent_span_id === spanId,
+  );
+
+  console.log("\nTest 3: Invalid tokens");
+  const [payload, signature] = token.split(".");
+  const tampered = JSON.parse(
+    atob(payload!.replace(/-/g, "+").replace(/_/g, "/")),
+  );
+  tampered.spanId = crypto.randomUUID();
+  const tamperedPayload = btoa(JSON.stringify(tampered))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+  const forged = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport: createMemoryTransport(),
+    feedbackSecret: "another-secret",
+  }).createFeedbackToken(traceId, spanId)!;
+  const expired = observa.createFeedbackToken(traceId, spanId, {
+    expiresIn: -1,
+  })!;
+  const statuses = await Promise.all(
+    [forged, `${tamperedPayload}.${signature}`, expired].map(
+      async (t) => (await handler(post({ token: t, type: "like" }))).status,
+    ),
+  );
+  check("forged token answers 401", statuses[0] === 401);
+  check("tampered token answers 401", statuses[1] === 401);
+  check("expired token answers 401", statuses[2] === 401);
+
+  console.log("\nTest 4: Invalid requests");
+  const invalid = await Promise.all(
+    [
+      { token, type: "love" },
+      { token, type: "rating", rating: "five" },
+      { token, type: "like", comment: 42 },
+    ].map(async (body) => (await handler(post(body))).status),
+  );
+  check(
+    "invalid bodies answer 400",
+    invalid.every((s) => s === 400),
+  );
+  const get = await handler(new Request("http://localhost/api/feedback"));
+  check("GET answers 405", get.status === 405);
+  check("nothing else recorded", feedbackEvents().length === 1);
+
+  console.log("\nTest 5: Single-use tokens");
+  const used = new Set<string>();
+  const singleUse = observa.createFeedbackHandler({
+    isTokenUsed: (jti) => used.has(jti),
+    markTokenUsed: (jti) => {
+      used.add(jti);
+    },
+  });
+  const once = observa.createFeedbackToken(traceId, spanId)!;
+  transport.events.length = 0;
+  const first = await singleUse(post({ token: once, type: "like" }));
+  const replay = await singleUse(post({ token: once, type: "dislike" }));
+  check("first use answers 200", first.status === 200);
+  check("replay answers 409", replay.status === 409);
+  check("only one feedback event recorded", feedbackEvents().length === 1);
+
+  // markTokenUsed returning false (set-if-absent) rejects concurrent replays
+  const claimed = new Set<string>();
+  const atomic = observa.createFeedbackHandler({
+    markTokenUsed: (jti) => {
+      if (claimed.has(jti)) return false;
+      claimed.add(jti);
+      return true;
+    },
+  });
+  const racing = observa.createFeedbackToken(traceId, spanId)!;
+  const raced = await Promise.all([
+    atomic(post({ token: racing, type: "like" })),
+    atomic(post({ token: racing, type: "like" })),
+  ]);
+  check(
+    "concurrent replay answers 409",
+    JSON.stringify(raced.map((r) => r.status).sort()) === "[200,409]",
+  );
+
+  await observa.end();
+
+  finish("feedback token");
+}
+
+run(main);
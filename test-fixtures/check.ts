@@ -0,0 +1,29 @@
+/**
+ * Pass/fail reporting shared by the test-*.ts scripts
+ */
+
+const results: Array<{ name: string; passed: boolean }> = [];
+
+export function check(name: string, passed: boolean): void {
+  results.push({ name, passed });
+  console.log(`   ${passed ? "✅" : "❌"} ${name}`);
+}
+
+// Print the summary and exit with 1 if any check failed
+export function finish(suite: string): never {
+  const failed = results.filter((r) => !r.passed);
+  if (failed.length === 0) {
+    console.log(`\n✅ All ${suite} tests PASSED!`);
+    process.exit(0);
+  }
+  console.log(`\n❌ ${failed.length} ${suite} test(s) FAILED`);
+  process.exit(1);
+}
+
+// Run a test script's main(), failing on an uncaught error
+export function run(main: () => Promise<void>): void {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,255 @@
+/**
+ * Test script for observeGemini() (@google/genai)
+ * Tests:
+ * 1. generateContent records an llm_call with usage and thinking tokens
+ * 2. Function calls are recorded as tool_calls under the llm_call
+ * 3. Streams pass through and are recorded once complete
+ * 4. Filtered candidates and blocked prompts are recorded as errors
+ * 5. Chat sessions use the history as input
+ * 6. embedContent records an embedding; API errors are rethrown
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const usageMetadata = {
+  promptTokenCount: 8,
+  candidatesTokenCount: 5,
+  thoughtsTokenCount: 3,
+  totalTokenCount: 16,
+};
+
+function response(parts: any[], finishReason = "STOP", extra: any = {}) {
+  return {
+    candidates: [{ content: { role: "model", parts }, finishReason }],
+    usageMetadata,
+    modelVersion: "gemini-2.5-flash-001",
+    responseId: "resp-1",
+    ...extra,
+  };
+}
+
+// Fake GoogleGenAI client answering from the last user text
+const models = {
+  async generateContent(params: any) {
+    const prompt = JSON.stringify(params.contents);
+    if (prompt.includes("weather")) {
+      return response([
+        {
+          functionCall: {
+            id: "call-1",
+            name: "get_weather",
+            args: { city: "Oslo" },
+          },
+        },
+      ]);
+    }
+    if (prompt.includes("unsafe")) return response([], "SAFETY");
+    if (prompt.includes("blocked")) {
+      return { candidates: [], promptFeedback: { blockReason: "SAFETY" } };
+    }
+    if (prompt.includes("fail")) {
+      throw Object.assign(new Error("quota exceeded"), { status: 429 });
+    }
+    return response([{ text: "Hello there" }]);
+  },
+  async generateContentStream() {
+    return (async function* () {
+      yield {
+        candidates: [{ content: { role: "model", parts: [{ text: "Hel" }] } }],
+      };
+      yield {
+        candidates: [
+          {
+            content: { role: "model", parts: [{ text: "lo" }] },
+            finishReason: "STOP",
+          },
+        ],
+        usageMetadata,
+      };
+    })();
+  },
+  async embedContent() {
+    return { embeddings: [{ values: [0.1, 0.2, 0.3] }] };
+  },
+};
+
+const client = {
+  models,
+  chats: {
+    create(params: any) {
+      const history: any[] = [];
+      return {
+        model: params.model,
+        config: params.config,
+        getHistory: () => history,
+        async sendMessage({ message }: any) {
+          const result = await models.generateContent({
+            contents: [
+              ...history,
+              { role: "user", parts: [{ text: message }] },
+            ],
+          });
+          history.push(
+            { role: "user", parts: [{ text: message }] },
+            result.candidates![0]!.content,
+          );
+          return result;
+        },
+      };
+    },
+  },
+};
+
+async function main() {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+  const ai = observa.observeGemini(client);
+  const take = async (type: string) => {
+    await observa.flush();
+    return transport.events.filter((e) => e.event_type === type);
+  };
+  const reset = () => (transport.events.length = 0);
+
+  console.log("\nTest 1: generateContent");
+  check("wrapping is memoized", observa.observeGemini(client) === ai);
+  const result = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: "Say hello",
+    config: { temperature: 0.2, maxOutputTokens: 100 },
+  });
+  check("result passes through", result.responseId === "resp-1");
+  const llm = (await take("llm_call"))[0]?.attributes.llm_call;
+  check(
+    "llm_call with model, input and output",
+    llm?.model === "gemini-2.5-flash" &&
+      llm?.input === "Say hello" &&
+      llm?.output === "Hello there" &&
+      llm?.provider_name === "gcp.gemini",
+  );
+  check(
+    "thinking tokens count as output and reasoning",
+    llm?.input_tokens === 8 &&
+      llm?.output_tokens === 8 &&
+      llm?.reasoning_tokens === 3,
+  );
+  check(
+    "config is recorded",
+    llm?.temperature === 0.2 && llm?.max_tokens === 100,
+  );
+  reset();
+
+  console.log("\nTest 2: Function calls");
+  await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: "What's the weather?",
+  });
+  const call = (await take("llm_call"))[0];
+  const tool = (await take("tool_call"))[0];
+  check(
+    "a function call alone is not an error",
+    (await take("error")).length === 0,
+  );
+  check(
+    "tool_call under the llm_call",
+    tool?.parent_span_id === call?.span_id &&
+      tool?.attributes.tool_call?.tool_name === "get_weather" &&
+      tool?.attributes.tool_call?.args?.city === "Oslo",
+  );
+  reset();
+
+  console.log("\nTest 3: Streaming");
+  const stream = await ai.models.generateContentStream({
+    model: "gemini-2.5-flash",
+    contents: "Stream please",
+  });
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
+  }
+  const streamed = (await take("llm_call"))[0]?.attributes.llm_call;
+  check("chunks pass through", text === "Hello");
+  check(
+    "recorded with the joined output and final usage",
+    streamed?.output === "Hello" && streamed?.input_tokens === 8,
+  );
+  reset();
+
+  console.log("\nTest 4: Filtered and blocked");
+  await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: "unsafe",
+  });
+  await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: "blocked",
+  });
+  const errors = (await take("error")).map((e) => e.attributes.error);
+  check(
+    "both recorded as content_filtered",
+    errors.length === 2 &&
+      errors.every((e) => e?.error_type === "content_filtered"),
+  );
+  check(
+    "blocked prompt names the reason",
+    errors[1]?.error_message === "Prompt was blocked (SAFETY)",
+  );
+  check(
+    "llm_calls keep the attempt with null output",
+    (await take("llm_call")).every(
+      (e) => e.attributes.llm_call?.output === null,
+    ),
+  );
+  reset();
+
+  console.log("\nTest 5: Chat sessions");
+  const chat = ai.chats.create({ model: "gemini-2.5-flash" });
+  await chat.sendMessage({ message: "First" });
+  await chat.sendMessage({ message: "Second" });
+  const chatCalls = (await take("llm_call")).map((e) => e.attributes.llm_call);
+  check(
+    "chat operation with the history as input",
+    chatCalls.length === 2 &&
+      chatCalls[1]?.operation_name === "chat" &&
+      chatCalls[1]?.input_messages?.length === 3,
+  );
+  reset();
+
+  console.log("\nTest 6: Embeddings and errors");
+  await ai.models.embedContent({
+    model: "text-embedding-004",
+    contents: "Embed me",
+  });
+  const embedding = (await take("embedding"))[0]?.attributes.embedding;
+  check(
+    "embedding with model and dimensions",
+    embedding?.model === "text-embedding-004" &&
+      embedding?.dimension_count === 3,
+  );
+  let rethrown = false;
+  try {
+    await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: "fail",
+    });
+  } catch (error) {
+    rethrown = (error as Error).message === "quota exceeded";
+  }
+  check("API errors are rethrown", rethrown);
+  check(
+    "and recorded as an error event",
+    (await take("error")).some((e) =>
+      e.attributes.error?.error_message?.includes("quota exceeded"),
+    ),
+  );
+
+  finish("Gemini");
+}
+
+run(main);
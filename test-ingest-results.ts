@@ -0,0 +1,171 @@
+/**
+ * Test script for per-event ingest results (HTTP transport)
+ * Tests:
+ * 1. Only events rejected as retryable are sent again
+ * 2. Events rejected by validation are dropped, not resent
+ * 3. A 400 without per-event results is not resent
+ * 4. Errors without per-event results resend the whole batch
+ * 5. Events re-buffered after their trace was sent do not restart it
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { init } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+type Respond = (batch: any[]) => { status: number; body: unknown };
+
+// Fake ingest API: answers each batch with the current `respond`
+let respond: Respond = () => ({ status: 200, body: {} });
+const requests: any[][] = [];
+const server = createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const batch = JSON.parse(body);
+    requests.push(batch);
+    const { status, body: responseBody } = respond(batch);
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(responseBody));
+  });
+});
+
+const toolName = (event: any): string | undefined =>
+  event.attributes?.tool_call?.tool_name;
+
+// Per-event results like the ingest API: "invalid" tools fail validation,
+// "flaky" tools fail storage until they have been sent `flakyUntil` times
+function perEventResults(flakyUntil: number): Respond {
+  const seen = new Map<string, number>();
+  return (batch) => {
+    const results = batch.map((event, index) => {
+      // Synthesized trace_start/trace_end can share the event's span_id
+      const key = `${event.span_id}:${event.event_type}`;
+      const sent = (seen.get(key) ?? 0) + 1;
+      seen.set(key, sent);
+      if (toolName(event) === "invalid") {
+        return {
+          index,
+          span_id: event.span_id,
+          status: "rejected",
+          error: "attributes.tool_call is required",
+          retryable: false,
+        };
+      }
+      if (toolName(event) === "flaky" && sent <= flakyUntil) {
+        return {
+          index,
+          span_id: event.span_id,
+          status: "rejected",
+          error: "Failed to store events",
+          retryable: true,
+        };
+      }
+      return { index, span_id: event.span_id, status: "accepted" };
+    });
+    const accepted = results.filter((r) => r.status === "accepted").length;
+    return {
+      status: accepted === results.length ? 200 : accepted > 0 ? 207 : 400,
+      body: { success: accepted === results.length, accepted, results },
+    };
+  };
+}
+
+async function main() {
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    apiUrl: `http://127.0.0.1:${port}`,
+  });
+  const sendTools = async (...names: string[]) => {
+    requests.length = 0;
+    await observa.trace({ name: "ingest" }, async () => {
+      for (const name of names) {
+        observa.trackToolCall({
+          toolName: name,
+          resultStatus: "success",
+          latencyMs: 1,
+        });
+      }
+    });
+    await observa.flush();
+  };
+  const sentTools = (request: any[] | undefined) =>
+    (request ?? []).map(toolName).filter(Boolean);
+  const bufferSize = () => (observa as any).eventBuffer.length;
+
+  console.log("\nTest 1: Retryable rejections");
+  respond = perEventResults(1);
+  await sendTools("ok", "flaky", "invalid");
+  check("batch sent twice", requests.length === 2);
+  check(
+    "the retry holds only the retryable event",
+    JSON.stringify(sentTools(requests[1])) === '["flaky"]' &&
+      requests[1]?.length === 1,
+  );
+  check("nothing is left buffered", bufferSize() === 0);
+
+  console.log("\nTest 2: Validation rejections");
+  respond = perEventResults(0);
+  await sendTools("invalid", "invalid");
+  check("sent once", requests.length === 1);
+  check("dropped instead of re-buffered", bufferSize() === 0);
+
+  console.log("\nTest 3: 400 without per-event results");
+  respond = () => ({
+    status: 400,
+    body: { success: false, results: [], error: "Batch too large" },
+  });
+  await sendTools("ok");
+  check("sent once", requests.length === 1);
+  check("dropped instead of re-buffered", bufferSize() === 0);
+
+  console.log("\nTest 4: Errors without per-event results");
+  let failures = 1;
+  respond = () =>
+    failures-- > 0
+      ? { status: 500, body: { error: { message: "Internal error" } } }
+      : { status: 200, body: { success: true } };
+  await sendTools("ok", "other");
+  check("batch sent twice", requests.length === 2);
+  check(
+    "the whole batch is resent",
+    requests[1]?.length === requests[0]?.length,
+  );
+
+  console.log("\nTest 5: Re-buffered events");
+  // Four sends (the first attempt and three retries) all reject "flaky"
+  respond = perEventResults(4);
+  requests.length = 0;
+  observa.trackToolCall({ toolName: "flaky", resultStatus: "success" });
+  await observa.flush();
+  const first = requests[0] ?? [];
+  check(
+    "the first batch synthesizes trace_start and trace_end",
+    first.filter((e) => e.event_type.startsWith("trace_")).length === 2,
+  );
+  check("the retryable event is re-buffered", bufferSize() === 1);
+  requests.length = 0;
+  await observa.flush();
+  check(
+    "the next flush sends only that event",
+    requests.length === 1 &&
+      JSON.stringify(requests[0]?.map((e) => e.event_type)) === '["tool_call"]',
+  );
+  check(
+    "it keeps its trace",
+    requests[0]?.[0]?.trace_id === first[0]?.trace_id,
+  );
+  check("nothing is left buffered", bufferSize() === 0);
+
+  await observa.end();
+  server.close();
+
+  finish("ingest result");
+}
+
+run(main);
@@ -11,9 +11,10 @@ import {
   openaiResponsesIncompleteFixture,
 } from "./test-fixtures/telemetry-fixtures";
 
-// Create Observa instance
+// Create Observa instance (set OBSERVA_API_URL / OBSERVA_API_KEY to send
+// events to a local ingest server: backend/src/localServer.ts)
 const observa = init({
-  apiKey: "test-key",
+  apiKey: process.env.OBSERVA_API_KEY || "test-key",
   tenantId: "test-tenant",
   projectId: "test-project",
   mode: "development",
@@ -0,0 +1,223 @@
+/**
+ * Test script for LangGraph runs in the LangChain handler (observeLangChain)
+ * Tests:
+ * 1. Node task runs become graph_node spans with step and triggers
+ * 2. Runs nested in a node's task share the node span
+ * 3. Node spans summarize the state update they wrote
+ * 4. Internal tasks (__start__, hidden channel writers) are not recorded
+ * 5. The compiled graph is a workflow span with the executed path
+ * 6. interrupt() marks node and graph spans as interrupted, not failed
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const id = () => crypto.randomUUID();
+
+function graphMetadata(node: string, step: number) {
+  return {
+    langgraph_node: node,
+    langgraph_step: step,
+    langgraph_triggers: [`branch:to:${node}`],
+    langgraph_checkpoint_ns: `${node}:${step}`,
+  };
+}
+
+async function main() {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+  const spans = () =>
+    transport.events
+      .filter((e) => e.event_type === "span")
+      .map((e) => ({ event: e, span: e.attributes.span as any }));
+  const handler = observa.observeLangChain();
+
+  // graph -> __start__ -> agent (-> model sequence -> tool) -> ChannelWrite
+  const graphRun = id();
+  const startRun = id();
+  const agentRun = id();
+  const sequenceRun = id();
+  const toolRun = id();
+  const writerRun = id();
+  const state = { messages: ["hi"], topic: "billing" };
+  await handler.handleChainStart(
+    {},
+    state,
+    graphRun,
+    undefined,
+    [],
+    {},
+    undefined,
+    "LangGraph",
+  );
+  await handler.handleChainStart(
+    {},
+    state,
+    startRun,
+    graphRun,
+    [],
+    graphMetadata("__start__", 0),
+    undefined,
+    "__start__",
+  );
+  await handler.handleChainEnd(state, startRun);
+  await handler.handleChainStart(
+    {},
+    state,
+    agentRun,
+    graphRun,
+    [],
+    graphMetadata("agent", 1),
+    undefined,
+    "agent",
+  );
+  await handler.handleChainStart(
+    {},
+    state,
+    sequenceRun,
+    agentRun,
+    [],
+    graphMetadata("agent", 1),
+    undefined,
+    "RunnableSequence",
+  );
+  await handler.handleToolStart(
+    { name: "lookup" },
+    '{"q":"refund"}',
+    toolRun,
+    sequenceRun,
+  );
+  await handler.handleToolEnd('{"found":true}', toolRun, sequenceRun);
+  await handler.handleChainEnd({}, sequenceRun);
+  await handler.handleChainStart(
+    {},
+    state,
+    writerRun,
+    agentRun,
+    ["langsmith:hidden"],
+    graphMetadata("agent", 1),
+    undefined,
+    "agent",
+  );
+  await handler.handleChainEnd({}, writerRun);
+  await handler.handleChainEnd(
+    { messages: ["hi", "hello"], topic: "billing", resolved: true },
+    agentRun,
+  );
+  await handler.handleChainEnd({ messages: ["hi", "hello"] }, graphRun);
+  await observa.flush();
+
+  console.log("\nTest 1: Node spans");
+  const agent = spans().find((s) => s.span.kind === "graph_node");
+  check(
+    "one node span",
+    spans().filter((s) => s.span.kind === "graph_node").length === 1,
+  );
+  check(
+    "named after the node, with step and triggers",
+    agent?.span.name === "agent" &&
+      agent?.span.attributes["langgraph.step"] === 1 &&
+      agent?.span.attributes["langgraph.triggers"]?.[0] === "branch:to:agent",
+  );
+
+  console.log("\nTest 2: Same-task runs share the node span");
+  const tool = transport.events.find((e) => e.event_type === "tool_call");
+  check(
+    "tool call nests directly under the node",
+    tool?.parent_span_id === agent?.event.span_id,
+  );
+
+  console.log("\nTest 3: State diff");
+  const diff = agent?.span.attributes["langgraph.state_diff"];
+  check(
+    "added, changed and unchanged keys",
+    JSON.stringify(diff?.added_keys) === '["resolved"]' &&
+      JSON.stringify(diff?.changed_keys) === '["messages"]' &&
+      JSON.stringify(diff?.unchanged_keys) === '["topic"]',
+  );
+  check(
+    "list channels report items written",
+    diff?.changes?.messages === "2 item(s) written (1 before)",
+  );
+
+  console.log("\nTest 4: Internal tasks");
+  check(
+    "no span for __start__ or the hidden writer",
+    spans().every((s) => s.span.name !== "__start__") && spans().length === 2,
+  );
+
+  console.log("\nTest 5: Graph span");
+  const graph = spans().find((s) => s.span.kind === "workflow");
+  check(
+    "workflow span with path and steps",
+    graph?.span.name === "LangGraph" &&
+      JSON.stringify(graph?.span.attributes["langgraph.path"]) ===
+        '["agent"]' &&
+      graph?.span.attributes["langgraph.steps"] === 1,
+  );
+  check(
+    "node span is the child of the graph span",
+    agent?.event.parent_span_id === graph?.event.span_id,
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 6: Interrupts");
+  const pausedGraph = id();
+  const humanRun = id();
+  const interrupt = Object.assign(new Error("interrupted"), {
+    name: "GraphInterrupt",
+    interrupts: [{ value: { question: "Approve refund?" }, id: "int-1" }],
+  });
+  await handler.handleChainStart(
+    {},
+    state,
+    pausedGraph,
+    undefined,
+    [],
+    {},
+    undefined,
+    "LangGraph",
+  );
+  await handler.handleChainStart(
+    {},
+    state,
+    humanRun,
+    pausedGraph,
+    [],
+    graphMetadata("human", 2),
+    undefined,
+    "human",
+  );
+  await handler.handleChainError(interrupt, humanRun);
+  await handler.handleChainEnd(
+    { __interrupt__: interrupt.interrupts },
+    pausedGraph,
+  );
+  await observa.flush();
+  const human = spans().find((s) => s.span.name === "human");
+  const paused = spans().find((s) => s.span.kind === "workflow");
+  check(
+    "node span is interrupted with the interrupt value",
+    human?.span.status === "interrupted" &&
+      human?.span.events?.[0]?.name === "langgraph.interrupt",
+  );
+  check(
+    "graph span is interrupted",
+    paused?.span.status === "interrupted" &&
+      paused?.span.attributes["langgraph.interrupted"] === true,
+  );
+  check(
+    "no error event",
+    !transport.events.some((e) => e.event_type === "error"),
+  );
+
+  finish("LangGraph");
+}
+
+run(main);
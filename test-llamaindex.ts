@@ -0,0 +1,200 @@
+/**
+ * Test script for LlamaIndex span nesting (observeLlamaIndex)
+ * Tests:
+ * 1. Events nest under the query and synthesize spans
+ * 2. Concurrent queries keep their own span stacks
+ * 3. Calls made inside a query nest under its span
+ * 4. Closed query spans do not leak into the caller
+ * 5. detach() removes the listeners
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Fake Settings: a callback manager dispatching CustomEvent-like objects
+const listeners = new Map<string, Set<(event: any) => void>>();
+const Settings = {
+  callbackManager: {
+    on(name: string, listener: (event: any) => void) {
+      if (!listeners.has(name)) listeners.set(name, new Set());
+      listeners.get(name)!.add(listener);
+    },
+    off(name: string, listener: (event: any) => void) {
+      listeners.get(name)?.delete(listener);
+    },
+  },
+};
+function dispatch(name: string, detail: any) {
+  for (const listener of listeners.get(name) ?? []) listener({ detail });
+}
+
+// Fake query engine: dispatches events the way LlamaIndex.TS does, with
+// query-start sent synchronously before the first await
+async function query(text: string, delayMs: number, inside?: () => void) {
+  const queryId = crypto.randomUUID();
+  dispatch("query-start", { id: queryId, query: text });
+  await sleep(delayMs);
+  inside?.();
+  dispatch("retrieve-start", { query: text });
+  await sleep(delayMs);
+  dispatch("retrieve-end", {
+    query: text,
+    nodes: [{ node: { id_: `node-${text}`, text }, score: 0.9 }],
+  });
+  const synthesizeId = crypto.randomUUID();
+  dispatch("synthesize-start", { id: synthesizeId, query: text });
+  const llmId = crypto.randomUUID();
+  dispatch("llm-start", {
+    id: llmId,
+    messages: [{ role: "user", content: text }],
+  });
+  await sleep(delayMs);
+  const answer = `answer to ${text}`;
+  dispatch("llm-end", {
+    id: llmId,
+    response: { message: { role: "assistant", content: answer } },
+  });
+  dispatch("synthesize-end", { id: synthesizeId, response: answer });
+  dispatch("query-end", { id: queryId, response: { response: answer } });
+  return answer;
+}
+
+async function main() {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+  const observed = observa.observeLlamaIndex(Settings);
+  const spans = () => transport.events.filter((e) => e.event_type === "span");
+  const spanFor = (name: string, input: string) =>
+    spans().find(
+      (e) =>
+        e.attributes.span?.name === name &&
+        e.attributes.span?.attributes?.input === input,
+    );
+
+  console.log("\nTest 1: Nesting under query and synthesize spans");
+  await query("refunds", 5);
+  await observa.flush();
+  const querySpan = spanFor("llamaindex.query", "refunds");
+  const synthesizeSpan = spanFor("llamaindex.synthesize", "refunds");
+  const llm = transport.events.find((e) => e.event_type === "llm_call");
+  const retrieval = transport.events.find((e) => e.event_type === "retrieval");
+  check("query span recorded", !!querySpan);
+  check(
+    "synthesize span is a child of the query",
+    synthesizeSpan?.parent_span_id === querySpan?.span_id,
+  );
+  check(
+    "llm_call is a child of synthesize",
+    llm?.parent_span_id === synthesizeSpan?.span_id,
+  );
+  check(
+    "retrieval is a child of the query",
+    retrieval?.parent_span_id === querySpan?.span_id,
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 2: Concurrent queries");
+  const questions = ["alpha", "beta", "gamma"];
+  await observa.trace({ name: "batch" }, async () => {
+    await Promise.all(
+      questions.map((question, i) => query(question, 15 - i * 5)),
+    );
+  });
+  await observa.flush();
+  const traceStart = transport.events.find(
+    (e) => e.event_type === "trace_start",
+  );
+  check(
+    "every query is a child of the trace root",
+    questions.every(
+      (q) =>
+        spanFor("llamaindex.query", q)?.parent_span_id === traceStart?.span_id,
+    ),
+  );
+  check(
+    "every llm_call nests under its own query",
+    questions.every((q) => {
+      const call = transport.events.find(
+        (e) =>
+          e.event_type === "llm_call" && e.attributes.llm_call?.input === q,
+      );
+      return (
+        !!call &&
+        call.parent_span_id === spanFor("llamaindex.synthesize", q)?.span_id &&
+        spanFor("llamaindex.synthesize", q)?.parent_span_id ===
+          spanFor("llamaindex.query", q)?.span_id
+      );
+    }),
+  );
+  check(
+    "every retrieval nests under its own query",
+    questions.every(
+      (q) =>
+        transport.events.find(
+          (e) =>
+            e.event_type === "retrieval" &&
+            e.attributes.retrieval?.retrieval_context_ids?.[0] === `node-${q}`,
+        )?.parent_span_id === spanFor("llamaindex.query", q)?.span_id,
+    ),
+  );
+  check(
+    "all events share the trace",
+    transport.events.every((e) => e.trace_id === traceStart?.trace_id),
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 3: Calls made inside a query");
+  await query("tools", 5, () =>
+    observa.trackToolCall({
+      toolName: "lookup",
+      resultStatus: "success",
+      latencyMs: 1,
+    }),
+  );
+  await observa.flush();
+  const tool = transport.events.find((e) => e.event_type === "tool_call");
+  const toolQuery = spanFor("llamaindex.query", "tools");
+  check(
+    "tool_call nests under the query span",
+    tool?.parent_span_id === toolQuery?.span_id &&
+      tool?.trace_id === toolQuery?.trace_id,
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 4: Closed spans do not leak into the caller");
+  observa.trackToolCall({
+    toolName: "after",
+    resultStatus: "success",
+    latencyMs: 1,
+  });
+  await observa.flush();
+  const after = transport.events.find((e) => e.event_type === "tool_call");
+  check(
+    "call after the queries is a root event",
+    after?.parent_span_id === null,
+  );
+  check(
+    "and is not in a query's trace",
+    after?.trace_id !== toolQuery?.trace_id,
+  );
+
+  transport.events.length = 0;
+
+  console.log("\nTest 5: detach()");
+  observed.detach();
+  await query("detached", 1);
+  await observa.flush();
+  check("no events after detach", transport.events.length === 0);
+
+  finish("LlamaIndex");
+}
+
+run(main);
@@ -0,0 +1,254 @@
+/**
+ * Test script for the local ingest server (backend/src/localServer.ts)
+ * Tests:
+ * 1. The server boots without the Tinybird, tenant or token services
+ * 2. SDK events round-trip: ingest, then GET /traces/:id
+ * 3. Batch validation returns per-event results and status codes
+ * 4. Requests without a valid API key are refused
+ * 5. JsonlEventStore appends events and skips partially written lines
+ * 6. getTrace() rebuilds the span tree, scoped to tenant and project
+ * 7. LocalTokenService keys validate only with their own secret
+ */
+
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createLocalServer } from "./backend/src/localServer";
+import { JsonlEventStore } from "./backend/src/services/localEventStore";
+import { LocalTokenService } from "./backend/src/services/localTokenService";
+import { init } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const storedTraceId = crypto.randomUUID();
+const rootId = crypto.randomUUID();
+let clock = Date.parse("2026-01-01T10:00:00Z");
+
+function storedEvent(
+  spanId: string,
+  parentSpanId: string | null,
+  type: string,
+  attributes: Record<string, unknown>,
+  overrides: Record<string, unknown> = {},
+): any {
+  return {
+    tenant_id: "local-tenant",
+    project_id: "local-project",
+    environment: "dev",
+    trace_id: storedTraceId,
+    span_id: spanId,
+    parent_span_id: parentSpanId,
+    timestamp: new Date((clock += 100)).toISOString(),
+    event_type: type,
+    attributes: { [type]: attributes },
+    ...overrides,
+  };
+}
+
+async function main() {
+  const directory = mkdtempSync(join(tmpdir(), "observa-local-server-"));
+  const storePath = join(directory, "events.jsonl");
+  const jwtSecret = "boot-test-secret";
+  const apiKey = LocalTokenService.generateToken(
+    { tenantId: "boot-tenant", projectId: "boot-project", environment: "dev" },
+    jwtSecret,
+  );
+
+  console.log("\nTest 1: Boot");
+  const server = createLocalServer({ storePath, jwtSecret });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const health = await fetch(`${apiUrl}/health`);
+  check("GET /health answers ok", health.status === 200);
+
+  const post = (body: string, key: string | null = apiKey) =>
+    fetch(`${apiUrl}/api/v1/events/ingest`, {
+      method: "POST",
+      headers: key ? { Authorization: `Bearer ${key}` } : {},
+      body,
+    });
+
+  console.log("\nTest 2: SDK round trip");
+  const observa = init({ apiKey, apiUrl, mode: "production" });
+  let traceId = "";
+  await observa.trace({ name: "boot" }, async () => {
+    traceId = observa.getCurrentTraceId() ?? "";
+    observa.trackLLMCall({
+      model: "gpt-4o",
+      input: "ping",
+      output: "pong",
+      latencyMs: 12,
+    });
+  });
+  await observa.flush();
+  const traceResponse = await fetch(`${apiUrl}/traces/${traceId}`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+  });
+  const trace: any = await traceResponse.json();
+  check("trace is stored", traceResponse.status === 200);
+  check(
+    "llm_call nests under the trace root",
+    trace.roots?.length === 1 &&
+      trace.roots[0].children.some((child: any) =>
+        child.event_types.includes("llm_call"),
+      ),
+  );
+
+  console.log("\nTest 3: Batch validation");
+  const event = (overrides: Record<string, unknown>) => ({
+    tenant_id: "boot-tenant",
+    project_id: "boot-project",
+    environment: "dev",
+    trace_id: crypto.randomUUID(),
+    span_id: crypto.randomUUID(),
+    parent_span_id: null,
+    timestamp: new Date().toISOString(),
+    event_type: "tool_call",
+    attributes: { tool_call: { tool_name: "lookup" } },
+    ...overrides,
+  });
+  const batch = [
+    event({}),
+    event({ tenant_id: "other-tenant" }),
+    event({ event_type: "not_an_event" }),
+    event({ attributes: "nope" }),
+  ];
+  const ndjson = [...batch.map((e) => JSON.stringify(e)), "{not json"];
+  const partial = await post(ndjson.join("\n"));
+  const partialBody: any = await partial.json();
+  check("partially valid batch answers 207", partial.status === 207);
+  check(
+    "results are per event, in order",
+    JSON.stringify(partialBody.results.map((r: any) => r.status)) ===
+      JSON.stringify(["accepted", ...Array(4).fill("rejected")]),
+  );
+  check(
+    "validation rejections are not retryable",
+    partialBody.results
+      .slice(1)
+      .every((r: any) => r.retryable === false && !!r.error),
+  );
+  check(
+    "tenant mismatch is reported",
+    partialBody.results[1].error === "Tenant ID mismatch between JWT and event",
+  );
+  const invalid = await post(JSON.stringify([event({ span_id: "" })]));
+  check("fully invalid batch answers 400", invalid.status === 400);
+  const stored = readFileSync(storePath, "utf-8")
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+  check(
+    "only accepted events are stored",
+    stored.some((e) => e.span_id === batch[0]!.span_id) &&
+      !batch.slice(1).some((b) => stored.some((e) => e.span_id === b.span_id)),
+  );
+
+  console.log("\nTest 4: Authentication");
+  check("missing key answers 401", (await post("[]", null)).status === 401);
+  const foreignKey = LocalTokenService.generateToken(
+    { tenantId: "boot-tenant", projectId: "boot-project" },
+    "another-secret",
+  );
+  check(
+    "key signed with another secret answers 401",
+    (await post("[]", foreignKey)).status === 401,
+  );
+
+  await observa.end();
+  server.close();
+
+  const store = new JsonlEventStore(join(directory, "store", "events.jsonl"));
+  const scope = { tenantId: "local-tenant", projectId: "local-project" };
+
+  console.log("\nTest 5: JSONL storage");
+  const llmId = crypto.randomUUID();
+  await Promise.all([
+    store.write([storedEvent(rootId, null, "trace_start", { name: "chat" })]),
+    store.write([
+      storedEvent(llmId, rootId, "llm_call", {
+        model: "gpt-4o",
+        latency_ms: 40,
+      }),
+      storedEvent(crypto.randomUUID(), llmId, "tool_call", {
+        tool_name: "lookup",
+      }),
+    ]),
+  ]);
+  await store.write([
+    storedEvent(rootId, null, "trace_end", {
+      outcome: "success",
+      latency_ms: 90,
+    }),
+    storedEvent(
+      crypto.randomUUID(),
+      null,
+      "tool_call",
+      {},
+      { tenant_id: "other-tenant" },
+    ),
+  ]);
+  appendFileSync(
+    join(directory, "store", "events.jsonl"),
+    '{"trace_id":"partial',
+  );
+  const lines = await store.readEvents();
+  check("every event is one line", lines.length === 5);
+  check(
+    "missing file reads as empty",
+    (await new JsonlEventStore(join(directory, "none.jsonl")).readEvents())
+      .length === 0,
+  );
+
+  console.log("\nTest 6: Trace trees");
+  const storedTrace = await store.getTrace(storedTraceId, scope);
+  const root = storedTrace?.roots[0];
+  check(
+    "other tenants' events are left out",
+    storedTrace?.event_count === 4 && storedTrace.roots.length === 1,
+  );
+  check(
+    "trace_start and trace_end share the root node",
+    JSON.stringify(root?.event_types) === '["trace_start","trace_end"]' &&
+      root?.status === "success" &&
+      root?.latency_ms === 90,
+  );
+  check(
+    "children nest under their parents",
+    root?.children[0]?.name === "gpt-4o" &&
+      root.children[0].children[0]?.name === "lookup",
+  );
+  check(
+    "unknown trace is null",
+    (await store.getTrace(crypto.randomUUID(), scope)) === null,
+  );
+
+  console.log("\nTest 7: API keys");
+  const localKey = LocalTokenService.generateToken(
+    { tenantId: "local-tenant", projectId: "local-project" },
+    "local-secret",
+  );
+  check(
+    "valid with its secret",
+    LocalTokenService.validateToken(localKey, "local-secret")?.tenantId ===
+      "local-tenant",
+  );
+  check(
+    "invalid with another secret",
+    LocalTokenService.validateToken(localKey, "another-secret") === null,
+  );
+  const expired = LocalTokenService.generateToken(
+    { tenantId: "local-tenant", projectId: "local-project", exp: 1 },
+    "local-secret",
+  );
+  check(
+    "expired keys are refused",
+    LocalTokenService.validateToken(expired, "local-secret") === null,
+  );
+
+  rmSync(directory, { recursive: true, force: true });
+
+  finish("local server");
+}
+
+run(main);
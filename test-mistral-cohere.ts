@@ -0,0 +1,310 @@
+/**
+ * Test script for observeMistral() and observeCohere()
+ * Tests:
+ * 1. Mistral chat.complete records an llm_call and requested tool calls
+ * 2. Mistral chat.stream passes events through and records the joined text
+ * 3. Mistral truncated responses and embeddings
+ * 4. Cohere v2 chat records usage, citations and the finish reason
+ * 5. Cohere v1 chat (client.chat with message) and client.v2 are traced
+ * 6. Cohere rerank is recorded as a retrieval event
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const mistralClient = {
+  chat: {
+    async complete(params: any) {
+      const text = JSON.stringify(params.messages);
+      if (text.includes("weather")) {
+        return {
+          id: "cmpl-2",
+          model: "mistral-small-latest",
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: "assistant",
+                content: "",
+                toolCalls: [
+                  {
+                    id: "call-1",
+                    function: {
+                      name: "get_weather",
+                      arguments: '{"city":"Oslo"}',
+                    },
+                  },
+                ],
+              },
+              finishReason: "tool_calls",
+            },
+          ],
+          usage: { promptTokens: 9, completionTokens: 6, totalTokens: 15 },
+        };
+      }
+      return {
+        id: "cmpl-1",
+        model: "mistral-small-latest",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: "Bonjour" },
+            finishReason: text.includes("essay") ? "length" : "stop",
+          },
+        ],
+        usage: { promptTokens: 7, completionTokens: 2, totalTokens: 9 },
+      };
+    },
+    async stream() {
+      return (async function* () {
+        yield { data: { id: "s-1", choices: [{ delta: { content: "Sa" } }] } };
+        yield {
+          data: {
+            choices: [{ delta: { content: "lut" }, finishReason: "stop" }],
+            usage: { promptTokens: 4, completionTokens: 2, totalTokens: 6 },
+          },
+        };
+      })();
+    },
+  },
+  embeddings: {
+    async create() {
+      return {
+        data: [{ embedding: [0.1, 0.2] }, { embedding: [0.3, 0.4] }],
+        usage: { promptTokens: 5 },
+      };
+    },
+  },
+};
+
+const cohereResponse = {
+  id: "co-1",
+  finishReason: "COMPLETE",
+  message: {
+    role: "assistant",
+    content: [{ type: "text", text: "Paris" }],
+    citations: [{ start: 0, end: 5, text: "Paris" }],
+  },
+  usage: { billedUnits: { inputTokens: 11, outputTokens: 1 } },
+};
+
+const cohereV2 = {
+  async chat() {
+    return cohereResponse;
+  },
+  async embed() {
+    return { embeddings: { float: [[0.5, 0.6, 0.7]] } };
+  },
+  async rerank() {
+    return {
+      results: [
+        { index: 2, relevanceScore: 0.91 },
+        { index: 0, relevanceScore: 0.42 },
+      ],
+    };
+  },
+};
+
+const cohereV1 = {
+  async chat() {
+    return {
+      text: "Berlin",
+      generationId: "gen-1",
+      finishReason: "COMPLETE",
+      meta: { billedUnits: { inputTokens: 6, outputTokens: 1 } },
+    };
+  },
+  v2: cohereV2,
+};
+
+async function main() {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+  const take = async (type: string) => {
+    await observa.flush();
+    return transport.events.filter((e) => e.event_type === type);
+  };
+  const reset = () => (transport.events.length = 0);
+  const mistral = observa.observeMistral(mistralClient);
+
+  console.log("\nTest 1: Mistral chat.complete");
+  check(
+    "wrapping is memoized",
+    observa.observeMistral(mistralClient) === mistral,
+  );
+  await mistral.chat.complete({
+    model: "mistral-small-latest",
+    messages: [
+      { role: "system", content: "Be polite" },
+      { role: "user", content: "Say hello" },
+    ],
+    temperature: 0.3,
+    maxTokens: 50,
+  });
+  const llm = (await take("llm_call"))[0]?.attributes.llm_call;
+  check(
+    "llm_call with input, output and usage",
+    llm?.input === "Say hello" &&
+      llm?.output === "Bonjour" &&
+      llm?.input_tokens === 7 &&
+      llm?.output_tokens === 2 &&
+      llm?.provider_name === "mistral_ai",
+  );
+  check(
+    "request parameters",
+    llm?.temperature === 0.3 && llm?.max_tokens === 50,
+  );
+  reset();
+  await mistral.chat.complete({
+    model: "mistral-small-latest",
+    messages: [{ role: "user", content: "What's the weather?" }],
+  });
+  const toolParent = (await take("llm_call"))[0];
+  const tool = (await take("tool_call"))[0];
+  check(
+    "tool call under the llm_call",
+    tool?.parent_span_id === toolParent?.span_id &&
+      tool?.attributes.tool_call?.tool_name === "get_weather" &&
+      tool?.attributes.tool_call?.args?.city === "Oslo",
+  );
+  check(
+    "a tool call alone is not an error",
+    (await take("error")).length === 0,
+  );
+  reset();
+
+  console.log("\nTest 2: Mistral chat.stream");
+  const stream = await mistral.chat.stream({
+    model: "mistral-small-latest",
+    messages: [{ role: "user", content: "Greet me" }],
+  });
+  let text = "";
+  for await (const event of stream) {
+    text += event.data.choices[0]?.delta?.content ?? "";
+  }
+  const streamed = (await take("llm_call"))[0]?.attributes.llm_call;
+  check("events pass through", text === "Salut");
+  check(
+    "recorded with the joined output and usage",
+    streamed?.output === "Salut" && streamed?.total_tokens === 6,
+  );
+  reset();
+
+  console.log("\nTest 3: Mistral truncation and embeddings");
+  await mistral.chat.complete({
+    model: "mistral-small-latest",
+    messages: [{ role: "user", content: "Write an essay" }],
+  });
+  check(
+    "length finish reason is recorded as truncated",
+    (await take("error"))[0]?.attributes.error?.error_type ===
+      "response_truncated",
+  );
+  reset();
+  await mistral.embeddings.create({
+    model: "mistral-embed",
+    inputs: ["a", "b"],
+  });
+  const embedding = (await take("embedding"))[0]?.attributes.embedding;
+  check(
+    "embedding with dimensions and input tokens",
+    embedding?.model === "mistral-embed" &&
+      embedding?.dimension_count === 2 &&
+      embedding?.input_tokens === 5,
+  );
+  reset();
+
+  console.log("\nTest 4: Cohere v2 chat");
+  const cohere = observa.observeCohere(cohereV2);
+  await cohere.chat({
+    model: "command-r-plus",
+    messages: [{ role: "user", content: "Capital of France?" }],
+  });
+  const cohereEvent = (await take("llm_call"))[0];
+  const cohereCall = cohereEvent?.attributes.llm_call;
+  check(
+    "llm_call with output and billed units",
+    cohereCall?.output === "Paris" &&
+      cohereCall?.input === "Capital of France?" &&
+      cohereCall?.input_tokens === 11 &&
+      cohereCall?.output_tokens === 1 &&
+      cohereCall?.provider_name === "cohere",
+  );
+  check(
+    "finish reason is lower-cased",
+    cohereCall?.finish_reason === "complete",
+  );
+  check(
+    "citations are kept in the metadata",
+    cohereEvent?.attributes.metadata?.cohere_citations?.length === 1,
+  );
+  reset();
+  await cohere.embed({
+    model: "embed-v4.0",
+    texts: ["hello"],
+    embeddingTypes: ["float"],
+  });
+  check(
+    "embed by type",
+    (await take("embedding"))[0]?.attributes.embedding?.dimension_count === 3,
+  );
+  reset();
+
+  console.log("\nTest 5: Cohere v1 and client.v2");
+  const legacy = observa.observeCohere(cohereV1);
+  await legacy.chat({ model: "command-r", message: "Capital of Germany?" });
+  await legacy.v2.chat({
+    model: "command-r-plus",
+    messages: [{ role: "user", content: "Capital of France?" }],
+  });
+  const [v1, v2] = (await take("llm_call")).map((e) => e.attributes.llm_call);
+  check(
+    "v1 chat",
+    v1?.output === "Berlin" &&
+      v1?.input === "Capital of Germany?" &&
+      v1?.response_id === "gen-1" &&
+      v1?.input_tokens === 6,
+  );
+  check("client.v2.chat", v2?.output === "Paris");
+  reset();
+
+  console.log("\nTest 6: Cohere rerank");
+  await cohere.rerank({
+    model: "rerank-v3.5",
+    query: "refund policy",
+    documents: [
+      "Shipping",
+      "Refunds take 5 days",
+      { id: "doc-9", text: "Refunds" },
+    ],
+    topN: 2,
+  });
+  const retrieval = (await take("retrieval"))[0]?.attributes.retrieval;
+  check(
+    "document IDs fall back to the request index",
+    JSON.stringify(retrieval?.retrieval_context_ids) === '["doc-9","0"]',
+  );
+  check(
+    "relevance scores, top score and rerank model",
+    JSON.stringify(retrieval?.similarity_scores) === "[0.91,0.42]" &&
+      retrieval?.rerank_score === 0.91 &&
+      retrieval?.rerank_model === "rerank-v3.5" &&
+      retrieval?.k === 2,
+  );
+  // Newlines are stored escaped
+  check(
+    "ranked documents are the retrieval context",
+    retrieval?.retrieval_context?.split("\\n\\n").join("|") ===
+      "Refunds|Shipping",
+  );
+
+  finish("Mistral and Cohere");
+}
+
+run(main);
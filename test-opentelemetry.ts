@@ -0,0 +1,299 @@
+/**
+ * Test script for the OpenTelemetry bridge (createOtelSpanProcessor)
+ * Tests:
+ * 1. gen_ai spans become events once the local root span ends
+ * 2. Events are re-parented past unrelated spans, with UUID-shaped IDs
+ * 3. Indexed attributes and span events are read as messages
+ * 4. Failed spans add an error event from the exception
+ * 5. maxPendingSpans translates the oldest trace when exceeded
+ * 6. The exporter translates batches and flushes pending traces
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const hex = (length: number) =>
+  Array.from({ length }, () =>
+    Math.floor(Math.random() * 16).toString(16),
+  ).join("");
+
+// ReadableSpan-like object (SDK 2.x shape)
+function span(options: {
+  name: string;
+  traceId: string;
+  parent?: any;
+  attributes?: Record<string, any>;
+  events?: any[];
+  error?: string;
+  startMs?: number;
+}): any {
+  const spanId = hex(16);
+  const start = options.startMs ?? 1_700_000_000_000;
+  const hr = (ms: number) => [Math.floor(ms / 1000), (ms % 1000) * 1e6];
+  return {
+    name: options.name,
+    spanContext: () => ({ traceId: options.traceId, spanId }),
+    parentSpanContext: options.parent
+      ? { spanId: options.parent.spanContext().spanId }
+      : undefined,
+    startTime: hr(start),
+    endTime: hr(start + 250),
+    status: options.error ? { code: 2, message: options.error } : { code: 1 },
+    attributes: options.attributes ?? {},
+    events: options.events ?? [],
+  };
+}
+
+async function main() {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+  const processor = observa.createOtelSpanProcessor();
+  const ofType = (type: string) =>
+    transport.events.filter((e) => e.event_type === type);
+
+  console.log("\nTest 1: Translated when the local root ends");
+  const traceId = hex(32);
+  const root = span({ name: "POST /chat", traceId });
+  const agent = span({
+    name: "invoke_agent",
+    traceId,
+    parent: root,
+    attributes: { "gen_ai.operation.name": "invoke_agent" },
+  });
+  const chat = span({
+    name: "chat gpt-4o",
+    traceId,
+    parent: agent,
+    startMs: 1_700_000_000_100,
+    attributes: {
+      "gen_ai.operation.name": "chat",
+      "gen_ai.provider.name": "openai",
+      "gen_ai.request.model": "gpt-4o",
+      "gen_ai.usage.input_tokens": 12,
+      "gen_ai.usage.output_tokens": 4,
+      "gen_ai.input.messages": JSON.stringify([
+        { role: "system", content: "Be brief" },
+        { role: "user", parts: [{ type: "text", content: "Weather?" }] },
+      ]),
+    },
+  });
+  const http = span({ name: "GET /weather", traceId, parent: chat });
+  const tool = span({
+    name: "execute_tool get_weather",
+    traceId,
+    parent: http,
+    startMs: 1_700_000_000_200,
+    attributes: {
+      "gen_ai.tool.name": "get_weather",
+      "gen_ai.tool.call.arguments": '{"city":"Oslo"}',
+    },
+  });
+  for (const ended of [tool, http, chat, agent]) processor.onEnd(ended);
+  await observa.flush();
+  check("nothing before the root ends", transport.events.length === 0);
+  processor.onEnd(root);
+  await observa.flush();
+  const llm = ofType("llm_call")[0];
+  const toolCall = ofType("tool_call")[0];
+  check(
+    "llm_call from the chat span",
+    llm?.attributes.llm_call?.model === "gpt-4o" &&
+      llm?.attributes.llm_call?.input === "Weather?" &&
+      llm?.attributes.llm_call?.total_tokens === 16,
+  );
+  check(
+    "tool_call with parsed arguments",
+    toolCall?.attributes.tool_call?.tool_name === "get_weather" &&
+      toolCall?.attributes.tool_call?.args?.city === "Oslo",
+  );
+
+  console.log("\nTest 2: Parents and IDs");
+  check(
+    "tool_call skips the HTTP span to reach the chat span",
+    toolCall?.parent_span_id === llm?.span_id,
+  );
+  check(
+    "chat span is a root event (agent and HTTP spans are not events)",
+    llm?.parent_span_id === null,
+  );
+  check(
+    "IDs are UUID-shaped",
+    /^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$/.test(llm?.trace_id ?? "") &&
+      llm?.span_id.replace(/-/g, "").startsWith(chat.spanContext().spanId) ===
+        true,
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 3: Messages from indexed attributes and span events");
+  const legacyTrace = hex(32);
+  processor.onEnd(
+    span({
+      name: "completion",
+      traceId: legacyTrace,
+      attributes: {
+        "gen_ai.system": "anthropic",
+        "gen_ai.request.model": "claude-3-5-haiku",
+        "gen_ai.prompt.0.role": "user",
+        "gen_ai.prompt.0.content": "Hi",
+        "gen_ai.completion.0.content": "Hello!",
+        "gen_ai.completion.0.finish_reason": "stop",
+      },
+    }),
+  );
+  const eventsTrace = hex(32);
+  processor.onEnd(
+    span({
+      name: "chat",
+      traceId: eventsTrace,
+      attributes: { "gen_ai.operation.name": "chat" },
+      events: [
+        {
+          name: "gen_ai.user.message",
+          time: [0, 0],
+          attributes: { content: "Ping" },
+        },
+        {
+          name: "gen_ai.choice",
+          time: [0, 0],
+          attributes: { message: '{"content":"Pong"}', finish_reason: "stop" },
+        },
+      ],
+    }),
+  );
+  await observa.flush();
+  const [legacy, fromEvents] = ofType("llm_call").map(
+    (e) => e.attributes.llm_call,
+  );
+  check(
+    "indexed prompt and completion",
+    legacy?.input === "Hi" &&
+      legacy?.output === "Hello!" &&
+      legacy?.provider_name === "anthropic",
+  );
+  check(
+    "user message and choice events",
+    fromEvents?.input === "Ping" && fromEvents?.output === "Pong",
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 4: Failed spans");
+  const failedTrace = hex(32);
+  processor.onEnd(
+    span({
+      name: "chat",
+      traceId: failedTrace,
+      error: "rate limited",
+      attributes: {
+        "gen_ai.operation.name": "chat",
+        "gen_ai.request.model": "gpt-4o",
+        "error.type": "429",
+      },
+      events: [
+        {
+          name: "exception",
+          time: [0, 0],
+          attributes: {
+            "exception.type": "RateLimitError",
+            "exception.message": "Too many requests",
+          },
+        },
+      ],
+    }),
+  );
+  await observa.flush();
+  const failedCall = ofType("llm_call")[0];
+  const error = ofType("error")[0];
+  check(
+    "llm_call is marked as an error",
+    failedCall?.attributes.llm_call?.status === "error",
+  );
+  check(
+    "error event under the span",
+    error?.parent_span_id === failedCall?.span_id &&
+      error?.attributes.error?.error_type === "RateLimitError" &&
+      error?.attributes.error?.error_message === "Too many requests",
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 5: maxPendingSpans");
+  const capped = observa.createOtelSpanProcessor({ maxPendingSpans: 2 });
+  const openTrace = hex(32);
+  const openRoot = span({ name: "never ends", traceId: openTrace });
+  const chatAttributes = {
+    "gen_ai.operation.name": "chat",
+    "gen_ai.request.model": "gpt-4o",
+  };
+  capped.onEnd(
+    span({
+      name: "chat",
+      traceId: openTrace,
+      parent: openRoot,
+      attributes: chatAttributes,
+    }),
+  );
+  capped.onEnd(
+    span({
+      name: "chat",
+      traceId: openTrace,
+      parent: openRoot,
+      attributes: chatAttributes,
+    }),
+  );
+  await observa.flush();
+  check("buffered up to the cap", ofType("llm_call").length === 0);
+  const otherTrace = hex(32);
+  capped.onEnd(
+    span({
+      name: "chat",
+      traceId: otherTrace,
+      parent: span({ name: "open", traceId: otherTrace }),
+      attributes: chatAttributes,
+    }),
+  );
+  await observa.flush();
+  check(
+    "oldest trace translated past the cap",
+    ofType("llm_call").length === 2 &&
+      ofType("llm_call").every((e) =>
+        e.trace_id.startsWith(openTrace.slice(0, 8)),
+      ),
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 6: Span exporter");
+  const exporter = observa.createOtelSpanExporter();
+  const exportTrace = hex(32);
+  const exportRoot = span({ name: "job", traceId: exportTrace });
+  let code: number | undefined;
+  exporter.export(
+    [
+      span({
+        name: "embeddings",
+        traceId: exportTrace,
+        parent: exportRoot,
+        attributes: {
+          "gen_ai.operation.name": "embeddings",
+          "gen_ai.request.model": "text-embedding-3-small",
+        },
+      }),
+    ],
+    (result) => (code = result.code),
+  );
+  check("export reports success", code === 0);
+  await exporter.forceFlush();
+  check(
+    "forceFlush translates the pending trace",
+    ofType("embedding")[0]?.attributes.embedding?.model ===
+      "text-embedding-3-small",
+  );
+
+  finish("OpenTelemetry");
+}
+
+run(main);
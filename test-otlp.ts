@@ -0,0 +1,260 @@
+/**
+ * Test script for the OTLP exporter
+ * Tests:
+ * 1. Canonical events map to one root span plus child spans
+ * 2. GenAI attributes and error status are set
+ * 3. The protobuf encoding decodes back to the JSON request (round-trip)
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import {
+  convertToOtlpTraceRequest,
+  encodeOtlpTraceRequest,
+  type OtlpAnyValue,
+  type OtlpKeyValue,
+  type OtlpSpan,
+  type OtlpTraceRequest,
+} from "./src/otlp";
+import { check, finish, run } from "./test-fixtures/check";
+
+// ---------- Minimal protobuf wire-format reader ----------
+
+type Field = bigint | Uint8Array;
+
+function readMessage(bytes: Uint8Array): Map<number, Field[]> {
+  const fields = new Map<number, Field[]>();
+  let pos = 0;
+  const readVarint = (): bigint => {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    for (;;) {
+      const byte = bytes[pos++]!;
+      result |= BigInt(byte & 0x7f) << shift;
+      if (byte < 0x80) return result;
+      shift += BigInt(7);
+    }
+  };
+  while (pos < bytes.length) {
+    const tag = Number(readVarint());
+    const field = tag >> 3;
+    let value: Field;
+    switch (tag & 7) {
+      case 0:
+        value = readVarint();
+        break;
+      case 1: {
+        value = new DataView(
+          bytes.buffer,
+          bytes.byteOffset + pos,
+          8,
+        ).getBigUint64(0, true);
+        pos += 8;
+        break;
+      }
+      case 2: {
+        const length = Number(readVarint());
+        value = bytes.subarray(pos, pos + length);
+        pos += length;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported wire type ${tag & 7}`);
+    }
+    fields.set(field, [...(fields.get(field) || []), value]);
+  }
+  return fields;
+}
+
+const text = (value: Field | undefined) =>
+  new TextDecoder().decode(value as Uint8Array);
+const hex = (value: Field | undefined) =>
+  Buffer.from(value as Uint8Array).toString("hex");
+const nested = (value: Field | undefined) => readMessage(value as Uint8Array);
+
+function decodeAnyValue(bytes: Field): OtlpAnyValue {
+  const message = nested(bytes);
+  if (message.has(1)) return { stringValue: text(message.get(1)![0]) };
+  if (message.has(2)) return { boolValue: message.get(2)![0] === BigInt(1) };
+  if (message.has(3)) {
+    const value = BigInt.asIntN(64, message.get(3)![0] as bigint);
+    return { intValue: value.toString() };
+  }
+  if (message.has(4)) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setBigUint64(0, message.get(4)![0] as bigint, true);
+    return { doubleValue: view.getFloat64(0, true) };
+  }
+  const array = nested(message.get(5)![0]);
+  return { arrayValue: { values: (array.get(1) || []).map(decodeAnyValue) } };
+}
+
+function decodeKeyValue(bytes: Field): OtlpKeyValue {
+  const message = nested(bytes);
+  return {
+    key: text(message.get(1)![0]),
+    value: decodeAnyValue(message.get(2)![0]!),
+  };
+}
+
+function decodeSpan(bytes: Field): OtlpSpan {
+  const message = nested(bytes);
+  const status = nested(message.get(15)![0]);
+  const span: OtlpSpan = {
+    traceId: hex(message.get(1)![0]),
+    spanId: hex(message.get(2)![0]),
+    name: text(message.get(5)![0]),
+    kind: Number(message.get(6)?.[0] ?? 0),
+    startTimeUnixNano: String(message.get(7)![0]),
+    endTimeUnixNano: String(message.get(8)![0]),
+    attributes: (message.get(9) || []).map(decodeKeyValue),
+    events: (message.get(11) || []).map((eventBytes) => {
+      const event = nested(eventBytes);
+      return {
+        timeUnixNano: String(event.get(1)![0]),
+        name: text(event.get(2)![0]),
+        attributes: (event.get(3) || []).map(decodeKeyValue),
+      };
+    }),
+    status: {
+      code: Number(status.get(3)?.[0] ?? 0),
+      ...(status.has(2) ? { message: text(status.get(2)![0]) } : {}),
+    },
+  };
+  if (message.has(4)) span.parentSpanId = hex(message.get(4)![0]);
+  return span;
+}
+
+function decodeTraceRequest(bytes: Uint8Array): OtlpTraceRequest {
+  return {
+    resourceSpans: (readMessage(bytes).get(1) || []).map((rsBytes) => {
+      const rs = nested(rsBytes);
+      const resource = nested(rs.get(1)![0]);
+      return {
+        resource: { attributes: (resource.get(1) || []).map(decodeKeyValue) },
+        scopeSpans: (rs.get(2) || []).map((ssBytes) => {
+          const ss = nested(ssBytes);
+          return {
+            scope: { name: text(nested(ss.get(1)![0]).get(1)![0]) },
+            spans: (ss.get(2) || []).map(decodeSpan),
+          };
+        }),
+      };
+    }),
+  };
+}
+
+// Key order differs between the encoder input and the decoded object
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === "object" && !Array.isArray(val)
+      ? Object.fromEntries(
+          Object.entries(val)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : val,
+  );
+}
+
+async function main() {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+  observa.startTrace({ name: "support-agent" });
+  observa.trackLLMCall({
+    model: "gpt-4o",
+    input: "Where is my order?",
+    output: "Let me check.",
+    inputTokens: 12,
+    outputTokens: 5,
+    latencyMs: 420,
+    temperature: 0.2,
+    stopSequences: ["\n\n", "END"],
+  });
+  observa.trackToolCall({
+    toolName: "lookup_order",
+    args: { id: 42, express: true, tags: ["a", "b"] },
+    resultStatus: "error",
+    errorMessage: "timeout",
+    latencyMs: 1500,
+  });
+  observa.trackError({
+    errorType: "Error",
+    errorMessage: "order service unavailable",
+  });
+  await observa.endTrace({ outcome: "error" });
+  await observa.flush();
+  const events = transport.events;
+
+  console.log("\nTest 1: Span mapping");
+  const request = convertToOtlpTraceRequest(events, {
+    serviceName: "support",
+    resourceAttributes: { "service.version": "1.2.3", replicas: 3 },
+  });
+  const spans = request.resourceSpans[0]?.scopeSpans[0]?.spans || [];
+  const roots = spans.filter((span) => !span.parentSpanId);
+  check("one root span for the trace", roots.length === 1);
+  check(
+    "one span per non-trace event",
+    spans.length ===
+      events.filter(
+        (e) => e.event_type !== "trace_start" && e.event_type !== "trace_end",
+      ).length +
+        1,
+  );
+  check(
+    "IDs are 32/16 hex characters",
+    spans.every(
+      (span) =>
+        /^[0-9a-f]{32}$/.test(span.traceId) &&
+        /^[0-9a-f]{16}$/.test(span.spanId),
+    ),
+  );
+
+  console.log("\nTest 2: Attributes and status");
+  const attribute = (span: OtlpSpan | undefined, key: string) =>
+    span?.attributes.find((kv) => kv.key === key)?.value;
+  const llmSpan = spans.find(
+    (span) => attribute(span, "gen_ai.request.model")?.stringValue,
+  );
+  check(
+    "llm span carries gen_ai.request.model",
+    attribute(llmSpan, "gen_ai.request.model")?.stringValue === "gpt-4o",
+  );
+  check(
+    "error events set status ERROR",
+    spans.some((span) => span.status.code === 2),
+  );
+
+  console.log("\nTest 3: Protobuf round-trip");
+  const kinds = [
+    "stringValue",
+    "boolValue",
+    "intValue",
+    "doubleValue",
+    "arrayValue",
+  ];
+  check(
+    "request covers every AnyValue kind",
+    kinds.every((kind) => JSON.stringify(request).includes(`"${kind}"`)),
+  );
+  const encoded = encodeOtlpTraceRequest(request);
+  check("encodes to bytes", encoded.length > 0);
+  const decoded = decodeTraceRequest(encoded);
+  const expected = canonicalJson(request);
+  const actual = canonicalJson(decoded);
+  check("decoded request equals the JSON request", expected === actual);
+  if (expected !== actual) {
+    console.log(`   expected: ${expected.slice(0, 400)}`);
+    console.log(`   actual:   ${actual.slice(0, 400)}`);
+  }
+
+  finish("OTLP");
+}
+
+run(main);
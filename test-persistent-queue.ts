@@ -0,0 +1,152 @@
+/**
+ * Test script for the persistent queue (persistentQueue)
+ * Tests:
+ * 1. Events are on disk as soon as they are buffered
+ * 2. Failed batches are re-buffered but exported only once
+ * 3. Undelivered events are replayed on the next init
+ * 4. Delivered events are acknowledged and their segments removed
+ * 5. Replayed events of a trace that was already sent do not restart it
+ */
+
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+function readSegments(directory: string): any[] {
+  return readdirSync(directory)
+    .filter((name) => name.endsWith(".jsonl"))
+    .flatMap((name) =>
+      readFileSync(join(directory, name), "utf-8")
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line)),
+    );
+}
+
+async function main() {
+  const directory = mkdtempSync(join(tmpdir(), "observa-queue-"));
+  const traceId = crypto.randomUUID();
+
+  console.log("\nTest 1: Events are on disk as soon as they are buffered");
+  const exported: any[] = [];
+  const offline = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    persistentQueue: { directory },
+    transport: {
+      async send() {
+        throw new Error("offline");
+      },
+    },
+    exporters: [(events) => void exported.push(...events)],
+  });
+  for (const name of ["load", "parse", "store"]) {
+    offline.trackSpan({ name, startTime: Date.now(), traceId });
+  }
+  const written = readSegments(directory).filter((r) => r.op === "event");
+  check("3 events written synchronously", written.length === 3);
+  check(
+    "each event has an idempotency_key",
+    written.every((r) => typeof r.event.idempotency_key === "string"),
+  );
+
+  console.log("\nTest 2: Failed batches are exported once");
+  await offline.flush();
+  const exportedAfterFirstFlush = exported.length;
+  check(
+    "events re-buffered after the failed send",
+    (offline as any).eventBuffer.length === exportedAfterFirstFlush,
+  );
+  await offline.flush();
+  check(
+    "retrying the batch does not export it again",
+    exported.length === exportedAfterFirstFlush,
+  );
+  // Simulate a crash: the offline client never delivers or acks its events
+  (offline as any).eventBuffer = [];
+
+  console.log("\nTest 3: Undelivered events are replayed on the next init");
+  const transport = createMemoryTransport();
+  const online = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    persistentQueue: { directory },
+    transport,
+  });
+  await (online as any).replayPromise;
+  await online.flush();
+  const deliveredKeys = new Set(
+    transport.events.map((event) => event.idempotency_key),
+  );
+  check(
+    "all persisted events delivered",
+    written.every((r) => deliveredKeys.has(r.event.idempotency_key)),
+  );
+
+  console.log("\nTest 4: Delivered events are acknowledged");
+  await online.end();
+  const pending = new Map<string, unknown>();
+  for (const record of readSegments(directory)) {
+    if (record.op === "event") pending.set(record.event.idempotency_key, 1);
+    if (record.op === "ack") {
+      for (const key of record.keys) pending.delete(key);
+    }
+  }
+  check("no unacknowledged events left on disk", pending.size === 0);
+
+  console.log("\nTest 5: Replaying part of a sent trace");
+  // Every batch is delivered except the "store" span, which stays retryable
+  const partial = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    persistentQueue: { directory },
+    transport: {
+      async send(events) {
+        const retry = events.flatMap((event, index) =>
+          event.attributes.span?.name === "store" ? [index] : [],
+        );
+        return { retry };
+      },
+    },
+  });
+  await (partial as any).replayPromise;
+  const partialTrace = crypto.randomUUID();
+  for (const name of ["load", "store"]) {
+    partial.trackSpan({ name, startTime: Date.now(), traceId: partialTrace });
+  }
+  await partial.flush();
+  // Simulate a crash with the "store" span still undelivered
+  (partial as any).eventBuffer = [];
+
+  const resumed = createMemoryTransport();
+  const replaying = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    persistentQueue: { directory },
+    transport: resumed,
+  });
+  await (replaying as any).replayPromise;
+  await replaying.flush();
+  check(
+    "only the undelivered span is replayed",
+    JSON.stringify(resumed.events.map((e) => e.event_type)) === '["span"]' &&
+      resumed.events[0]?.trace_id === partialTrace,
+  );
+  await replaying.end();
+
+  rmSync(directory, { recursive: true, force: true });
+
+  finish("persistent queue");
+}
+
+run(main);
@@ -0,0 +1,163 @@
+/**
+ * Test script for the model pricing registry
+ * Tests:
+ * 1. Provider prefixes and version suffixes resolve to the base model
+ * 2. Prefix fallback stops at version boundaries
+ * 3. Provider-qualified keys apply to that provider only
+ * 4. Cost estimates bill cached, reasoning and prompt cache tokens at their
+ *    own rates
+ * 5. trackLLMCall fills missing costs and keeps explicit ones
+ */
+
+import {
+  init,
+  createMemoryTransport,
+  createPricingRegistry,
+  DEFAULT_MODEL_PRICING,
+} from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const close = (a: number | undefined, b: number) =>
+  a !== undefined && Math.abs(a - b) < 1e-12;
+
+async function main() {
+  const registry = createPricingRegistry();
+
+  console.log("\nTest 1: Normalization");
+  check(
+    "dated snapshot resolves to the base model",
+    registry.resolve("gpt-4o-2024-08-06") === DEFAULT_MODEL_PRICING["gpt-4o"],
+  );
+  check(
+    "provider prefix is stripped",
+    registry.resolve("openai/gpt-4o-mini") ===
+      DEFAULT_MODEL_PRICING["gpt-4o-mini"],
+  );
+  check(
+    "Bedrock ID resolves",
+    registry.resolve("us.anthropic.claude-3-5-haiku-20241022-v1:0") ===
+      DEFAULT_MODEL_PRICING["claude-3-5-haiku"],
+  );
+  check(
+    "Vertex @date suffix resolves",
+    registry.resolve("claude-3-5-haiku@20241022") ===
+      DEFAULT_MODEL_PRICING["claude-3-5-haiku"],
+  );
+  check("unknown model has no price", registry.resolve("my-model") === null);
+
+  console.log("\nTest 2: Prefix fallback and version boundaries");
+  check(
+    "longest prefix wins",
+    registry.resolve("gpt-4o-mini-search") ===
+      DEFAULT_MODEL_PRICING["gpt-4o-mini"],
+  );
+  check(
+    "gpt-4.5-preview is not priced as gpt-4",
+    registry.resolve("gpt-4.5-preview") === null,
+  );
+  check(
+    "gpt-5.1 has its own entry instead of the gpt-5 prefix",
+    registry.resolve("gpt-5.1-2025-11-13") ===
+      DEFAULT_MODEL_PRICING["gpt-5.1"],
+  );
+  const claude3 = { input: 1, output: 1 };
+  const custom = createPricingRegistry({ "claude-3": claude3 });
+  check(
+    "claude-3 does not price claude-3-9-haiku",
+    custom.resolve("claude-3-9-haiku") === null,
+  );
+  check(
+    "claude-3 still prices claude-3-instant",
+    custom.resolve("claude-3-instant") === claude3,
+  );
+
+  console.log("\nTest 3: Provider-qualified keys");
+  const azure = { input: 2, output: 8 };
+  const qualified = createPricingRegistry({ "azure/gpt-4o": azure });
+  check(
+    "qualified override applies to its provider",
+    qualified.resolve("gpt-4o", "azure") === azure,
+  );
+  check(
+    "qualified override does not change the generic entry",
+    qualified.resolve("gpt-4o") === DEFAULT_MODEL_PRICING["gpt-4o"] &&
+      qualified.resolve("gpt-4o", "openai") ===
+        DEFAULT_MODEL_PRICING["gpt-4o"],
+  );
+  check(
+    "open-weight hosts are only priced through qualified keys",
+    registry.resolve("llama-3.3-70b-versatile", "groq") ===
+      DEFAULT_MODEL_PRICING["groq/llama-3.3-70b-versatile"] &&
+      registry.resolve("gpt-4o", "ollama") === null,
+  );
+
+  console.log("\nTest 4: Cost estimates");
+  const estimate = createPricingRegistry({
+    "test-model": { input: 2, output: 10, cachedInput: 1, reasoning: 20 },
+  }).estimate({
+    model: "test-model",
+    inputTokens: 1_000_000,
+    cachedInputTokens: 400_000,
+    outputTokens: 100_000,
+    reasoningTokens: 50_000,
+  });
+  check("input cost splits cached tokens", close(estimate?.inputCost, 1.6));
+  check(
+    "output cost splits reasoning tokens",
+    close(estimate?.outputCost, 1.5),
+  );
+  check("total cost", close(estimate?.cost, 3.1));
+  const cacheEstimate = createPricingRegistry({
+    "test-model": { input: 2, output: 10, cachedInput: 1, cacheWrite: 3 },
+  }).estimate({
+    model: "test-model",
+    inputTokens: 1_000_000,
+    cacheReadInputTokens: 400_000,
+    cacheWriteInputTokens: 100_000,
+  });
+  check(
+    "prompt cache reads and writes are billed on top of input tokens",
+    close(cacheEstimate?.inputCost, 2.7),
+  );
+  check(
+    "no estimate without token counts",
+    registry.estimate({ model: "gpt-4o" }) === null,
+  );
+
+  console.log("\nTest 5: trackLLMCall");
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+  observa.trackLLMCall({
+    model: "gpt-4o-2024-08-06",
+    input: "hi",
+    output: "hello",
+    inputTokens: 1000,
+    outputTokens: 100,
+    latencyMs: 10,
+  });
+  observa.trackLLMCall({
+    model: "gpt-4o",
+    input: "hi",
+    output: "hello",
+    inputTokens: 1000,
+    outputTokens: 100,
+    cost: 42,
+    latencyMs: 10,
+  });
+  await observa.flush();
+  const calls = transport.events
+    .filter((e) => e.event_type === "llm_call")
+    .map((e) => e.attributes.llm_call!);
+  check("missing cost is filled", close(calls[0]?.cost ?? undefined, 0.0035));
+  check("explicit cost is kept", calls[1]?.cost === 42);
+
+  finish("pricing");
+}
+
+run(main);
@@ -0,0 +1,175 @@
+/**
+ * Test script for OpenAI-compatible provider detection (observeOpenAI)
+ * Tests:
+ * 1. Hosted providers are detected from the baseURL host
+ * 2. Azure is detected from the client class and api-key header
+ * 3. Self-hosted servers are detected from their default ports
+ * 4. Custom matchers win, and a throwing matcher is skipped
+ * 5. llm_call events carry provider_name, server_address and server_port
+ * 6. Self-hosted calls are not priced at the vendor's list price
+ */
+
+import { init, createMemoryTransport, detectProvider } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+// Fake OpenAI SDK client for a baseURL
+function openai(baseURL: string, extra: Record<string, any> = {}) {
+  return {
+    baseURL,
+    ...extra,
+    chat: {
+      completions: {
+        async create(params: any) {
+          return {
+            id: "chatcmpl-1",
+            model: params.model,
+            choices: [
+              {
+                index: 0,
+                message: { role: "assistant", content: "Hi!" },
+                finish_reason: "stop",
+              },
+            ],
+            usage: {
+              prompt_tokens: 10,
+              completion_tokens: 2,
+              total_tokens: 12,
+            },
+          };
+        },
+      },
+    },
+  };
+}
+
+async function main() {
+  console.log("\nTest 1: Hosted providers");
+  const detect = (baseURL: string) => detectProvider({ baseURL }).name;
+  check("OpenAI", detect("https://api.openai.com/v1") === "openai");
+  check("Groq", detect("https://api.groq.com/openai/v1") === "groq");
+  check("Together", detect("https://api.together.xyz/v1") === "together_ai");
+  check(
+    "Azure AI Inference",
+    detect("https://my-hub.services.ai.azure.com/models") ===
+      "azure.ai.inference",
+  );
+  check(
+    "unknown servers report the protocol",
+    detect("https://llm.internal.example/v1") === "openai",
+  );
+
+  console.log("\nTest 2: Azure OpenAI");
+  class AzureOpenAI {
+    baseURL = "https://gateway.example/openai";
+  }
+  check(
+    "AzureOpenAI client class",
+    detectProvider(new AzureOpenAI()).name === "azure.ai.openai",
+  );
+  check(
+    "api-key default header",
+    detectProvider({
+      baseURL: "https://gateway.example/openai",
+      _options: { defaultHeaders: { "Api-Key": "secret" } },
+    }).name === "azure.ai.openai",
+  );
+
+  console.log("\nTest 3: Self-hosted servers");
+  const ollama = detectProvider({ baseURL: "http://localhost:11434/v1" });
+  check(
+    "Ollama by port, with address and port",
+    ollama.name === "ollama" &&
+      ollama.serverAddress === "localhost" &&
+      ollama.serverPort === 11434,
+  );
+  check(
+    "LM Studio by port",
+    detect("http://127.0.0.1:1234/v1") === "lm_studio",
+  );
+  check("vLLM by port", detect("http://10.0.0.5:8000/v1") === "vllm");
+  check(
+    "protocol default port",
+    detectProvider({ baseURL: "https://api.groq.com/openai/v1" }).serverPort ===
+      443,
+  );
+
+  console.log("\nTest 4: Custom matchers");
+  const warn = console.warn;
+  const warnings: string[] = [];
+  console.warn = (message: string) => warnings.push(message);
+  const custom = detectProvider({ baseURL: "http://localhost:11434/v1" }, [
+    {
+      name: "broken",
+      match: () => {
+        throw new Error("bad matcher");
+      },
+    },
+    { name: "edge-gateway", baseURL: /localhost:11434/ },
+  ]);
+  console.warn = warn;
+  check("custom matcher wins over built-ins", custom.name === "edge-gateway");
+  check(
+    "throwing matcher is skipped with a warning",
+    warnings.some((w) => w.includes('"broken"')),
+  );
+
+  console.log("\nTest 5: llm_call attributes");
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+    providerMatchers: [{ name: "corp-gateway", baseURL: "llm.corp.example" }],
+    pricing: {
+      "groq/llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+    },
+  });
+  const call = async (client: any, model: string) => {
+    transport.events.length = 0;
+    await observa.observeOpenAI(client).chat.completions.create({
+      model,
+      messages: [{ role: "user", content: "Hello" }],
+    });
+    await observa.flush();
+    return transport.events.find((e) => e.event_type === "llm_call")?.attributes
+      .llm_call;
+  };
+  const groq = await call(
+    openai("https://api.groq.com/openai/v1"),
+    "llama-3.3-70b-versatile",
+  );
+  check(
+    "provider_name, server_address and server_port",
+    groq?.provider_name === "groq" &&
+      groq?.server_address === "api.groq.com" &&
+      groq?.server_port === 443,
+  );
+  const corp = await call(openai("https://llm.corp.example/v1"), "gpt-4o");
+  check(
+    "init() providerMatchers apply",
+    corp?.provider_name === "corp-gateway",
+  );
+  const named = await call(
+    observa.observeOpenAI(openai("https://proxy.example/v1"), {
+      providerName: "my-proxy",
+    }),
+    "gpt-4o",
+  );
+  check("providerName skips detection", named?.provider_name === "my-proxy");
+
+  console.log("\nTest 6: Pricing by provider");
+  const hosted = await call(openai("https://api.openai.com/v1"), "gpt-4o");
+  const local = await call(openai("http://localhost:11434/v1"), "gpt-4o");
+  check("OpenAI calls are priced", (hosted?.cost ?? 0) > 0);
+  check("Ollama calls are not priced", !local?.cost);
+  check(
+    "provider-qualified pricing keys apply",
+    Math.abs((groq?.cost ?? 0) - (10 * 0.59 + 2 * 0.79) / 1e6) < 1e-12,
+  );
+
+  finish("provider detection");
+}
+
+run(main);
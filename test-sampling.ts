@@ -0,0 +1,142 @@
+/**
+ * Test script for trace-level head sampling (sampleRate)
+ * Tests:
+ * 1. The decision is deterministic per trace ID across SDK instances
+ * 2. The sampled fraction follows sampleRate
+ * 3. Sampled-out traces are never buffered
+ * 4. Errors keep a sampled-out trace (sampling_override: "error")
+ * 5. The decision is recorded on trace_start
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+function createClient(sampleRate: number) {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    sampleRate,
+    transport,
+  });
+  return { observa, transport };
+}
+
+async function main() {
+  console.log("\nTest 1-2: Deterministic trace-level decision");
+  const a = createClient(0.5);
+  const b = createClient(0.5);
+  const traceIds = Array.from({ length: 400 }, () => crypto.randomUUID());
+  for (const traceId of traceIds) {
+    for (const { observa } of [a, b]) {
+      observa.trackSpan({ name: "work", startTime: Date.now(), traceId });
+    }
+  }
+  // The buffer auto-flushes every 100 events; flush until it is empty
+  for (const { observa } of [a, b]) {
+    while ((observa as any).eventBuffer.length > 0) await observa.flush();
+    await observa.flush();
+  }
+  const keptBy = (events: any[]) =>
+    new Set(
+      events.filter((e) => e.event_type === "span").map((e) => e.trace_id),
+    );
+  const keptA = keptBy(a.transport.events);
+  const keptB = keptBy(b.transport.events);
+  check(
+    "both instances keep the same traces",
+    keptA.size === keptB.size && [...keptA].every((id) => keptB.has(id)),
+  );
+  const fraction = keptA.size / traceIds.length;
+  console.log(`   kept ${keptA.size}/${traceIds.length} traces`);
+  check(
+    "kept fraction is close to sampleRate",
+    fraction > 0.4 && fraction < 0.6,
+  );
+
+  console.log("\nTest 3: Sampled-out traces are never buffered");
+  const none = createClient(0);
+  await none.observa.trace({ name: "dropped" }, async () => {
+    none.observa.trackLLMCall({
+      model: "gpt-4o",
+      input: "hi",
+      output: "hello",
+      latencyMs: 10,
+    });
+    none.observa.trackToolCall({
+      toolName: "search",
+      resultStatus: "success",
+      latencyMs: 5,
+    });
+    check(
+      "nothing buffered while the trace runs",
+      (none.observa as any).eventBuffer.length === 0,
+    );
+  });
+  await none.observa.flush();
+  check("nothing sent", none.transport.events.length === 0);
+
+  console.log("\nTest 4: Errors keep a sampled-out trace");
+  const errors = createClient(0);
+  await errors.observa
+    .trace({ name: "failing" }, async () => {
+      errors.observa.trackLLMCall({
+        model: "gpt-4o",
+        input: "before",
+        output: "dropped",
+        latencyMs: 10,
+      });
+      throw new Error("boom");
+    })
+    .catch(() => {});
+  await errors.observa.flush();
+  const types = errors.transport.events.map((e) => e.event_type);
+  console.log(`   sent: ${types.join(", ")}`);
+  check("error event sent", types.includes("error"));
+  check(
+    "trace_start and trace_end sent",
+    types.includes("trace_start") && types.includes("trace_end"),
+  );
+  check(
+    "events before the error were not buffered",
+    !types.includes("llm_call"),
+  );
+  const start = errors.transport.events.find(
+    (e) => e.event_type === "trace_start",
+  );
+  check(
+    "sampling_override recorded on trace_start",
+    start?.attributes.trace_start?.sampled === false &&
+      start?.attributes.trace_start?.sampling_override === "error",
+  );
+
+  console.log("\nTest 5: Kept traces record the decision");
+  const all = createClient(1);
+  await all.observa.trace({ name: "kept" }, async () => {
+    all.observa.trackLLMCall({
+      model: "gpt-4o",
+      input: "hi",
+      output: "hello",
+      latencyMs: 10,
+    });
+  });
+  await all.observa.flush();
+  const keptStart = all.transport.events.find(
+    (e) => e.event_type === "trace_start",
+  );
+  check(
+    "trace_start has sample_rate 1 and sampled true",
+    keptStart?.attributes.trace_start?.sample_rate === 1 &&
+      keptStart?.attributes.trace_start?.sampled === true,
+  );
+  check(
+    "llm_call sent",
+    all.transport.events.some((e) => e.event_type === "llm_call"),
+  );
+
+  finish("sampling");
+}
+
+run(main);
@@ -0,0 +1,199 @@
+/**
+ * Test script for the trace()/span() helpers and generic span events
+ * Tests:
+ * 1. trace() runs the callback in a new trace (even inside another one)
+ *    and always ends it
+ * 2. span() nests events tracked in the callback under its span
+ * 3. A thrown error is recorded once and passes through unchanged
+ * 4. span() records a span event with its status
+ * 5. startSpan records timing, attributes and events on end()
+ * 6. Tracked calls without parentSpanId nest under the current span
+ * 7. An explicit parentSpanId (including null) is kept
+ * 8. Events for another trace never take the current span as parent
+ */
+
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+async function main() {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+
+  console.log("\nTest 1: trace() starts and ends a trace");
+  let scope: { traceId: string; spanId: string } | undefined;
+  const answer = await observa.trace({ name: "chat" }, async (trace) => {
+    scope = trace;
+    return 42;
+  });
+  await observa.flush();
+  const start = transport.events.find((e) => e.event_type === "trace_start");
+  const end = transport.events.find((e) => e.event_type === "trace_end");
+  check("returns the callback's value", answer === 42);
+  check(
+    "trace_start and trace_end for the scope's trace",
+    start?.trace_id === scope?.traceId &&
+      end?.trace_id === scope?.traceId &&
+      start?.span_id === scope?.spanId,
+  );
+  check("no trace is left active", !observa.getActiveTrace());
+  let inner: { traceId: string; spanId: string } | undefined;
+  await observa.trace("outer", async (outer) => {
+    await observa.trace("inner", async (trace) => {
+      inner = trace;
+    });
+    check(
+      "a nested trace() starts its own trace",
+      inner?.traceId !== outer.traceId,
+    );
+    check(
+      "the outer trace stays current",
+      observa.getCurrentTraceId() === outer.traceId,
+    );
+  });
+  transport.events.length = 0;
+
+  console.log("\nTest 2: span() nests tracked events");
+  let spanScope: { traceId: string; spanId: string } | undefined;
+  await observa.trace("retrieve-and-answer", async (trace) => {
+    await observa.span("retrieve", async (span) => {
+      spanScope = span;
+      observa.trackRetrieval({ k: 3, latencyMs: 8 });
+    });
+    check("span shares the trace", spanScope?.traceId === trace.traceId);
+    check("span gets its own ID", spanScope?.spanId !== trace.spanId);
+  });
+  await observa.flush();
+  const retrieval = transport.events.find((e) => e.event_type === "retrieval");
+  check(
+    "retrieval parent is the span",
+    retrieval?.parent_span_id === spanScope?.spanId,
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 3: Thrown errors");
+  const failure = new Error("lookup failed");
+  let caught: unknown;
+  try {
+    await observa.trace("failing", () =>
+      observa.span("lookup", async () => {
+        throw failure;
+      }),
+    );
+  } catch (error) {
+    caught = error;
+  }
+  await observa.flush();
+  const errors = transport.events.filter((e) => e.event_type === "error");
+  const failedEnd = transport.events.find((e) => e.event_type === "trace_end");
+  check("the same error is rethrown", caught === failure);
+  check(
+    "recorded once",
+    errors.length === 1 &&
+      errors[0]?.attributes.error?.error_message === "lookup failed",
+  );
+  check(
+    "trace ends with outcome error",
+    failedEnd?.attributes.trace_end?.outcome === "error",
+  );
+
+  console.log("\nTest 4: span() records a span event");
+  const spanEvents = transport.events.filter((e) => e.event_type === "span");
+  check(
+    "failed span recorded with status error",
+    spanEvents.length === 1 &&
+      spanEvents[0]?.attributes.span?.name === "lookup" &&
+      spanEvents[0]?.attributes.span?.status === "error",
+  );
+  check(
+    "error event nests under the span",
+    errors[0]?.parent_span_id === spanEvents[0]?.span_id,
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 5: startSpan records a span event");
+  let spanId = "";
+  await observa.trace({ name: "spans" }, async () => {
+    const span = observa.startSpan({ name: "rank", kind: "task" });
+    spanId = span.spanId;
+    span.setAttribute("candidates", 3).addEvent("scored", { top: "a" });
+    observa.trackRetrieval({ k: 3, latencyMs: 8 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    span.end({ output: ["a", "b"] });
+  });
+  await observa.flush();
+  const spanEvent = transport.events.find((e) => e.event_type === "span");
+  const attrs = spanEvent?.attributes.span;
+  check("span event recorded", !!spanEvent && spanEvent.span_id === spanId);
+  check("kind is kept", attrs?.kind === "task");
+  check("latency covers the span", (attrs?.latency_ms ?? 0) >= 15);
+  check(
+    "attributes and events recorded",
+    attrs?.attributes?.candidates === 3 &&
+      attrs?.events?.[0]?.name === "scored",
+  );
+  const ranked = transport.events.find((e) => e.event_type === "retrieval");
+  check("events nest under the open span", ranked?.parent_span_id === spanId);
+
+  transport.events.length = 0;
+
+  console.log("\nTest 6: Calls without parentSpanId nest under the span");
+  const otherTraceId = crypto.randomUUID();
+  let openSpanId = "";
+  let explicitId = "";
+  await observa.trace({ name: "parents" }, async () => {
+    const span = observa.startSpan({ name: "lookup" });
+    openSpanId = span.spanId;
+    observa.trackToolCall({
+      toolName: "search",
+      resultStatus: "success",
+      latencyMs: 5,
+    });
+    explicitId = observa.trackToolCall({
+      toolName: "explicit",
+      resultStatus: "success",
+      latencyMs: 1,
+      parentSpanId: null,
+    });
+    observa.trackToolCall({
+      toolName: "elsewhere",
+      resultStatus: "success",
+      latencyMs: 1,
+      traceId: otherTraceId,
+    });
+    span.end();
+  });
+  await observa.flush();
+  const tool = (name: string) =>
+    transport.events.find((e) => e.attributes.tool_call?.tool_name === name);
+  check(
+    "tool_call parent is the span",
+    tool("search")?.parent_span_id === openSpanId,
+  );
+
+  console.log("\nTest 7: Explicit parentSpanId is kept");
+  check(
+    "parentSpanId: null makes a root event",
+    tool("explicit")?.span_id === explicitId &&
+      tool("explicit")?.parent_span_id === null,
+  );
+
+  console.log("\nTest 8: Events for another trace");
+  check(
+    "event joins the named trace",
+    tool("elsewhere")?.trace_id === otherTraceId,
+  );
+  check(
+    "current span is not its parent",
+    tool("elsewhere")?.parent_span_id !== openSpanId,
+  );
+
+  finish("span");
+}
+
+run(main);
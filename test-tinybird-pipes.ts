@@ -0,0 +1,234 @@
+/**
+ * Test script for the Tinybird materializations and endpoints
+ * (tool, error, retrieval and feedback aggregates)
+ * Tests:
+ * 1. Materialized pipes select exactly the target datasource's columns
+ * 2. Aggregate states match the datasource's AggregateFunction types
+ * 3. Endpoints only merge aggregate columns with the matching -Merge
+ * 4. Columns read from canonical_events exist in its schema
+ * 5. JSON paths read from attributes_json are set on SDK events
+ */
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const BACKEND = join(process.cwd(), "backend");
+
+const AGGREGATES = [
+  {
+    name: "tool_calls_daily_by_tool",
+    endpoint: "tool_success_rate",
+    eventType: "tool_call",
+  },
+  {
+    name: "errors_daily_by_category",
+    endpoint: "errors_by_category",
+    eventType: "error",
+  },
+  {
+    name: "retrieval_quality_daily",
+    endpoint: "retrieval_quality",
+    eventType: "retrieval",
+  },
+  {
+    name: "feedback_daily_by_agent",
+    endpoint: "feedback_ratio",
+    eventType: "feedback",
+  },
+];
+
+// Column name -> type from a .datasource SCHEMA
+function readSchema(name: string): Map<string, string> {
+  const text = readFileSync(
+    join(BACKEND, "datasources", `${name}.datasource`),
+    "utf-8",
+  );
+  const columns = new Map<string, string>();
+  for (const match of text.matchAll(/^\s*`(\w+)` (.+?) `json:/gm)) {
+    columns.set(match[1]!, match[2]!);
+  }
+  return columns;
+}
+
+// Split on commas outside parentheses
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of text) {
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// Output columns of the last node of a pipe: alias -> expression
+function selectedColumns(pipe: string): Map<string, string> {
+  const nodes = pipe.split(/^NODE /m);
+  const sql = nodes[nodes.length - 1]!;
+  const list = sql.slice(sql.indexOf("SELECT") + 6, sql.lastIndexOf("FROM"));
+  const columns = new Map<string, string>();
+  for (const item of splitTopLevel(list)) {
+    const alias = item.match(/\bas (\w+)$/s);
+    columns.set(alias ? alias[1]! : item, item);
+  }
+  return columns;
+}
+
+// "AggregateFunction(quantileIf(0.5), Float64, UInt8)" -> "quantileIf(0.5)"
+function aggregateFunction(type: string): string | null {
+  const inner = type.match(/^AggregateFunction\((.*)\)$/s)?.[1];
+  return inner ? splitTopLevel(inner)[0]! : null;
+}
+
+// ["tool_call", "tool_name"] for each JSONExtract*(attributes_json, ...)
+function jsonPaths(pipe: string): string[][] {
+  const paths: string[][] = [];
+  const calls = pipe.matchAll(
+    /JSONExtract\w*\(\s*attributes_json,((?:\s*'[^']*',?)+)/g,
+  );
+  for (const call of calls) {
+    const keys = [...call[1]!.matchAll(/'([^']*)'/g)].map((m) => m[1]!);
+    // JSONExtract(json, ...keys, 'ReturnType')
+    if (/^[A-Z]/.test(keys[keys.length - 1]!)) keys.pop();
+    paths.push(keys);
+  }
+  return paths;
+}
+
+async function sdkEvents() {
+  const transport = createMemoryTransport();
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+  observa.trackToolCall({
+    toolName: "search",
+    resultStatus: "success",
+    latencyMs: 12,
+  });
+  observa.trackError({
+    errorType: "RateLimitError",
+    errorMessage: "Too many requests",
+    context: { provider: "openai" },
+    errorCategory: "rate_limit_error",
+    errorCode: "429",
+  });
+  observa.trackRetrieval({
+    contextIds: ["doc-1", "doc-2"],
+    similarityScores: [0.9, 0.7],
+    embeddingModel: "text-embedding-3-small",
+    providerName: "pinecone",
+    qualityScore: 0.8,
+    latencyMs: 30,
+  });
+  observa.trackFeedback({
+    type: "like",
+    rating: 5,
+    agentName: "support",
+    version: "v2",
+    route: "/chat",
+  });
+  await observa.flush();
+  return transport.events;
+}
+
+async function main() {
+  const events = await sdkEvents();
+  const canonical = readSchema("canonical_events");
+
+  for (const aggregate of AGGREGATES) {
+    const schema = readSchema(aggregate.name);
+    const materialization = readFileSync(
+      join(BACKEND, "materializations", `${aggregate.name}.pipe`),
+      "utf-8",
+    );
+    const endpoint = readFileSync(
+      join(BACKEND, "endpoints", `${aggregate.endpoint}.pipe`),
+      "utf-8",
+    );
+    const selected = selectedColumns(materialization);
+    console.log(`\n${aggregate.name}`);
+
+    console.log("Test 1: Columns match the target datasource");
+    check(
+      "materializes into the datasource",
+      materialization.includes(`DATASOURCE ${aggregate.name}`),
+    );
+    check(
+      "same columns in the same order",
+      [...selected.keys()].join(",") === [...schema.keys()].join(","),
+    );
+
+    console.log("Test 2: Aggregate states");
+    const states = [...schema].filter(([, type]) => aggregateFunction(type));
+    check(
+      "each aggregate column uses the matching -State",
+      states.every(([column, type]) => {
+        const fn = aggregateFunction(type)!;
+        const [name, params = ""] = fn.split(/(?=\()/);
+        return selected.get(column)?.startsWith(`${name}State${params}(`);
+      }),
+    );
+
+    console.log("Test 3: Endpoint merges");
+    const merges = [...endpoint.matchAll(/(\w+)Merge(\([^)]*\))?\((\w+)\)/g)];
+    check(
+      "reads from the datasource",
+      endpoint.includes(`FROM ${aggregate.name}`),
+    );
+    check(
+      "every aggregate column is merged with its function",
+      merges.length === states.length &&
+        merges.every(
+          ([, name, params, column]) =>
+            aggregateFunction(schema.get(column!) ?? "") ===
+            `${name}${params ?? ""}`,
+        ),
+    );
+
+    console.log("Test 4: canonical_events columns");
+    const qualified = [...materialization.matchAll(/canonical_events\.(\w+)/g)];
+    check(
+      "qualified columns exist",
+      qualified.every(([, column]) => canonical.has(column!)),
+    );
+
+    console.log("Test 5: attributes_json paths");
+    const event = events.find((e) => e.event_type === aggregate.eventType);
+    const paths = jsonPaths(materialization);
+    check(
+      `${paths.length} paths are set on ${aggregate.eventType} events`,
+      paths.length > 0 &&
+        paths.every((path) => {
+          let value: any = event?.attributes;
+          for (const key of path) value = value?.[key];
+          return value !== undefined && value !== null;
+        }),
+    );
+  }
+
+  const feedback = events.find((e) => e.event_type === "feedback");
+  check(
+    "feedback events carry agent_name, version and route",
+    feedback?.agent_name === "support" &&
+      feedback?.version === "v2" &&
+      feedback?.route === "/chat",
+  );
+
+  finish("Tinybird pipe");
+}
+
+run(main);
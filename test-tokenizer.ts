@@ -0,0 +1,117 @@
+/**
+ * Test script for token counting (tokenizer)
+ * Tests:
+ * 1. The default tokenizer estimates ~4 characters per token
+ * 2. BPE ranks load asynchronously; earlier counts are estimated
+ * 3. BPE merges follow the rank order
+ * 4. Long pieces are estimated instead of merged
+ * 5. Missing rank files fall back to the estimate
+ * 6. Real cl100k_base / o200k_base counts (rank excerpts in
+ *    test-fixtures/ranks; set OBSERVA_RANKS_DIR to use the full files)
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { init, createMemoryTransport, createBpeTokenizer } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+// A tiny rank file: "h"+"e", then "l"+"l", then "ll"+"o", then "he"+"llo"
+function writeRanks(directory: string) {
+  const lines = ["he", "ll", "llo", "hello"].map(
+    (token, rank) => `${btoa(token)} ${rank}`,
+  );
+  writeFileSync(join(directory, "cl100k_base.tiktoken"), lines.join("\n"));
+}
+
+async function main() {
+  const directory = mkdtempSync(join(tmpdir(), "observa-ranks-"));
+  writeRanks(directory);
+
+  console.log("\nTest 1: Default tokenizer");
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport: createMemoryTransport(),
+  });
+  check(
+    "estimates ~4 characters per token",
+    observa.countTokens("0123456789", "gpt-4") === 3,
+  );
+
+  console.log("\nTest 2: Asynchronous rank loading");
+  const tokenizer = createBpeTokenizer({
+    ranksDirectory: directory,
+    encoding: "cl100k_base",
+  });
+  check(
+    "count before the ranks load is estimated",
+    tokenizer.countTokens("hello world") === 3,
+  );
+  check("load() resolves true", (await tokenizer.load()) === true);
+
+  console.log("\nTest 3: BPE merges");
+  // "hello" merges to one token; " world" has no merges (6 bytes)
+  check("hello world -> 7 tokens", tokenizer.countTokens("hello world") === 7);
+  check("hell -> 2 tokens (he + ll)", tokenizer.countTokens("hell") === 2);
+  const instance = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport: createMemoryTransport(),
+    tokenizer,
+  });
+  check(
+    "init({ tokenizer }) uses it",
+    instance.countTokens("hello world", "gpt-4") === 7,
+  );
+
+  console.log("\nTest 4: Long pieces");
+  const started = Date.now();
+  const long = "a".repeat(100_000);
+  check(
+    "a 100k-character piece is estimated",
+    tokenizer.countTokens(long) === 25_000,
+  );
+  check("and counted quickly", Date.now() - started < 1000);
+
+  console.log("\nTest 5: Missing rank files");
+  const missing = createBpeTokenizer({
+    ranksDirectory: join(directory, "missing"),
+  });
+  check("load() resolves false", (await missing.load("gpt-4o")) === false);
+  check(
+    "counts fall back to the estimate",
+    missing.countTokens("hello world", "gpt-4o") === 3,
+  );
+
+  console.log("\nTest 6: Real encodings");
+  // The excerpts hold every merge these strings need, at its real rank
+  const ranksDirectory =
+    process.env.OBSERVA_RANKS_DIR ??
+    join(process.cwd(), "test-fixtures", "ranks");
+  const real = createBpeTokenizer({ ranksDirectory });
+  check("cl100k_base loads", (await real.load("gpt-4")) === true);
+  check("o200k_base loads", (await real.load("gpt-4o")) === true);
+  check(
+    "cl100k_base: Hello there, friend! -> 5",
+    real.countTokens("Hello there, friend!", "gpt-4") === 5,
+  );
+  check(
+    "o200k_base: Hello there, friend! -> 5",
+    real.countTokens("Hello there, friend!", "gpt-4o") === 5,
+  );
+  check(
+    "cl100k_base: tokenization -> 2",
+    real.countTokens("tokenization", "gpt-4") === 2,
+  );
+
+  rmSync(directory, { recursive: true, force: true });
+
+  finish("tokenizer");
+}
+
+run(main);
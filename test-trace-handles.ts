@@ -0,0 +1,204 @@
+/**
+ * Test script for trace state on the async context and trace handles
+ * Tests:
+ * 1. startTrace/endTrace in one async context, startTrace returns the trace ID
+ * 2. Concurrent requests keep their own traces
+ * 3. Concurrent startTraceHandle calls in one async context keep their own traces
+ * 4. endTrace({ traceId }) ends a trace from outside its context
+ * 5. endTrace without an active trace reports a diagnostic instead of throwing
+ */
+
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { init, createMemoryTransport } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+async function main() {
+  const transport = createMemoryTransport();
+  const diagnostics: string[] = [];
+  const observa = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+    onDiagnostic: (event) => diagnostics.push(event.message),
+  });
+  const eventsOf = (traceId: string) =>
+    transport.events.filter((e) => e.trace_id === traceId);
+
+  console.log("\nTest 1: startTrace/endTrace in one async context");
+  const singleId = observa.startTrace({ name: "single" });
+  check(
+    "startTrace returns the current trace ID",
+    typeof singleId === "string" && singleId === observa.getCurrentTraceId(),
+  );
+  observa.trackLLMCall({
+    model: "gpt-4o",
+    input: "hi",
+    output: "hello",
+    latencyMs: 10,
+  });
+  const endedId = await observa.endTrace();
+  check("endTrace resolves to the trace ID", endedId === singleId);
+  const singleTypes = eventsOf(singleId).map((e) => e.event_type);
+  check(
+    "llm_call and trace_end recorded",
+    singleTypes.includes("llm_call") && singleTypes.includes("trace_end"),
+  );
+
+  console.log("\nTest 2: Concurrent requests");
+  const traces = new Map<string, string>();
+  const server = createServer(async (req, res) => {
+    const question = req.url!.slice(1);
+    const traceId = observa.startTrace({ name: question });
+    traces.set(question, traceId);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    observa.trackLLMCall({
+      model: "gpt-4o",
+      input: question,
+      output: "ok",
+      latencyMs: 10,
+    });
+    await observa.endTrace();
+    res.end("ok");
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  const questions = ["first", "second", "third"];
+  await Promise.all(
+    questions.map((q) => fetch(`http://127.0.0.1:${port}/${q}`)),
+  );
+  server.close();
+  check(
+    "each request got its own trace and llm_call",
+    new Set(traces.values()).size === 3 &&
+      questions.every((question) => {
+        const calls = eventsOf(traces.get(question)!).filter(
+          (e) => e.event_type === "llm_call",
+        );
+        return (
+          calls.length === 1 &&
+          calls[0]?.attributes.llm_call?.input === question
+        );
+      }),
+  );
+  check(
+    "every trace ended with success",
+    questions.every((question) =>
+      eventsOf(traces.get(question)!).some(
+        (e) =>
+          e.event_type === "trace_end" &&
+          e.attributes.trace_end?.outcome === "success",
+      ),
+    ),
+  );
+  check(
+    "llm_calls are children of their trace's root span",
+    questions.every((question) => {
+      const events = eventsOf(traces.get(question)!);
+      const start = events.find((e) => e.event_type === "trace_start");
+      return events
+        .filter((e) => e.event_type === "llm_call")
+        .every((e) => e.parent_span_id === start?.span_id);
+    }),
+  );
+
+  console.log("\nTest 3: Concurrent traces in one async context");
+  const handles = await Promise.all(
+    questions.map(async (question) => {
+      const trace = observa.startTraceHandle({ name: question });
+      try {
+        await trace.run(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          observa.trackLLMCall({
+            model: "gpt-4o",
+            input: question,
+            output: "ok",
+            latencyMs: 10,
+          });
+        });
+      } finally {
+        await trace.end();
+      }
+      return trace;
+    }),
+  );
+  check(
+    "each trace got its own llm_call",
+    handles.every((handle, i) => {
+      const calls = eventsOf(handle.traceId).filter(
+        (e) => e.event_type === "llm_call",
+      );
+      return (
+        calls.length === 1 &&
+        calls[0]?.attributes.llm_call?.input === questions[i]
+      );
+    }),
+  );
+  check(
+    "every trace ended with success",
+    handles.every((handle) =>
+      eventsOf(handle.traceId).some(
+        (e) =>
+          e.event_type === "trace_end" &&
+          e.attributes.trace_end?.outcome === "success",
+      ),
+    ),
+  );
+  check(
+    "llm_calls are children of their trace's root span",
+    handles.every((handle) =>
+      eventsOf(handle.traceId)
+        .filter((e) => e.event_type === "llm_call")
+        .every((e) => e.parent_span_id === handle.spanId),
+    ),
+  );
+
+  console.log("\nTest 4: endTrace({ traceId })");
+  let streamTrace = "";
+  await new Promise<void>((resolve) => {
+    const detached = createServer((req, res) => {
+      streamTrace = observa.startTrace({ name: "stream" });
+      res.end("ok");
+    });
+    detached.listen(0, async () => {
+      const { port } = detached.address() as AddressInfo;
+      await fetch(`http://127.0.0.1:${port}/`);
+      detached.close();
+      resolve();
+    });
+  });
+  await observa.endTrace({ traceId: streamTrace, outcome: "timeout" });
+  check(
+    "the trace ends with the given outcome",
+    eventsOf(streamTrace).some(
+      (e) =>
+        e.event_type === "trace_end" &&
+        e.attributes.trace_end?.outcome === "timeout",
+    ),
+  );
+
+  console.log("\nTest 5: endTrace without an active trace");
+  let threw = false;
+  let result: string | null = "unset";
+  try {
+    result = await observa.endTrace();
+  } catch {
+    threw = true;
+  }
+  check("endTrace does not throw", !threw);
+  check("endTrace resolves to null", result === null);
+  check(
+    "a diagnostic is reported",
+    diagnostics.includes("No active trace to end"),
+  );
+  check(
+    "ending a handle twice resolves to null",
+    (await handles[0]!.end()) === null,
+  );
+
+  finish("trace handle");
+}
+
+run(main);
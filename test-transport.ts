@@ -0,0 +1,166 @@
+/**
+ * Test script for event transports (ObservaInitConfig.transport)
+ * Tests:
+ * 1. Memory and function transports receive complete trace batches
+ * 2. The file transport appends one JSON line per event
+ * 3. The console transport writes one JSON line per event to stdout
+ * 4. The HTTP transport posts to the ingest endpoint with the API key
+ * 5. Failed batches are retried, then re-buffered for the next flush
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  init,
+  createConsoleTransport,
+  createFileTransport,
+  createHttpTransport,
+  createMemoryTransport,
+} from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+function client(transport: any) {
+  return init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport,
+  });
+}
+
+function trackTool(observa: ReturnType<typeof client>, toolName = "search") {
+  observa.trackToolCall({ toolName, resultStatus: "success", latencyMs: 1 });
+}
+
+async function main() {
+  console.log("\nTest 1: Memory and function transports");
+  const memory = createMemoryTransport();
+  const observa = client(memory);
+  trackTool(observa);
+  await observa.flush();
+  check(
+    "memory transport holds the trace",
+    JSON.stringify(memory.events.map((e) => e.event_type)) ===
+      JSON.stringify(["trace_start", "tool_call", "trace_end"]),
+  );
+  memory.clear();
+  check("clear() empties it", memory.events.length === 0);
+
+  const batches: any[][] = [];
+  const viaFunction = client(async (events: any[]) => {
+    batches.push(events);
+  });
+  trackTool(viaFunction);
+  await viaFunction.flush();
+  check(
+    "function transport gets the batch",
+    batches.length === 1 && batches[0]!.length === 3,
+  );
+
+  console.log("\nTest 2: File transport");
+  const directory = mkdtempSync(join(tmpdir(), "observa-transport-"));
+  const path = join(directory, "events.jsonl");
+  const toFile = client(createFileTransport({ path }));
+  trackTool(toFile, "first");
+  await toFile.flush();
+  trackTool(toFile, "second");
+  await toFile.flush();
+  await toFile.end();
+  const lines = readFileSync(path, "utf-8").trim().split("\n");
+  const tools = lines
+    .map((line) => JSON.parse(line))
+    .filter((e) => e.event_type === "tool_call")
+    .map((e) => e.attributes.tool_call.tool_name);
+  check("one line per event", lines.length === 6);
+  check(
+    "later batches are appended",
+    JSON.stringify(tools) === '["first","second"]',
+  );
+  rmSync(directory, { recursive: true, force: true });
+
+  console.log("\nTest 3: Console transport");
+  const written: string[] = [];
+  const stdout = process.stdout as any;
+  const write = stdout.write;
+  stdout.write = (chunk: string) => {
+    written.push(chunk);
+    return true;
+  };
+  try {
+    await createConsoleTransport().send(memory.events.concat(batches[0]!));
+  } finally {
+    stdout.write = write;
+  }
+  check(
+    "each event is a JSON line",
+    written.length === 3 &&
+      written.every((line) => line.endsWith("\n") && !!JSON.parse(line)),
+  );
+
+  console.log("\nTest 4: HTTP transport");
+  const requests: Array<{ url: string; headers: any; body: string }> = [];
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push({ url: req.url ?? "", headers: req.headers, body });
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ success: true }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  const overHttp = client(
+    createHttpTransport({
+      apiUrl: `http://127.0.0.1:${port}/`,
+      apiKey: "gateway-key",
+      headers: { "X-Gateway": "test" },
+      serialize: (events) => JSON.stringify({ batch: events }),
+    }),
+  );
+  trackTool(overHttp);
+  await overHttp.flush();
+  const request = requests[0];
+  check(
+    "posts to /api/v1/events/ingest",
+    request?.url === "/api/v1/events/ingest",
+  );
+  check(
+    "sends the API key as a bearer token",
+    request?.headers.authorization === "Bearer gateway-key",
+  );
+  check("adds custom headers", request?.headers["x-gateway"] === "test");
+  check(
+    "uses the serializer",
+    JSON.parse(request?.body ?? "{}").batch?.length === 3,
+  );
+  server.close();
+
+  console.log("\nTest 5: Retry and re-buffer");
+  let failures = 4;
+  const delivered: any[][] = [];
+  let attempts = 0;
+  const flaky = client(async (events: any[]) => {
+    attempts++;
+    if (failures-- > 0) throw new Error("offline");
+    delivered.push(events);
+  });
+  trackTool(flaky);
+  await flaky.flush();
+  check("tried four times", attempts === 4);
+  check("nothing delivered yet", delivered.length === 0);
+  await flaky.flush();
+  check(
+    "the next flush delivers the re-buffered trace",
+    delivered.length === 1 &&
+      delivered[0]!.filter((e) => e.event_type === "trace_start").length === 1,
+  );
+
+  finish("transport");
+}
+
+run(main);
@@ -0,0 +1,200 @@
+/**
+ * Test script for observa.wrap() and the @observe() decorator
+ * Tests:
+ * 1. Wrapped calls outside a trace start their own trace
+ * 2. Wrapped calls inside a trace nest under the current span
+ * 3. kind "tool" records a tool_call event
+ * 4. Errors are recorded and rethrown
+ * 5. Async generators are re-yielded and their items recorded
+ * 6. @observe() traces methods and keeps `this`
+ * 7. @observe() without a client uses the first init() client until it ends
+ */
+
+import { init, createMemoryTransport, observe } from "./src/index";
+import { check, finish, run } from "./test-fixtures/check";
+
+const transport = createMemoryTransport();
+const observa = init({
+  apiKey: "test-key",
+  tenantId: "test-tenant",
+  projectId: "test-project",
+  mode: "production",
+  transport,
+});
+
+const spans = () =>
+  transport.events
+    .filter((e) => e.event_type === "span")
+    .map((e) => ({ event: e, span: e.attributes.span as any }));
+
+class Retriever {
+  constructor(private prefix: string) {}
+
+  @observe({ observa, kind: "retriever" })
+  async search(query: string) {
+    return [`${this.prefix}:${query}`];
+  }
+}
+
+class Ranker {
+  @observe()
+  async rank(ids: string[]) {
+    return [...ids].reverse();
+  }
+}
+
+async function main() {
+  console.log("\nTest 1: Own trace outside a trace");
+  const add = observa.wrap(function addNumbers(a: number, b: number) {
+    return a + b;
+  });
+  check("returns the result", add(2, 3) === 5);
+  check("keeps the function name", add.name === "addNumbers");
+  await observa.flush();
+  const addSpan = spans()[0];
+  check(
+    "span records name, input and output",
+    addSpan?.span.name === "addNumbers" &&
+      JSON.stringify(addSpan?.span.attributes?.input) === "[2,3]" &&
+      addSpan?.span.output === 5,
+  );
+  const traceStart = transport.events.find(
+    (e) => e.event_type === "trace_start",
+  );
+  check(
+    "span is the child of its own trace",
+    addSpan?.event.parent_span_id === traceStart?.span_id &&
+      addSpan?.event.trace_id === traceStart?.trace_id,
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 2: Nested inside a trace");
+  const fetchDoc = observa.wrap(
+    async (id: string) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return { id };
+    },
+    { name: "fetchDoc", kind: "task", captureArgs: false },
+  );
+  let outerSpanId = "";
+  await observa.trace({ name: "request" }, async () => {
+    await observa.span({ name: "outer" }, async (scope) => {
+      outerSpanId = scope.spanId;
+      await fetchDoc("doc-1");
+    });
+  });
+  await observa.flush();
+  const fetchSpan = spans().find((s) => s.span.name === "fetchDoc");
+  check(
+    "nests under the active span",
+    fetchSpan?.event.parent_span_id === outerSpanId,
+  );
+  check(
+    "kind and captureArgs are applied",
+    fetchSpan?.span.kind === "task" && fetchSpan?.span.attributes === null,
+  );
+  check("async result is recorded", fetchSpan?.span.output?.id === "doc-1");
+  transport.events.length = 0;
+
+  console.log("\nTest 3: Tool calls");
+  const lookup = observa.wrap(
+    async (query: { account: string }) => ({ plan: "pro", ...query }),
+    { name: "crm.lookup", kind: "tool" },
+  );
+  await lookup({ account: "acme" });
+  await observa.flush();
+  const tool = transport.events.find((e) => e.event_type === "tool_call");
+  check(
+    "tool_call with args and result",
+    tool?.attributes.tool_call?.tool_name === "crm.lookup" &&
+      tool?.attributes.tool_call?.args?.account === "acme" &&
+      (tool?.attributes.tool_call?.result as any)?.plan === "pro" &&
+      tool?.attributes.tool_call?.result_status === "success",
+  );
+  check("no span event for tools", spans().length === 0);
+  transport.events.length = 0;
+
+  console.log("\nTest 4: Errors");
+  const fail = observa.wrap(async function fail() {
+    throw new Error("boom");
+  });
+  let rethrown = false;
+  try {
+    await fail();
+  } catch (error) {
+    rethrown = (error as Error).message === "boom";
+  }
+  await observa.flush();
+  const failSpan = spans()[0];
+  const error = transport.events.find((e) => e.event_type === "error");
+  check("error is rethrown", rethrown);
+  check("span status is error", failSpan?.span.status === "error");
+  check(
+    "error event under the span",
+    error?.parent_span_id === failSpan?.event.span_id &&
+      error?.attributes.error?.error_message === "boom",
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 5: Async generators");
+  const stream = observa.wrap(async function* stream(count: number) {
+    for (let i = 0; i < count; i++) yield `chunk-${i}`;
+  });
+  const chunks: string[] = [];
+  for await (const chunk of stream(3)) chunks.push(chunk);
+  await observa.flush();
+  const streamSpan = spans()[0];
+  check("items pass through", chunks.join(",") === "chunk-0,chunk-1,chunk-2");
+  check(
+    "yielded items are the output",
+    JSON.stringify(streamSpan?.span.output) === JSON.stringify(chunks),
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 6: @observe()");
+  const results = await new Retriever("kb").search("refunds");
+  await observa.flush();
+  const searchSpan = spans()[0];
+  check("`this` is kept", results[0] === "kb:refunds");
+  check(
+    "method span uses the method name and kind",
+    searchSpan?.span.name === "search" && searchSpan?.span.kind === "retriever",
+  );
+  transport.events.length = 0;
+
+  console.log("\nTest 7: Default client");
+  const laterTransport = createMemoryTransport();
+  const later = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport: laterTransport,
+  });
+  const ranked = (transport: typeof laterTransport) =>
+    transport.events.some(
+      (e) => e.event_type === "span" && e.attributes.span?.name === "rank",
+    );
+  await new Ranker().rank(["a", "b"]);
+  await observa.flush();
+  await later.flush();
+  check("the first client records the call", ranked(transport));
+  check("a later init() does not take over", !ranked(laterTransport));
+  await observa.end();
+  const next = init({
+    apiKey: "test-key",
+    tenantId: "test-tenant",
+    projectId: "test-project",
+    mode: "production",
+    transport: laterTransport,
+  });
+  await new Ranker().rank(["a", "b"]);
+  await next.flush();
+  check("after end(), the next init() is the default", ranked(laterTransport));
+  await later.end();
+  await next.end();
+
+  finish("wrap");
+}
+
+run(main);